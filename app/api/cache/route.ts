@@ -0,0 +1,89 @@
+/**
+ * LLM Response Cache API Route
+ * Reports cache statistics and allows explicit invalidation
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CACHE_NAMESPACES,
+  getCacheStats,
+  invalidateCache,
+  type CacheNamespace,
+  type CacheStats,
+} from '@/src/infrastructure/inference/responseCache';
+import { checkAdminAccess } from '@/src/infrastructure/utils/adminAccess';
+import type { ApiResponse } from '@/src/shared/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/cache
+ * Current cache statistics
+ */
+export async function GET(): Promise<NextResponse<ApiResponse<CacheStats>>> {
+  return NextResponse.json({
+    success: true,
+    data: getCacheStats(),
+  });
+}
+
+/**
+ * DELETE /api/cache?namespace=job-analysis&key=<sha256>
+ * Invalidate one entry, a namespace, or (without parameters) the whole cache
+ * Requires the admin token (see checkAdminAccess)
+ */
+export async function DELETE(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<{ removed: number }>>> {
+  const denial = checkAdminAccess(request.headers);
+  if (denial) {
+    return NextResponse.json({ success: false, error: denial.error }, { status: denial.status });
+  }
+
+  const namespace = request.nextUrl.searchParams.get('namespace');
+  const key = request.nextUrl.searchParams.get('key');
+
+  const namespaces = Object.values(CACHE_NAMESPACES) as string[];
+  if (namespace && !namespaces.includes(namespace)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Unknown cache namespace. Expected one of: ${namespaces.join(', ')}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (key && (!namespace || !/^[a-f0-9]{64}$/.test(key))) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'A cache key must be a sha256 hex digest and requires a namespace',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const removed = await invalidateCache(
+      (namespace as CacheNamespace | null) ?? undefined,
+      key ?? undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { removed },
+      message: 'Cache invalidated',
+    });
+  } catch (error) {
+    console.error('[API] /api/cache - Invalidation error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to invalidate cache',
+      },
+      { status: 500 }
+    );
+  }
+}
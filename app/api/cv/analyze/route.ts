@@ -6,7 +6,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { analyzeCVMatch } from '@/src/infrastructure/services/cvAnalyzer.service';
 import { analyzeJobDescription } from '@/src/infrastructure/services/jobAnalyzer.service';
-import type { ApiResponse } from '@/src/shared/types';
+import { runWithInferenceTrace } from '@/src/infrastructure/inference/inferenceTrace';
+import { summarizeUsage } from '@/src/infrastructure/inference/usageLedger';
+import type { ApiResponse, InferenceRecord } from '@/src/shared/types';
 import type { CVMatchAnalysis } from '@/src/infrastructure/services/cvAnalyzer.service';
 import type { JobAnalysis } from '@/src/infrastructure/services/jobAnalyzer.service';
 
@@ -21,13 +23,18 @@ export const maxDuration = 60;
 /**
  * POST /api/cv/analyze
  * Analyze CV match with job description
+ * asOf ("YYYY-MM", optional) is the month current roles count up to; it defaults to this month and is echoed in
+ * cvMatch.scoreBreakdown.asOf, so sending it back reproduces an earlier score
  */
 export async function POST(
   request: NextRequest
 ): Promise<NextResponse<ApiResponse<AnalyzeResponse>>> {
+  const inference: InferenceRecord[] = [];
+
   try {
     const body = await request.json();
     const { jobDescription, cvContent } = body;
+    const asOf = parseAsOf(body.asOf);
 
     if (!jobDescription || typeof jobDescription !== 'string') {
       return NextResponse.json(
@@ -49,11 +56,25 @@ export async function POST(
       );
     }
 
-    // Analyze job description first
-    const jobAnalysis = await analyzeJobDescription(jobDescription);
+    if (!asOf) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'asOf must be a month in YYYY-MM format',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { jobAnalysis, cvMatch } = await runWithInferenceTrace(inference, async () => {
+      // Analyze job description first
+      const jobAnalysis = await analyzeJobDescription(jobDescription);
+
+      // Analyze CV match
+      const cvMatch = await analyzeCVMatch(cvContent, jobDescription, jobAnalysis, asOf);
 
-    // Analyze CV match
-    const cvMatch = await analyzeCVMatch(cvContent, jobDescription, jobAnalysis);
+      return { jobAnalysis, cvMatch };
+    });
 
     return NextResponse.json({
       success: true,
@@ -62,6 +83,7 @@ export async function POST(
         cvMatch,
       },
       message: 'Analysis completed successfully',
+      metadata: { inference, usage: summarizeUsage(inference) },
     });
   } catch (error) {
     console.error('CV analysis error:', error);
@@ -73,8 +95,21 @@ export async function POST(
           error instanceof Error
             ? error.message
             : 'Failed to analyze CV. Please try again.',
+        metadata: { inference, usage: summarizeUsage(inference) },
       },
       { status: 500 }
     );
   }
 }
+
+/**
+ * As-of month from the request: this month when absent, null when malformed
+ */
+function parseAsOf(value: unknown): Date | null {
+  if (value === undefined || value === null) {
+    return new Date();
+  }
+  const match = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})$/) : null;
+  const month = match ? Number(match[2]) : 0;
+  return match && month >= 1 && month <= 12 ? new Date(Date.UTC(Number(match[1]), month - 1, 1)) : null;
+}
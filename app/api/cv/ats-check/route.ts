@@ -0,0 +1,62 @@
+/**
+ * ATS Check API Route
+ * Re-parses the PDF and DOCX downloads of a CV and reports what an applicant tracking system would lose
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { simulateATS } from '@/src/infrastructure/ats/atsSimulator';
+import type { ApiResponse, ATSExportFormat, ATSReport } from '@/src/shared/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const FORMATS: ATSExportFormat[] = ['pdf', 'docx'];
+
+/**
+ * POST /api/cv/ats-check
+ * Body: { content: string, formats?: ('pdf' | 'docx')[] }
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<ATSReport>>> {
+  try {
+    const body = await request.json();
+    const { content, formats = FORMATS } = body;
+
+    if (!content || typeof content !== 'string') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'CV content is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(formats) || formats.length === 0 || formats.some((format) => !FORMATS.includes(format))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Formats must be a list of: ${FORMATS.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = await simulateATS(content, formats);
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      message: 'ATS check completed successfully',
+    });
+  } catch (error) {
+    console.error('ATS check error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to check the CV exports. Please try again.',
+      },
+      { status: 500 }
+    );
+  }
+}
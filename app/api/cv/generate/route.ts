@@ -5,7 +5,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { generateCV } from '@/src/infrastructure/services/huggingface.service';
-import type { ApiResponse } from '@/src/shared/types';
+import { runWithInferenceTrace } from '@/src/infrastructure/inference/inferenceTrace';
+import { summarizeUsage } from '@/src/infrastructure/inference/usageLedger';
+import type { ApiResponse, InferenceRecord } from '@/src/shared/types';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60; // 60 seconds timeout
@@ -17,6 +19,7 @@ export const maxDuration = 60; // 60 seconds timeout
 export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<string>>> {
   const requestId = `cv-${Date.now()}-${Math.random().toString(36).substring(7)}`;
   const startTime = Date.now();
+  const inference: InferenceRecord[] = [];
   
   console.log(`[API] [${requestId}] POST /api/cv/generate - CV generation requested`);
   
@@ -55,16 +58,25 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
     console.log(`[API] [${requestId}] ✅ Validation passed, starting CV generation...`);
     
     // Generate CV with job analysis if available
-    const optimizedCV = await generateCV(jobDescription, cvData, jobAnalysis);
+    const optimizedCV = await runWithInferenceTrace(inference, () =>
+      generateCV(jobDescription, cvData, jobAnalysis)
+    );
 
     const totalTime = Date.now() - startTime;
     console.log(`[API] [${requestId}] ✅ CV generation completed in ${totalTime}ms`);
     console.log(`[API] [${requestId}] Generated CV length: ${optimizedCV.length} characters`);
+    console.log(`[API] [${requestId}] Answered by: ${inference.map((r) => r.model).join(', ')}`);
+
+    const usage = summarizeUsage(inference);
+    console.log(
+      `[API] [${requestId}] Usage: ${usage.inputTokens} in / ${usage.outputTokens} out tokens, ~$${usage.estimatedCostUsd}`
+    );
 
     return NextResponse.json({
       success: true,
       data: optimizedCV,
       message: 'CV generated successfully',
+      metadata: { inference, usage },
     });
   } catch (error) {
     const totalTime = Date.now() - startTime;
@@ -77,6 +89,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
           error instanceof Error
             ? error.message
             : 'Failed to generate CV. Please try again.',
+        metadata: { inference, usage: summarizeUsage(inference) },
       },
       { status: 500 }
     );
@@ -0,0 +1,199 @@
+/**
+ * Streaming CV Generation API Route
+ * Streams the generated CV over Server-Sent Events with phase and progress events
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { streamCV } from '@/src/infrastructure/services/huggingface.service';
+import { analyzeJobDescription } from '@/src/infrastructure/services/jobAnalyzer.service';
+import { runWithInferenceTrace } from '@/src/infrastructure/inference/inferenceTrace';
+import { summarizeUsage } from '@/src/infrastructure/inference/usageLedger';
+import { GENERATION_PROGRESS } from '@/src/shared/constants';
+import { encodeSSE } from '@/src/shared/utils/sse';
+import type { ApiResponse, GenerationStreamEvent, InferenceRecord } from '@/src/shared/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // Streaming keeps the connection busy, not blocked
+
+/**
+ * Common CV section names, used to report which section is being drafted
+ */
+const SECTION_NAMES = [
+  'summary',
+  'professional summary',
+  'profile',
+  'objective',
+  'experience',
+  'work experience',
+  'professional experience',
+  'employment history',
+  'education',
+  'skills',
+  'technical skills',
+  'core competencies',
+  'certifications',
+  'projects',
+  'languages',
+  'achievements',
+  'awards',
+  'publications',
+  'volunteer experience',
+  'interests',
+  'references',
+];
+
+/**
+ * Detect a section heading line (markdown heading, bold line or ALL CAPS)
+ */
+function detectSectionHeading(line: string): string | null {
+  const cleaned = line
+    .trim()
+    .replace(/^#+\s*/, '')
+    .replace(/^\*\*(.+)\*\*$/, '$1')
+    .replace(/:$/, '')
+    .trim();
+
+  if (!cleaned || cleaned.length > 40) {
+    return null;
+  }
+
+  if (SECTION_NAMES.includes(cleaned.toLowerCase())) {
+    return cleaned.charAt(0).toUpperCase() + cleaned.slice(1).toLowerCase();
+  }
+  return null;
+}
+
+/**
+ * Map streamed characters to a progress value between analysis and completion
+ */
+function draftingProgress(generatedLength: number): number {
+  const span = GENERATION_PROGRESS.DRAFTING_MAX - GENERATION_PROGRESS.ANALYSIS_DONE;
+  const ratio = Math.min(1, generatedLength / GENERATION_PROGRESS.EXPECTED_CV_LENGTH);
+  return Math.round(GENERATION_PROGRESS.ANALYSIS_DONE + ratio * span);
+}
+
+/**
+ * POST /api/cv/generate/stream
+ * Same input as /api/cv/generate; the job is analyzed first when no jobAnalysis is given
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  const requestId = `cvs-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  const startTime = Date.now();
+
+  console.log(`[API] [${requestId}] POST /api/cv/generate/stream - Streaming CV generation requested`);
+
+  const body = await request.json().catch(() => null);
+  const { jobDescription, cvData, jobAnalysis } = body ?? {};
+
+  // Validate input before opening the stream so errors keep the JSON contract
+  if (!jobDescription || typeof jobDescription !== 'string') {
+    return NextResponse.json<ApiResponse<never>>(
+      {
+        success: false,
+        error: 'Job description is required and must be a string',
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!cvData || typeof cvData !== 'string') {
+    return NextResponse.json<ApiResponse<never>>(
+      {
+        success: false,
+        error: 'CV data is required and must be a string',
+      },
+      { status: 400 }
+    );
+  }
+
+  const inference: InferenceRecord[] = [];
+  const encoder = new TextEncoder();
+  // Aborted when the client goes away, so the provider stops generating tokens nobody reads
+  const abort = new AbortController();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // A cancelled stream must not be written to or closed again
+      const send = (event: GenerationStreamEvent) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(encodeSSE(event.type, event)));
+        }
+      };
+      const close = () => {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      };
+
+      try {
+        await runWithInferenceTrace(inference, async () => {
+          let analysis = jobAnalysis;
+          if (!analysis) {
+            send({ type: 'phase', phase: 'analyzing', progress: 5 });
+            analysis = await analyzeJobDescription(jobDescription);
+          }
+
+          send({ type: 'phase', phase: 'drafting', progress: GENERATION_PROGRESS.ANALYSIS_DONE });
+
+          let cv = '';
+          let currentLine = '';
+          for await (const chunk of streamCV(jobDescription, cvData, analysis, abort.signal)) {
+            // Providers that cannot be cancelled are stopped here
+            abort.signal.throwIfAborted();
+            cv += chunk;
+            const progress = draftingProgress(cv.length);
+            send({ type: 'token', text: chunk, progress });
+
+            // Report a new phase whenever a completed line is a section heading
+            const lines = (currentLine + chunk).split('\n');
+            currentLine = lines.pop() ?? '';
+            for (const line of lines) {
+              const section = detectSectionHeading(line);
+              if (section) {
+                send({ type: 'phase', phase: 'drafting', section, progress });
+              }
+            }
+          }
+
+          send({ type: 'phase', phase: 'finalizing', progress: GENERATION_PROGRESS.DRAFTING_MAX });
+          send({ type: 'done', cv, metadata: { inference, usage: summarizeUsage(inference) } });
+
+          console.log(
+            `[API] [${requestId}] ✅ Streamed ${cv.length} characters in ${Date.now() - startTime}ms`
+          );
+        });
+      } catch (error) {
+        if (abort.signal.aborted) {
+          console.log(`[API] [${requestId}] ⏹️ Client disconnected after ${Date.now() - startTime}ms`);
+          return;
+        }
+        console.error(`[API] [${requestId}] ❌ Streaming generation error:`, error);
+        send({
+          type: 'error',
+          error:
+            error instanceof Error
+              ? error.message
+              : 'Failed to generate CV. Please try again.',
+          metadata: { inference, usage: summarizeUsage(inference) },
+        });
+      } finally {
+        close();
+      }
+    },
+
+    cancel() {
+      closed = true;
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * CV Import API Route
+ * Maps structured CV exports (JSON Resume, LinkedIn data export) straight into CVData
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse, CVImportResult } from '@/src/shared/types';
+import { DocumentError } from '@/src/infrastructure/documents/documentErrors';
+import { importCV } from '@/src/infrastructure/importers/cvImporter';
+import { MAX_IMPORT_FILE_SIZE } from '@/src/shared/constants';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+/**
+ * POST /api/cv/import
+ * Import a resume.json or a LinkedIn data export ZIP sent as the "file" form field
+ * No LLM is involved; warnings list parts of the export that were missing
+ * Rejected imports carry an UploadErrorCode in `code`
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<CVImportResult>>> {
+  const requestId = `import-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      console.error(`[API] [${requestId}] No file provided`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No file provided',
+          code: 'NO_FILE',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      console.error(`[API] [${requestId}] ❌ Import too large: ${file.size} bytes`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: `File size must be less than ${MAX_IMPORT_FILE_SIZE / (1024 * 1024)}MB`,
+          code: 'FILE_TOO_LARGE',
+        },
+        { status: 413 }
+      );
+    }
+
+    console.log(`[API] [${requestId}] CV import:`, { name: file.name, type: file.type, size: file.size });
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    let result: CVImportResult;
+    try {
+      result = await importCV(buffer, file.name);
+    } catch (importError) {
+      if (importError instanceof DocumentError) {
+        console.error(`[API] [${requestId}] ❌ ${importError.code}: ${importError.message}`);
+        return NextResponse.json(
+          {
+            success: false,
+            error: importError.message,
+            code: importError.code,
+          },
+          { status: importError.status }
+        );
+      }
+      throw importError;
+    }
+
+    const { cvData, source, warnings } = result;
+    console.log(
+      `[API] [${requestId}] ✅ Imported ${source}: ${cvData.experience.length} experience, ` +
+        `${cvData.education.length} education, ${cvData.skills.length} skills`
+    );
+    if (warnings.length > 0) {
+      console.warn(`[API] [${requestId}] ⚠️ Import warnings:`, warnings);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: 'CV imported successfully',
+    });
+  } catch (error) {
+    console.error(`[API] [${requestId}] ❌ CV import error:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? `Failed to import CV: ${error.message}` : 'Failed to import CV',
+        code: 'PARSE_FAILED',
+      },
+      { status: 500 }
+    );
+  }
+}
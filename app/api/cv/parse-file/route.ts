@@ -1,33 +1,65 @@
 /**
  * File Parsing API Route
- * Handles PDF, DOCX, and TXT file parsing on the server
+ * Reads uploaded CVs (PDF, DOCX, DOC, ODT, RTF, HTML, Markdown, TXT) and structures the text into CVData
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import mammoth from 'mammoth';
-import type { ApiResponse } from '@/src/shared/types';
-import { parsePDF } from '@/src/infrastructure/utils/pdfParser';
+import type { ApiResponse, InferenceRecord, ParsedCVFile, ParsedDocument } from '@/src/shared/types';
+import { DocumentError } from '@/src/infrastructure/documents/documentErrors';
+import { parseDocument } from '@/src/infrastructure/documents/documentParser';
+import { parseCV } from '@/src/infrastructure/services/cvParser.service';
+import { runWithInferenceTrace } from '@/src/infrastructure/inference/inferenceTrace';
+import { summarizeUsage } from '@/src/infrastructure/inference/usageLedger';
+import { MAX_FILE_SIZE, UPLOAD_LIMITS } from '@/src/shared/constants';
 
 export const runtime = 'nodejs';
-export const maxDuration = 30;
+export const maxDuration = 120;
+
+/**
+ * Answer for uploads over MAX_FILE_SIZE
+ */
+function fileTooLarge(): NextResponse<ApiResponse<ParsedCVFile>> {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `File size must be less than ${MAX_FILE_SIZE / (1024 * 1024)}MB`,
+      code: 'FILE_TOO_LARGE',
+    },
+    { status: 413 }
+  );
+}
 
 /**
  * POST /api/cv/parse-file
- * Parse uploaded file and return text content
+ * Parse uploaded file and return its text together with the structured CV
+ * Send refine=false in the form data to skip the LLM refinement pass
+ * The format is detected from the file content; warnings list anything that could not be read faithfully
+ * Scanned PDFs without a text layer are read with OCR; ocrUsed and ocr report that and its confidence
+ * Rejected uploads carry an UploadErrorCode in `code` (size, page count, zip bomb, timeout...)
+ * Oversized requests are refused by their Content-Length before the body is read
  */
-export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<string>>> {
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<ParsedCVFile>>> {
   const requestId = `parse-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  const inference: InferenceRecord[] = [];
   
   try {
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > MAX_FILE_SIZE + UPLOAD_LIMITS.MULTIPART_OVERHEAD_BYTES) {
+      console.error(`[API] [${requestId}] ❌ Request too large: ${contentLength} bytes`);
+      return fileTooLarge();
+    }
+
     const formData = await request.formData();
-    const file = formData.get('file') as File;
+    const file = formData.get('file');
+    const refine = formData.get('refine') !== 'false';
 
-    if (!file) {
+    if (!(file instanceof File)) {
       console.error(`[API] [${requestId}] No file provided`);
       return NextResponse.json(
         {
           success: false,
           error: 'No file provided',
+          code: 'NO_FILE',
         },
         { status: 400 }
       );
@@ -43,56 +75,45 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       size: fileSize,
       extension: fileName.substring(fileName.lastIndexOf('.')),
     });
-    
-    let text = '';
 
-    // Parse based on file type
-    if (fileType === 'application/pdf' || fileName.endsWith('.pdf')) {
-      console.log(`[API] [${requestId}] Parsing PDF file...`);
-      try {
-        const arrayBuffer = await file.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-        console.log(`[API] [${requestId}] PDF buffer size: ${buffer.length} bytes`);
-        
-        text = await parsePDF(buffer);
-        console.log(`[API] [${requestId}] ✅ PDF parsed successfully, extracted ${text.length} characters`);
-      } catch (pdfError) {
-        console.error(`[API] [${requestId}] ❌ PDF parsing error:`, pdfError);
-        throw new Error(
-          `Failed to parse PDF: ${pdfError instanceof Error ? pdfError.message : 'Unknown error'}. ` +
-          'Please ensure the PDF is not password-protected or corrupted.'
+    if (fileSize > MAX_FILE_SIZE) {
+      console.error(`[API] [${requestId}] ❌ File too large: ${fileSize} bytes`);
+      return fileTooLarge();
+    }
+    
+    const buffer = Buffer.from(await file.arrayBuffer());
+    let document: ParsedDocument;
+    try {
+      document = await parseDocument(buffer, file.name, fileType);
+    } catch (parseError) {
+      if (parseError instanceof DocumentError) {
+        console.error(`[API] [${requestId}] ❌ ${parseError.code}: ${parseError.message} (${fileType}, ${fileName})`);
+        return NextResponse.json(
+          {
+            success: false,
+            error: parseError.message,
+            code: parseError.code,
+          },
+          { status: parseError.status }
         );
       }
-    } else if (
-      fileType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-      fileName.endsWith('.docx')
-    ) {
-      const arrayBuffer = await file.arrayBuffer();
-      const result = await mammoth.extractRawText({ arrayBuffer });
-      text = result.value;
-    } else if (fileType === 'text/plain' || fileName.endsWith('.txt')) {
-      console.log(`[API] [${requestId}] Parsing TXT file...`);
-      const arrayBuffer = await file.arrayBuffer();
-      text = Buffer.from(arrayBuffer).toString('utf-8');
-      console.log(`[API] [${requestId}] ✅ TXT parsed successfully, extracted ${text.length} characters`);
-    } else if (fileType === 'application/msword' || fileName.endsWith('.doc')) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Legacy .doc files are not supported. Please convert to .docx or PDF.',
-        },
-        { status: 400 }
-      );
-    } else {
-      console.error(`[API] [${requestId}] ❌ Unsupported file type: ${fileType} (${fileName})`);
-      return NextResponse.json(
-        {
-          success: false,
-          error: `Unsupported file type: ${fileType}. Please upload a PDF, DOCX, or TXT file.`,
-        },
-        { status: 400 }
+      throw parseError;
+    }
+
+    const { text, links, ocr, format, warnings } = document;
+    console.log(
+      `[API] [${requestId}] ✅ Read as ${format}: ${text.length} characters, ` +
+        `${document.sections.length} sections, ${links.length} links`
+    );
+    if (ocr) {
+      console.log(
+        `[API] [${requestId}] 🔍 Read with OCR: confidence ${Math.round(ocr.confidence * 100)}% over ` +
+          `${ocr.pages.length} page(s)${ocr.pagesSkipped > 0 ? `, ${ocr.pagesSkipped} skipped` : ''}`
       );
     }
+    if (warnings.length > 0) {
+      console.warn(`[API] [${requestId}] ⚠️ Document warnings:`, warnings);
+    }
 
     if (!text || text.trim().length === 0) {
       console.error(`[API] [${requestId}] ❌ File appears to be empty after parsing`);
@@ -100,16 +121,28 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
         {
           success: false,
           error: 'File appears to be empty or could not be parsed. Please ensure the file contains text content.',
+          code: 'EMPTY_DOCUMENT',
         },
-        { status: 400 }
+        { status: 422 }
       );
     }
 
     console.log(`[API] [${requestId}] ✅ File parsed successfully: ${text.length} characters extracted`);
+
+    const cv = await runWithInferenceTrace(inference, () =>
+      parseCV(text, { refine, links, sourceConfidence: ocr?.confidence })
+    );
+    console.log(
+      `[API] [${requestId}] ✅ CV structured (${cv.refined ? 'refined' : 'heuristics only'}): ` +
+        `${cv.cvData.experience.length} experience, ${cv.cvData.education.length} education, ` +
+        `${cv.uncertainFields.length} uncertain fields`
+    );
+
     return NextResponse.json({
       success: true,
-      data: text,
+      data: { text, cv, format, warnings, ocrUsed: ocr !== undefined, ocr },
       message: 'File parsed successfully',
+      metadata: { inference, usage: summarizeUsage(inference) },
     });
   } catch (error) {
     console.error(`[API] [${requestId}] ❌ File parsing error:`, error);
@@ -121,6 +154,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
           error instanceof Error
             ? `Failed to parse file: ${error.message}`
             : 'Failed to parse file. Please ensure the file is not corrupted.',
+        code: 'PARSE_FAILED',
       },
       { status: 500 }
     );
@@ -0,0 +1,80 @@
+/**
+ * Provider Health API Route
+ * Liveness from configuration for anyone, full health report with probes for admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  checkConfiguration,
+  findUnconfiguredModels,
+  runHealthCheck,
+} from '@/src/infrastructure/services/providerHealth.service';
+import { getCircuitSnapshots, type CircuitSnapshot } from '@/src/infrastructure/inference/circuitBreaker';
+import { checkAdminAccess } from '@/src/infrastructure/utils/adminAccess';
+import type { ApiResponse, ProviderHealthReport } from '@/src/shared/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120; // One probe per model in the fallback chain
+
+/**
+ * GET /api/health?probe=true&model=<id>
+ * Without probe the check reads configuration only, so load balancers and uptime checks can poll it for free
+ * probe=true verifies the token, discovers inference providers and sends a paid probe request per model;
+ * it requires the admin token (see checkAdminAccess), and model (repeatable) must name configured models
+ * Responds 503 when the provider is unhealthy
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ProviderHealthReport & { circuits: CircuitSnapshot[] }>>> {
+  const probe = request.nextUrl.searchParams.get('probe') === 'true';
+  const models = Array.from(new Set(request.nextUrl.searchParams.getAll('model').filter(Boolean)));
+
+  if (models.length > 0 && !probe) {
+    return NextResponse.json({ success: false, error: 'model can only be given with probe=true' }, { status: 400 });
+  }
+
+  const unknown = findUnconfiguredModels(models);
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { success: false, error: `Only configured models can be probed; unknown: ${unknown.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (probe) {
+    const denial = checkAdminAccess(request.headers);
+    if (denial) {
+      return NextResponse.json({ success: false, error: denial.error }, { status: denial.status });
+    }
+  }
+
+  try {
+    console.log(`[API] /api/health - ${probe ? 'Probing health check' : 'Liveness check'} requested`);
+
+    const report = probe
+      ? await runHealthCheck({ models: models.length > 0 ? models : undefined })
+      : checkConfiguration();
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...report,
+          circuits: getCircuitSnapshots(),
+        },
+        message: report.healthy ? 'Provider is healthy' : 'Provider is unhealthy',
+      },
+      { status: report.healthy ? 200 : 503 }
+    );
+  } catch (error) {
+    console.error('[API] /api/health - Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Health check failed',
+      },
+      { status: 500 }
+    );
+  }
+}
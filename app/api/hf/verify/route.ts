@@ -1,41 +1,37 @@
 /**
  * Hugging Face Connection Verification API Route
- * Tests the connection to Hugging Face API
+ * Tests the connection to the configured LLM provider via the shared health check
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyConnection, getConnectionStatus } from '@/src/infrastructure/services/huggingface.service';
-import type { ApiResponse } from '@/src/shared/types';
+import { checkAdminAccess } from '@/src/infrastructure/utils/adminAccess';
+import type { ApiResponse, ConnectionVerification } from '@/src/shared/types';
 
 export const runtime = 'nodejs';
-export const maxDuration = 30; // 30 seconds timeout
+export const maxDuration = 120; // One probe per model in the fallback chain
 
 /**
  * GET /api/hf/verify
  * Verify Hugging Face API connection
+ * Sends a paid probe request to every configured model, so it requires the admin token (see checkAdminAccess)
  */
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<{
-  connected: boolean;
-  tokenFound: boolean;
-  tokenPrefix: string;
-  providers?: Array<{
-    name: string;
-    enabled: boolean;
-    active: boolean;
-    status?: string;
-  }>;
-  error?: string;
-  timestamp: Date;
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<ConnectionVerification & {
   status: {
     initialized: boolean;
     lastCheck: Date | null;
   };
 }>>> {
+  const denial = checkAdminAccess(request.headers);
+  if (denial) {
+    return NextResponse.json({ success: false, error: denial.error }, { status: denial.status });
+  }
+
   try {
     console.log('[API] /api/hf/verify - Connection verification requested');
     
-    const connectionStatus = getConnectionStatus();
     const verification = await verifyConnection();
+    const connectionStatus = getConnectionStatus();
     
     return NextResponse.json({
       success: true,
@@ -0,0 +1,96 @@
+/**
+ * Job Analysis API Route
+ * Analyzes a job description on its own, before there is a CV to match it against
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeJobDescription } from '@/src/infrastructure/services/jobAnalyzer.service';
+import { enrichJobDescription } from '@/src/infrastructure/jobs/jobEnricher';
+import { runWithInferenceTrace } from '@/src/infrastructure/inference/inferenceTrace';
+import { summarizeUsage } from '@/src/infrastructure/inference/usageLedger';
+import type { ApiResponse, InferenceRecord, JobAnalysisResult, JobDescription } from '@/src/shared/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * POST /api/job/analyze
+ * Send { jobDescription } as the posting text or a JobDescription record
+ * Returns the analysis and the record with title, company and requirements filled in where found
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<JobAnalysisResult>>> {
+  const requestId = `job-analyze-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  const inference: InferenceRecord[] = [];
+
+  try {
+    const body = await request.json();
+    const { jobDescription } = body;
+
+    const record: Partial<JobDescription> | undefined =
+      typeof jobDescription === 'string'
+        ? { content: jobDescription }
+        : jobDescription && typeof jobDescription === 'object'
+          ? jobDescription
+          : undefined;
+
+    if (!record || typeof record.content !== 'string' || !record.content.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Job description is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    const content = record.content.trim();
+    console.log(`[API] [${requestId}] Job analysis requested: ${content.length} characters`);
+
+    const jobAnalysis = await runWithInferenceTrace(inference, () => analyzeJobDescription(content));
+    const enriched = enrichJobDescription(
+      {
+        id: typeof record.id === 'string' ? record.id : `job-${Date.now()}`,
+        content,
+        title: typeof record.title === 'string' ? record.title : undefined,
+        company: typeof record.company === 'string' ? record.company : undefined,
+        requirements: Array.isArray(record.requirements)
+          ? record.requirements.filter((requirement): requirement is string => typeof requirement === 'string')
+          : undefined,
+        createdAt: typeof record.createdAt === 'string' ? record.createdAt : new Date().toISOString(),
+      },
+      jobAnalysis
+    );
+
+    console.log(
+      `[API] [${requestId}] ✅ Analyzed job: "${enriched.title ?? 'untitled'}" at ` +
+        `${enriched.company ?? 'unknown company'}, ${enriched.requirements?.length ?? 0} requirements, ` +
+        `${jobAnalysis.candidateProfile.keySkills.length} key skills`
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        jobDescription: enriched,
+        jobAnalysis,
+      },
+      message: 'Job analysis completed successfully',
+      metadata: { inference, usage: summarizeUsage(inference) },
+    });
+  } catch (error) {
+    console.error(`[API] [${requestId}] ❌ Job analysis error:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to analyze job description. Please try again.',
+        metadata: { inference, usage: summarizeUsage(inference) },
+      },
+      { status: 500 }
+    );
+  }
+}
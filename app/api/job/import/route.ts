@@ -0,0 +1,102 @@
+/**
+ * Job Import API Route
+ * Reads a job posting from a URL or an uploaded HTML page into a JobDescription
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse, JobImportResult } from '@/src/shared/types';
+import { decodeText } from '@/src/infrastructure/documents/formatDetector';
+import { importJobFromHTML, importJobFromURL, JobImportError } from '@/src/infrastructure/jobs/jobImporter';
+import { MAX_FILE_SIZE } from '@/src/shared/constants';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+/**
+ * POST /api/job/import
+ * Send JSON { url } to fetch a posting, or form data with a saved page as "file"
+ * schema.org JobPosting JSON-LD is used when the page has it, otherwise the page's main text
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<JobImportResult>>> {
+  const requestId = `job-import-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+
+  try {
+    let result: JobImportResult;
+
+    if ((request.headers.get('content-type') ?? '').includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'No file provided',
+          },
+          { status: 400 }
+        );
+      }
+      if (file.size > MAX_FILE_SIZE) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `File size must be less than ${MAX_FILE_SIZE / (1024 * 1024)}MB`,
+          },
+          { status: 413 }
+        );
+      }
+
+      console.log(`[API] [${requestId}] Job import from file:`, { name: file.name, size: file.size });
+      result = importJobFromHTML(decodeText(Buffer.from(await file.arrayBuffer())));
+    } else {
+      const { url } = await request.json();
+      if (!url || typeof url !== 'string') {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'A job posting URL is required',
+          },
+          { status: 400 }
+        );
+      }
+
+      console.log(`[API] [${requestId}] Job import from URL: ${url}`);
+      result = await importJobFromURL(url);
+    }
+
+    const { jobDescription, source, warnings } = result;
+    console.log(
+      `[API] [${requestId}] ✅ Imported job (${source}): "${jobDescription.title ?? 'untitled'}" at ` +
+        `${jobDescription.company ?? 'unknown company'}, ${jobDescription.content.length} characters, ` +
+        `${jobDescription.requirements?.length ?? 0} requirements`
+    );
+    if (warnings.length > 0) {
+      console.warn(`[API] [${requestId}] ⚠️ Import warnings:`, warnings);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: 'Job posting imported successfully',
+    });
+  } catch (error) {
+    if (error instanceof JobImportError) {
+      console.error(`[API] [${requestId}] ❌ ${error.message}`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error(`[API] [${requestId}] ❌ Job import error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? `Failed to import job posting: ${error.message}` : 'Failed to import job posting',
+      },
+      { status: 500 }
+    );
+  }
+}
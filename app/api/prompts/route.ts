@@ -0,0 +1,21 @@
+/**
+ * Prompt Registry API Route
+ * Lists every prompt template version and which one is active
+ */
+
+import { NextResponse } from 'next/server';
+import { listPrompts, type PromptSummary } from '@/src/infrastructure/prompts/promptRegistry';
+import type { ApiResponse } from '@/src/shared/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/prompts
+ * Active versions follow PROMPT_VERSIONS pins, otherwise the latest version
+ */
+export async function GET(): Promise<NextResponse<ApiResponse<PromptSummary[]>>> {
+  return NextResponse.json({
+    success: true,
+    data: listPrompts(),
+  });
+}
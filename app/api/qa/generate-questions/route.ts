@@ -4,9 +4,19 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { generateText } from '@/src/infrastructure/services/huggingface.service';
+import { generateStructured } from '@/src/infrastructure/inference/structuredOutput';
+import { generatedQuestionsSchema } from '@/src/infrastructure/inference/schemas';
+import { renderPromptWithinBudget } from '@/src/infrastructure/inference/tokenBudget';
 import { HUGGINGFACE_MODELS } from '@/src/shared/constants';
-import type { ApiResponse } from '@/src/shared/types';
+import { runWithInferenceTrace } from '@/src/infrastructure/inference/inferenceTrace';
+import { summarizeUsage } from '@/src/infrastructure/inference/usageLedger';
+import {
+  classifyRequirement,
+  formatRequirement,
+  requirementsOf,
+  sortByPriority,
+} from '@/src/infrastructure/jobs/requirementClassifier';
+import type { ApiResponse, ClassifiedRequirement, InferenceRecord, RequirementCategory } from '@/src/shared/types';
 import type { QuestionType } from '@/src/shared/types';
 import type { JobAnalysis } from '@/src/infrastructure/services/jobAnalyzer.service';
 import type { CVMatchAnalysis } from '@/src/infrastructure/services/cvAnalyzer.service';
@@ -25,6 +35,33 @@ export interface GenerateQuestionsResponse {
   totalQuestions: number;
 }
 
+/**
+ * Question type and wording for a requirement the CV does not show, by category
+ */
+const REQUIREMENT_QUESTIONS: Record<RequirementCategory, { type: QuestionType; ask: (text: string) => string }> = {
+  skill: { type: 'skills', ask: (text) => `The role asks for "${text}". Can you describe a project where you did this?` },
+  experience: {
+    type: 'experience',
+    ask: (text) => `The role asks for "${text}". How long have you worked in this area, and in which roles?`,
+  },
+  education: {
+    type: 'education',
+    ask: (text) => `The role asks for "${text}". Which of your qualifications meet this?`,
+  },
+  certification: {
+    type: 'certifications',
+    ask: (text) => `The role asks for "${text}". Do you hold this certification, or are you working towards it?`,
+  },
+  language: {
+    type: 'languages',
+    ask: (text) => `The role asks for "${text}". Which languages do you speak, and at what level?`,
+  },
+  location: {
+    type: 'personal_info',
+    ask: (text) => `The role requires "${text}". Does this apply to you?`,
+  },
+};
+
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
@@ -35,6 +72,8 @@ export const maxDuration = 60;
 export async function POST(
   request: NextRequest
 ): Promise<NextResponse<ApiResponse<GenerateQuestionsResponse>>> {
+  const inference: InferenceRecord[] = [];
+
   try {
     const body = await request.json();
     const { jobAnalysis, cvMatch, cvContent } = body;
@@ -49,23 +88,25 @@ export async function POST(
       );
     }
 
-    // Extract information from CV if provided
-    let extractedCVInfo: ExtractedCVInfo | undefined;
-    if (cvContent && typeof cvContent === 'string' && cvContent.trim().length > 0) {
-      try {
-        extractedCVInfo = await extractCVInfo(cvContent);
-      } catch (error) {
-        console.error('Failed to extract CV info:', error);
-        // Continue without extracted info
+    const questions = await runWithInferenceTrace(inference, async () => {
+      // Extract information from CV if provided
+      let extractedCVInfo: ExtractedCVInfo | undefined;
+      if (cvContent && typeof cvContent === 'string' && cvContent.trim().length > 0) {
+        try {
+          extractedCVInfo = await extractCVInfo(cvContent);
+        } catch (error) {
+          console.error('Failed to extract CV info:', error);
+          // Continue without extracted info
+        }
       }
-    }
 
-    // Generate questions using AI, skipping information already in CV
-    const questions = await generateQuestionsFromAnalysis(
-      jobAnalysis as JobAnalysis,
-      cvMatch as CVMatchAnalysis | undefined,
-      extractedCVInfo
-    );
+      // Generate questions using AI, skipping information already in CV
+      return generateQuestionsFromAnalysis(
+        jobAnalysis as JobAnalysis,
+        cvMatch as CVMatchAnalysis | undefined,
+        extractedCVInfo
+      );
+    });
 
     return NextResponse.json({
       success: true,
@@ -74,6 +115,7 @@ export async function POST(
         totalQuestions: questions.length,
       },
       message: 'Questions generated successfully',
+      metadata: { inference, usage: summarizeUsage(inference) },
     });
   } catch (error) {
     console.error('Question generation error:', error);
@@ -85,6 +127,7 @@ export async function POST(
           error instanceof Error
             ? error.message
             : 'Failed to generate questions. Please try again.',
+        metadata: { inference, usage: summarizeUsage(inference) },
       },
       { status: 500 }
     );
@@ -100,6 +143,9 @@ async function generateQuestionsFromAnalysis(
   cvMatch?: CVMatchAnalysis,
   extractedCVInfo?: ExtractedCVInfo
 ): Promise<GeneratedQuestion[]> {
+  const requirements = sortByPriority(requirementsOf(jobAnalysis));
+  const gaps = requirementGaps(requirements, cvMatch);
+
   // Build context about what's already in the CV
   const cvContext = extractedCVInfo ? `
 CV Information Already Available:
@@ -118,68 +164,78 @@ For example:
 No CV uploaded - ask for all information including personal details, experience, education, and skills.
 `;
 
-  const prompt = `You are a professional recruiter. Generate 10-15 specific questions to gather information for creating an optimized CV.
-
-Job Analysis:
-- Business Type: ${jobAnalysis.businessType}
-- Industry: ${jobAnalysis.industry}
-- Required Skills: ${jobAnalysis.candidateProfile.keySkills.join(', ')}
-- Key Requirements: ${jobAnalysis.keyRequirements.join('; ')}
-- Values: ${jobAnalysis.values.join(', ')}
-- Writing Style: ${jobAnalysis.writingStyle}
-- Domain Standards: ${jobAnalysis.domainStandards}
-
-${cvMatch ? `CV Match Score: ${cvMatch.matchScore}%
+  const prompt = renderPromptWithinBudget(
+    'question-generation',
+    {
+      businessType: jobAnalysis.businessType,
+      industry: jobAnalysis.industry,
+      keySkills: jobAnalysis.candidateProfile.keySkills.join(', '),
+      keyRequirements: requirements.map(formatRequirement).join('; '),
+      values: jobAnalysis.values.join(', '),
+      writingStyle: jobAnalysis.writingStyle,
+      domainStandards: jobAnalysis.domainStandards,
+      matchContext: cvMatch
+        ? `CV Match Score: ${cvMatch.matchScore}%
 Missing Skills: ${cvMatch.missingSkills.join(', ')}
-Missing Requirements: ${cvMatch.missingRequirements.join('; ')}` : ''}
-
-${cvContext}
-
-Generate 10-15 questions that will help gather MISSING information:
-${extractedCVInfo?.hasPersonalInfo ? '- SKIP personal information (name, email, location) - already in CV' : '- Personal information (name, email, location) - NOT in CV'}
-${extractedCVInfo?.hasExperience ? '- Focus on experience DETAILS, achievements, metrics - basic experience is in CV' : '- Experience details - NOT in CV'}
-${extractedCVInfo?.hasEducation ? '- SKIP basic education - already in CV' : '- Education - NOT in CV'}
-${extractedCVInfo?.hasSkills ? '- Focus on missing skills or deeper expertise - basic skills are in CV' : '- Skills - NOT in CV'}
-- Achievements and impact metrics (always ask if not detailed)
-- Domain-specific experience
-- Values alignment
-- Certifications (if relevant)
-
-Format as JSON array:
-[
-  {
-    "type": "experience|skills|education|personal_info|certifications|summary",
-    "question": "The question text",
-    "purpose": "Why this question is important",
-    "priority": "high|medium|low"
-  }
-]
-
-Make questions specific to the job requirements. Focus on getting concrete examples, metrics, and achievements. DO NOT duplicate information already in the CV.`;
+Missing Requirements: ${gaps.map(formatRequirement).join('; ')}`
+        : '',
+      cvContext,
+      focusInstructions: [
+        extractedCVInfo?.hasPersonalInfo
+          ? '- SKIP personal information (name, email, location) - already in CV'
+          : '- Personal information (name, email, location) - NOT in CV',
+        extractedCVInfo?.hasExperience
+          ? '- Focus on experience DETAILS, achievements, metrics - basic experience is in CV'
+          : '- Experience details - NOT in CV',
+        extractedCVInfo?.hasEducation
+          ? '- SKIP basic education - already in CV'
+          : '- Education - NOT in CV',
+        extractedCVInfo?.hasSkills
+          ? '- Focus on missing skills or deeper expertise - basic skills are in CV'
+          : '- Skills - NOT in CV',
+        '- Ask about missing [required] requirements first (high priority); [preferred] ones are medium, [bonus] ones low',
+      ].join('\n'),
+    },
+    {
+      model: HUGGINGFACE_MODELS.CV_GENERATION,
+      maxOutputTokens: 3000,
+      truncatable: ['cvContext'],
+    }
+  );
 
   try {
-    const response = await generateText(
-      prompt,
-      HUGGINGFACE_MODELS.CV_GENERATION,
-      3000
-    );
-
-    // Extract JSON array
-    const jsonMatch = response.match(/\[[\s\S]*\]/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]) as Omit<GeneratedQuestion, 'id'>[];
-      return parsed.map((q, index) => ({
-        ...q,
-        id: `q-${Date.now()}-${index}`,
-      }));
-    }
+    const parsed = await generateStructured({
+      prompt: prompt.text,
+      promptVersion: prompt.ref,
+      budget: prompt.budget,
+      schema: generatedQuestionsSchema,
+      label: 'question generation',
+      model: HUGGINGFACE_MODELS.CV_GENERATION,
+      maxLength: 3000,
+    });
 
-    // Fallback: generate default questions
-    return generateDefaultQuestions(jobAnalysis, cvMatch, extractedCVInfo);
+    return parsed.map((q, index) => ({
+      ...q,
+      id: `q-${Date.now()}-${index}`,
+    }));
   } catch (error) {
     console.error('Question generation error:', error);
-    return generateDefaultQuestions(jobAnalysis, cvMatch, extractedCVInfo);
+    return generateDefaultQuestions(jobAnalysis, cvMatch, extractedCVInfo, gaps);
+  }
+}
+
+/**
+ * Requirements worth asking about, required first
+ * With a CV match these are the requirements it did not show; without one, the requirements a CV
+ * rarely states on its own (certifications, languages, location and right to work)
+ */
+function requirementGaps(requirements: ClassifiedRequirement[], cvMatch?: CVMatchAnalysis): ClassifiedRequirement[] {
+  if (!cvMatch) {
+    return requirements.filter((r) => ['certification', 'language', 'location'].includes(r.category));
   }
+
+  const byText = new Map(requirements.map((r) => [r.text, r]));
+  return sortByPriority(cvMatch.missingRequirements.map((text) => byText.get(text) ?? classifyRequirement(text)));
 }
 
 /**
@@ -189,7 +245,8 @@ Make questions specific to the job requirements. Focus on getting concrete examp
 function generateDefaultQuestions(
   jobAnalysis: JobAnalysis,
   cvMatch?: CVMatchAnalysis,
-  extractedCVInfo?: ExtractedCVInfo
+  extractedCVInfo?: ExtractedCVInfo,
+  gaps: ClassifiedRequirement[] = []
 ): GeneratedQuestion[] {
   const questions: GeneratedQuestion[] = [];
 
@@ -243,6 +300,18 @@ function generateDefaultQuestions(
     });
   }
 
+  // Missing requirements, required ones first; bonus requirements are not worth a question
+  for (const gap of gaps.filter((r) => r.priority !== 'bonus').slice(0, 3)) {
+    const { type, ask } = REQUIREMENT_QUESTIONS[gap.category];
+    questions.push({
+      id: `q-${questions.length + 1}`,
+      type,
+      question: ask(gap.text),
+      purpose: `Cover ${gap.priority} requirement`,
+      priority: gap.priority === 'required' ? 'high' : 'medium',
+    });
+  }
+
   // Education questions - only if not in CV
   if (!extractedCVInfo?.hasEducation) {
     questions.push({
@@ -0,0 +1,55 @@
+/**
+ * Usage API Route
+ * Reports token, latency and cost aggregates of inference calls and allows resetting them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageReport, resetUsage } from '@/src/infrastructure/inference/usageLedger';
+import { checkAdminAccess } from '@/src/infrastructure/utils/adminAccess';
+import type { ApiResponse, UsageReport } from '@/src/shared/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/usage?recent=20
+ * Aggregates by feature and model since server start (or the last reset), plus the most recent calls
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<UsageReport>>> {
+  const recentParam = request.nextUrl.searchParams.get('recent');
+  const recent = recentParam === null ? undefined : Number(recentParam);
+
+  if (recent !== undefined && (!Number.isInteger(recent) || recent < 0)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'recent must be a non-negative integer',
+      },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: getUsageReport(recent),
+  });
+}
+
+/**
+ * DELETE /api/usage
+ * Reset the ledger, e.g. at the start of a budgeting period
+ * Requires the admin token (see checkAdminAccess)
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResponse<null>>> {
+  const denial = checkAdminAccess(request.headers);
+  if (denial) {
+    return NextResponse.json({ success: false, error: denial.error }, { status: denial.status });
+  }
+
+  resetUsage();
+
+  return NextResponse.json({
+    success: true,
+    data: null,
+    message: 'Usage ledger reset',
+  });
+}
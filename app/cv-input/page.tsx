@@ -2,7 +2,7 @@
 
 /**
  * CV Input Page
- * Allows users to either upload a CV or start a Q&A session
+ * Allows users to upload a CV, import a JSON Resume or LinkedIn export, or start a Q&A session
  * Includes CV analysis and automatic routing to chat if match score < 80%
  */
 
@@ -10,27 +10,107 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAppSelector, useAppDispatch } from '@/lib/hooks';
 import { setCVData, setRawCVContent } from '@/src/domain/slices/cvDataSlice';
+import { setJobAnalysis, setJobDescription } from '@/src/domain/slices/jobDescriptionSlice';
 import { initializeSession } from '@/src/domain/slices/qaSessionSlice';
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/src/presentation/components/ui/LoadingSpinner';
-import { MAX_FILE_SIZE } from '@/src/shared/constants';
+import {
+  ALLOWED_FILE_EXTENSIONS,
+  ALLOWED_FILE_TYPES,
+  API_ROUTES,
+  MAX_FILE_SIZE,
+  MAX_IMPORT_FILE_SIZE,
+  OCR_CONFIG,
+  UPLOAD_LIMITS,
+} from '@/src/shared/constants';
 // File parsing is now done via API route
-import type { CVData, QuestionType } from '@/src/shared/types';
+import type {
+  CVData,
+  CVImportResult,
+  JobAnalysisResult,
+  OCRReport,
+  ParsedCVFile,
+  QuestionType,
+  UploadErrorCode,
+} from '@/src/shared/types';
 import { cvStorage } from '@/src/shared/utils/storage';
 import type { AnalyzeResponse } from '@/app/api/cv/analyze/route';
 import type { ApiResponse } from '@/src/shared/types';
 
+const FIELD_LABELS: Record<string, string> = {
+  fullName: 'name',
+  email: 'email',
+  phone: 'phone',
+  location: 'location',
+  linkedIn: 'LinkedIn',
+  portfolio: 'portfolio',
+  summary: 'summary',
+  company: 'company',
+  position: 'job title',
+  startDate: 'start date',
+  endDate: 'end date',
+  description: 'description',
+  institution: 'school',
+  degree: 'degree',
+  field: 'field of study',
+  gpa: 'GPA',
+  name: 'name',
+  proficiency: 'level',
+};
+
+/**
+ * Friendlier wording for rejected uploads; anything not listed shows the server's message
+ */
+const UPLOAD_ERROR_MESSAGES: Partial<Record<UploadErrorCode, string>> = {
+  FILE_TOO_LARGE: 'That file is bigger than I can handle. Try a smaller one? 📦',
+  TOO_MANY_PAGES: `That's a lot of pages! I can read CVs of up to ${UPLOAD_LIMITS.MAX_PDF_PAGES} pages. 📚`,
+  ARCHIVE_TOO_LARGE: 'That file unpacks into way more data than a CV should. Is it the right file? 🤔',
+  PASSWORD_PROTECTED: "That file is password-protected. 🔒 Remove the password and try again?",
+  CORRUPT_FILE: 'That file looks damaged. Could you save or export it again and retry? 🩹',
+  EMPTY_DOCUMENT: "I couldn't find any text in that file. Is it the right one? 🤔",
+  PARSE_TIMEOUT: 'That file took too long to read. ⏳ A text-based PDF or Word file usually works better.',
+};
+
+/**
+ * Message to show for a failed upload or import response
+ */
+function uploadErrorMessage(result: ApiResponse<unknown>, fallback: string): string {
+  return (result.code && UPLOAD_ERROR_MESSAGES[result.code]) || result.error || fallback;
+}
+
+/**
+ * Human-readable label for a confidence path, e.g. 'experience.0.startDate' -> 'Experience 1: start date'
+ */
+function describeField(path: string): string {
+  const [section, index, field] = path.split('.');
+  const sectionLabel = section === 'personalInfo' ? 'Contact' : section.charAt(0).toUpperCase() + section.slice(1);
+  if (index === undefined) {
+    return sectionLabel;
+  }
+  if (field === undefined) {
+    return `${sectionLabel}: ${FIELD_LABELS[index] ?? index}`;
+  }
+  return `${sectionLabel} ${Number(index) + 1}: ${FIELD_LABELS[field] ?? field}`;
+}
+
 export default function CVInputPage() {
   const router = useRouter();
   const dispatch = useAppDispatch();
   const jobDescription = useAppSelector((state) => state.jobDescription.jobDescription);
+  const jobAnalysis = useAppSelector((state) => state.jobDescription.jobAnalysis);
   const cvData = useAppSelector((state) => state.cvData.cvData);
-  const [selectedOption, setSelectedOption] = useState<'upload' | 'qa' | null>(null);
+  const [selectedOption, setSelectedOption] = useState<'upload' | 'import' | 'qa' | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [file, setFile] = useState<File | null>(null);
   const [analysisResult, setAnalysisResult] = useState<AnalyzeResponse | null>(null);
+  const [uncertainFields, setUncertainFields] = useState<string[]>([]);
+  const [ocrReport, setOcrReport] = useState<OCRReport | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
   const [showAnalysis, setShowAnalysis] = useState(false);
 
   // Redirect if no job description
@@ -51,23 +131,15 @@ export default function CVInputPage() {
     setAnalysisResult(null);
     setShowAnalysis(false);
 
-    // Validate file type (now includes PDF and DOCX)
-    const validTypes = [
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'text/plain',
-    ];
-    const validExtensions = ['.pdf', '.doc', '.docx', '.txt'];
-
-    const isValidType = validTypes.includes(selectedFile.type);
-    const isValidExtension = validExtensions.some((ext) =>
+    // Validate file type (the server checks the actual content as well)
+    const isValidType = (ALLOWED_FILE_TYPES as readonly string[]).includes(selectedFile.type);
+    const isValidExtension = ALLOWED_FILE_EXTENSIONS.some((ext) =>
       selectedFile.name.toLowerCase().endsWith(ext)
     );
 
     if (!isValidType && !isValidExtension) {
       setUploadError(
-        `Sorry, but I can only read PDF, Word docs (.docx), or text files. Got ${selectedFile.name} instead. 🤷`
+        `Sorry, but I can only read PDF, Word (.docx or .doc), OpenDocument, RTF, HTML, Markdown or text files. Got ${selectedFile.name} instead. 🤷`
       );
       return;
     }
@@ -84,6 +156,45 @@ export default function CVInputPage() {
     setFile(selectedFile);
   };
 
+  /**
+   * Save the CV and analyze its match with the job description
+   */
+  const saveAndAnalyzeCV = async (cv: CVData, cvContent: string) => {
+    if (!jobDescription) return;
+
+    // Save to Redux and local storage
+    dispatch(setCVData(cv));
+    dispatch(setRawCVContent(cvContent));
+    cvStorage.set(cv);
+
+    setIsAnalyzing(true);
+    try {
+      const analyzeResponse = await fetch('/api/cv/analyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jobDescription: jobDescription.content,
+          cvContent,
+        }),
+      });
+
+      if (!analyzeResponse.ok) {
+        throw new Error('Failed to analyze CV');
+      }
+
+      const analyzeResult: ApiResponse<AnalyzeResponse> = await analyzeResponse.json();
+
+      if (!analyzeResult.success || !analyzeResult.data) {
+        throw new Error(analyzeResult.error || 'Analysis failed');
+      }
+
+      setAnalysisResult(analyzeResult.data);
+      setShowAnalysis(true);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
   /**
    * Handle file upload and analysis
    */
@@ -103,70 +214,95 @@ export default function CVInputPage() {
         body: formData,
       });
 
-      if (!parseResponse.ok) {
-        const errorData = await parseResponse.json();
-        throw new Error(errorData.error || 'Failed to parse file');
+      const parseResult: ApiResponse<ParsedCVFile> = await parseResponse.json();
+      if (!parseResponse.ok || !parseResult.success || !parseResult.data) {
+        throw new Error(uploadErrorMessage(parseResult, 'File parsing failed'));
       }
 
-      const parseResult: ApiResponse<string> = await parseResponse.json();
-      if (!parseResult.success || !parseResult.data) {
-        throw new Error(parseResult.error || 'File parsing failed');
-      }
-
-      const text = parseResult.data;
-
-      // Create CV data structure
-      const cvData: CVData = {
-        id: `cv-${Date.now()}`,
-        personalInfo: {
-          fullName: '',
-          email: '',
-        },
-        experience: [],
-        education: [],
-        skills: [],
-        rawContent: text,
-        createdAt: new Date().toISOString(),
-      };
-
-      // Save to Redux and local storage
-      dispatch(setCVData(cvData));
-      dispatch(setRawCVContent(text));
-      cvStorage.set(cvData);
-
+      const { text, cv, ocr } = parseResult.data;
+      setUncertainFields(cv.uncertainFields);
+      setOcrReport(ocr ?? null);
+      setImportWarnings([]);
       setIsUploading(false);
-      setIsAnalyzing(true);
 
       // Analyze CV match with job description
-      const analyzeResponse = await fetch('/api/cv/analyze', {
+      await saveAndAnalyzeCV({ ...cv.cvData, rawContent: text }, text);
+    } catch (err) {
+      setIsUploading(false);
+      setUploadError(
+        err instanceof Error
+          ? err.message
+          : "Oops! Couldn't read that file. Mind trying again? 😅"
+      );
+    }
+  };
+
+  /**
+   * Handle selection of a JSON Resume or LinkedIn data export
+   */
+  const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    setImportError(null);
+    setAnalysisResult(null);
+    setShowAnalysis(false);
+
+    if (!/\.(json|zip)$/i.test(selectedFile.name)) {
+      setImportError(
+        `I can import a JSON Resume (.json) or a LinkedIn data export (.zip). Got ${selectedFile.name} instead. 🤷`
+      );
+      return;
+    }
+
+    if (selectedFile.size > MAX_IMPORT_FILE_SIZE) {
+      setImportError(
+        `That export is ${(selectedFile.size / 1024 / 1024).toFixed(2)}MB. I can only handle up to ${
+          MAX_IMPORT_FILE_SIZE / 1024 / 1024
+        }MB. 📦`
+      );
+      return;
+    }
+
+    setImportFile(selectedFile);
+  };
+
+  /**
+   * Import the export straight into CVData (no LLM) and analyze it
+   */
+  const handleImport = async () => {
+    if (!importFile || !jobDescription) return;
+
+    setIsImporting(true);
+    setImportError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', importFile);
+
+      const importResponse = await fetch(API_ROUTES.IMPORT_CV, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jobDescription: jobDescription.content,
-          cvContent: text,
-        }),
+        body: formData,
       });
 
-      if (!analyzeResponse.ok) {
-        throw new Error('Failed to analyze CV');
+      const importResult: ApiResponse<CVImportResult> = await importResponse.json();
+      if (!importResponse.ok || !importResult.success || !importResult.data) {
+        throw new Error(uploadErrorMessage(importResult, 'Failed to import CV'));
       }
 
-      const analyzeResult: ApiResponse<AnalyzeResponse> = await analyzeResponse.json();
-      
-      if (!analyzeResult.success || !analyzeResult.data) {
-        throw new Error(analyzeResult.error || 'Analysis failed');
-      }
+      const { cvData: importedCV, warnings } = importResult.data;
+      setUncertainFields([]);
+      setOcrReport(null);
+      setImportWarnings(warnings);
+      setIsImporting(false);
 
-      setAnalysisResult(analyzeResult.data);
-      setShowAnalysis(true);
-      setIsAnalyzing(false);
+      await saveAndAnalyzeCV(importedCV, importedCV.rawContent ?? '');
     } catch (err) {
-      setIsUploading(false);
-      setIsAnalyzing(false);
-      setUploadError(
+      setIsImporting(false);
+      setImportError(
         err instanceof Error
           ? err.message
-          : "Oops! Couldn't read that file. Mind trying again? 😅"
+          : "Oops! Couldn't import that file. Mind trying again? 😅"
       );
     }
   };
@@ -243,46 +379,49 @@ export default function CVInputPage() {
   const handleStartQA = async () => {
     if (!jobDescription) return;
 
-    // Analyze job description first to generate better questions
+    // Use the job analysis from the landing page, or analyze the job now (there is no CV to match yet)
     try {
-      const analyzeResponse = await fetch('/api/cv/analyze', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jobDescription: jobDescription.content,
-          cvContent: '', // No CV content for Q&A flow
-        }),
-      });
+      let currentAnalysis = jobAnalysis;
+      if (!currentAnalysis) {
+        const analyzeResponse = await fetch(API_ROUTES.ANALYZE_JOB, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jobDescription }),
+        });
+        const analyzeResult: ApiResponse<JobAnalysisResult> = await analyzeResponse.json();
+
+        if (analyzeResponse.ok && analyzeResult.success && analyzeResult.data) {
+          currentAnalysis = analyzeResult.data.jobAnalysis;
+          dispatch(setJobDescription(analyzeResult.data.jobDescription));
+          dispatch(setJobAnalysis(currentAnalysis));
+        }
+      }
 
-      if (analyzeResponse.ok) {
-        const analyzeResult: ApiResponse<AnalyzeResponse> = await analyzeResponse.json();
-        
-        if (analyzeResult.success && analyzeResult.data) {
-          // Generate questions from job analysis
-          const questionsResponse = await fetch('/api/qa/generate-questions', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              jobAnalysis: analyzeResult.data.jobAnalysis,
-            }),
-          });
-
-          if (questionsResponse.ok) {
-            const questionsResult: ApiResponse<{ questions: Array<{ type: string }> }> =
-              await questionsResponse.json();
-
-            if (questionsResult.success && questionsResult.data) {
-              dispatch(
-                initializeSession({
-                  jobDescriptionId: jobDescription.id,
-                  pendingQuestions: questionsResult.data.questions.map(
-                    (q) => q.type as any
-                  ),
-                })
-              );
-              router.push('/qa');
-              return;
-            }
+      if (currentAnalysis) {
+        // Generate questions from job analysis
+        const questionsResponse = await fetch('/api/qa/generate-questions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            jobAnalysis: currentAnalysis,
+          }),
+        });
+
+        if (questionsResponse.ok) {
+          const questionsResult: ApiResponse<{ questions: Array<{ type: string }> }> =
+            await questionsResponse.json();
+
+          if (questionsResult.success && questionsResult.data) {
+            dispatch(
+              initializeSession({
+                jobDescriptionId: jobDescription.id,
+                pendingQuestions: questionsResult.data.questions.map(
+                  (q) => q.type as any
+                ),
+              })
+            );
+            router.push('/qa');
+            return;
           }
         }
       }
@@ -322,14 +461,14 @@ export default function CVInputPage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-black text-white">
       <div className="container mx-auto px-4 py-16">
-        <div className="max-w-3xl mx-auto">
+        <div className="max-w-5xl mx-auto">
           {/* Header */}
           <div className="text-center mb-12">
             <h1 className="text-4xl md:text-5xl font-bold mb-4">
               Alright, let's get your CV! 📄
             </h1>
             <p className="text-lg text-gray-400">
-              You've got two options. Pick your poison. 😎
+              You&apos;ve got three options. Pick your poison. 😎
             </p>
           </div>
 
@@ -357,6 +496,38 @@ export default function CVInputPage() {
                       {analysisResult.cvMatch.matchScore}%
                     </span>
                   </div>
+                  <ul className="mt-3 space-y-1 text-sm">
+                    {analysisResult.cvMatch.scoreBreakdown.components
+                      .filter((component) => component.applicable)
+                      .map((component) => (
+                        <li
+                          key={component.id}
+                          className="flex justify-between text-gray-400"
+                          title={component.evidence.join('\n')}
+                        >
+                          <span>{component.label}</span>
+                          <span className="text-gray-300">
+                            {component.score}/100 · {component.points} pts
+                          </span>
+                        </li>
+                      ))}
+                  </ul>
+                  {analysisResult.cvMatch.scoreBreakdown.matching?.degraded && (
+                    <p className="mt-2 text-sm text-yellow-300">
+                      Requirements were matched with local word vectors because the embedding model was
+                      unavailable; this score may differ from a run with the model.
+                    </p>
+                  )}
+                  {analysisResult.cvMatch.experience?.seniority && (
+                    <p className="mt-2 text-sm text-gray-400">
+                      Experience: {analysisResult.cvMatch.experience.years} years, reads as{' '}
+                      {analysisResult.cvMatch.experience.seniority.label}
+                      {analysisResult.cvMatch.experience.requiredLevel &&
+                        ` (job: ${analysisResult.cvMatch.experience.requiredLevel.label})`}
+                      {analysisResult.cvMatch.experience.timeline.gaps.length > 0 &&
+                        ` · ${analysisResult.cvMatch.experience.timeline.gaps.length} gap(s) between roles`}
+                    </p>
+                  )}
                 </div>
 
                 {analysisResult.cvMatch.matchScore < 80 && (
@@ -380,6 +551,44 @@ export default function CVInputPage() {
                     </p>
                   </div>
                 )}
+
+                {ocrReport && (
+                  <div className="bg-gray-900/50 border border-gray-600 rounded-lg p-4">
+                    <p className="text-gray-300">
+                      📷 Your CV looks like a scan, so I read it from the page images
+                      ({Math.round(ocrReport.confidence * 100)}% confidence
+                      {ocrReport.pagesSkipped > 0 ? `, first ${ocrReport.pages.length} pages only` : ''}).
+                      {ocrReport.confidence < OCR_CONFIG.LOW_CONFIDENCE &&
+                        ' The scan was hard to read, so please check the details carefully or upload a text PDF.'}
+                    </p>
+                  </div>
+                )}
+
+                {importWarnings.length > 0 && (
+                  <div className="bg-gray-900/50 border border-gray-600 rounded-lg p-4">
+                    <p className="text-gray-300 mb-2">
+                      📥 Some parts of your export were missing, so these sections may be empty:
+                    </p>
+                    <ul className="text-sm text-gray-400 list-disc list-inside space-y-1">
+                      {importWarnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {uncertainFields.length > 0 && (
+                  <div className="bg-gray-900/50 border border-gray-600 rounded-lg p-4">
+                    <p className="text-gray-300 mb-2">
+                      🔍 I wasn&apos;t sure I read these parts of your CV right. Worth a double-check:
+                    </p>
+                    <ul className="text-sm text-gray-400 list-disc list-inside space-y-1">
+                      {uncertainFields.slice(0, 8).map((path) => (
+                        <li key={path}>{describeField(path)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
 
               <div className="mt-6 flex flex-col gap-3">
@@ -417,7 +626,7 @@ export default function CVInputPage() {
           )}
 
           {/* Option cards */}
-          <div className="grid md:grid-cols-2 gap-6 mb-8">
+          <div className="grid md:grid-cols-3 gap-6 mb-8">
             {/* Upload option */}
             <div
               className={`bg-gray-800/50 backdrop-blur-lg rounded-xl p-8 border-2 cursor-pointer transition-all duration-300 ${
@@ -431,13 +640,13 @@ export default function CVInputPage() {
                 <div className="text-5xl mb-4">📎</div>
                 <h2 className="text-2xl font-bold mb-2">Upload Your CV</h2>
                 <p className="text-gray-400 text-sm mb-4">
-                  Got an existing CV? Drop it here (PDF, DOCX, or TXT) and I'll analyze it.
+                  Got an existing CV? Drop it here (PDF, Word, ODT, RTF, HTML, Markdown or TXT) and I&apos;ll analyze it.
                 </p>
                 {selectedOption === 'upload' && (
                   <div className="mt-4 space-y-4">
                     <input
                       type="file"
-                      accept=".pdf,.doc,.docx,.txt"
+                      accept={ALLOWED_FILE_EXTENSIONS.join(',')}
                       onChange={handleFileChange}
                       className="hidden"
                       id="cv-upload"
@@ -470,6 +679,58 @@ export default function CVInputPage() {
               </div>
             </div>
 
+            {/* Import option */}
+            <div
+              className={`bg-gray-800/50 backdrop-blur-lg rounded-xl p-8 border-2 cursor-pointer transition-all duration-300 ${
+                selectedOption === 'import'
+                  ? 'border-[#B91C1C] shadow-lg shadow-[#B91C1C]/20'
+                  : 'border-gray-700 hover:border-gray-600'
+              }`}
+              onClick={() => setSelectedOption('import')}
+            >
+              <div className="text-center">
+                <div className="text-5xl mb-4">📥</div>
+                <h2 className="text-2xl font-bold mb-2">Import Your Profile</h2>
+                <p className="text-gray-400 text-sm mb-4">
+                  Have a JSON Resume or your LinkedIn data export (.zip)? I&apos;ll bring it in as is.
+                </p>
+                {selectedOption === 'import' && (
+                  <div className="mt-4 space-y-4">
+                    <input
+                      type="file"
+                      accept=".json,.zip,application/json,application/zip"
+                      onChange={handleImportFileChange}
+                      className="hidden"
+                      id="cv-import"
+                      disabled={isImporting || isAnalyzing}
+                    />
+                    <label
+                      htmlFor="cv-import"
+                      className="block bg-[#1E40AF] hover:bg-[#1E3A8A] text-white px-4 py-2 rounded-lg cursor-pointer text-center transition-colors"
+                    >
+                      {importFile ? `Selected: ${importFile.name}` : 'Choose File'}
+                    </label>
+                    {importFile && !showAnalysis && (
+                      <Button
+                        onClick={handleImport}
+                        disabled={isImporting || isAnalyzing}
+                        className="w-full bg-[#B91C1C] hover:bg-[#991B1B]"
+                      >
+                        {isImporting || isAnalyzing ? (
+                          <LoadingSpinner size="sm" text={isAnalyzing ? 'Analyzing...' : 'Importing...'} />
+                        ) : (
+                          'Import & Analyze 📊'
+                        )}
+                      </Button>
+                    )}
+                    {importError && (
+                      <p className="text-red-400 text-sm mt-2">{importError}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+
             {/* Q&A option */}
             <div
               className={`bg-gray-800/50 backdrop-blur-lg rounded-xl p-8 border-2 cursor-pointer transition-all duration-300 ${
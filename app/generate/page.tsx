@@ -12,15 +12,19 @@ import {
   startGeneration,
   updateStatus,
   updateProgress,
+  setPhase,
+  appendCVChunk,
   setGeneratedCV,
+  setGenerationModel,
+  setPromptVersion,
   setGeneratedCoverLetter,
   completeGeneration,
   setError,
 } from '@/src/domain/slices/generationSlice';
 import { LoadingSpinner } from '@/src/presentation/components/ui/LoadingSpinner';
 import { API_ROUTES } from '@/src/shared/constants';
-import type { ApiResponse } from '@/src/shared/types';
-import type { AnalyzeResponse } from '@/app/api/cv/analyze/route';
+import { readSSE } from '@/src/shared/utils/sse';
+import type { ApiResponse, GenerationStreamEvent } from '@/src/shared/types';
 
 export default function GeneratePage() {
   const router = useRouter();
@@ -54,61 +58,70 @@ export default function GeneratePage() {
     }));
 
     try {
-      // Step 1: Analyze (10%)
-      dispatch(updateStatus('analyzing'));
-      dispatch(updateProgress(10));
       setStatusMessage("Analyzing job description and your CV... 🤔");
 
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-
-      // Step 2: Generate CV (30-70%)
-      dispatch(updateStatus('generating'));
-      dispatch(updateProgress(30));
-      setStatusMessage("Crafting your optimized CV... ✨");
-
-      // Get job analysis if available (from previous analysis)
-      let jobAnalysis = null;
-      try {
-        const analyzeResponse = await fetch('/api/cv/analyze', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            jobDescription: jobDescription.content,
-            cvContent: cvData.rawContent || JSON.stringify(cvData),
-          }),
-        });
-        if (analyzeResponse.ok) {
-          const analyzeResult: ApiResponse<AnalyzeResponse> = await analyzeResponse.json();
-          if (analyzeResult.success && analyzeResult.data) {
-            jobAnalysis = analyzeResult.data.jobAnalysis;
-          }
-        }
-      } catch (err) {
-        console.log('Could not get job analysis, proceeding without it');
-      }
-
-      const cvResponse = await fetch(API_ROUTES.GENERATE_CV, {
+      // Stream the CV; the route analyzes the job first and reports real progress
+      const cvResponse = await fetch(API_ROUTES.GENERATE_CV_STREAM, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           jobDescription: jobDescription.content,
           cvData: cvData.rawContent || JSON.stringify(cvData),
-          jobAnalysis: jobAnalysis,
         }),
       });
 
-      if (!cvResponse.ok) {
-        const errorData: ApiResponse<unknown> = await cvResponse.json();
+      if (!cvResponse.ok || !cvResponse.body) {
+        const errorData: ApiResponse<unknown> = await cvResponse.json().catch(() => ({ success: false }));
         throw new Error(errorData.error || 'Failed to generate CV');
       }
 
-      const cvResult: ApiResponse<string> = await cvResponse.json();
-      if (!cvResult.success || !cvResult.data) {
-        throw new Error(cvResult.error || 'CV generation failed');
+      let generatedCV: string | null = null;
+      for await (const message of readSSE(cvResponse.body)) {
+        const event = JSON.parse(message.data) as GenerationStreamEvent;
+
+        switch (event.type) {
+          case 'phase':
+            dispatch(setPhase({ phase: event.phase, section: event.section }));
+            dispatch(updateStatus(event.phase === 'analyzing' ? 'analyzing' : 'generating'));
+            dispatch(updateProgress(event.progress));
+            if (event.phase === 'analyzing') {
+              setStatusMessage("Analyzing job description and your CV... 🤔");
+            } else if (event.phase === 'drafting') {
+              setStatusMessage(
+                event.section
+                  ? `Drafting your ${event.section} section... ✍️`
+                  : "Crafting your optimized CV... ✨"
+              );
+            } else {
+              setStatusMessage("Putting on the finishing touches... 💅");
+            }
+            break;
+          case 'token':
+            dispatch(appendCVChunk(event.text));
+            dispatch(updateProgress(event.progress));
+            break;
+          case 'done': {
+            generatedCV = event.cv;
+            // The CV call is recorded last, after the job analysis when that ran in the stream
+            const cvRecord = event.metadata.inference?.at(-1);
+            if (cvRecord?.model) {
+              dispatch(setGenerationModel(cvRecord.model));
+            }
+            if (cvRecord?.promptVersion) {
+              dispatch(setPromptVersion(cvRecord.promptVersion));
+            }
+            break;
+          }
+          case 'error':
+            throw new Error(event.error);
+        }
+      }
+
+      if (!generatedCV) {
+        throw new Error('CV generation failed');
       }
 
-      dispatch(setGeneratedCV(cvResult.data));
-      dispatch(updateProgress(70));
+      dispatch(setGeneratedCV(generatedCV));
       setStatusMessage("CV generated successfully! ✨");
 
       // Cover letter generation is temporarily disabled
@@ -191,6 +204,15 @@ export default function GeneratePage() {
             <p className="text-xl text-gray-300">{statusMessage}</p>
           </div>
 
+          {/* Live CV preview */}
+          {generation.result?.optimizedCV && generation.status !== 'completed' && (
+            <div className="bg-gray-900/50 rounded-lg p-4 mb-8 max-h-64 overflow-y-auto text-left">
+              <pre className="whitespace-pre-wrap text-xs text-gray-400 font-mono">
+                {generation.result.optimizedCV}
+              </pre>
+            </div>
+          )}
+
           {/* Error display */}
           {generation.error && (
             <div className="bg-red-900/30 border border-red-500 rounded-lg p-4 mb-4">
@@ -9,11 +9,13 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAppDispatch } from '@/lib/hooks';
-import { setJobDescription } from '@/src/domain/slices/jobDescriptionSlice';
+import { setJobAnalysis, setJobDescription } from '@/src/domain/slices/jobDescriptionSlice';
 import { TextArea } from '@/src/presentation/components/ui/TextArea';
+import { Input } from '@/src/presentation/components/ui/Input';
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/src/presentation/components/ui/LoadingSpinner';
-import type { JobDescription } from '@/src/shared/types';
+import { API_ROUTES } from '@/src/shared/constants';
+import type { ApiResponse, JobAnalysisResult, JobDescription, JobImportResult } from '@/src/shared/types';
 
 export default function Home() {
   const router = useRouter();
@@ -21,10 +23,58 @@ export default function Home() {
   const [jobDescription, setJobDescriptionText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [jobUrl, setJobUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importedJob, setImportedJob] = useState<JobImportResult | null>(null);
+
+  /**
+   * Import a posting from a URL or a saved HTML page and fill the text area with it
+   */
+  const importJob = async (request: RequestInit) => {
+    setIsImporting(true);
+    setImportError(null);
+
+    try {
+      const response = await fetch(API_ROUTES.IMPORT_JOB, { method: 'POST', ...request });
+      const result: ApiResponse<JobImportResult> = await response.json();
+      if (!response.ok || !result.success || !result.data) {
+        throw new Error(result.error || 'Failed to import the job posting');
+      }
+
+      setImportedJob(result.data);
+      setJobDescriptionText(result.data.jobDescription.content);
+      setError(null);
+    } catch (err) {
+      setImportError(
+        err instanceof Error ? err.message : "Couldn't grab that posting. Mind pasting the text instead? 😅"
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleImportUrl = () => {
+    if (!jobUrl.trim()) return;
+    importJob({
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: jobUrl.trim() }),
+    });
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    const formData = new FormData();
+    formData.append('file', selectedFile);
+    importJob({ body: formData });
+    e.target.value = '';
+  };
 
   /**
    * Handle job description submission
-   * Validates input and navigates to next step
+   * Validates input, analyzes the job and navigates to next step
    */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -46,17 +96,35 @@ export default function Home() {
     try {
       // Create job description object
       // Use ISO string for createdAt to ensure Redux serialization compatibility
+      // An imported posting keeps its title, company and requirements even if the text was touched up
       const jobDesc: JobDescription = {
         id: `job-${Date.now()}`,
         content: jobDescription.trim(),
+        title: importedJob?.jobDescription.title,
+        company: importedJob?.jobDescription.company,
+        requirements: importedJob?.jobDescription.requirements,
         createdAt: new Date().toISOString(),
       };
 
       // Save to Redux store
       dispatch(setJobDescription(jobDesc));
 
-      // Small delay for UX (makes it feel more polished)
-      await new Promise((resolve) => setTimeout(resolve, 500));
+      // Analyze the job now so its title, company and requirements are known before there is a CV
+      // A failed analysis is not fatal; the CV step analyzes the job again
+      try {
+        const response = await fetch(API_ROUTES.ANALYZE_JOB, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jobDescription: jobDesc }),
+        });
+        const result: ApiResponse<JobAnalysisResult> = await response.json();
+        if (response.ok && result.success && result.data) {
+          dispatch(setJobDescription(result.data.jobDescription));
+          dispatch(setJobAnalysis(result.data.jobAnalysis));
+        }
+      } catch (analysisError) {
+        console.error('Job analysis failed:', analysisError);
+      }
 
       // Navigate to CV input page
       router.push('/cv-input');
@@ -103,6 +171,72 @@ export default function Home() {
                 </p>
               </div>
 
+              {/* Import from a link or a saved page */}
+              <div className="space-y-3">
+                <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+                  <Input
+                    type="url"
+                    label="Got a link instead?"
+                    placeholder="https://careers.example.com/jobs/123"
+                    value={jobUrl}
+                    onChange={(e) => {
+                      setJobUrl(e.target.value);
+                      setImportError(null);
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleImportUrl();
+                      }
+                    }}
+                    className="bg-gray-900/50 text-white border-gray-600 focus:border-[#B91C1C]"
+                    disabled={isImporting || isLoading}
+                  />
+                  <Button
+                    type="button"
+                    onClick={handleImportUrl}
+                    disabled={isImporting || isLoading || !jobUrl.trim()}
+                    className="bg-[#1E40AF] hover:bg-[#1E3A8A] text-white h-12 px-6"
+                  >
+                    {isImporting ? <LoadingSpinner size="sm" className="text-white" /> : 'Import 🔗'}
+                  </Button>
+                </div>
+                <div className="text-sm text-gray-400">
+                  Page behind a login? Save it from your browser and{' '}
+                  <label htmlFor="job-page-upload" className="text-[#60A5FA] underline cursor-pointer">
+                    upload the HTML file
+                  </label>
+                  .
+                  <input
+                    type="file"
+                    accept=".html,.htm,text/html"
+                    onChange={handleImportFile}
+                    className="hidden"
+                    id="job-page-upload"
+                    disabled={isImporting || isLoading}
+                  />
+                </div>
+                {importError && <p className="text-sm text-red-400">{importError}</p>}
+                {importedJob && (
+                  <div className="bg-gray-900/50 border border-gray-600 rounded-lg p-4 text-sm text-gray-300">
+                    <p>
+                      ✅ Imported{' '}
+                      <span className="font-semibold">{importedJob.jobDescription.title ?? 'the posting'}</span>
+                      {importedJob.jobDescription.company && ` at ${importedJob.jobDescription.company}`}
+                      {` with ${importedJob.jobDescription.requirements?.length ?? 0} requirements.`} Give the text
+                      below a quick look.
+                    </p>
+                    {importedJob.warnings.length > 0 && (
+                      <ul className="mt-2 text-gray-400 list-disc list-inside space-y-1">
+                        {importedJob.warnings.map((warning) => (
+                          <li key={warning}>{warning}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+
               {/* Job description input */}
               <TextArea
                 label="Job Description"
@@ -111,6 +245,9 @@ export default function Home() {
                 onChange={(e) => {
                   setJobDescriptionText(e.target.value);
                   setError(null);
+                  if (!e.target.value.trim()) {
+                    setImportedJob(null);
+                  }
                 }}
                 error={error || undefined}
                 helperText="The more details, the better I can tailor your CV. Trust me on this one."
@@ -15,6 +15,8 @@ import {
   downloadAsDOCX,
   copyToClipboard,
 } from '@/src/shared/utils/download';
+import { API_ROUTES } from '@/src/shared/constants';
+import type { ApiResponse, ATSReport } from '@/src/shared/types';
 
 export default function ResultsPage() {
   const router = useRouter();
@@ -23,6 +25,8 @@ export default function ResultsPage() {
     cv: false,
     letter: false,
   });
+  const [atsReport, setAtsReport] = useState<ATSReport | null>(null);
+  const [atsStatus, setAtsStatus] = useState<'idle' | 'checking' | 'error'>('idle');
 
   // Redirect if no results
   useEffect(() => {
@@ -69,6 +73,30 @@ export default function ResultsPage() {
     }
   };
 
+  /**
+   * Re-parse the CV downloads the way an ATS would and show what survives
+   */
+  const handleATSCheck = async () => {
+    if (!generation.result?.optimizedCV) return;
+    setAtsStatus('checking');
+    try {
+      const response = await fetch(API_ROUTES.ATS_CHECK, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: generation.result.optimizedCV }),
+      });
+      const result: ApiResponse<ATSReport> = await response.json();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'ATS check failed');
+      }
+      setAtsReport(result.data);
+      setAtsStatus('idle');
+    } catch (error) {
+      console.error('ATS check error:', error);
+      setAtsStatus('error');
+    }
+  };
+
   /**
    * Copy CV to clipboard
    */
@@ -114,7 +142,15 @@ export default function ResultsPage() {
           {/* CV Section */}
           <div className="bg-gray-800/50 backdrop-blur-lg rounded-xl p-8 mb-8 border border-gray-700">
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-4 gap-4">
-              <h2 className="text-2xl font-bold">Optimized CV</h2>
+              <div>
+                <h2 className="text-2xl font-bold">Optimized CV</h2>
+                {generation.result.generatedBy && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Written by {generation.result.generatedBy}
+                    {generation.result.promptVersion && ` · prompt ${generation.result.promptVersion}`}
+                  </p>
+                )}
+              </div>
               <div className="flex flex-wrap gap-2">
                 <Button
                   onClick={() => handleCVDownload('pdf')}
@@ -146,6 +182,15 @@ export default function ResultsPage() {
                 >
                   {copyFeedback.cv ? '✓ Copied!' : 'Copy 📋'}
                 </Button>
+                <Button
+                  onClick={handleATSCheck}
+                  disabled={atsStatus === 'checking'}
+                  variant="outline"
+                  className="border-gray-600 text-gray-300 text-sm"
+                  size="sm"
+                >
+                  {atsStatus === 'checking' ? 'Checking...' : 'ATS Check 🤖'}
+                </Button>
               </div>
             </div>
             <div className="bg-gray-900/50 rounded-lg p-6 max-h-96 overflow-y-auto">
@@ -153,6 +198,45 @@ export default function ResultsPage() {
                 {generation.result.optimizedCV}
               </pre>
             </div>
+            {atsStatus === 'error' && (
+              <p className="mt-4 text-sm text-red-400">The ATS check failed. Please try again.</p>
+            )}
+            {atsReport && (
+              <div className="mt-4 space-y-3 text-sm">
+                {atsReport.formats.map((report) => (
+                  <div key={report.format} className="bg-gray-900/50 rounded-lg p-4">
+                    <p className="font-semibold">
+                      {report.format.toUpperCase()}: {report.score}/100 parsed back
+                    </p>
+                    <ul className="mt-2 text-gray-400">
+                      {report.checks
+                        .filter((check) => check.expected > 0)
+                        .map((check) => (
+                          <li key={check.field} title={check.missing.join(', ')}>
+                            {check.field}: {check.recovered}/{check.expected}
+                          </li>
+                        ))}
+                    </ul>
+                    {report.issues.map((issue) => (
+                      <p
+                        key={issue.code}
+                        className={issue.severity === 'error' ? 'mt-1 text-red-400' : 'mt-1 text-yellow-400'}
+                      >
+                        {issue.message}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+                {atsReport.contentIssues.map((issue, index) => (
+                  <p
+                    key={`${issue.code}-${index}`}
+                    className={issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}
+                  >
+                    {issue.message}
+                  </p>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Cover Letter Section */}
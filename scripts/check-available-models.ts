@@ -0,0 +1,52 @@
+/**
+ * Check available models
+ * Probes the configured models plus common alternatives with the active LLM provider
+ * Pass model ids as arguments to probe those instead
+ */
+
+import { heading, loadEnv, log, run } from './lib/cli';
+import { getConfiguredModels, probeModel } from '@/src/infrastructure/services/providerHealth.service';
+import { getLLMProvider } from '@/src/infrastructure/providers/llmProvider';
+
+loadEnv();
+
+/**
+ * Alternatives worth trying when the configured chain is unavailable
+ */
+const ALTERNATIVE_MODELS = [
+  'meta-llama/Llama-3.2-3B-Instruct',
+  'mistralai/Mistral-7B-Instruct-v0.3',
+  'HuggingFaceH4/zephyr-7b-beta',
+  'Qwen/Qwen2.5-7B-Instruct',
+  'google/gemma-2-2b-it',
+];
+
+run(async () => {
+  const requested = process.argv.slice(2);
+  const models = requested.length > 0
+    ? requested
+    : Array.from(new Set([...getConfiguredModels(), ...ALTERNATIVE_MODELS]));
+  const provider = getLLMProvider();
+
+  heading(`🔍 Checking ${models.length} models with provider ${provider.name}`);
+
+  const available: string[] = [];
+  for (const model of models) {
+    const probe = await probeModel(model, provider);
+    if (probe.ok) {
+      available.push(model);
+      log(`   ✅ ${model} (${probe.latencyMs}ms)`, 'green');
+    } else {
+      log(`   ❌ ${model}${probe.status ? ` (${probe.status})` : ''}: ${probe.error?.substring(0, 80)}`, 'red');
+    }
+  }
+
+  log(`\n📊 ${available.length} of ${models.length} models available`, 'blue');
+  if (available.length === 0) {
+    log('   ⚠️  No models are available!', 'yellow');
+    log('   Check: https://hf.co/settings/inference-providers', 'yellow');
+    return 1;
+  }
+
+  log('\n💡 Put available models first in LLM_FALLBACK_CHAIN (see ENV_SETUP.md)');
+});
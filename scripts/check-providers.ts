@@ -0,0 +1,62 @@
+/**
+ * Check Hugging Face inference providers
+ * Lists the providers that serve each configured model and probes the models
+ */
+
+import { heading, loadEnv, log, run } from './lib/cli';
+import {
+  checkToken,
+  discoverInferenceProviders,
+  getConfiguredModels,
+  probeModel,
+} from '@/src/infrastructure/services/providerHealth.service';
+import { createLLMProvider } from '@/src/infrastructure/providers/llmProvider';
+
+loadEnv();
+
+run(async () => {
+  heading('🔍 Hugging Face Providers and Models');
+
+  log('\n1. Verifying token...', 'blue');
+  const token = await checkToken();
+  if (!token.valid) {
+    log(`   ❌ ${token.error}`, 'red');
+    return 1;
+  }
+  log(`   ✅ Token valid! User: ${token.user ?? 'Unknown'}`, 'green');
+
+  const models = getConfiguredModels();
+
+  log('\n2. Discovering inference providers...', 'blue');
+  const providers = await discoverInferenceProviders(models);
+  if (providers.length === 0) {
+    log('   ⚠️  No inference provider serves the configured models', 'yellow');
+  }
+  for (const provider of providers) {
+    const state = provider.active ? '🟢 Live' : `🟡 ${provider.status ?? 'Unknown'}`;
+    log(`   ${provider.name}: ${state}`, 'green');
+    provider.models?.forEach((model) => log(`      - ${model}`));
+  }
+
+  log('\n3. Testing model access...', 'blue');
+  const hf = createLLMProvider('huggingface');
+  let accessible = 0;
+  for (const model of models) {
+    const probe = await probeModel(model, hf);
+    if (probe.ok) {
+      accessible++;
+      log(`   ✅ ${model} (${probe.latencyMs}ms)`, 'green');
+    } else {
+      log(`   ❌ ${model}${probe.status ? ` (${probe.status})` : ''}: ${probe.error}`, 'red');
+    }
+  }
+
+  if (accessible === 0) {
+    log('\n💡 DIAGNOSIS:', 'yellow');
+    log('1. Go to: https://hf.co/settings/inference-providers', 'yellow');
+    log('2. Enable at least ONE provider that serves the models above', 'yellow');
+    log('3. Make sure your token has "Make calls to Inference Providers"', 'yellow');
+    log('4. Restart your dev server after enabling providers', 'yellow');
+    return 1;
+  }
+});
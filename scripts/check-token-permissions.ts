@@ -0,0 +1,66 @@
+/**
+ * Check Hugging Face token permissions
+ * Verifies the token and that it can make calls to Inference Providers
+ */
+
+import { heading, loadEnv, log, run } from './lib/cli';
+import { checkToken, probeModel } from '@/src/infrastructure/services/providerHealth.service';
+import { createLLMProvider } from '@/src/infrastructure/providers/llmProvider';
+import { HUGGINGFACE_MODELS } from '@/src/shared/constants';
+
+loadEnv();
+
+run(async () => {
+  heading('🔐 Token Permission Check');
+
+  // Step 1: Token validity
+  log('\n1. Verifying token validity...', 'blue');
+  const token = await checkToken();
+
+  if (!token.found) {
+    log(`   ❌ ${token.error}`, 'red');
+    return 1;
+  }
+
+  if (!token.valid) {
+    log(`   ❌ Token is INVALID${token.status ? ` (${token.status})` : ''}`, 'red');
+    log(`   Error: ${token.error}`, 'red');
+    log('\n   💡 Solution:', 'yellow');
+    log('   1. Go to: https://hf.co/settings/tokens', 'yellow');
+    log('   2. Create a new token', 'yellow');
+    log('   3. Make sure "Make calls to Inference Providers" is checked', 'yellow');
+    log('   4. Update .env.local with the new token', 'yellow');
+    return 1;
+  }
+
+  log('   ✅ Token is VALID', 'green');
+  log(`   User: ${token.user ?? 'Unknown'}`, 'green');
+  log(`   Role: ${token.role ?? 'unknown'}`, 'green');
+  log(
+    `   Inference Providers permission: ${token.canCallInferenceProviders ? '✅ granted' : '❌ missing'}`,
+    token.canCallInferenceProviders ? 'green' : 'red'
+  );
+
+  // Step 2: Inference access (this requires the permission)
+  log('\n2. Testing Inference API access...', 'blue');
+  const probe = await probeModel(HUGGINGFACE_MODELS.CV_GENERATION, createLLMProvider('huggingface'));
+
+  if (probe.ok) {
+    log(`   ✅ ${probe.model} answered in ${probe.latencyMs}ms`, 'green');
+    log('\n   ✅ Your token has the correct permissions!', 'green');
+    return 0;
+  }
+
+  log(`   ❌ Inference API access failed${probe.status ? ` (${probe.status})` : ''}`, 'red');
+  log(`   Error: ${probe.error}`, 'red');
+
+  if (probe.status === 401 || probe.status === 403) {
+    log('\n   💡 Token lacks "Make calls to Inference Providers" or is invalid/expired', 'yellow');
+    log('   Edit the token at https://hf.co/settings/tokens and tick the permission', 'yellow');
+  } else if (probe.status === 404) {
+    log('\n   💡 Model not found or no provider configured', 'yellow');
+    log('   Enable a provider at: https://hf.co/settings/inference-providers', 'yellow');
+  }
+  log('\nSee TOKEN_PERMISSIONS.md for detailed instructions.');
+  return 1;
+});
@@ -0,0 +1,53 @@
+/**
+ * CLI helpers for the maintenance scripts
+ * Colored output and .env loading that matches Next.js (.env.local wins over .env)
+ */
+
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+
+// Colors for console output
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+} as const;
+
+export type LogColor = keyof typeof colors;
+
+export function log(message: string, color: LogColor = 'reset'): void {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+export function heading(title: string): void {
+  log(`\n${title}`, 'cyan');
+  log('='.repeat(60), 'cyan');
+}
+
+/**
+ * Load .env.local and .env from the project root
+ * Variables already set in the shell are never overwritten
+ */
+export function loadEnv(): void {
+  for (const file of ['.env.local', '.env']) {
+    const envPath = path.join(process.cwd(), file);
+    if (existsSync(envPath)) {
+      process.loadEnvFile(envPath);
+    }
+  }
+}
+
+/**
+ * Run a script's main function and exit with its status code
+ */
+export function run(main: () => Promise<number | void>): void {
+  main()
+    .then((code) => process.exit(code ?? 0))
+    .catch((error: unknown) => {
+      log(`\n❌ Unexpected error: ${error instanceof Error ? error.message : String(error)}`, 'red');
+      process.exit(1);
+    });
+}
@@ -0,0 +1,81 @@
+/**
+ * Hugging Face Connection Verification Script
+ * Runs the same health check as /api/hf/verify from the command line
+ * Run this script to test your connection before starting the app: npm run verify-hf
+ */
+
+import { heading, loadEnv, log, run } from './lib/cli';
+import { runHealthCheck } from '@/src/infrastructure/services/providerHealth.service';
+
+loadEnv();
+
+run(async () => {
+  heading('🔍 LLM Connection Verification');
+
+  const report = await runHealthCheck();
+  log(`\nProvider: ${report.provider}`, 'blue');
+
+  // Token (Hugging Face only)
+  if (report.token) {
+    log('\n📋 Checking API token...', 'blue');
+    const { token } = report;
+
+    if (!token.found) {
+      log('❌ Token not found!', 'red');
+      log('\nPlease set HUGGINGFACE_API_TOKEN in your .env.local file:', 'yellow');
+      log('  1. Create .env.local in the project root', 'yellow');
+      log('  2. Add: HUGGINGFACE_API_TOKEN=your_token_here', 'yellow');
+      log('  3. Get your token from: https://hf.co/settings/tokens', 'yellow');
+      return 1;
+    }
+
+    log(`✅ Token found: ${token.prefix}`, 'green');
+    if (!token.formatValid) {
+      log('⚠️  Token format may be invalid (expected to start with "hf_" and be at least 20 chars)', 'yellow');
+    }
+
+    if (!token.valid) {
+      log(`❌ Token check failed${token.status ? ` (${token.status})` : ''}`, 'red');
+      log(`   Error: ${token.error}`, 'red');
+      if (token.status === 401 || token.status === 403) {
+        log('\n💡 The token is invalid, expired or lacks permissions', 'yellow');
+        log('   Get a new token: https://hf.co/settings/tokens', 'yellow');
+      }
+      return 1;
+    }
+
+    log(`✅ Token accepted in ${token.latencyMs}ms (user: ${token.user ?? 'Unknown'}, role: ${token.role ?? 'unknown'})`, 'green');
+    if (!token.canCallInferenceProviders) {
+      log('⚠️  Token lacks the "Make calls to Inference Providers" permission', 'yellow');
+    }
+  }
+
+  // Inference providers
+  if (report.inferenceProviders.length > 0) {
+    log('\n📋 Inference providers serving our models...', 'blue');
+    report.inferenceProviders.forEach((provider, index) => {
+      const state = provider.active ? '🟢 Live' : `🟡 ${provider.status ?? 'Unknown'}`;
+      log(`   ${index + 1}. ${provider.name}: ${state} (${provider.models?.length ?? 0} model(s))`, 'green');
+    });
+  }
+
+  // Model probes
+  log('\n📋 Probing configured models...', 'blue');
+  for (const probe of report.models) {
+    if (probe.ok) {
+      log(`   ✅ ${probe.model} (${probe.latencyMs}ms)`, 'green');
+    } else {
+      log(`   ❌ ${probe.model}${probe.status ? ` (${probe.status})` : ''}: ${probe.error}`, 'red');
+    }
+  }
+
+  log('\n' + '='.repeat(60), 'cyan');
+  if (!report.healthy) {
+    log('❌ No configured model answered', 'red');
+    log('   Check enabled providers at: https://hf.co/settings/inference-providers', 'yellow');
+    return 1;
+  }
+
+  log('🎉 Connection is working correctly!', 'green');
+  log('   You can now start the application with: npm run dev', 'green');
+});
@@ -4,12 +4,14 @@
  */
 
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
-import type { GenerationResult, GenerationStatus } from '@/src/shared/types';
+import type { GenerationPhase, GenerationResult, GenerationStatus } from '@/src/shared/types';
 
 interface GenerationState {
   result: GenerationResult | null;
   status: GenerationStatus;
   progress: number;
+  phase: GenerationPhase | null;
+  currentSection: string | null;
   error: string | null;
 }
 
@@ -17,6 +19,8 @@ const initialState: GenerationState = {
   result: null,
   status: 'idle',
   progress: 0,
+  phase: null,
+  currentSection: null,
   error: null,
 };
 
@@ -30,6 +34,8 @@ const generationSlice = createSlice({
     startGeneration: (state, action: PayloadAction<{ jobDescriptionId: string; cvId?: string }>) => {
       state.status = 'analyzing';
       state.progress = 0;
+      state.phase = null;
+      state.currentSection = null;
       state.error = null;
       state.result = {
         id: `gen-${Date.now()}`,
@@ -60,6 +66,25 @@ const generationSlice = createSlice({
       }
     },
     
+    /**
+     * Set the streaming phase and the CV section being drafted
+     */
+    setPhase: (state, action: PayloadAction<{ phase: GenerationPhase; section?: string }>) => {
+      state.phase = action.payload.phase;
+      if (action.payload.section) {
+        state.currentSection = action.payload.section;
+      }
+    },
+    
+    /**
+     * Append a streamed chunk to the CV content
+     */
+    appendCVChunk: (state, action: PayloadAction<string>) => {
+      if (state.result) {
+        state.result.optimizedCV = (state.result.optimizedCV ?? '') + action.payload;
+      }
+    },
+    
     /**
      * Set generated CV content
      */
@@ -69,6 +94,24 @@ const generationSlice = createSlice({
       }
     },
     
+    /**
+     * Set the model that produced the CV
+     */
+    setGenerationModel: (state, action: PayloadAction<string>) => {
+      if (state.result) {
+        state.result.generatedBy = action.payload;
+      }
+    },
+    
+    /**
+     * Set the prompt template version that produced the CV
+     */
+    setPromptVersion: (state, action: PayloadAction<string>) => {
+      if (state.result) {
+        state.result.promptVersion = action.payload;
+      }
+    },
+    
     /**
      * Set generated cover letter
      */
@@ -110,6 +153,8 @@ const generationSlice = createSlice({
       state.result = null;
       state.status = 'idle';
       state.progress = 0;
+      state.phase = null;
+      state.currentSection = null;
       state.error = null;
     },
   },
@@ -119,7 +164,11 @@ export const {
   startGeneration,
   updateStatus,
   updateProgress,
+  setPhase,
+  appendCVChunk,
   setGeneratedCV,
+  setGenerationModel,
+  setPromptVersion,
   setGeneratedCoverLetter,
   completeGeneration,
   setError,
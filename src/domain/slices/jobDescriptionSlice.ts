@@ -4,16 +4,18 @@
  */
 
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
-import type { JobDescription } from '@/src/shared/types';
+import type { JobAnalysis, JobDescription } from '@/src/shared/types';
 
 interface JobDescriptionState {
   jobDescription: JobDescription | null;
+  jobAnalysis: JobAnalysis | null; // Analysis of jobDescription's current content, from /api/job/analyze
   isLoading: boolean;
   error: string | null;
 }
 
 const initialState: JobDescriptionState = {
   jobDescription: null,
+  jobAnalysis: null,
   isLoading: false,
   error: null,
 };
@@ -28,6 +30,10 @@ const jobDescriptionSlice = createSlice({
     setJobDescription: (state, action: PayloadAction<JobDescription>) => {
       // createdAt is already a string (ISO format) from the component
       // This ensures Redux serialization compatibility
+      // An analysis of different text no longer applies
+      if (state.jobDescription?.content !== action.payload.content) {
+        state.jobAnalysis = null;
+      }
       state.jobDescription = action.payload;
       state.error = null;
     },
@@ -46,8 +52,16 @@ const jobDescriptionSlice = createSlice({
           createdAt: new Date().toISOString(),
         };
       }
+      state.jobAnalysis = null;
       state.error = null;
     },
+
+    /**
+     * Store the analysis of the current job description
+     */
+    setJobAnalysis: (state, action: PayloadAction<JobAnalysis | null>) => {
+      state.jobAnalysis = action.payload;
+    },
     
     /**
      * Set loading state
@@ -69,6 +83,7 @@ const jobDescriptionSlice = createSlice({
      */
     clearJobDescription: (state) => {
       state.jobDescription = null;
+      state.jobAnalysis = null;
       state.error = null;
       state.isLoading = false;
     },
@@ -78,6 +93,7 @@ const jobDescriptionSlice = createSlice({
 export const {
   setJobDescription,
   updateJobDescription,
+  setJobAnalysis,
   setLoading,
   setError,
   clearJobDescription,
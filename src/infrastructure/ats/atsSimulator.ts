@@ -0,0 +1,211 @@
+/**
+ * ATS Simulator
+ * Re-parses the PDF and DOCX downloads of a CV with our own parsers and scores how much of it comes back out
+ */
+
+import { Packer } from 'docx';
+import { ATS_CHECK_CONFIG } from '@/src/shared/constants';
+import type { ATSExportFormat, ATSFieldCheck, ATSFormatReport, ATSReport, CVData } from '@/src/shared/types';
+import { createDOCX, createPDF } from '@/src/shared/utils/download';
+import { parseDocument } from '@/src/infrastructure/documents/documentParser';
+import { parseMarkdown } from '@/src/infrastructure/documents/markdownParser';
+import { parseCVHeuristically, type HeuristicCVParse } from '@/src/infrastructure/utils/cvHeuristics';
+import { findContentIssues, inspectExport } from './exportInspector';
+
+/**
+ * How each format is built, exactly as the download buttons build it
+ */
+const EXPORTS: Record<ATSExportFormat, { fileName: string; mimeType: string; build: (content: string) => Promise<Buffer> }> = {
+  pdf: {
+    fileName: 'cv.pdf',
+    mimeType: 'application/pdf',
+    build: async (content) => Buffer.from(createPDF(content).output('arraybuffer')),
+  },
+  docx: {
+    fileName: 'cv.docx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    build: (content) => Packer.toBuffer(createDOCX(content)),
+  },
+};
+
+const CHECK_WEIGHTS: Record<ATSFieldCheck['field'], number> = {
+  contact: ATS_CHECK_CONFIG.WEIGHTS.CONTACT,
+  headings: ATS_CHECK_CONFIG.WEIGHTS.HEADINGS,
+  titles: ATS_CHECK_CONFIG.WEIGHTS.TITLES,
+  dates: ATS_CHECK_CONFIG.WEIGHTS.DATES,
+  text: ATS_CHECK_CONFIG.WEIGHTS.TEXT,
+};
+
+// Exported text with fewer lines than this share of the source has lost its line breaks
+const MERGED_LINE_RATIO = 0.6;
+
+/**
+ * Simulate an applicant tracking system reading each download of a CV
+ * The CV text itself (Markdown stripped) is the reference; each export is parsed back with the upload parsers
+ * and compared field by field
+ */
+export async function simulateATS(
+  content: string,
+  formats: ATSExportFormat[] = ['pdf', 'docx']
+): Promise<ATSReport> {
+  const source = parseMarkdown(content);
+  const reference = parseCVHeuristically(source.text, source.links);
+  const referenceLines = countLines(source.text);
+
+  const reports: ATSFormatReport[] = [];
+  for (const format of formats) {
+    const { fileName, mimeType, build } = EXPORTS[format];
+    const buffer = await build(content);
+    const parsed = await parseDocument(buffer, fileName, mimeType);
+    const recovered = parseCVHeuristically(parsed.text, parsed.links);
+
+    const checks = compareParses(reference, recovered, source.text, parsed.text);
+    const issues = await inspectExport(format, buffer, parsed.text);
+    if (countLines(parsed.text) < referenceLines * MERGED_LINE_RATIO) {
+      issues.push({
+        code: 'merged-lines',
+        severity: 'error',
+        message: `Line breaks are lost in the ${format.toUpperCase()}: headings, bullets and entries run together.`,
+      });
+    }
+
+    reports.push({ format, score: fidelityScore(checks), checks, issues });
+  }
+
+  return { formats: reports, contentIssues: findContentIssues(content) };
+}
+
+/**
+ * Parse fidelity (0-100): weighted share of each check recovered, over the checks with something to find
+ */
+function fidelityScore(checks: ATSFieldCheck[]): number {
+  const applicable = checks.filter((check) => check.expected > 0);
+  const totalWeight = applicable.reduce((sum, check) => sum + CHECK_WEIGHTS[check.field], 0);
+  if (totalWeight === 0) {
+    return 0;
+  }
+  const points = applicable.reduce(
+    (sum, check) => sum + (CHECK_WEIGHTS[check.field] * check.recovered) / check.expected,
+    0
+  );
+  return Math.round((points / totalWeight) * 100);
+}
+
+function compareParses(
+  reference: HeuristicCVParse,
+  recovered: HeuristicCVParse,
+  referenceText: string,
+  recoveredText: string
+): ATSFieldCheck[] {
+  return [
+    compareValues('contact', contactFields(reference.cvData), contactFields(recovered.cvData)),
+    compareValues(
+      'headings',
+      reference.sections.map((section) => section.heading),
+      recovered.sections.map((section) => section.heading),
+      // A heading counts when a section of the same kind came back, whatever its exact wording
+      reference.sections.map((section) => section.kind),
+      recovered.sections.map((section) => section.kind)
+    ),
+    compareValues(
+      'titles',
+      reference.cvData.experience.map((entry) => entry.position),
+      recovered.cvData.experience.map((entry) => entry.position)
+    ),
+    compareValues('dates', dateRanges(reference.cvData), dateRanges(recovered.cvData)),
+    compareWords(referenceText, recoveredText),
+  ];
+}
+
+/**
+ * Count the expected values found among the recovered ones, comparing normalized keys
+ */
+function compareValues(
+  field: ATSFieldCheck['field'],
+  expected: string[],
+  recovered: string[],
+  expectedKeys: string[] = expected.map(normalize),
+  recoveredKeys: string[] = recovered.map(normalize)
+): ATSFieldCheck {
+  const found = new Set(recoveredKeys);
+  const seen = new Set<string>();
+  const missing: string[] = [];
+  let count = 0;
+
+  expected.forEach((value, index) => {
+    const key = expectedKeys[index];
+    if (!key || seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+    if (found.has(key)) {
+      count++;
+    } else {
+      missing.push(value);
+    }
+  });
+
+  return { field, expected: seen.size, recovered: count, missing };
+}
+
+/**
+ * Share of the reference's distinct words that appear in the export
+ */
+function compareWords(referenceText: string, recoveredText: string): ATSFieldCheck {
+  const expected = new Set(words(referenceText));
+  const found = new Set(words(recoveredText));
+  const missing = Array.from(expected).filter((word) => !found.has(word));
+
+  return {
+    field: 'text',
+    expected: expected.size,
+    recovered: expected.size - missing.length,
+    missing: missing.slice(0, ATS_CHECK_CONFIG.MAX_MISSING_WORDS),
+  };
+}
+
+/**
+ * Contact details as "field: value" pairs; the phone number is compared by its digits
+ */
+function contactFields(cvData: CVData): string[] {
+  const { fullName, email, phone, location, linkedIn } = cvData.personalInfo;
+  const fields: Array<[string, string | undefined]> = [
+    ['name', fullName],
+    ['email', email],
+    ['phone', phone?.replace(/\D/g, '')],
+    ['location', location],
+    ['linkedIn', linkedIn?.replace(/^https?:\/\/(?:www\.)?/i, '').replace(/\/$/, '')],
+  ];
+  return fields.filter(([, value]) => value && value.trim()).map(([name, value]) => `${name}: ${value}`);
+}
+
+/**
+ * Date ranges of experience and education entries ("2020-01 – present")
+ */
+function dateRanges(cvData: CVData): string[] {
+  return [...cvData.experience, ...cvData.education]
+    .filter((entry) => entry.startDate)
+    .map((entry) => {
+      const end = 'current' in entry && entry.current ? 'present' : entry.endDate ?? '';
+      return `${entry.startDate} – ${end}`;
+    });
+}
+
+function words(text: string): string[] {
+  return normalize(text)
+    .split(' ')
+    .filter((word) => word.length >= 3);
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9@.+]+/g, ' ')
+    .replace(/(?:^|\s)[.+]+|[.+]+(?=\s|$)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function countLines(text: string): number {
+  return text.split('\n').filter((line) => line.trim()).length;
+}
@@ -0,0 +1,176 @@
+/**
+ * Export Inspector
+ * Finds layout an applicant tracking system misreads (tables, images, headers/footers, columns, odd headings)
+ * in CV text and in its exported files
+ */
+
+import JSZip from 'jszip';
+import { detectSectionKind } from '@/src/infrastructure/utils/cvHeuristics';
+import { extractPDF } from '@/src/infrastructure/utils/pdfParser';
+import type { ATSExportFormat, ATSIssue } from '@/src/shared/types';
+
+const MARKDOWN_TABLE_ROW = /^\s*\|.*\|\s*$/;
+const MARKDOWN_IMAGE = /!\[[^\]]*\]\([^)]+\)|<img\b/i;
+const MARKDOWN_HEADING = /^\s*(#{1,6})\s+(.+?)\s*#*\s*$/;
+// Text set out in columns with runs of spaces or tabs
+const SPACED_COLUMNS = /\S(?:\t+| {4,})\S/;
+// Markdown syntax that survives into the export as literal characters
+const MARKUP_LINE = /^\s*#{1,6}\s|\*\*[^*]+\*\*|__[^_]+__/;
+
+/**
+ * Problems in the CV text itself, whichever format it is downloaded in
+ */
+export function findContentIssues(content: string): ATSIssue[] {
+  const issues: ATSIssue[] = [];
+  const lines = content.split(/\r?\n/);
+
+  if (lines.filter((line) => MARKDOWN_TABLE_ROW.test(line)).length >= 2) {
+    issues.push({
+      code: 'table',
+      severity: 'error',
+      message: 'The CV contains a table; most ATS read table cells out of order or skip them.',
+    });
+  }
+  if (MARKDOWN_IMAGE.test(content)) {
+    issues.push({
+      code: 'image',
+      severity: 'error',
+      message: 'The CV contains an image; ATS cannot read text inside images.',
+    });
+  }
+  if (lines.filter((line) => SPACED_COLUMNS.test(line.trim())).length >= 3) {
+    issues.push({
+      code: 'multi-column',
+      severity: 'warning',
+      message: 'Some text is laid out in columns with tabs or spaces; ATS may read it across the columns.',
+    });
+  }
+
+  for (const heading of unrecognizedHeadings(lines)) {
+    issues.push({
+      code: 'non-standard-heading',
+      severity: 'warning',
+      message: `"${heading}" is not a standard section heading; ATS look for headings such as Experience, Education and Skills.`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Problems in an exported file: what it contains beyond plain paragraphs, and syntax printed literally
+ */
+export async function inspectExport(format: ATSExportFormat, buffer: Buffer, exportedText: string): Promise<ATSIssue[]> {
+  const issues = format === 'pdf' ? await inspectPDF(buffer) : await inspectDOCX(buffer);
+
+  if (exportedText.split('\n').some((line) => MARKUP_LINE.test(line))) {
+    issues.push({
+      code: 'markup-characters',
+      severity: 'warning',
+      message: `Markdown symbols (#, **) are printed literally in the ${format.toUpperCase()} and end up in parsed fields.`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Section headings (Markdown headings below the name, or short all-caps lines) no CV parser section matches
+ */
+function unrecognizedHeadings(lines: string[]): string[] {
+  const headings: string[] = [];
+  let seenTitle = false;
+
+  for (const line of lines) {
+    const markdown = line.match(MARKDOWN_HEADING);
+    let heading: string | undefined;
+    if (markdown) {
+      // The first level-one heading is the candidate's name
+      if (markdown[1].length === 1 && !seenTitle) {
+        seenTitle = true;
+        continue;
+      }
+      heading = markdown[2].replace(/[*_]/g, '').trim();
+    } else if (/^[A-Z][A-Z &/-]{2,39}:?$/.test(line.trim())) {
+      heading = line.trim();
+    }
+
+    if (heading && detectSectionKind(heading) === null && !headings.includes(heading)) {
+      headings.push(heading);
+    }
+  }
+
+  return headings;
+}
+
+async function inspectPDF(buffer: Buffer): Promise<ATSIssue[]> {
+  const issues: ATSIssue[] = [];
+  const pdf = await extractPDF(buffer);
+
+  if (pdf.columns.some((columns) => columns > 1)) {
+    issues.push({
+      code: 'multi-column',
+      severity: 'warning',
+      message: 'The PDF is laid out in more than one column; many ATS read straight across the page.',
+    });
+  }
+  if (pdf.removedLines > 0) {
+    issues.push({
+      code: 'header-footer',
+      severity: 'warning',
+      message: `${pdf.removedLines} line(s) repeat at the top or bottom of pages; ATS often drop headers and footers.`,
+    });
+  }
+  if (/\/Subtype\s*\/Image\b/.test(buffer.toString('latin1'))) {
+    issues.push({
+      code: 'image',
+      severity: 'error',
+      message: 'The PDF contains images; ATS cannot read text inside images.',
+    });
+  }
+
+  return issues;
+}
+
+async function inspectDOCX(buffer: Buffer): Promise<ATSIssue[]> {
+  const issues: ATSIssue[] = [];
+  const zip = await JSZip.loadAsync(buffer);
+  const documentXml = (await zip.file('word/document.xml')?.async('string')) ?? '';
+  const parts = Object.keys(zip.files);
+
+  if (documentXml.includes('<w:tbl>') || documentXml.includes('<w:tbl ')) {
+    issues.push({
+      code: 'table',
+      severity: 'error',
+      message: 'The DOCX uses a table; most ATS read table cells out of order or skip them.',
+    });
+  }
+  if (/<w:(?:drawing|pict)\b/.test(documentXml) || parts.some((part) => part.startsWith('word/media/'))) {
+    issues.push({
+      code: 'image',
+      severity: 'error',
+      message: 'The DOCX contains images or text boxes; ATS cannot read them.',
+    });
+  }
+  const headerFooters = await Promise.all(
+    parts
+      .filter((part) => /^word\/(?:header|footer)\d*\.xml$/.test(part))
+      .map((part) => zip.file(part)!.async('string'))
+  );
+  if (headerFooters.some((xml) => /<w:t[\s>]/.test(xml))) {
+    issues.push({
+      code: 'header-footer',
+      severity: 'warning',
+      message: 'The DOCX has text in its header or footer; ATS often skip headers and footers.',
+    });
+  }
+  if (/<w:cols\b[^>]*w:num="[2-9]"/.test(documentXml)) {
+    issues.push({
+      code: 'multi-column',
+      severity: 'warning',
+      message: 'The DOCX is laid out in more than one column; many ATS read straight across the page.',
+    });
+  }
+
+  return issues;
+}
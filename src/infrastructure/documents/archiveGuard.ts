@@ -0,0 +1,148 @@
+/**
+ * Archive Guard
+ * Checks ZIP-based uploads (DOCX, ODT, LinkedIn exports) against decompression limits before they are unzipped
+ */
+
+import { inflateRawSync } from 'zlib';
+import { UPLOAD_LIMITS } from '@/src/shared/constants';
+import { DocumentError } from './documentErrors';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// The end record is 22 bytes plus a comment of up to 64KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+/**
+ * One entry of the archive's central directory
+ */
+interface ZipEntry {
+  name: string;
+  method: number;
+  encrypted: boolean;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+function corrupt(): DocumentError {
+  return new DocumentError('CORRUPT_FILE', 'The file is damaged and could not be opened.');
+}
+
+function tooLarge(detail: string): DocumentError {
+  return new DocumentError('ARCHIVE_TOO_LARGE', `The file expands to more data than a CV can hold (${detail}).`);
+}
+
+/**
+ * Read the central directory; sizes are what the archive declares, not yet verified
+ */
+function readCentralDirectory(buffer: Buffer): ZipEntry[] {
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - MAX_END_RECORD_SEARCH); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw corrupt();
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  const directoryOffset = buffer.readUInt32LE(end + 16);
+  // ZIP64 archives hold more than 65535 entries or 4GB, far beyond any document
+  if (entryCount === 0xffff || directoryOffset === ZIP64_MARKER) {
+    throw tooLarge('ZIP64 archive');
+  }
+  if (entryCount > UPLOAD_LIMITS.MAX_ARCHIVE_ENTRIES) {
+    throw tooLarge(`${entryCount} files inside`);
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw corrupt();
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    entries.push({
+      name: buffer.toString('utf-8', offset + 46, offset + 46 + nameLength),
+      method: buffer.readUInt16LE(offset + 10),
+      encrypted: (buffer.readUInt16LE(offset + 8) & FLAG_ENCRYPTED) !== 0,
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Decompress an entry, inflating no more than its declared size
+ * Declared sizes can lie; output beyond them is treated as a zip bomb
+ */
+function verifyEntrySize(buffer: Buffer, entry: ZipEntry): void {
+  const header = entry.localHeaderOffset;
+  if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw corrupt();
+  }
+  const dataStart = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+  if (data.length < entry.compressedSize) {
+    throw corrupt();
+  }
+
+  if (entry.method === METHOD_STORED) {
+    return;
+  }
+  try {
+    inflateRawSync(data, { maxOutputLength: Math.max(1, entry.uncompressedSize) });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw tooLarge(`${entry.name} is larger than it claims`);
+    }
+    throw corrupt();
+  }
+}
+
+/**
+ * Throw a DocumentError unless the archive is safe to unzip
+ * Checks entry count, encryption, per-entry compression ratio and the total size actually decompressed
+ * Only entries matched by include count towards the size limits (LinkedIn exports carry files that are never read)
+ */
+export function assertSafeArchive(buffer: Buffer, include: (name: string) => boolean = () => true): void {
+  let total = 0;
+
+  for (const entry of readCentralDirectory(buffer)) {
+    if (!include(entry.name) || entry.name.endsWith('/')) {
+      continue;
+    }
+    if (entry.encrypted) {
+      throw new DocumentError('PASSWORD_PROTECTED', 'The file is password-protected. Please remove the password and try again.');
+    }
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED) {
+      throw corrupt();
+    }
+    if (
+      entry.uncompressedSize >= UPLOAD_LIMITS.RATIO_CHECK_MIN_BYTES &&
+      entry.uncompressedSize > entry.compressedSize * UPLOAD_LIMITS.MAX_COMPRESSION_RATIO
+    ) {
+      throw tooLarge(`${entry.name} is compressed ${Math.round(entry.uncompressedSize / Math.max(1, entry.compressedSize))}x`);
+    }
+
+    total += entry.uncompressedSize;
+    if (total > UPLOAD_LIMITS.MAX_UNCOMPRESSED_BYTES) {
+      throw tooLarge(`more than ${UPLOAD_LIMITS.MAX_UNCOMPRESSED_BYTES / (1024 * 1024)}MB uncompressed`);
+    }
+    verifyEntrySize(buffer, entry);
+  }
+}
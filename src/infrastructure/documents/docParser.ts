@@ -0,0 +1,45 @@
+/**
+ * DOC Parser
+ * Text of legacy Word 97-2003 binary documents via word-extractor
+ */
+
+import WordExtractor from 'word-extractor';
+
+/**
+ * Text of a .doc file
+ */
+export interface DOCText {
+  text: string;
+  warnings: string[];
+}
+
+/**
+ * Parse a .doc file
+ * CV templates put contact details in page headers and sidebars in text boxes, so both are read too
+ */
+export async function parseDOC(buffer: Buffer): Promise<DOCText> {
+  const document = await new WordExtractor().extract(buffer);
+  const body = document.getBody().trim();
+  const headers = document.getHeaders({ includeFooters: false }).trim();
+  const textboxes = document.getTextboxes({ includeHeadersAndFooters: false, includeBody: true }).trim();
+
+  // Headers and text boxes that merely repeat body text are left out
+  const extra = (part: string) => (part && !body.includes(part) ? part : '');
+  const parts = [extra(headers), body, extra(textboxes)];
+
+  const warnings: string[] = [];
+  if (parts[2]) {
+    warnings.push('Text boxes (often a sidebar) were read after the main text; their place in the layout is unknown.');
+  }
+
+  return {
+    text: parts
+      .filter(Boolean)
+      .join('\n\n')
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+    warnings,
+  };
+}
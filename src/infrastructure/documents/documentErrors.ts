@@ -0,0 +1,63 @@
+/**
+ * Document Errors
+ * Upload rejections with a machine-readable code and the HTTP status routes answer with
+ */
+
+import type { UploadErrorCode } from '@/src/shared/types';
+
+const STATUS_BY_CODE: Record<UploadErrorCode, number> = {
+  NO_FILE: 400,
+  FILE_TOO_LARGE: 413,
+  UNSUPPORTED_FORMAT: 415,
+  TOO_MANY_PAGES: 413,
+  ARCHIVE_TOO_LARGE: 413,
+  PASSWORD_PROTECTED: 422,
+  CORRUPT_FILE: 422,
+  EMPTY_DOCUMENT: 422,
+  PARSE_TIMEOUT: 408,
+  PARSE_FAILED: 500,
+};
+
+/**
+ * An upload that cannot be read; the message is safe to show to the user
+ */
+export class DocumentError extends Error {
+  readonly code: UploadErrorCode;
+  readonly status: number;
+
+  constructor(code: UploadErrorCode, message: string) {
+    super(message);
+    this.name = 'DocumentError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+/**
+ * Reject a parse that runs longer than timeoutMs
+ * The work receives a signal that is aborted at the deadline (its reason is the PARSE_TIMEOUT error);
+ * parsers pass it on so page loops and OCR workers stop instead of running on in the background
+ */
+export async function withParseTimeout<T>(
+  work: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new DocumentError(
+          'PARSE_TIMEOUT',
+          `Reading the file took longer than ${Math.round(timeoutMs / 1000)}s.`
+        );
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+    return await Promise.race([work(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
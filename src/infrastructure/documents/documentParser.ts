@@ -0,0 +1,177 @@
+/**
+ * Document Parser
+ * Detects an upload's real format and turns any supported document into a ParsedDocument
+ */
+
+import mammoth from 'mammoth';
+import { detectSectionKind } from '@/src/infrastructure/utils/cvHeuristics';
+import { extractPDF } from '@/src/infrastructure/utils/pdfParser';
+import { UPLOAD_LIMITS } from '@/src/shared/constants';
+import type { DocumentFormat, DocumentSection, OCRReport, ParsedDocument } from '@/src/shared/types';
+import { assertSafeArchive } from './archiveGuard';
+import { parseDOC } from './docParser';
+import { DocumentError, withParseTimeout } from './documentErrors';
+import { declaredFormat, decodeText, detectDocumentFormat, isEncryptedOfficeDocument } from './formatDetector';
+import { parseHTML } from './htmlParser';
+import { parseMarkdown } from './markdownParser';
+import { parseODT } from './odtParser';
+import { parseRTF } from './rtfParser';
+
+export const SUPPORTED_FORMATS_DESCRIPTION =
+  'PDF, Word (.docx or .doc), OpenDocument (.odt), RTF, HTML, Markdown or plain text';
+
+const FORMAT_LABELS: Record<DocumentFormat, string> = {
+  pdf: 'PDF',
+  docx: 'Word (.docx)',
+  doc: 'Word 97-2003 (.doc)',
+  odt: 'OpenDocument text (.odt)',
+  rtf: 'RTF',
+  html: 'HTML',
+  markdown: 'Markdown',
+  txt: 'plain text',
+};
+
+// Text formats are told apart by content sniffing, so a mismatch with the file name is expected
+const TEXT_FORMATS: ReadonlySet<DocumentFormat> = new Set(['txt', 'markdown', 'html']);
+
+/**
+ * The upload is not one of the supported document formats (images, spreadsheets, archives...)
+ */
+export class UnsupportedDocumentError extends DocumentError {
+  readonly fileName: string;
+
+  constructor(fileName: string) {
+    super(
+      'UNSUPPORTED_FORMAT',
+      `${fileName} is not a supported document. Please upload a ${SUPPORTED_FORMATS_DESCRIPTION} file.`
+    );
+    this.name = 'UnsupportedDocumentError';
+    this.fileName = fileName;
+  }
+}
+
+/**
+ * What a format-specific parser found
+ */
+interface ExtractedText {
+  text: string;
+  headings?: string[];
+  links?: string[];
+  warnings?: string[];
+  ocr?: OCRReport;
+}
+
+/**
+ * Run the parser for a format
+ * Only PDF parsing (page by page, then OCR) observes the signal; the other formats are bounded by their size
+ */
+async function extractText(buffer: Buffer, format: DocumentFormat, signal: AbortSignal): Promise<ExtractedText> {
+  switch (format) {
+    case 'pdf': {
+      const pdf = await extractPDF(buffer, signal);
+      console.log(
+        `[Documents] PDF columns per page: ${pdf.columns.join(', ') || 'n/a'}, ` +
+          `${pdf.removedLines} header/footer lines dropped, ${pdf.links.length} links`
+      );
+      const warnings: string[] = [];
+      if (pdf.ocr) {
+        warnings.push('The PDF has no text layer (it looks scanned), so its text was read with OCR.');
+        if (pdf.ocr.pagesSkipped > 0) {
+          warnings.push(`Only the first ${pdf.ocr.pages.length} pages were read with OCR.`);
+        }
+      }
+      return { text: pdf.text, links: pdf.links, ocr: pdf.ocr, warnings };
+    }
+    case 'docx': {
+      // HTML rather than raw text keeps heading styles, list bullets and hyperlinks
+      const result = await mammoth.convertToHtml({ buffer });
+      const warnings = result.messages
+        .filter((message) => message.type === 'error')
+        .map((message) => message.message);
+      return { ...parseHTML(result.value), warnings };
+    }
+    case 'doc':
+      return parseDOC(buffer);
+    case 'odt':
+      return parseODT(buffer);
+    case 'rtf':
+      return parseRTF(decodeText(buffer));
+    case 'html':
+      return parseHTML(decodeText(buffer));
+    case 'markdown':
+      return parseMarkdown(decodeText(buffer));
+    case 'txt':
+      return { text: decodeText(buffer).replace(/\r\n?/g, '\n').trim() };
+  }
+}
+
+function normalizeHeading(line: string): string {
+  return line.toLowerCase().replace(/[^a-z0-9À-ÖØ-öø-ÿ]+/g, ' ').trim();
+}
+
+/**
+ * Split text at its headings: headings marked up in the source, and lines that read as CV section headings
+ */
+export function splitDocumentSections(text: string, headings: string[] = []): DocumentSection[] {
+  const known = new Set(headings.map(normalizeHeading).filter(Boolean));
+  const sections: Array<{ heading: string; lines: string[] }> = [{ heading: '', lines: [] }];
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed && (known.has(normalizeHeading(trimmed)) || detectSectionKind(trimmed) !== null)) {
+      sections.push({ heading: trimmed, lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  return sections
+    .map(({ heading, lines }) => ({ heading, content: lines.join('\n').trim() }))
+    .filter((section) => section.heading || section.content);
+}
+
+/**
+ * Parse an uploaded document
+ * The format comes from the content, not the file name; a mismatch is reported as a warning
+ * ZIP-based formats are checked for zip bombs before they are opened, and parsing is bounded by a timeout
+ * Throws DocumentError (UnsupportedDocumentError for anything that is not a supported document)
+ */
+export async function parseDocument(buffer: Buffer, fileName: string, mimeType: string): Promise<ParsedDocument> {
+  const format = detectDocumentFormat(buffer, fileName, mimeType);
+  if (!format) {
+    if (isEncryptedOfficeDocument(buffer)) {
+      throw new DocumentError(
+        'PASSWORD_PROTECTED',
+        `${fileName} is password-protected. Please remove the password and upload it again.`
+      );
+    }
+    throw new UnsupportedDocumentError(fileName);
+  }
+  if (format === 'docx' || format === 'odt') {
+    assertSafeArchive(buffer);
+  }
+
+  const warnings: string[] = [];
+  const declared = declaredFormat(fileName, mimeType);
+  if (declared && declared !== format && !(TEXT_FORMATS.has(declared) && TEXT_FORMATS.has(format))) {
+    warnings.push(
+      `${fileName} looks like ${FORMAT_LABELS[declared]} by its name but its content is ${FORMAT_LABELS[format]}; ` +
+        `it was read as ${FORMAT_LABELS[format]}.`
+    );
+  }
+
+  const extracted = await withParseTimeout(
+    (signal) => extractText(buffer, format, signal),
+    UPLOAD_LIMITS.PARSE_TIMEOUT_MS
+  );
+  warnings.push(...(extracted.warnings ?? []));
+
+  return {
+    format,
+    text: extracted.text,
+    sections: splitDocumentSections(extracted.text, extracted.headings),
+    warnings,
+    links: extracted.links ?? [],
+    ocr: extracted.ocr,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Document Format Detector
+ * Identifies uploads by their leading bytes (magic numbers); the file name and MIME type only separate text formats
+ */
+
+import type { DocumentFormat } from '@/src/shared/types';
+
+const PDF_SIGNATURE = Buffer.from('%PDF-', 'latin1');
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+const UTF16LE_BOM = Buffer.from([0xff, 0xfe]);
+const UTF16BE_BOM = Buffer.from([0xfe, 0xff]);
+
+// ODF packages store their MIME type uncompressed as the first zip entry
+const ODT_MIMETYPE = 'application/vnd.oasis.opendocument.text';
+const DOCX_MAIN_PART = 'word/document.xml';
+// Name of the main stream of a Word 97-2003 compound file, in UTF-16LE
+const WORD_STREAM = Buffer.from('WordDocument', 'utf16le');
+// Password-protected DOCX files are compound files wrapping an encrypted package
+const ENCRYPTED_PACKAGE_STREAM = Buffer.from('EncryptedPackage', 'utf16le');
+
+// How far into the file leading signatures are searched (some PDFs carry junk before %PDF-)
+const SNIFF_BYTES = 1024;
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.doc': 'doc',
+  '.odt': 'odt',
+  '.rtf': 'rtf',
+  '.html': 'html',
+  '.htm': 'html',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'txt',
+};
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/msword': 'doc',
+  'application/vnd.oasis.opendocument.text': 'odt',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf',
+  'text/html': 'html',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/plain': 'txt',
+};
+
+// Windows-1252 characters for bytes 0x80-0x9F; the other bytes are their Latin-1 code points
+const WINDOWS_1252_HIGH =
+  '\u20AC\u0081\u201A\u0192\u201E\u2026\u2020\u2021\u02C6\u2030\u0160\u2039\u0152\u008D\u017D\u008F' +
+  '\u0090\u2018\u2019\u201C\u201D\u2022\u2013\u2014\u02DC\u2122\u0161\u203A\u0153\u009D\u017E\u0178';
+
+const HTML_START = /^\s*(?:<\?xml[^>]*>\s*)?(?:<!--[\s\S]*?-->\s*)*<(?:!doctype\s+html|html|head|body)\b/i;
+const MARKDOWN_HEADING = /^#{1,6}\s+\S/gm;
+
+/**
+ * Format implied by the file name or the browser-reported MIME type, if any
+ */
+export function declaredFormat(fileName: string, mimeType: string): DocumentFormat | null {
+  const lowerName = fileName.toLowerCase();
+  const extension = lowerName.includes('.') ? lowerName.substring(lowerName.lastIndexOf('.')) : '';
+  return EXTENSION_FORMATS[extension] ?? MIME_FORMATS[mimeType.split(';')[0].trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Decode Windows-1252 bytes
+ * Node 20's TextDecoder decodes windows-1252 as Latin-1, turning smart quotes, dashes and € into control characters
+ */
+export function decodeWindows1252(bytes: Uint8Array): string {
+  let text = '';
+  for (const byte of bytes) {
+    text += byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : String.fromCharCode(byte);
+  }
+  return text;
+}
+
+/**
+ * Decode a text upload: UTF-8 or UTF-16 (by BOM), falling back to Windows-1252 for legacy 8-bit files
+ */
+export function decodeText(buffer: Buffer): string {
+  if (buffer.subarray(0, 3).equals(UTF8_BOM)) {
+    return buffer.subarray(3).toString('utf-8');
+  }
+  if (buffer.subarray(0, 2).equals(UTF16LE_BOM)) {
+    return new TextDecoder('utf-16le').decode(buffer.subarray(2));
+  }
+  if (buffer.subarray(0, 2).equals(UTF16BE_BOM)) {
+    return new TextDecoder('utf-16be').decode(buffer.subarray(2));
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return decodeWindows1252(buffer);
+  }
+}
+
+/**
+ * Whether the bytes look like text rather than an unknown binary format
+ */
+function looksLikeText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, SNIFF_BYTES * 4);
+  if (sample.subarray(0, 2).equals(UTF16LE_BOM) || sample.subarray(0, 2).equals(UTF16BE_BOM)) {
+    return true;
+  }
+  return !sample.includes(0);
+}
+
+/**
+ * Whether the bytes are a password-protected Office document
+ */
+export function isEncryptedOfficeDocument(buffer: Buffer): boolean {
+  return buffer.subarray(0, OLE_SIGNATURE.length).equals(OLE_SIGNATURE) && buffer.indexOf(ENCRYPTED_PACKAGE_STREAM) !== -1;
+}
+
+/**
+ * Detect the format of an uploaded document from its content
+ * Returns null for content that is none of the supported formats (images, spreadsheets, archives...)
+ */
+export function detectDocumentFormat(buffer: Buffer, fileName: string, mimeType: string): DocumentFormat | null {
+  const head = buffer.subarray(0, SNIFF_BYTES);
+
+  if (head.indexOf(PDF_SIGNATURE) !== -1) {
+    return 'pdf';
+  }
+
+  if (buffer.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE)) {
+    if (head.toString('latin1').includes(ODT_MIMETYPE)) {
+      return 'odt';
+    }
+    // Part names are repeated in the central directory at the end of the archive
+    return buffer.indexOf(DOCX_MAIN_PART, 0, 'latin1') !== -1 ? 'docx' : null;
+  }
+
+  if (buffer.subarray(0, OLE_SIGNATURE.length).equals(OLE_SIGNATURE)) {
+    // Compound files also hold Excel and PowerPoint documents; only Word has this stream
+    return buffer.indexOf(WORD_STREAM) !== -1 ? 'doc' : null;
+  }
+
+  if (!looksLikeText(buffer)) {
+    return null;
+  }
+
+  const text = decodeText(head);
+  if (text.trimStart().startsWith('{\\rtf')) {
+    return 'rtf';
+  }
+
+  const declared = declaredFormat(fileName, mimeType);
+  if (HTML_START.test(text) || (declared === 'html' && text.includes('<'))) {
+    return 'html';
+  }
+  if (declared === 'markdown' || (text.match(MARKDOWN_HEADING)?.length ?? 0) >= 2) {
+    return 'markdown';
+  }
+  return 'txt';
+}
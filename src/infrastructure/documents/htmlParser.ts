@@ -0,0 +1,30 @@
+/**
+ * HTML Parser
+ * Text, headings and links of HTML uploads (saved web pages, exported CVs) and of DOCX converted by mammoth
+ */
+
+import { markupToText, type MarkupRules, type MarkupText } from './markup';
+
+const HTML_RULES: MarkupRules = {
+  blocks: new Set([
+    'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav', 'address',
+    'blockquote', 'pre', 'ul', 'ol', 'dl', 'dt', 'dd', 'table', 'figure', 'figcaption', 'hr',
+  ]),
+  headings: new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']),
+  listItems: new Set(['li']),
+  rows: new Set(['tr']),
+  cells: new Set(['td', 'th']),
+  skip: new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'object', 'select']),
+  replacements: {
+    br: () => '\n',
+    img: (attributes) => (attributes.alt ? ` ${attributes.alt} ` : ''),
+  },
+  link: { tag: 'a', attribute: 'href' },
+};
+
+/**
+ * Parse an HTML document into text lines with its headings and link targets
+ */
+export function parseHTML(html: string): MarkupText {
+  return markupToText(html, HTML_RULES);
+}
@@ -0,0 +1,102 @@
+/**
+ * Markdown Parser
+ * Strips Markdown syntax from CVs kept as .md (GitHub profiles, static-site résumés), keeping headings and links
+ */
+
+import type { MarkupText } from './markup';
+import { decodeEntities } from './markup';
+
+const FRONT_MATTER = /^---\r?\n[\s\S]*?\r?\n---\r?\n/;
+const ATX_HEADING = /^#{1,6}\s+(.*?)\s*#*\s*$/;
+const SETEXT_UNDERLINE = /^(?:=+|-+)\s*$/;
+const HORIZONTAL_RULE = /^(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,})$/;
+const LIST_ITEM = /^\s*[-*+]\s+(?:\[[ xX]\]\s+)?/;
+const TABLE_DELIMITER = /^\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const CODE_FENCE = /^\s*(?:```|~~~)/;
+
+/**
+ * Remove inline syntax from one line, collecting link targets
+ */
+function stripInline(line: string, links: string[]): string {
+  const addLink = (url: string) => {
+    if (!links.includes(url)) {
+      links.push(url);
+    }
+  };
+
+  return decodeEntities(
+    line
+      // Images carry no text worth keeping beyond their alt text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g, (_match, text: string, url: string) => {
+        addLink(url);
+        return text;
+      })
+      .replace(/<((?:https?:\/\/|mailto:)[^>\s]+)>/gi, (_match, url: string) => {
+        addLink(url);
+        return url.replace(/^mailto:/i, '');
+      })
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/(\*\*|__)(\S(?:.*?\S)?)\1/g, '$2')
+      .replace(/(^|[^\w*])\*(\S(?:.*?\S)?)\*(?!\w)/g, '$1$2')
+      .replace(/(^|[^\w])_(\S(?:.*?\S)?)_(?!\w)/g, '$1$2')
+      .replace(/~~(.+?)~~/g, '$1')
+      .replace(/<\/?[a-z][^>]*>/gi, '')
+      .replace(/\\([\\`*_{}[\]()#+\-.!|])/g, '$1')
+  ).trim();
+}
+
+/**
+ * Parse Markdown into plain text lines with its headings and link targets
+ */
+export function parseMarkdown(markdown: string): MarkupText {
+  const source = markdown.replace(FRONT_MATTER, '').split(/\r?\n/);
+  const lines: string[] = [];
+  const headings: string[] = [];
+  const links: string[] = [];
+  let inCode = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const raw = source[i];
+
+    if (CODE_FENCE.test(raw)) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) {
+      lines.push(raw.trimEnd());
+      continue;
+    }
+
+    const line = raw.replace(/^\s{0,3}>\s?/, '');
+    const atx = line.match(ATX_HEADING);
+    const next = source[i + 1] ?? '';
+    const setext = line.trim() !== '' && !LIST_ITEM.test(line) && SETEXT_UNDERLINE.test(next.trim());
+
+    if (atx || setext) {
+      const heading = stripInline(atx ? atx[1] : line, links);
+      headings.push(heading);
+      lines.push(heading);
+      i += setext ? 1 : 0;
+      continue;
+    }
+    if (HORIZONTAL_RULE.test(line.trim()) || TABLE_DELIMITER.test(line.trim())) {
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      lines.push(`• ${stripInline(line.replace(LIST_ITEM, ''), links)}`);
+    } else if (line.includes('|') && line.trim().startsWith('|')) {
+      const cells = line.trim().replace(/^\||\|$/g, '').split('|');
+      lines.push(cells.map((cell) => stripInline(cell, links)).filter(Boolean).join(' | '));
+    } else {
+      lines.push(stripInline(line, links));
+    }
+  }
+
+  return {
+    text: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    headings,
+    links,
+  };
+}
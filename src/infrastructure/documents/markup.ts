@@ -0,0 +1,267 @@
+/**
+ * Markup to Text
+ * Small tag walker shared by the HTML and ODT parsers: block structure to lines, headings, list bullets and links
+ */
+
+/**
+ * How a markup vocabulary maps onto plain text
+ */
+export interface MarkupRules {
+  // Elements that start and end a line
+  blocks: ReadonlySet<string>;
+  // Elements whose text is a heading
+  headings: ReadonlySet<string>;
+  // Elements rendered as "• " bullet lines
+  listItems: ReadonlySet<string>;
+  // Table rows, one line each, with cells separated by " | "
+  rows: ReadonlySet<string>;
+  cells: ReadonlySet<string>;
+  // Elements whose content is not document text (scripts, styles, deleted changes...)
+  skip: ReadonlySet<string>;
+  // Empty elements replaced by text, e.g. line breaks and tabs
+  replacements: Readonly<Record<string, (attributes: Record<string, string>) => string>>;
+  // Link element and the attribute holding its target
+  link: { tag: string; attribute: string };
+}
+
+/**
+ * Element of a markup tree; start and end are offsets into the source, end just past the closing tag
+ */
+export interface MarkupElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: Array<MarkupElement | string>;
+  start: number;
+  end: number;
+}
+
+/**
+ * Plain text of a markup document
+ */
+export interface MarkupText {
+  text: string;
+  headings: string[];
+  links: string[];
+}
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<([/!?]?)([A-Za-z][\w:.-]*)([^>]*)>|([^<]+)|</g;
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  bull: '•',
+  middot: '·',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  pound: '£',
+};
+
+/**
+ * Decode character references (&amp;, &#233;, &#xE9;) and the common named entities
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Walk markup and render it as text lines
+ * Empty paragraphs become blank lines, which is how documents usually separate entries
+ */
+export function markupToText(markup: string, rules: MarkupRules): MarkupText {
+  const lines: string[] = [];
+  const headings: string[] = [];
+  const links: string[] = [];
+  // Open blocks with the number of finished lines when they opened, to spot empty paragraphs
+  const openBlocks: Array<{ tag: string; lineCount: number }> = [];
+  let line = '';
+  let skipDepth = 0;
+  let cellCount = 0;
+
+  const flush = () => {
+    const text = line.replace(/[ \t]+/g, ' ').replace(/(?:\s*\|)+\s*$/, '').trim();
+    if (text) {
+      lines.push(text);
+    }
+    line = '';
+    cellCount = 0;
+  };
+
+  for (const match of markup.matchAll(TOKEN_PATTERN)) {
+    const [token, cdata, marker, rawTag, rawAttributes, textNode] = match;
+
+    if (rawTag === undefined) {
+      const text = cdata ?? textNode ?? (token === '<' ? '<' : '');
+      if (skipDepth === 0 && text) {
+        line += decodeEntities(text).replace(/\s+/g, ' ');
+      }
+      continue;
+    }
+    if (marker === '!' || marker === '?') {
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const closing = marker === '/';
+    const selfClosing = !closing && rawAttributes.trimEnd().endsWith('/');
+
+    if (rules.skip.has(tag)) {
+      if (!selfClosing) {
+        skipDepth = Math.max(0, skipDepth + (closing ? -1 : 1));
+      }
+      continue;
+    }
+    if (skipDepth > 0) {
+      continue;
+    }
+
+    const replacement = rules.replacements[tag];
+    if (replacement && !closing) {
+      const text = replacement(parseAttributes(rawAttributes));
+      if (text === '\n') {
+        flush();
+      } else {
+        line += text;
+      }
+      continue;
+    }
+
+    if (tag === rules.link.tag && !closing) {
+      const target = parseAttributes(rawAttributes)[rules.link.attribute];
+      if (target && !target.startsWith('#') && !links.includes(target)) {
+        links.push(target);
+      }
+      continue;
+    }
+
+    if (rules.rows.has(tag)) {
+      flush();
+      continue;
+    }
+    if (rules.cells.has(tag)) {
+      if (!closing && cellCount++ > 0) {
+        line += ' | ';
+      }
+      continue;
+    }
+
+    if (rules.blocks.has(tag) || rules.headings.has(tag) || rules.listItems.has(tag)) {
+      if (!closing) {
+        // Cells hold paragraphs of their own, and so do list items; keep them on one line
+        if (cellCount === 0 && line.trim() !== '•') {
+          flush();
+        }
+        openBlocks.push({ tag, lineCount: lines.length });
+        if (rules.listItems.has(tag) && cellCount === 0) {
+          line = '• ';
+        }
+        if (selfClosing) {
+          openBlocks.pop();
+        }
+        continue;
+      }
+
+      const index = openBlocks.map((block) => block.tag).lastIndexOf(tag);
+      const block = index >= 0 ? openBlocks.splice(index)[0] : undefined;
+      if (rules.headings.has(tag) && line.trim()) {
+        headings.push(line.replace(/\s+/g, ' ').trim());
+      }
+      const empty = block !== undefined && lines.length === block.lineCount && line.replace('•', '').trim() === '';
+      if (cellCount > 0) {
+        continue;
+      }
+      flush();
+      if (empty && lines.length > 0 && lines[lines.length - 1] !== '') {
+        lines.push('');
+      }
+    }
+  }
+  flush();
+
+  return {
+    text: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    headings,
+    links,
+  };
+}
+
+/**
+ * Build an element tree from markup, leniently: unclosed elements end where an ancestor closes
+ * Text nodes are entity-decoded; comments and declarations are dropped
+ */
+export function parseMarkupTree(markup: string, voidTags: ReadonlySet<string> = new Set()): MarkupElement {
+  const root: MarkupElement = { tag: '#root', attributes: {}, children: [], start: 0, end: markup.length };
+  const stack = [root];
+
+  for (const match of markup.matchAll(TOKEN_PATTERN)) {
+    const [token, cdata, marker, rawTag, rawAttributes, textNode] = match;
+    const offset = match.index ?? 0;
+    const parent = stack[stack.length - 1];
+
+    if (rawTag === undefined) {
+      const text = cdata ?? textNode ?? (token === '<' ? '<' : '');
+      if (text) {
+        parent.children.push(decodeEntities(text));
+      }
+      continue;
+    }
+    if (marker === '!' || marker === '?') {
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (marker === '/') {
+      const index = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (index > 0) {
+        for (const element of stack.splice(index)) {
+          element.end = offset + token.length;
+        }
+      }
+      continue;
+    }
+
+    const element: MarkupElement = {
+      tag,
+      attributes: parseAttributes(rawAttributes),
+      children: [],
+      start: offset,
+      end: offset + token.length,
+    };
+    parent.children.push(element);
+    if (!voidTags.has(tag) && !rawAttributes.trimEnd().endsWith('/')) {
+      stack.push(element);
+    }
+  }
+  for (const element of stack.slice(1)) {
+    element.end = markup.length;
+  }
+
+  return root;
+}
@@ -0,0 +1,56 @@
+/**
+ * ODT Parser
+ * Text of OpenDocument text files (LibreOffice, Google Docs export) read from the package's content.xml
+ */
+
+import JSZip from 'jszip';
+import { DocumentError } from './documentErrors';
+import { markupToText, type MarkupRules, type MarkupText } from './markup';
+
+const ODT_RULES: MarkupRules = {
+  blocks: new Set(['text:p', 'text:list', 'text:section', 'table:table', 'draw:text-box']),
+  headings: new Set(['text:h']),
+  listItems: new Set(['text:list-item']),
+  rows: new Set(['table:table-row']),
+  cells: new Set(['table:table-cell']),
+  // Styles carry no text; tracked deletions are text the author removed
+  skip: new Set([
+    'office:font-face-decls', 'office:automatic-styles', 'office:scripts', 'text:tracked-changes',
+    'text:sequence-decls', 'office:annotation',
+  ]),
+  replacements: {
+    'text:line-break': () => '\n',
+    'text:tab': () => ' ',
+    // <text:s text:c="3"/> stands for three spaces
+    'text:s': (attributes) => ' '.repeat(Math.min(Number(attributes['text:c']) || 1, 8)),
+  },
+  link: { tag: 'text:a', attribute: 'xlink:href' },
+};
+
+/**
+ * Parse an ODT package
+ * Encrypted (password-protected) documents are rejected; images inside the document are reported as warnings
+ */
+export async function parseODT(buffer: Buffer): Promise<MarkupText & { warnings: string[] }> {
+  const zip = await JSZip.loadAsync(buffer);
+  const manifest = await zip.file('META-INF/manifest.xml')?.async('string');
+  if (manifest?.includes('manifest:encryption-data')) {
+    throw new DocumentError(
+      'PASSWORD_PROTECTED',
+      'The ODT document is password-protected. Please remove the password and upload it again.'
+    );
+  }
+
+  const content = await zip.file('content.xml')?.async('string');
+  if (!content) {
+    throw new DocumentError('CORRUPT_FILE', 'The ODT document has no content.xml; it may be corrupted.');
+  }
+
+  const warnings: string[] = [];
+  const images = content.match(/<draw:image\b/g)?.length ?? 0;
+  if (images > 0) {
+    warnings.push(`${images} image(s) in the document were skipped; text inside images is not read.`);
+  }
+
+  return { ...markupToText(content, ODT_RULES), warnings };
+}
@@ -0,0 +1,218 @@
+/**
+ * RTF Parser
+ * Reads the text of Rich Text Format documents: paragraphs, tables, unicode and code-page characters, hyperlinks
+ */
+
+import { decodeWindows1252 } from './formatDetector';
+
+/**
+ * Text of an RTF document
+ */
+export interface RTFText {
+  text: string;
+  links: string[];
+  warnings: string[];
+}
+
+/**
+ * Group state that RTF scopes to braces
+ */
+interface GroupState {
+  // Content of this group is not document text (font tables, pictures, field instructions...)
+  skip: boolean;
+  // Number of fallback characters following a \uN escape
+  unicodeSkip: number;
+  // Collects the instruction of a {\*\fldinst ...} field, where hyperlink targets live
+  fieldInstruction: boolean;
+}
+
+/**
+ * Destinations whose content is never part of the visible text
+ */
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'listtable', 'listoverridetable', 'rsidtbl', 'generator',
+  'xmlnstbl', 'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'filetbl', 'revtbl',
+  'pntext', 'pntxta', 'pntxtb', 'bkmkstart', 'bkmkend', 'fldinst', 'shpinst', 'nonshppict', 'annotation',
+]);
+
+const SYMBOLS: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n',
+  page: '\n',
+  row: '\n',
+  cell: ' | ',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  emspace: ' ',
+  enspace: ' ',
+};
+
+const CONTROL_WORD = /^\\([a-z]{1,32})(-?\d{1,10})? ?/;
+
+/**
+ * Decoder for the document's ANSI code page (\ansicpgN), Windows-1252 when absent or unknown
+ */
+function codePageDecoder(rtf: string): (bytes: Uint8Array) => string {
+  const codePage = rtf.match(/\\ansicpg(\d+)/)?.[1];
+  if (!codePage || codePage === '1252') {
+    return decodeWindows1252;
+  }
+  try {
+    const decoder = new TextDecoder(`windows-${codePage}`);
+    return (bytes) => decoder.decode(bytes);
+  } catch {
+    return decodeWindows1252;
+  }
+}
+
+/**
+ * Parse an RTF document into plain text
+ */
+export function parseRTF(rtf: string): RTFText {
+  const decode = codePageDecoder(rtf);
+  const links: string[] = [];
+  const warnings: string[] = [];
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1, fieldInstruction: false };
+  let output = '';
+  let instruction = '';
+  let pendingSkip = 0;
+  let hasPictures = false;
+  // \'hh bytes are buffered so multi-byte code pages decode correctly
+  let bytes: number[] = [];
+
+  const emit = (text: string) => {
+    if (bytes.length > 0) {
+      const decoded = decode(new Uint8Array(bytes));
+      bytes = [];
+      emit(decoded);
+    }
+    if (state.fieldInstruction) {
+      instruction += text;
+    } else if (!state.skip) {
+      output += text;
+    }
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      emit('');
+      stack.push(state);
+      state = { ...state };
+      i++;
+      continue;
+    }
+    if (char === '}') {
+      emit('');
+      if (state.fieldInstruction && !stack[stack.length - 1]?.fieldInstruction) {
+        const target = instruction.match(/HYPERLINK\s+"([^"]+)"/i)?.[1];
+        if (target && !links.includes(target)) {
+          links.push(target);
+        }
+        instruction = '';
+      }
+      state = stack.pop() ?? state;
+      i++;
+      continue;
+    }
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+
+    if (char !== '\\') {
+      if (pendingSkip > 0) {
+        pendingSkip--;
+      } else {
+        emit(char);
+      }
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === "'") {
+      const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+      if (pendingSkip > 0) {
+        pendingSkip--;
+      } else if (!Number.isNaN(byte) && !state.skip) {
+        bytes.push(byte);
+      }
+      i += 4;
+      continue;
+    }
+
+    const word = CONTROL_WORD.exec(rtf.slice(i, i + 48));
+    if (!word) {
+      // Control symbols: escaped characters, non-breaking space, optional hyphen, ignorable destination
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+      } else if (next === '~') {
+        emit(' ');
+      } else if (next === '_') {
+        emit('-');
+      } else if (next === '*') {
+        state.skip = true;
+      } else if (next === '\n' || next === '\r') {
+        emit('\n');
+      }
+      i += 2;
+      continue;
+    }
+
+    const [token, name, parameter] = word;
+    i += token.length;
+    pendingSkip = 0;
+
+    if (name === 'fldinst') {
+      state.fieldInstruction = true;
+      continue;
+    }
+    if (name === 'pict') {
+      hasPictures = true;
+    }
+    if (SKIPPED_DESTINATIONS.has(name)) {
+      state.skip = true;
+      continue;
+    }
+    if (name === 'uc') {
+      state.unicodeSkip = Number(parameter ?? 1);
+      continue;
+    }
+    if (name === 'u' && parameter !== undefined) {
+      const code = Number(parameter);
+      emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+      pendingSkip = state.unicodeSkip;
+      continue;
+    }
+    if (SYMBOLS[name]) {
+      emit(SYMBOLS[name]);
+    }
+  }
+  emit('');
+
+  // Pictures are often stored twice (\shppict and \nonshppict), so they are not counted
+  if (hasPictures) {
+    warnings.push('Images in the document were skipped; text inside images is not read.');
+  }
+
+  const text = output
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').replace(/(?:\s*\|)+\s*$/, '').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { text, links, warnings };
+}
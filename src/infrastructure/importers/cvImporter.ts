@@ -0,0 +1,60 @@
+/**
+ * CV Importer
+ * Turns structured CV exports (JSON Resume, LinkedIn data export) into CVData without the LLM
+ */
+
+import JSZip from 'jszip';
+import { assertSafeArchive } from '@/src/infrastructure/documents/archiveGuard';
+import { DocumentError } from '@/src/infrastructure/documents/documentErrors';
+import { decodeText } from '@/src/infrastructure/documents/formatDetector';
+import type { CVImportResult } from '@/src/shared/types';
+import { cvDataToText } from '@/src/shared/utils/cvText';
+import { importJSONResume, isJSONResume } from './jsonResume';
+import { importLinkedInExport, isImportedExportFile, isLinkedInExport } from './linkedinExport';
+
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/**
+ * The file is neither a JSON Resume nor a LinkedIn data export
+ */
+export class CVImportError extends DocumentError {
+  readonly fileName: string;
+
+  constructor(fileName: string, reason: string) {
+    super('UNSUPPORTED_FORMAT', `${fileName} could not be imported: ${reason}`);
+    this.name = 'CVImportError';
+    this.fileName = fileName;
+  }
+}
+
+/**
+ * Import a CV export; the source is recognised from the content
+ * Throws CVImportError when the file is not a supported export, and DocumentError for unsafe or damaged archives
+ */
+export async function importCV(buffer: Buffer, fileName: string): Promise<CVImportResult> {
+  if (buffer.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE)) {
+    assertSafeArchive(buffer, isImportedExportFile);
+    const zip = await JSZip.loadAsync(buffer).catch(() => {
+      throw new DocumentError('CORRUPT_FILE', `${fileName} could not be imported: the ZIP archive is damaged.`);
+    });
+    if (!isLinkedInExport(zip)) {
+      throw new CVImportError(fileName, 'the ZIP archive is not a LinkedIn data export (no Profile.csv or Positions.csv).');
+    }
+
+    const { cvData, warnings } = await importLinkedInExport(zip);
+    return { cvData: { ...cvData, rawContent: cvDataToText(cvData) }, source: 'linkedin-export', warnings };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(decodeText(buffer));
+  } catch {
+    throw new CVImportError(fileName, 'it is neither a ZIP archive nor valid JSON.');
+  }
+  if (!isJSONResume(json)) {
+    throw new CVImportError(fileName, 'the JSON is not a JSON Resume (no "basics" section).');
+  }
+
+  const { cvData, warnings } = importJSONResume(json);
+  return { cvData: { ...cvData, rawContent: cvDataToText(cvData) }, source: 'json-resume', warnings };
+}
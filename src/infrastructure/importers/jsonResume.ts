@@ -0,0 +1,206 @@
+/**
+ * JSON Resume Importer
+ * Maps a resume.json (https://jsonresume.org/schema) straight onto CVData
+ */
+
+import { z } from 'zod';
+import { parseProficiency } from '@/src/infrastructure/utils/cvHeuristics';
+import type { CVData, Education, Experience, Language } from '@/src/shared/types';
+import { uniqueStrings } from '@/src/shared/utils/text';
+
+/**
+ * Optional text that tolerates null and non-string junk from hand-edited files
+ */
+const text = z.string().trim().optional().catch(undefined);
+const textList = z.array(z.string()).catch([]).prefault([]);
+
+/**
+ * Only the parts of the schema CVData has room for; unknown keys are ignored
+ * Older schema versions used company/website instead of name/url; both are accepted
+ */
+const jsonResumeSchema = z.object({
+  basics: z
+    .object({
+      name: text,
+      label: text,
+      email: text,
+      phone: text,
+      url: text,
+      website: text,
+      summary: text,
+      location: z
+        .object({ address: text, city: text, region: text, countryCode: text })
+        .partial()
+        .catch({})
+        .prefault({}),
+      profiles: z
+        .array(z.object({ network: text, username: text, url: text }))
+        .catch([])
+        .prefault([]),
+    })
+    .catch({ location: {}, profiles: [] })
+    .prefault({}),
+  work: z
+    .array(
+      z.object({
+        name: text,
+        company: text,
+        position: text,
+        startDate: text,
+        endDate: text,
+        summary: text,
+        highlights: textList,
+      })
+    )
+    .catch([])
+    .prefault([]),
+  volunteer: z
+    .array(
+      z.object({ organization: text, position: text, startDate: text, endDate: text, summary: text, highlights: textList })
+    )
+    .catch([])
+    .prefault([]),
+  education: z
+    .array(
+      z.object({ institution: text, area: text, studyType: text, startDate: text, endDate: text, score: text, gpa: text })
+    )
+    .catch([])
+    .prefault([]),
+  skills: z
+    .array(z.object({ name: text, keywords: textList }))
+    .catch([])
+    .prefault([]),
+  languages: z
+    .array(z.object({ language: text, fluency: text }))
+    .catch([])
+    .prefault([]),
+  certificates: z
+    .array(z.object({ name: text, issuer: text, date: text }))
+    .catch([])
+    .prefault([]),
+});
+
+export type JSONResume = z.infer<typeof jsonResumeSchema>;
+
+/**
+ * Whether a parsed JSON value looks like a JSON Resume rather than some other JSON file
+ */
+export function isJSONResume(value: unknown): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.includes('basics') || (keys.includes('work') && keys.includes('education'));
+}
+
+/**
+ * JSON Resume dates are ISO 8601 ("2020-01-15", "2020-01" or "2020"); CVData keeps YYYY-MM or YYYY
+ */
+function isoMonth(date: string | undefined): string {
+  const match = date?.match(/^(\d{4})(?:-(\d{2}))?/);
+  return match ? (match[2] ? `${match[1]}-${match[2]}` : match[1]) : '';
+}
+
+function toExperience(
+  entry: { company: string; position: string; startDate?: string; endDate?: string; summary?: string; highlights: string[] },
+  index: number
+): Experience {
+  const endDate = isoMonth(entry.endDate);
+  return {
+    id: `exp-${index + 1}`,
+    company: entry.company,
+    position: entry.position,
+    startDate: isoMonth(entry.startDate),
+    endDate: endDate || undefined,
+    current: !endDate,
+    description: entry.summary ? [entry.summary] : [],
+    achievements: entry.highlights.map((highlight) => highlight.trim()).filter(Boolean),
+  };
+}
+
+/**
+ * Map a JSON Resume onto CVData
+ * Volunteering is listed after paid work; skill keywords count as skills alongside the skill names
+ */
+export function importJSONResume(value: unknown): { cvData: CVData; warnings: string[] } {
+  const resume = jsonResumeSchema.parse(value);
+  const { basics } = resume;
+  const warnings: string[] = [];
+
+  const linkedInProfile = basics.profiles.find((profile) => /linkedin/i.test(profile.network ?? profile.url ?? ''));
+  const linkedIn =
+    linkedInProfile?.url ||
+    (linkedInProfile?.username ? `https://www.linkedin.com/in/${linkedInProfile.username}` : undefined);
+  const location =
+    [basics.location.city, basics.location.region, basics.location.countryCode].filter(Boolean).join(', ') ||
+    basics.location.address;
+
+  const experience = [
+    ...resume.work.map((entry) => ({ ...entry, company: entry.name ?? entry.company ?? '' })),
+    ...resume.volunteer.map((entry) => ({
+      ...entry,
+      company: entry.organization ?? '',
+      position: entry.position ? `${entry.position} (Volunteer)` : 'Volunteer',
+    })),
+  ]
+    .filter((entry) => entry.company || entry.position)
+    .map((entry, index) => toExperience({ ...entry, position: entry.position ?? '' }, index));
+
+  const education: Education[] = resume.education
+    .filter((entry) => entry.institution || entry.studyType || entry.area)
+    .map((entry, index) => {
+      const endDate = isoMonth(entry.endDate);
+      return {
+        id: `edu-${index + 1}`,
+        institution: entry.institution ?? '',
+        degree: entry.studyType ?? '',
+        field: entry.area,
+        startDate: isoMonth(entry.startDate),
+        endDate: endDate || undefined,
+        gpa: entry.score ?? entry.gpa,
+      };
+    });
+
+  const languages: Language[] = resume.languages
+    .filter((entry) => entry.language)
+    .map((entry) => ({
+      name: entry.language ?? '',
+      proficiency: parseProficiency(entry.fluency ?? '') ?? 'professional',
+    }));
+
+  const certifications = resume.certificates
+    .filter((entry) => entry.name)
+    .map((entry) => {
+      const year = isoMonth(entry.date).slice(0, 4);
+      return `${entry.name}${entry.issuer ? ` - ${entry.issuer}` : ''}${year ? ` (${year})` : ''}`;
+    });
+
+  if (!basics.name) {
+    warnings.push('The JSON Resume has no basics.name; please add your name.');
+  }
+  if (experience.length === 0) {
+    warnings.push('The JSON Resume has no work entries.');
+  }
+
+  return {
+    cvData: {
+      id: `cv-${Date.now()}`,
+      personalInfo: {
+        fullName: basics.name ?? '',
+        email: basics.email ?? '',
+        phone: basics.phone,
+        location: location || undefined,
+        linkedIn,
+        portfolio: basics.url ?? basics.website,
+        summary: basics.summary ?? basics.label,
+      },
+      experience,
+      education,
+      skills: uniqueStrings(resume.skills.flatMap((skill) => [skill.name ?? '', ...skill.keywords])),
+      certifications,
+      languages,
+      createdAt: new Date().toISOString(),
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,245 @@
+/**
+ * LinkedIn Export Importer
+ * Maps the CSV files of a LinkedIn "Get a copy of your data" ZIP onto CVData
+ */
+
+import JSZip from 'jszip';
+import { normalizeDate } from '@/src/infrastructure/utils/cvHeuristics';
+import type { CVData, Education, Experience, Language } from '@/src/shared/types';
+import { uniqueStrings } from '@/src/shared/utils/text';
+
+type CSVRow = Record<string, string>;
+
+/**
+ * The CSV files of the export that are read, with the column that marks each one's header row
+ */
+const EXPORT_FILES = {
+  profile: { fileName: 'Profile.csv', requiredColumn: 'First Name' },
+  emails: { fileName: 'Email Addresses.csv', requiredColumn: 'Email Address' },
+  phones: { fileName: 'PhoneNumbers.csv', requiredColumn: 'Number' },
+  positions: { fileName: 'Positions.csv', requiredColumn: 'Company Name' },
+  education: { fileName: 'Education.csv', requiredColumn: 'School Name' },
+  skills: { fileName: 'Skills.csv', requiredColumn: 'Name' },
+  languages: { fileName: 'Languages.csv', requiredColumn: 'Name' },
+  certifications: { fileName: 'Certifications.csv', requiredColumn: 'Name' },
+} as const;
+
+const EXPORT_FILE_NAMES = new Set(Object.values(EXPORT_FILES).map((file) => file.fileName.toLowerCase()));
+
+/**
+ * LinkedIn's fixed proficiency labels, matched on their first words
+ */
+const LINKEDIN_PROFICIENCY: Array<{ match: RegExp; proficiency: Language['proficiency'] }> = [
+  { match: /^native/i, proficiency: 'native' },
+  { match: /^full professional/i, proficiency: 'fluent' },
+  { match: /^professional working/i, proficiency: 'professional' },
+  { match: /^(?:limited working|elementary)/i, proficiency: 'basic' },
+];
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields may hold commas, quotes and newlines)
+ */
+function parseCSVRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((row) => row.some((value) => value.trim()));
+}
+
+/**
+ * Parse a CSV into rows keyed by header
+ * Some exports put "Notes:" lines above the header, so the header is the first record holding the required column
+ */
+function parseCSV(text: string, requiredColumn: string): CSVRow[] {
+  const records = parseCSVRecords(text.replace(/^\uFEFF/, ''));
+  const headerIndex = records.findIndex((record) => record.some((value) => value.trim() === requiredColumn));
+  if (headerIndex === -1) {
+    return [];
+  }
+
+  const header = records[headerIndex].map((value) => value.trim());
+  return records.slice(headerIndex + 1).map((record) => {
+    const row: CSVRow = {};
+    header.forEach((column, index) => {
+      row[column] = (record[index] ?? '').trim();
+    });
+    return row;
+  });
+}
+
+function baseName(path: string): string {
+  return (path.split('/').pop() ?? '').toLowerCase();
+}
+
+/**
+ * Find a file in the archive by name, ignoring folders and case (exports differ between account languages and dates)
+ */
+function findFile(zip: JSZip, fileName: string): JSZip.JSZipObject | null {
+  const target = fileName.toLowerCase();
+  return Object.values(zip.files).find((file) => !file.dir && baseName(file.name) === target) ?? null;
+}
+
+/**
+ * Whether an archive entry is one of the CSV files the importer reads
+ * The rest of an export (messages, connections, media) is never unzipped
+ */
+export function isImportedExportFile(path: string): boolean {
+  return EXPORT_FILE_NAMES.has(baseName(path));
+}
+
+function linkedInProficiency(label: string): Language['proficiency'] {
+  return LINKEDIN_PROFICIENCY.find((entry) => entry.match.test(label.trim()))?.proficiency ?? 'professional';
+}
+
+/**
+ * Websites are exported as "[PORTFOLIO:https://a.dev,COMPANY:https://b.com]"
+ */
+function websiteURLs(value: string): string[] {
+  return value.match(/https?:\/\/[^\s,\]]+/gi) ?? [];
+}
+
+/**
+ * Whether an archive is a LinkedIn data export rather than some other ZIP
+ */
+export function isLinkedInExport(zip: JSZip): boolean {
+  return [EXPORT_FILES.profile, EXPORT_FILES.positions, EXPORT_FILES.education, EXPORT_FILES.skills].some(
+    ({ fileName }) => findFile(zip, fileName) !== null
+  );
+}
+
+/**
+ * Map a LinkedIn data export onto CVData
+ * Every CSV is optional; each missing one is reported as a warning
+ */
+export async function importLinkedInExport(
+  zip: JSZip
+): Promise<{ cvData: CVData; warnings: string[] }> {
+  const warnings: string[] = [];
+
+  const read = async ({ fileName, requiredColumn }: { fileName: string; requiredColumn: string }): Promise<CSVRow[]> => {
+    const file = findFile(zip, fileName);
+    if (!file) {
+      warnings.push(`${fileName} is not in the export, so that part of the CV is empty.`);
+      return [];
+    }
+    return parseCSV(await file.async('string'), requiredColumn);
+  };
+
+  const [profiles, emails, phones, positions, schools, skills, languageRows, certificationRows] = await Promise.all([
+    read(EXPORT_FILES.profile),
+    read(EXPORT_FILES.emails),
+    read(EXPORT_FILES.phones),
+    read(EXPORT_FILES.positions),
+    read(EXPORT_FILES.education),
+    read(EXPORT_FILES.skills),
+    read(EXPORT_FILES.languages),
+    read(EXPORT_FILES.certifications),
+  ]);
+
+  const profile = profiles[0] ?? {};
+  const websites = websiteURLs(profile['Websites'] ?? '');
+  const email = emails.find((row) => /^yes$/i.test(row['Primary'] ?? '')) ?? emails[0];
+
+  const experience: Experience[] = positions
+    .filter((row) => row['Company Name'] || row['Title'])
+    .map((row, index) => {
+      const endDate = normalizeDate(row['Finished On'] ?? '');
+      return {
+        id: `exp-${index + 1}`,
+        company: row['Company Name'] ?? '',
+        position: row['Title'] ?? '',
+        startDate: normalizeDate(row['Started On'] ?? ''),
+        endDate: endDate || undefined,
+        current: !row['Finished On'],
+        description: (row['Description'] ?? '')
+          .split(/\n+/)
+          .map((line) => line.replace(/^[•\-*]\s*/, '').trim())
+          .filter(Boolean),
+      };
+    });
+
+  const education: Education[] = schools
+    .filter((row) => row['School Name'])
+    .map((row, index) => {
+      const endDate = normalizeDate(row['End Date'] ?? '');
+      return {
+        id: `edu-${index + 1}`,
+        institution: row['School Name'],
+        degree: row['Degree Name'] ?? '',
+        startDate: normalizeDate(row['Start Date'] ?? ''),
+        endDate: endDate || undefined,
+      };
+    });
+
+  const languages: Language[] = languageRows
+    .filter((row) => row['Name'])
+    .map((row) => ({ name: row['Name'], proficiency: linkedInProficiency(row['Proficiency'] ?? '') }));
+
+  const certifications = certificationRows
+    .filter((row) => row['Name'])
+    .map((row) => {
+      const year = normalizeDate(row['Started On'] ?? '').slice(0, 4);
+      return `${row['Name']}${row['Authority'] ? ` - ${row['Authority']}` : ''}${year ? ` (${year})` : ''}`;
+    });
+
+  if (!email) {
+    warnings.push('The export has no email address; please add one.');
+  }
+
+  return {
+    cvData: {
+      id: `cv-${Date.now()}`,
+      personalInfo: {
+        fullName: [profile['First Name'], profile['Last Name']].filter(Boolean).join(' '),
+        email: email?.['Email Address'] ?? '',
+        phone: phones.find((row) => row['Number'])?.['Number'],
+        location: profile['Geo Location'] || undefined,
+        linkedIn: websites.find((url) => /linkedin\.com/i.test(url)),
+        portfolio: websites.find((url) => !/linkedin\.com/i.test(url)),
+        summary: profile['Summary'] || profile['Headline'] || undefined,
+      },
+      experience,
+      education,
+      skills: uniqueStrings(skills.map((row) => row['Name'] ?? '')),
+      certifications,
+      languages,
+      createdAt: new Date().toISOString(),
+    },
+    warnings,
+  };
+}
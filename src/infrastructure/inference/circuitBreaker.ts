@@ -0,0 +1,121 @@
+/**
+ * Circuit Breaker
+ * Tracks consecutive failures per model so a failing model is skipped during its cool-down
+ */
+
+import { FALLBACK_POLICY } from '@/src/shared/constants';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Snapshot of a single model's circuit
+ */
+export interface CircuitSnapshot {
+  key: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null; // ISO string format
+  lastError?: string;
+}
+
+interface CircuitEntry {
+  consecutiveFailures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+  lastError?: string;
+}
+
+/**
+ * Circuit state per "provider:model" key
+ * Module-level so it survives across requests within one server process
+ */
+const circuits = new Map<string, CircuitEntry>();
+
+function getEntry(key: string): CircuitEntry {
+  let entry = circuits.get(key);
+  if (!entry) {
+    entry = { consecutiveFailures: 0, openedAt: null, trialInFlight: false };
+    circuits.set(key, entry);
+  }
+  return entry;
+}
+
+function resolveState(entry: CircuitEntry, now: number): CircuitState {
+  if (entry.openedAt === null) {
+    return 'closed';
+  }
+  return now - entry.openedAt >= FALLBACK_POLICY.COOL_DOWN_MS ? 'half-open' : 'open';
+}
+
+/**
+ * Whether a request may be sent to this model right now
+ * A half-open circuit lets exactly one trial request through
+ */
+export function canAttempt(key: string, now: number = Date.now()): boolean {
+  const entry = getEntry(key);
+  const state = resolveState(entry, now);
+
+  if (state === 'closed') {
+    return true;
+  }
+  if (state === 'half-open' && !entry.trialInFlight) {
+    entry.trialInFlight = true;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Record a successful call, closing the circuit
+ */
+export function recordSuccess(key: string): void {
+  const entry = getEntry(key);
+  entry.consecutiveFailures = 0;
+  entry.openedAt = null;
+  entry.trialInFlight = false;
+  entry.lastError = undefined;
+}
+
+/**
+ * Record a failed call, opening the circuit once the threshold is reached
+ */
+export function recordFailure(key: string, errorMessage: string, now: number = Date.now()): void {
+  const entry = getEntry(key);
+  entry.consecutiveFailures++;
+  entry.lastError = errorMessage;
+
+  // A failed trial re-opens immediately, otherwise wait for the threshold
+  if (entry.trialInFlight || entry.consecutiveFailures >= FALLBACK_POLICY.FAILURE_THRESHOLD) {
+    console.warn(`[LLM] ⚡ Circuit opened for ${key} after ${entry.consecutiveFailures} failure(s)`);
+    entry.openedAt = now;
+  }
+  entry.trialInFlight = false;
+}
+
+/**
+ * Record a call that ended without a verdict (the caller cancelled it)
+ * Frees a half-open trial without counting a success or a failure
+ */
+export function releaseTrial(key: string): void {
+  getEntry(key).trialInFlight = false;
+}
+
+/**
+ * Current state of every known circuit
+ */
+export function getCircuitSnapshots(now: number = Date.now()): CircuitSnapshot[] {
+  return Array.from(circuits.entries()).map(([key, entry]) => ({
+    key,
+    state: resolveState(entry, now),
+    consecutiveFailures: entry.consecutiveFailures,
+    openedAt: entry.openedAt !== null ? new Date(entry.openedAt).toISOString() : null,
+    lastError: entry.lastError,
+  }));
+}
+
+/**
+ * Reset all circuits (used by tests and health checks)
+ */
+export function resetCircuits(): void {
+  circuits.clear();
+}
@@ -0,0 +1,172 @@
+/**
+ * Embeddings
+ * Sentence vectors from the provider's embedding endpoint, with local word vectors when it has none
+ */
+
+import { CACHE_CONFIG, SEMANTIC_MATCH_CONFIG } from '@/src/shared/constants';
+import type { InferenceAttempt, InferenceRecord } from '@/src/shared/types';
+import { fnv1a } from '@/src/shared/utils/hash';
+import { getLLMProvider } from '@/src/infrastructure/providers/llmProvider';
+import { findSkills, skillAncestors } from '@/src/infrastructure/skills/skillMatcher';
+import { getErrorStatus } from './fallbackChain';
+import { recordInference } from './inferenceTrace';
+import { CACHE_NAMESPACES, createCacheKey, getCached, setCached } from './responseCache';
+import { measureUsage, recordUsage } from './usageLedger';
+
+/**
+ * Vectors for a list of texts and where they came from
+ * `method` tells callers which similarity threshold applies
+ */
+export interface EmbeddingResult {
+  vectors: number[][];
+  method: 'model' | 'local';
+  model: string;
+  degraded: boolean; // The provider's embedding model failed and local vectors stood in
+}
+
+// Words that carry no meaning for matching a requirement to a CV line
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be been being by can for from has have in into is it its of on or our ' +
+    'that the their this to was we were will with you your who which while within across using ' +
+    'ability able strong good excellent experience experienced proven knowledge understanding ' +
+    'working work skills skill years year plus including etc'
+  ).split(' ')
+);
+
+/**
+ * Embed texts with the active provider's model, falling back to local vectors
+ * Model vectors are cached per text list, so re-analysing the same CV costs nothing
+ * Every model request (and cache hit) is booked in the usage ledger like a generation call
+ */
+export async function embedTexts(texts: string[]): Promise<EmbeddingResult> {
+  const provider = getLLMProvider();
+  const model = SEMANTIC_MATCH_CONFIG.EMBEDDING_MODEL;
+  let degraded = false;
+
+  if (provider.embed && texts.length > 0) {
+    const startTime = Date.now();
+    const cacheKey = createCacheKey({ provider: provider.name, model, texts });
+    const cached = await getCached<number[][]>(CACHE_NAMESPACES.EMBEDDINGS, cacheKey);
+    if (cached) {
+      recordEmbeddingCall(provider.name, model, texts, startTime, { cached: true });
+      return { vectors: cached, method: 'model', model, degraded };
+    }
+
+    try {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += SEMANTIC_MATCH_CONFIG.BATCH_SIZE) {
+        const batch = texts.slice(i, i + SEMANTIC_MATCH_CONFIG.BATCH_SIZE);
+        vectors.push(...(await provider.embed({ texts: batch, model })));
+      }
+      recordEmbeddingCall(provider.name, model, texts, startTime, {});
+
+      await setCached(CACHE_NAMESPACES.EMBEDDINGS, cacheKey, vectors, CACHE_CONFIG.EMBEDDINGS_TTL_MS);
+      return { vectors, method: 'model', model, degraded };
+    } catch (error) {
+      recordEmbeddingCall(provider.name, model, texts, startTime, { error });
+      degraded = true;
+      console.warn(
+        `[Embeddings] ${provider.name} embedding failed, using local vectors:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  return { vectors: texts.map(localEmbedding), method: 'local', model: 'local-hashed-words', degraded };
+}
+
+/**
+ * Book an embeddings request in the usage ledger and the request's inference trace
+ * Input tokens are estimated from the texts; embeddings have no output tokens
+ */
+function recordEmbeddingCall(
+  provider: string,
+  model: string,
+  texts: string[],
+  startTime: number,
+  outcome: { cached?: boolean; error?: unknown }
+): void {
+  const durationMs = Date.now() - startTime;
+  const failed = outcome.error !== undefined;
+
+  const attempts: InferenceAttempt[] = [];
+  if (failed) {
+    const message = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+    attempts.push({
+      model,
+      outcome: 'failed',
+      retries: 0,
+      status: getErrorStatus(outcome.error),
+      error: message.substring(0, 300),
+      durationMs,
+    });
+  } else if (!outcome.cached) {
+    attempts.push({ model, outcome: 'success', retries: 0, durationMs });
+  }
+
+  const record: InferenceRecord = {
+    requestedModel: model,
+    model: failed ? null : model,
+    provider,
+    fallbackHops: 0,
+    attempts,
+    ...(outcome.cached ? { cached: true } : {}),
+  };
+  const finished = { ...record, usage: measureUsage(record, texts.join('\n'), '', 'requirement-matching', durationMs) };
+  recordUsage(finished);
+  recordInference(finished);
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or zero)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Hashed bag of words for offline matching
+ * Word stems carry most weight, character trigrams catch spelling variants, and taxonomy skills
+ * add their broader skills so "React" lines up with "JavaScript"
+ */
+export function localEmbedding(text: string): number[] {
+  const vector = new Array<number>(SEMANTIC_MATCH_CONFIG.LOCAL_DIMENSIONS).fill(0);
+  const add = (feature: string, weight: number) => {
+    vector[fnv1a(feature) % vector.length] += weight;
+  };
+
+  const words = (text.toLowerCase().match(/[a-z0-9+#]+/g) ?? []).filter(
+    (word) => word.length > 1 && !STOP_WORDS.has(word)
+  );
+  for (const word of words) {
+    const stem = stemWord(word);
+    add(`w:${stem}`, 1);
+    const padded = `<${stem}>`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.substring(i, i + 3)}`, 0.25);
+    }
+  }
+
+  for (const skill of findSkills(text)) {
+    add(`s:${skill.id}`, 2);
+    skillAncestors(skill).forEach((ancestor) => add(`s:${ancestor.id}`, 1));
+  }
+
+  return vector;
+}
+
+/**
+ * Crude suffix stripping: "managed", "managing" and "management" share "manag"
+ */
+function stemWord(word: string): string {
+  return word.length > 4 ? word.replace(/(?:ments?|ions?|ing|ed|es|s)$/, '').replace(/e$/, '') : word;
+}
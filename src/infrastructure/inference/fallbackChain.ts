@@ -0,0 +1,300 @@
+/**
+ * Model Fallback Chain
+ * Walks a declarative list of models with per-model retries, backoff and circuit breakers
+ */
+
+import { FALLBACK_CHAIN, FALLBACK_POLICY } from '@/src/shared/constants';
+import type { InferenceAttempt, InferenceRecord } from '@/src/shared/types';
+import type { LLMGenerateRequest, LLMProvider } from '@/src/infrastructure/providers/types';
+import { canAttempt, recordFailure, recordSuccess, releaseTrial } from './circuitBreaker';
+import { fitsContextWindow } from './tokenBudget';
+
+/**
+ * Successful chain result
+ */
+export interface FallbackResult {
+  text: string;
+  inference: InferenceRecord;
+}
+
+/**
+ * Raised when every model in the chain failed or was skipped
+ */
+export class FallbackChainError extends Error {
+  readonly inference: InferenceRecord;
+  readonly lastError: unknown;
+
+  constructor(inference: InferenceRecord, lastError: unknown) {
+    super(
+      `All ${inference.attempts.length} model(s) in the fallback chain failed: ` +
+        inference.attempts.map((a) => `${a.model} (${a.outcome}${a.status ? ` ${a.status}` : ''})`).join(', ')
+    );
+    this.name = 'FallbackChainError';
+    this.inference = inference;
+    this.lastError = lastError;
+  }
+}
+
+/**
+ * Build the ordered model list for a request: requested model first, then the configured chain
+ */
+export function buildFallbackChain(requestedModel: string): string[] {
+  const configured = process.env.LLM_FALLBACK_CHAIN
+    ? process.env.LLM_FALLBACK_CHAIN.split(',').map((m) => m.trim()).filter(Boolean)
+    : [...FALLBACK_CHAIN];
+
+  return Array.from(new Set([requestedModel, ...configured]));
+}
+
+/**
+ * Extract an HTTP status from provider errors
+ * InferenceClientProviderApiError exposes httpResponse.status, LLMProviderError exposes status
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const err = error as { status?: unknown; httpResponse?: { status?: unknown } } | null;
+  const status = err?.status ?? err?.httpResponse?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Rate limits and server errors are worth retrying on the same model
+ */
+function isRetryableStatus(status: number | undefined): boolean {
+  return status === 429 || (status !== undefined && status >= 500);
+}
+
+function backoffDelay(retry: number): number {
+  return Math.min(FALLBACK_POLICY.BACKOFF_MAX_MS, FALLBACK_POLICY.BACKOFF_BASE_MS * 2 ** retry);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Record of a chain run; only models a request was sent to count as hops, skipped ones stay in attempts
+ */
+function inferenceRecord(
+  provider: LLMProvider,
+  request: LLMGenerateRequest,
+  model: string | null,
+  attempts: InferenceAttempt[]
+): InferenceRecord {
+  const called = attempts.filter((attempt) => attempt.outcome !== 'skipped').length;
+  return {
+    requestedModel: request.model,
+    model,
+    provider: provider.name,
+    fallbackHops: Math.max(0, called - 1),
+    attempts,
+  };
+}
+
+/**
+ * Generate text, falling back through the chain until a model answers
+ */
+export async function generateWithFallback(
+  provider: LLMProvider,
+  request: LLMGenerateRequest
+): Promise<FallbackResult> {
+  const chain = buildFallbackChain(request.model);
+  const attempts: InferenceAttempt[] = [];
+  let lastError: unknown = null;
+
+  const buildRecord = (model: string | null) => inferenceRecord(provider, request, model, attempts);
+
+  for (const model of chain) {
+    const circuitKey = `${provider.name}:${model}`;
+
+    if (!fitsContextWindow(request.prompt, request.maxTokens, model)) {
+      console.log(`[LLM] ⏭️ Skipping ${model}: prompt exceeds its context window`);
+      attempts.push({ model, outcome: 'skipped', retries: 0, error: 'context window too small', durationMs: 0 });
+      continue;
+    }
+
+    if (!canAttempt(circuitKey)) {
+      console.log(`[LLM] ⏭️ Skipping ${model}: circuit open`);
+      attempts.push({ model, outcome: 'skipped', retries: 0, error: 'circuit open', durationMs: 0 });
+      continue;
+    }
+
+    const startTime = Date.now();
+    let retries = 0;
+
+    while (true) {
+      try {
+        const text = await provider.generate({ ...request, model });
+        recordSuccess(circuitKey);
+        attempts.push({ model, outcome: 'success', retries, durationMs: Date.now() - startTime });
+
+        if (model !== request.model) {
+          console.log(`[LLM] ✅ Fallback model ${model} answered for ${request.model}`);
+        }
+        return { text, inference: buildRecord(model) };
+      } catch (error) {
+        lastError = error;
+        const status = getErrorStatus(error);
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (isRetryableStatus(status) && retries < FALLBACK_POLICY.MAX_RETRIES) {
+          const delay = backoffDelay(retries);
+          retries++;
+          console.warn(`[LLM] 🔁 ${model} returned ${status}, retry ${retries} in ${delay}ms`);
+          await sleep(delay);
+          continue;
+        }
+
+        recordFailure(circuitKey, message);
+        attempts.push({
+          model,
+          outcome: 'failed',
+          retries,
+          status,
+          error: message.substring(0, 300),
+          durationMs: Date.now() - startTime,
+        });
+        console.error(`[LLM] ❌ ${model} failed${status ? ` (${status})` : ''}: ${message.substring(0, 200)}`);
+        break;
+      }
+    }
+  }
+
+  throw new FallbackChainError(buildRecord(null), lastError);
+}
+
+/**
+ * Stream text, falling back through the chain until a model produces its first chunk
+ * Once a model has started streaming there is no fallback: its errors propagate
+ * The inference record is handed to onComplete on success, on failure and when the consumer stops early;
+ * a cancelled stream (request.signal aborted, or iteration stopped) counts neither for nor against the model
+ */
+export async function* streamWithFallback(
+  provider: LLMProvider,
+  request: LLMGenerateRequest,
+  onComplete: (inference: InferenceRecord) => void
+): AsyncGenerator<string> {
+  const chain = buildFallbackChain(request.model);
+  const attempts: InferenceAttempt[] = [];
+  let lastError: unknown = null;
+
+  const buildRecord = (model: string | null) => inferenceRecord(provider, request, model, attempts);
+
+  for (const model of chain) {
+    const circuitKey = `${provider.name}:${model}`;
+
+    if (!fitsContextWindow(request.prompt, request.maxTokens, model)) {
+      console.log(`[LLM] ⏭️ Skipping ${model}: prompt exceeds its context window`);
+      attempts.push({ model, outcome: 'skipped', retries: 0, error: 'context window too small', durationMs: 0 });
+      continue;
+    }
+
+    if (!canAttempt(circuitKey)) {
+      console.log(`[LLM] ⏭️ Skipping ${model}: circuit open`);
+      attempts.push({ model, outcome: 'skipped', retries: 0, error: 'circuit open', durationMs: 0 });
+      continue;
+    }
+
+    const startTime = Date.now();
+    let retries = 0;
+    let iterator: AsyncIterator<string> | null = null;
+    let first: IteratorResult<string> | null = null;
+
+    // Phase 1: wait for the first chunk, retrying and falling back like generateWithFallback
+    while (true) {
+      try {
+        iterator = provider.stream({ ...request, model })[Symbol.asyncIterator]();
+        first = await iterator.next();
+        break;
+      } catch (error) {
+        lastError = error;
+        const status = getErrorStatus(error);
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (request.signal?.aborted) {
+          releaseTrial(circuitKey);
+          attempts.push({ model, outcome: 'aborted', retries, durationMs: Date.now() - startTime });
+          onComplete(buildRecord(null));
+          throw error;
+        }
+
+        if (isRetryableStatus(status) && retries < FALLBACK_POLICY.MAX_RETRIES) {
+          const delay = backoffDelay(retries);
+          retries++;
+          console.warn(`[LLM] 🔁 ${model} returned ${status}, retry ${retries} in ${delay}ms`);
+          await sleep(delay);
+          continue;
+        }
+
+        recordFailure(circuitKey, message);
+        attempts.push({
+          model,
+          outcome: 'failed',
+          retries,
+          status,
+          error: message.substring(0, 300),
+          durationMs: Date.now() - startTime,
+        });
+        console.error(`[LLM] ❌ ${model} failed to start streaming: ${message.substring(0, 200)}`);
+        iterator = null;
+        break;
+      }
+    }
+
+    if (!iterator || !first) {
+      continue;
+    }
+
+    // Phase 2: the model is committed, relay the rest of the stream
+    // Settled in finally: a consumer that stops iterating (client gone) only reaches finally
+    let failure: { error: unknown } | null = null;
+    let completed = false;
+    try {
+      if (!first.done) {
+        yield first.value;
+        while (true) {
+          const next = await iterator.next();
+          if (next.done) {
+            break;
+          }
+          yield next.value;
+        }
+      }
+      completed = true;
+    } catch (error) {
+      failure = { error };
+      throw error;
+    } finally {
+      const durationMs = Date.now() - startTime;
+      if (completed) {
+        recordSuccess(circuitKey);
+        attempts.push({ model, outcome: 'success', retries, durationMs });
+        onComplete(buildRecord(model));
+      } else if (failure && !request.signal?.aborted) {
+        const message = failure.error instanceof Error ? failure.error.message : String(failure.error);
+        recordFailure(circuitKey, message);
+        attempts.push({
+          model,
+          outcome: 'failed',
+          retries,
+          status: getErrorStatus(failure.error),
+          error: message.substring(0, 300),
+          durationMs,
+        });
+        onComplete(buildRecord(null));
+      } else {
+        // Cancelled: stop the provider's stream and release a half-open trial; what was produced is still billed
+        releaseTrial(circuitKey);
+        attempts.push({ model, outcome: 'aborted', retries, durationMs });
+        onComplete(buildRecord(model));
+        if (!failure) {
+          await iterator.return?.().catch(() => undefined);
+        }
+      }
+    }
+    return;
+  }
+
+  const chainError = new FallbackChainError(buildRecord(null), lastError);
+  onComplete(chainError.inference);
+  throw chainError;
+}
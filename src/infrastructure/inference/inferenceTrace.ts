@@ -0,0 +1,27 @@
+/**
+ * Inference Trace
+ * Collects the inference records produced while handling one API request
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { InferenceRecord } from '@/src/shared/types';
+
+const traceStorage = new AsyncLocalStorage<InferenceRecord[]>();
+
+/**
+ * Run a function and push every inference record it produces into `records`
+ * The caller owns the array, so records survive even when fn throws
+ */
+export function runWithInferenceTrace<T>(
+  records: InferenceRecord[],
+  fn: () => Promise<T>
+): Promise<T> {
+  return traceStorage.run(records, fn);
+}
+
+/**
+ * Add a record to the active trace (no-op outside runWithInferenceTrace)
+ */
+export function recordInference(record: InferenceRecord): void {
+  traceStorage.getStore()?.push(record);
+}
@@ -0,0 +1,218 @@
+/**
+ * Response Cache
+ * Content-addressed cache for LLM results: in-memory LRU in front of an on-disk store
+ */
+
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { CACHE_CONFIG } from '@/src/shared/constants';
+
+/**
+ * Cache namespaces (one directory each in the disk store)
+ */
+export const CACHE_NAMESPACES = {
+  GENERATION: 'generation',
+  STRUCTURED: 'structured',
+  JOB_ANALYSIS: 'job-analysis',
+  EMBEDDINGS: 'embeddings',
+} as const;
+
+export type CacheNamespace = (typeof CACHE_NAMESPACES)[keyof typeof CACHE_NAMESPACES];
+
+/**
+ * Stored cache entry
+ */
+interface CacheEntry<T> {
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Cache hit/miss counters since server start
+ */
+export interface CacheStats {
+  enabled: boolean;
+  memoryEntries: number;
+  hits: number;
+  misses: number;
+  diskHits: number;
+}
+
+/**
+ * In-memory LRU: Map keeps insertion order, so re-inserting on read moves an entry to the end
+ */
+const memory = new Map<string, CacheEntry<unknown>>();
+
+const stats = { hits: 0, misses: 0, diskHits: 0 };
+
+function isCacheEnabled(): boolean {
+  return process.env.LLM_CACHE !== 'off';
+}
+
+function getCacheDir(): string {
+  return path.resolve(process.cwd(), process.env.LLM_CACHE_DIR || CACHE_CONFIG.DIR);
+}
+
+/**
+ * Deterministic JSON (sorted object keys) so equal inputs hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Build a content-addressed key from arbitrary inputs
+ */
+export function createCacheKey(parts: unknown): string {
+  return createHash('sha256').update(stableStringify(parts)).digest('hex');
+}
+
+function memoryKey(namespace: string, key: string): string {
+  return `${namespace}:${key}`;
+}
+
+function diskPath(namespace: string, key: string): string {
+  return path.join(getCacheDir(), namespace, `${key}.json`);
+}
+
+function rememberInMemory(namespace: string, key: string, entry: CacheEntry<unknown>): void {
+  const id = memoryKey(namespace, key);
+  memory.delete(id);
+  memory.set(id, entry);
+
+  while (memory.size > CACHE_CONFIG.MAX_MEMORY_ENTRIES) {
+    const oldest = memory.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    memory.delete(oldest);
+  }
+}
+
+/**
+ * Read a cached value, checking memory first and then disk
+ */
+export async function getCached<T>(namespace: CacheNamespace, key: string): Promise<T | undefined> {
+  if (!isCacheEnabled()) {
+    return undefined;
+  }
+
+  const now = Date.now();
+  const inMemory = memory.get(memoryKey(namespace, key));
+  if (inMemory) {
+    if (inMemory.expiresAt > now) {
+      rememberInMemory(namespace, key, inMemory);
+      stats.hits++;
+      return inMemory.value as T;
+    }
+    memory.delete(memoryKey(namespace, key));
+  }
+
+  try {
+    const raw = await fs.readFile(diskPath(namespace, key), 'utf-8');
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    if (entry.expiresAt > now) {
+      rememberInMemory(namespace, key, entry);
+      stats.hits++;
+      stats.diskHits++;
+      return entry.value;
+    }
+    await fs.rm(diskPath(namespace, key), { force: true });
+  } catch {
+    // Missing or unreadable entry counts as a miss
+  }
+
+  stats.misses++;
+  return undefined;
+}
+
+/**
+ * Store a value in memory and on disk
+ * Disk failures are logged but never fail the request
+ */
+export async function setCached<T>(namespace: CacheNamespace, key: string, value: T, ttlMs: number): Promise<void> {
+  if (!isCacheEnabled()) {
+    return;
+  }
+
+  const now = Date.now();
+  const entry: CacheEntry<T> = { value, createdAt: now, expiresAt: now + ttlMs };
+  rememberInMemory(namespace, key, entry);
+
+  try {
+    const file = diskPath(namespace, key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(entry), 'utf-8');
+  } catch (error) {
+    console.warn(`[Cache] Could not write ${namespace}/${key} to disk:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Return the cached value or compute and store it
+ */
+export async function withCache<T>(
+  namespace: CacheNamespace,
+  keyParts: unknown,
+  ttlMs: number,
+  compute: () => Promise<T>
+): Promise<T> {
+  const key = createCacheKey(keyParts);
+  const cached = await getCached<T>(namespace, key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const value = await compute();
+  await setCached(namespace, key, value, ttlMs);
+  return value;
+}
+
+/**
+ * Drop cached entries: one key, a whole namespace, or everything
+ * Returns the number of memory entries removed
+ */
+export async function invalidateCache(namespace?: CacheNamespace, key?: string): Promise<number> {
+  let removed = 0;
+
+  if (namespace && key) {
+    removed = memory.delete(memoryKey(namespace, key)) ? 1 : 0;
+    await fs.rm(diskPath(namespace, key), { force: true });
+    return removed;
+  }
+
+  for (const id of Array.from(memory.keys())) {
+    if (!namespace || id.startsWith(`${namespace}:`)) {
+      memory.delete(id);
+      removed++;
+    }
+  }
+
+  await fs.rm(namespace ? path.join(getCacheDir(), namespace) : getCacheDir(), {
+    recursive: true,
+    force: true,
+  });
+  return removed;
+}
+
+/**
+ * Current cache statistics
+ */
+export function getCacheStats(): CacheStats {
+  return {
+    enabled: isCacheEnabled(),
+    memoryEntries: memory.size,
+    ...stats,
+  };
+}
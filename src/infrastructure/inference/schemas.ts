@@ -0,0 +1,224 @@
+/**
+ * Structured Output Schemas
+ * Runtime schemas for every JSON shape we ask the model to produce
+ */
+
+import { z } from 'zod';
+import type { JobAnalysis } from '@/src/infrastructure/services/jobAnalyzer.service';
+import type { CVMatchAnalysis } from '@/src/infrastructure/services/cvAnalyzer.service';
+import type { ExtractedCVInfo } from '@/src/infrastructure/services/cvInfoExtractor.service';
+import type { Language, PersonalInfo, QuestionType } from '@/src/shared/types';
+
+/**
+ * List of strings, defaulting to empty when the model leaves it out
+ */
+const stringList = z.array(z.string().trim()).default([]);
+
+/**
+ * Text field that tolerates the "null" / null answers our prompts allow
+ */
+const optionalText = z
+  .string()
+  .trim()
+  .nullish()
+  .transform((value) => (value && value.toLowerCase() !== 'null' ? value : undefined));
+
+/**
+ * Job analysis output before the rule-based facts and requirement classes are merged in
+ */
+export type ModelJobAnalysis = Omit<JobAnalysis, 'facts' | 'requirements'>;
+
+export const jobAnalysisSchema: z.ZodType<ModelJobAnalysis> = z.object({
+  businessType: z.string().trim().min(1),
+  industry: z.string().trim().min(1),
+  candidateProfile: z.object({
+    experienceLevel: z.string().trim().min(1),
+    keySkills: stringList,
+    personalityTraits: stringList,
+    education: z.string().trim().default('Not specified'),
+  }),
+  values: stringList,
+  keyRequirements: stringList,
+  writingStyle: z.string().trim().default('Professional'),
+  domainStandards: z.string().trim().default('Standard professional CV format'),
+  missingInfo: stringList,
+});
+
+/**
+ * The model's part of a CV match: commentary only, the score and matches are computed by rules
+ */
+export type MatchCommentary = Pick<CVMatchAnalysis, 'semanticGaps' | 'recommendations'>;
+
+export const matchCommentarySchema: z.ZodType<MatchCommentary> = z.object({
+  semanticGaps: stringList,
+  recommendations: stringList,
+});
+
+/**
+ * Extraction output before the has* flags are derived
+ */
+export type ExtractedCVFields = Omit<
+  ExtractedCVInfo,
+  'hasPersonalInfo' | 'hasExperience' | 'hasEducation' | 'hasSkills'
+>;
+
+export const extractedCVFieldsSchema: z.ZodType<ExtractedCVFields> = z.object({
+  personalInfo: z
+    .object({
+      fullName: optionalText,
+      email: optionalText,
+      phone: optionalText,
+      location: optionalText,
+    })
+    .prefault({}),
+  experience: z
+    .array(
+      z.object({
+        title: optionalText,
+        company: optionalText,
+        duration: optionalText,
+        description: optionalText,
+      })
+    )
+    .default([]),
+  education: z
+    .array(
+      z.object({
+        degree: optionalText,
+        institution: optionalText,
+        field: optionalText,
+        year: z
+          .union([z.string(), z.number()])
+          .nullish()
+          .transform((value) => (value === null || value === undefined ? undefined : String(value))),
+      })
+    )
+    .default([]),
+  skills: stringList,
+  certifications: stringList,
+  summary: optionalText,
+});
+
+/**
+ * CV parse returned by the refinement pass, before ids and confidences are assigned
+ */
+export interface StructuredCVFields {
+  personalInfo: Partial<PersonalInfo>;
+  experience: Array<{
+    company?: string;
+    position?: string;
+    startDate?: string;
+    endDate?: string;
+    current: boolean;
+    description: string[];
+  }>;
+  education: Array<{
+    institution?: string;
+    degree?: string;
+    field?: string;
+    startDate?: string;
+    endDate?: string;
+    gpa?: string;
+  }>;
+  skills: string[];
+  languages: Language[];
+  certifications: string[];
+}
+
+/**
+ * Dates and years may come back as numbers ("2019" or 2019)
+ */
+const optionalDate = z
+  .union([z.string(), z.number()])
+  .nullish()
+  .transform((value) => (value === null || value === undefined ? undefined : String(value).trim()))
+  .transform((value) => (value && value.toLowerCase() !== 'null' ? value : undefined));
+
+export const structuredCVSchema: z.ZodType<StructuredCVFields> = z.object({
+  personalInfo: z
+    .object({
+      fullName: optionalText,
+      email: optionalText,
+      phone: optionalText,
+      location: optionalText,
+      linkedIn: optionalText,
+      portfolio: optionalText,
+      summary: optionalText,
+    })
+    .prefault({}),
+  experience: z
+    .array(
+      z.object({
+        company: optionalText,
+        position: optionalText,
+        startDate: optionalDate,
+        endDate: optionalDate,
+        current: z.boolean().default(false),
+        description: stringList,
+      })
+    )
+    .default([]),
+  education: z
+    .array(
+      z.object({
+        institution: optionalText,
+        degree: optionalText,
+        field: optionalText,
+        startDate: optionalDate,
+        endDate: optionalDate,
+        gpa: optionalDate,
+      })
+    )
+    .default([]),
+  skills: stringList,
+  languages: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1),
+        proficiency: z
+          .string()
+          .trim()
+          .toLowerCase()
+          .pipe(z.enum(['native', 'fluent', 'professional', 'basic']))
+          .catch('professional'),
+      })
+    )
+    .default([]),
+  certifications: stringList,
+});
+
+const questionTypes = [
+  'personal_info',
+  'experience',
+  'education',
+  'skills',
+  'certifications',
+  'languages',
+  'summary',
+] as const satisfies readonly QuestionType[];
+
+/**
+ * Generated question without its id (ids are assigned after parsing)
+ */
+export interface GeneratedQuestionFields {
+  type: QuestionType;
+  question: string;
+  purpose: string;
+  priority: 'high' | 'medium' | 'low';
+}
+
+export const generatedQuestionsSchema: z.ZodType<GeneratedQuestionFields[]> = z
+  .array(
+    z.object({
+      type: z.enum(questionTypes),
+      question: z.string().trim().min(1),
+      purpose: z.string().trim().default(''),
+      priority: z
+        .string()
+        .trim()
+        .toLowerCase()
+        .pipe(z.enum(['high', 'medium', 'low']))
+        .default('medium'),
+    })
+  )
+  .min(1);
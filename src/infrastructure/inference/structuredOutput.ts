@@ -0,0 +1,300 @@
+/**
+ * Structured Output
+ * Tolerant JSON extraction, schema validation and a repair re-prompt for model replies
+ */
+
+import type { z } from 'zod';
+import { generateText } from '@/src/infrastructure/services/huggingface.service';
+import { getLLMProvider } from '@/src/infrastructure/providers/llmProvider';
+import { CACHE_CONFIG, HUGGINGFACE_MODELS } from '@/src/shared/constants';
+import type { TokenBudgetReport } from '@/src/shared/types';
+import { CACHE_NAMESPACES, createCacheKey, getCached, setCached } from './responseCache';
+
+/**
+ * Why structured output could not be produced
+ */
+export type StructuredOutputFailure = 'no_json' | 'invalid_json' | 'schema_mismatch';
+
+/**
+ * Raised when a reply cannot be turned into valid structured output, even after repair
+ */
+export class StructuredOutputError extends Error {
+  readonly label: string;
+  readonly failure: StructuredOutputFailure;
+  readonly issues: string[];
+  readonly rawResponse: string;
+
+  constructor(label: string, failure: StructuredOutputFailure, issues: string[], rawResponse: string) {
+    super(`Structured output for ${label} failed (${failure}): ${issues.slice(0, 5).join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.label = label;
+    this.failure = failure;
+    this.issues = issues;
+    this.rawResponse = rawResponse;
+  }
+}
+
+/**
+ * Options for a structured generation call
+ */
+export interface StructuredGenerationOptions<T> {
+  prompt: string;
+  schema: z.ZodType<T>;
+  // Human-readable name used in logs and errors (e.g. 'job analysis')
+  label: string;
+  model?: string;
+  maxLength?: number;
+  // Number of repair re-prompts after the first reply fails validation
+  maxRepairAttempts?: number;
+  // Registry prompt version ("<id>@<version>"), recorded on every call including repairs
+  promptVersion?: string;
+  // Token budget applied to the prompt, recorded on every call including repairs
+  budget?: TokenBudgetReport;
+  // Cache the validated result (default true); callers that cache their own merged result pass false
+  cache?: boolean;
+}
+
+const SMART_DOUBLE_QUOTES = new Set(['\u201c', '\u201d']);
+const SMART_SINGLE_QUOTES = new Set(['\u2018', '\u2019']);
+
+/**
+ * Find the balanced JSON object or array that opens at `start`
+ * Skips brackets inside string literals, including ones delimited by smart quotes
+ */
+function findBalancedJson(text: string, start: number): string | null {
+  const stack: string[] = [];
+  let closing: '"' | 'smart' | null = null;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (closing) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (closing === '"' ? char === '"' : SMART_DOUBLE_QUOTES.has(char)) {
+        closing = null;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      closing = '"';
+    } else if (SMART_DOUBLE_QUOTES.has(char)) {
+      closing = 'smart';
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) {
+        return null;
+      }
+      if (stack.length === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fix common model JSON mistakes: smart quotes used as delimiters and trailing commas
+ * String contents are copied as they are, so values like "a, ]" survive
+ */
+function normalizeJson(json: string): string {
+  let out = '';
+  // Delimiter that ends the current string: '"' or a smart quote; null outside strings
+  let closing: '"' | 'smart' | null = null;
+  let escaped = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+
+    if (closing) {
+      if (escaped) {
+        escaped = false;
+        out += char;
+      } else if (char === '\\') {
+        escaped = true;
+        out += char;
+      } else if (closing === '"' ? char === '"' : SMART_DOUBLE_QUOTES.has(char)) {
+        closing = null;
+        out += '"';
+      } else {
+        // A plain quote inside a smart-quoted string is content, not the end
+        out += closing === 'smart' && char === '"' ? '\\"' : char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      closing = '"';
+      out += char;
+    } else if (SMART_DOUBLE_QUOTES.has(char)) {
+      closing = 'smart';
+      out += '"';
+    } else if (SMART_SINGLE_QUOTES.has(char)) {
+      out += "'";
+    } else if (char === ',') {
+      let next = i + 1;
+      while (next < json.length && /\s/.test(json[next])) {
+        next++;
+      }
+      if (json[next] !== '}' && json[next] !== ']') {
+        out += char;
+      }
+    } else {
+      out += char;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Parse the first JSON value in a candidate, trying each opening bracket in turn
+ * so a leading "[Note]" or "{placeholder}" in prose does not hide the JSON after it
+ */
+function parseFirstJson(
+  candidate: string
+): { value: unknown } | { failure: StructuredOutputFailure; issue: string } | null {
+  let issue: string | null = null;
+
+  for (let start = candidate.search(/[[{]/); start !== -1; ) {
+    const json = findBalancedJson(candidate, start);
+    if (json) {
+      for (const attempt of [json, normalizeJson(json)]) {
+        try {
+          return { value: JSON.parse(attempt) };
+        } catch (error) {
+          issue = error instanceof Error ? error.message : 'Invalid JSON';
+        }
+      }
+    }
+
+    const next = candidate.slice(start + 1).search(/[[{]/);
+    start = next === -1 ? -1 : start + 1 + next;
+  }
+
+  return issue === null ? null : { failure: 'invalid_json', issue };
+}
+
+/**
+ * Extract a JSON value from a model reply
+ * Handles code fences, surrounding prose and trailing commas
+ */
+export function extractJson(response: string): { value: unknown } | { failure: StructuredOutputFailure; issue: string } {
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidates = [fenced?.[1], response].filter((c): c is string => typeof c === 'string');
+
+  let lastIssue = 'No JSON object or array found in the reply';
+  let failure: StructuredOutputFailure = 'no_json';
+
+  for (const candidate of candidates) {
+    const parsed = parseFirstJson(candidate);
+    if (!parsed) {
+      continue;
+    }
+    if ('value' in parsed) {
+      return parsed;
+    }
+    failure = parsed.failure;
+    lastIssue = parsed.issue;
+  }
+
+  return { failure, issue: lastIssue };
+}
+
+/**
+ * Parse and validate a reply against a schema
+ */
+export function parseStructured<T>(
+  response: string,
+  schema: z.ZodType<T>,
+  label: string
+): T {
+  const extracted = extractJson(response);
+  if ('failure' in extracted) {
+    throw new StructuredOutputError(label, extracted.failure, [extracted.issue], response);
+  }
+
+  const result = schema.safeParse(extracted.value);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+    );
+    throw new StructuredOutputError(label, 'schema_mismatch', issues, response);
+  }
+
+  return result.data;
+}
+
+/**
+ * Build the re-prompt that sends validation errors back to the model
+ */
+function buildRepairPrompt(originalPrompt: string, error: StructuredOutputError): string {
+  return `${originalPrompt}
+
+Your previous reply could not be used:
+${error.rawResponse.substring(0, 4000)}
+
+Problems found:
+${error.issues.map((issue) => `- ${issue}`).join('\n')}
+
+Reply again with ONLY the corrected JSON. No explanations, no code fences.`;
+}
+
+/**
+ * Generate, validate and (if needed) repair structured output
+ * Raw replies are never cached, so a malformed reply is asked for again rather than served back;
+ * only the schema-valid result is
+ * Throws StructuredOutputError when repair attempts are exhausted
+ */
+export async function generateStructured<T>(options: StructuredGenerationOptions<T>): Promise<T> {
+  const {
+    prompt,
+    schema,
+    label,
+    model = HUGGINGFACE_MODELS.CV_GENERATION,
+    maxLength = 2000,
+    maxRepairAttempts = 1,
+    promptVersion,
+    budget,
+    cache = true,
+  } = options;
+
+  const cacheKey = createCacheKey({ provider: getLLMProvider().name, prompt, model, maxLength, label });
+  if (cache) {
+    const cached = await getCached<T>(CACHE_NAMESPACES.STRUCTURED, cacheKey);
+    if (cached !== undefined) {
+      // Cached values were validated when stored; validating again also guards against schema changes
+      const revalidated = schema.safeParse(cached);
+      if (revalidated.success) {
+        return revalidated.data;
+      }
+    }
+  }
+
+  let currentPrompt = prompt;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await generateText(currentPrompt, model, maxLength, { cache: false, promptVersion, budget });
+
+    try {
+      const value = parseStructured(response, schema, label);
+      if (cache) {
+        await setCached(CACHE_NAMESPACES.STRUCTURED, cacheKey, value, CACHE_CONFIG.GENERATION_TTL_MS);
+      }
+      return value;
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError) || attempt >= maxRepairAttempts) {
+        throw error;
+      }
+
+      console.warn(`[LLM] 🔧 Repairing ${label} output (attempt ${attempt + 1}):`, error.issues.slice(0, 5));
+      currentPrompt = buildRepairPrompt(prompt, error);
+    }
+  }
+}
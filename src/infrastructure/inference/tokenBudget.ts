@@ -0,0 +1,259 @@
+/**
+ * Token Budget
+ * Estimates prompt sizes per model, trims low-priority prompt sections and chunks long inputs
+ *
+ * Limitations: sizes come from a characters-per-token ratio per tokenizer family, not the model's own tokenizer,
+ * which is why SAFETY_MARGIN is kept free. Sections that do not fit are cut (their start is kept and a marker
+ * appended), not summarized; summarizing would take another model call per prompt. Inputs too long to cut
+ * are analyzed in chunks instead (renderChunkedPrompts).
+ */
+
+import { MODEL_CONTEXT_WINDOWS, TOKEN_BUDGET } from '@/src/shared/constants';
+import { renderPrompt, type RenderedPrompt } from '@/src/infrastructure/prompts/promptRegistry';
+import type { PromptId, PromptVariableMap } from '@/src/infrastructure/prompts/templates';
+import type { TokenBudgetReport } from '@/src/shared/types';
+
+/**
+ * Average characters per token for each tokenizer family
+ * Measured on English CV/job text; unknown models get the most conservative ratio
+ */
+const TOKENIZER_PROFILES: Array<{ match: RegExp; charsPerToken: number }> = [
+  { match: /llama-3|llama3/i, charsPerToken: 4.0 },
+  { match: /glm/i, charsPerToken: 3.8 },
+  { match: /qwen/i, charsPerToken: 3.8 },
+  { match: /mistral|mixtral/i, charsPerToken: 3.5 },
+  { match: /phi-3|llama-2/i, charsPerToken: 3.3 },
+];
+
+const DEFAULT_CHARS_PER_TOKEN = 3.2;
+
+const TRUNCATION_MARKER = '\n[... truncated to fit the model context window ...]';
+
+/**
+ * Options for rendering a prompt within a model's budget
+ */
+export interface BudgetOptions<K extends PromptId> {
+  model: string;
+  maxOutputTokens: number;
+  // Variables that may be shortened, lowest priority first
+  truncatable?: Array<keyof PromptVariableMap[K] & string>;
+}
+
+/**
+ * A rendered prompt together with the budget that was applied
+ */
+export interface BudgetedPrompt extends RenderedPrompt {
+  budget: TokenBudgetReport;
+}
+
+function getCharsPerToken(model: string): number {
+  return TOKENIZER_PROFILES.find((profile) => profile.match.test(model))?.charsPerToken ?? DEFAULT_CHARS_PER_TOKEN;
+}
+
+/**
+ * Context window for a model (LLM_CONTEXT_WINDOW overrides every model, e.g. for local servers)
+ */
+export function getContextWindow(model: string): number {
+  const override = Number(process.env.LLM_CONTEXT_WINDOW);
+  if (Number.isInteger(override) && override > 0) {
+    return override;
+  }
+  return MODEL_CONTEXT_WINDOWS[model] ?? TOKEN_BUDGET.DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Estimate the token count of a text for a model's tokenizer
+ */
+export function estimateTokens(text: string, model: string): number {
+  return Math.ceil(text.length / getCharsPerToken(model));
+}
+
+/**
+ * Tokens a prompt may use once the reply and the safety margin are set aside
+ */
+export function getPromptTokenLimit(model: string, maxOutputTokens: number): number {
+  const usable = Math.floor(getContextWindow(model) * (1 - TOKEN_BUDGET.SAFETY_MARGIN));
+  return Math.max(0, usable - maxOutputTokens);
+}
+
+/**
+ * Whether a prompt and its reply fit the model's context window
+ */
+export function fitsContextWindow(prompt: string, maxOutputTokens: number, model: string): boolean {
+  return estimateTokens(prompt, model) <= getPromptTokenLimit(model, maxOutputTokens);
+}
+
+/**
+ * Keep the start of a text within a token count, cutting at a line or word boundary
+ */
+export function truncateToTokens(text: string, maxTokens: number, model: string): string {
+  const maxChars = Math.floor(maxTokens * getCharsPerToken(model)) - TRUNCATION_MARKER.length;
+  if (text.length <= maxChars + TRUNCATION_MARKER.length) {
+    return text;
+  }
+  if (maxChars <= 0) {
+    return TRUNCATION_MARKER.trim();
+  }
+
+  const head = text.slice(0, maxChars);
+  const boundary = Math.max(head.lastIndexOf('\n'), head.lastIndexOf(' '));
+  return `${boundary > maxChars * 0.8 ? head.slice(0, boundary) : head}${TRUNCATION_MARKER}`;
+}
+
+/**
+ * Split a long text into chunks of at most maxTokens, cutting at line boundaries where possible
+ */
+export function splitIntoChunks(text: string, maxTokens: number, model: string): string[] {
+  const maxChars = Math.max(1, Math.floor(maxTokens * getCharsPerToken(model)));
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of text.split(/(?<=\n)/)) {
+    if (current.length + piece.length <= maxChars) {
+      current += piece;
+      continue;
+    }
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = '';
+
+    // A single line longer than a chunk is split at word boundaries
+    let rest = piece;
+    while (rest.length > maxChars) {
+      const cut = rest.lastIndexOf(' ', maxChars);
+      const end = cut > maxChars * 0.5 ? cut : maxChars;
+      chunks.push(rest.slice(0, end).trim());
+      rest = rest.slice(end);
+    }
+    current = rest;
+  }
+
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+  return chunks;
+}
+
+/**
+ * Tokens left for one variable once the rest of the prompt is rendered
+ * Used to decide whether an input must be chunked
+ */
+export function getVariableTokenLimit<K extends PromptId>(
+  id: K,
+  variables: PromptVariableMap[K],
+  variable: keyof PromptVariableMap[K] & string,
+  model: string,
+  maxOutputTokens: number
+): number {
+  const withoutVariable = renderPrompt(id, { ...variables, [variable]: '' });
+  return getPromptTokenLimit(model, maxOutputTokens) - estimateTokens(withoutVariable.text, model);
+}
+
+/**
+ * Render a registry prompt so it fits the model's context window
+ * Truncatable variables are shortened in order until the prompt fits (never below MIN_SECTION_TOKENS)
+ */
+export function renderPromptWithinBudget<K extends PromptId>(
+  id: K,
+  variables: PromptVariableMap[K],
+  options: BudgetOptions<K>
+): BudgetedPrompt {
+  const { model, maxOutputTokens, truncatable = [] } = options;
+  const limit = getPromptTokenLimit(model, maxOutputTokens);
+  const values = { ...variables } as Record<string, string>;
+  const truncatedSections: TokenBudgetReport['truncatedSections'] = [];
+
+  let rendered = renderPrompt(id, values as unknown as PromptVariableMap[K]);
+  let overflow = estimateTokens(rendered.text, model) - limit;
+
+  for (const name of truncatable) {
+    if (overflow <= 0) {
+      break;
+    }
+
+    const originalTokens = estimateTokens(values[name], model);
+    const keptTokens = Math.max(TOKEN_BUDGET.MIN_SECTION_TOKENS, originalTokens - overflow);
+    if (keptTokens >= originalTokens) {
+      continue;
+    }
+
+    values[name] = truncateToTokens(values[name], keptTokens, model);
+    truncatedSections.push({ section: name, originalTokens, keptTokens });
+    rendered = renderPrompt(id, values as unknown as PromptVariableMap[K]);
+    overflow = estimateTokens(rendered.text, model) - limit;
+  }
+
+  const promptTokens = estimateTokens(rendered.text, model);
+  if (truncatedSections.length > 0) {
+    console.warn(
+      `[LLM] ✂️ ${rendered.ref} trimmed for ${model}: ` +
+        truncatedSections.map((s) => `${s.section} ${s.originalTokens}→${s.keptTokens}`).join(', ')
+    );
+  }
+  if (promptTokens > limit) {
+    console.warn(`[LLM] ⚠️ ${rendered.ref} still needs ~${promptTokens} tokens, ${model} allows ${limit}`);
+  }
+
+  return {
+    ...rendered,
+    budget: {
+      model,
+      contextWindow: getContextWindow(model),
+      reservedForOutput: maxOutputTokens,
+      availableForPrompt: limit,
+      promptTokens,
+      truncatedSections,
+    },
+  };
+}
+
+/**
+ * Render one prompt per chunk of a long variable, for map-reduce style analysis
+ * Returns a single prompt when the input already fits; chunks beyond MAX_CHUNKS are dropped
+ */
+export function renderChunkedPrompts<K extends PromptId>(
+  id: K,
+  variables: PromptVariableMap[K],
+  variable: keyof PromptVariableMap[K] & string,
+  options: BudgetOptions<K>
+): BudgetedPrompt[] {
+  const { model, maxOutputTokens } = options;
+  const value = (variables as unknown as Record<string, string>)[variable];
+  const limit = Math.max(
+    TOKEN_BUDGET.MIN_SECTION_TOKENS,
+    getVariableTokenLimit(id, variables, variable, model, maxOutputTokens)
+  );
+
+  const originalTokens = estimateTokens(value, model);
+  if (originalTokens <= limit) {
+    return [renderPromptWithinBudget(id, variables, options)];
+  }
+
+  const allChunks = splitIntoChunks(value, limit, model);
+  const chunks = allChunks.slice(0, TOKEN_BUDGET.MAX_CHUNKS);
+  console.log(`[LLM] 🧩 Splitting ${variable} (~${originalTokens} tokens) into ${chunks.length} chunks for ${model}`);
+
+  const dropped: TokenBudgetReport['truncatedSections'] =
+    allChunks.length > chunks.length
+      ? [
+          {
+            section: variable,
+            originalTokens,
+            keptTokens: chunks.reduce((sum, chunk) => sum + estimateTokens(chunk, model), 0),
+          },
+        ]
+      : [];
+
+  return chunks.map((chunk, index) => {
+    const prompt = renderPromptWithinBudget(id, { ...variables, [variable]: chunk }, options);
+    return {
+      ...prompt,
+      budget: {
+        ...prompt.budget,
+        truncatedSections: [...dropped, ...prompt.budget.truncatedSections],
+        chunk: { index: index + 1, total: chunks.length },
+      },
+    };
+  });
+}
@@ -0,0 +1,173 @@
+/**
+ * Usage Ledger
+ * Records tokens, latency, retries and estimated cost of every inference call, grouped by feature and model
+ */
+
+import { MODEL_PRICING, USAGE_LEDGER } from '@/src/shared/constants';
+import type {
+  InferenceFeature,
+  InferenceRecord,
+  InferenceUsage,
+  UsageEntry,
+  UsageReport,
+  UsageTotals,
+} from '@/src/shared/types';
+import { estimateTokens } from './tokenBudget';
+
+const FEATURES: InferenceFeature[] = [
+  'job-analysis',
+  'cv-match',
+  'cv-extraction',
+  'cv-structuring',
+  'question-generation',
+  'cv-generation',
+];
+
+/**
+ * Most recent entries, oldest first (capped at USAGE_LEDGER.MAX_ENTRIES)
+ */
+const entries: UsageEntry[] = [];
+
+/**
+ * Running aggregates, kept separately so evicted entries are still counted
+ */
+let totals = emptyTotals();
+let byFeature: Partial<Record<InferenceFeature, UsageTotals>> = {};
+let byModel: Record<string, UsageTotals> = {};
+let since = new Date().toISOString();
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    failedCalls: 0,
+    cachedCalls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    latencyMs: 0,
+    retries: 0,
+    fallbackHops: 0,
+    estimatedCostUsd: 0,
+  };
+}
+
+function addToTotals(target: UsageTotals, record: InferenceRecord, usage: InferenceUsage): void {
+  target.calls++;
+  target.failedCalls += record.model === null ? 1 : 0;
+  target.cachedCalls += record.cached ? 1 : 0;
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.latencyMs += usage.latencyMs;
+  target.retries += usage.retries;
+  target.fallbackHops += record.fallbackHops;
+  target.estimatedCostUsd = roundCost(target.estimatedCostUsd + usage.estimatedCostUsd);
+}
+
+/**
+ * Costs are fractions of a cent; round away floating point noise
+ */
+function roundCost(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+/**
+ * Feature for a call: the explicit one, otherwise the id of the registry prompt ("<id>@<version>")
+ */
+export function resolveFeature(promptVersion?: string, feature?: InferenceFeature): InferenceFeature {
+  if (feature) {
+    return feature;
+  }
+  const promptId = promptVersion?.split('@')[0];
+  return FEATURES.find((candidate) => candidate === promptId) ?? 'other';
+}
+
+/**
+ * Estimate the usage of a finished call
+ * Cached replies spend no tokens; failed calls are assumed not to be billed
+ */
+export function measureUsage(
+  record: InferenceRecord,
+  prompt: string,
+  output: string,
+  feature: InferenceFeature,
+  latencyMs: number
+): InferenceUsage {
+  const retries = record.attempts.reduce((sum, attempt) => sum + attempt.retries, 0);
+  if (record.cached) {
+    return { feature, inputTokens: 0, outputTokens: 0, latencyMs, retries: 0, estimatedCostUsd: 0 };
+  }
+
+  const model = record.model ?? record.requestedModel;
+  const inputTokens = estimateTokens(prompt, model);
+  const outputTokens = estimateTokens(output, model);
+  // List prices are Hugging Face inference provider prices; local and mock backends are free
+  const pricing = record.model && record.provider === 'huggingface' ? MODEL_PRICING[record.model] : undefined;
+  const estimatedCostUsd = pricing
+    ? roundCost((inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000)
+    : 0;
+
+  return { feature, inputTokens, outputTokens, latencyMs, retries, estimatedCostUsd };
+}
+
+/**
+ * Add a call to the ledger (records without usage are ignored)
+ */
+export function recordUsage(record: InferenceRecord): void {
+  const { usage } = record;
+  if (!usage) {
+    return;
+  }
+
+  entries.push({
+    ...usage,
+    timestamp: new Date().toISOString(),
+    model: record.model,
+    provider: record.provider,
+    fallbackHops: record.fallbackHops,
+    cached: record.cached ?? false,
+    success: record.model !== null,
+  });
+  if (entries.length > USAGE_LEDGER.MAX_ENTRIES) {
+    entries.shift();
+  }
+
+  addToTotals(totals, record, usage);
+  addToTotals((byFeature[usage.feature] ??= emptyTotals()), record, usage);
+  addToTotals((byModel[record.model ?? 'none'] ??= emptyTotals()), record, usage);
+}
+
+/**
+ * Sum the usage of the inference records collected for one request
+ */
+export function summarizeUsage(records: InferenceRecord[]): UsageTotals {
+  const summary = emptyTotals();
+  for (const record of records) {
+    if (record.usage) {
+      addToTotals(summary, record, record.usage);
+    }
+  }
+  return summary;
+}
+
+/**
+ * Aggregates since server start (or the last reset) and the most recent entries
+ */
+export function getUsageReport(recent: number = USAGE_LEDGER.DEFAULT_RECENT): UsageReport {
+  return {
+    since,
+    totals: { ...totals },
+    byFeature: structuredClone(byFeature),
+    byModel: structuredClone(byModel),
+    recent: recent > 0 ? entries.slice(-recent).reverse() : [],
+  };
+}
+
+/**
+ * Clear the ledger, e.g. at the start of a budgeting period
+ */
+export function resetUsage(): void {
+  entries.length = 0;
+  totals = emptyTotals();
+  byFeature = {};
+  byModel = {};
+  since = new Date().toISOString();
+}
@@ -0,0 +1,29 @@
+/**
+ * Job Enricher
+ * Fills a JobDescription's title, company and requirements from its text and its analysis
+ */
+
+import { JOB_IMPORT_CONFIG } from '@/src/shared/constants';
+import type { JobAnalysis, JobDescription } from '@/src/shared/types';
+import { extractRequirements, extractTitleAndCompany } from './jobPosting';
+
+/**
+ * Fill in the fields a JobDescription is missing
+ * Values already set (for example by an import) are kept; requirements are read from the text's
+ * requirements section and fall back to the analysis' key requirements
+ */
+export function enrichJobDescription(jobDescription: JobDescription, jobAnalysis: JobAnalysis): JobDescription {
+  const { title, company } = extractTitleAndCompany(jobDescription.content);
+  const textRequirements = extractRequirements(jobDescription.content);
+
+  return {
+    ...jobDescription,
+    title: jobDescription.title || title,
+    company: jobDescription.company || company,
+    requirements: jobDescription.requirements?.length
+      ? jobDescription.requirements
+      : textRequirements.length > 0
+        ? textRequirements
+        : jobAnalysis.keyRequirements.slice(0, JOB_IMPORT_CONFIG.MAX_REQUIREMENTS),
+  };
+}
@@ -0,0 +1,309 @@
+/**
+ * Job Facts Extractor
+ * Rule-based reading of salary, work arrangement, location, visa sponsorship, contract type and years of experience
+ */
+
+import type { ContractType, JobFacts, SalaryPeriod, SalaryRange, WorkArrangement } from '@/src/shared/types';
+import { uniqueStrings } from '@/src/shared/utils/text';
+
+// Currency markers, longest first so "CA$" wins over "$"
+const CURRENCY_SYMBOLS: ReadonlyArray<[string, string]> = [
+  ['US$', 'USD'], ['CA$', 'CAD'], ['AU$', 'AUD'], ['NZ$', 'NZD'], ['HK$', 'HKD'],
+  ['C$', 'CAD'], ['A$', 'AUD'], ['S$', 'SGD'], ['R$', 'BRL'],
+  ['$', 'USD'], ['£', 'GBP'], ['€', 'EUR'], ['¥', 'JPY'], ['₹', 'INR'], ['₦', 'NGN'],
+];
+const CURRENCY_CODES = [
+  'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN',
+  'INR', 'NGN', 'JPY', 'SGD', 'HKD', 'ZAR', 'BRL', 'MXN', 'AED',
+];
+const CURRENCY_WORDS: Record<string, string> = {
+  dollars: 'USD',
+  euros: 'EUR',
+  pounds: 'GBP',
+  rupees: 'INR',
+  naira: 'NGN',
+};
+
+const CURRENCY = `(${[
+  ...CURRENCY_SYMBOLS.map(([symbol]) => symbol.replace(/\$/g, '\\$')),
+  ...CURRENCY_CODES.map((code) => `\\b${code}\\b`),
+  ...Object.keys(CURRENCY_WORDS).map((word) => `\\b${word}\\b`),
+].join('|')})`;
+// 120,000 / 55.000 / 120 000 / 12,00,000 (Indian grouping) / 85 / 1.5, with an optional k, m, lakh or crore
+const AMOUNT = '(\\d{1,2}(?:,\\d{2})+,\\d{3}|\\d{1,3}(?:[,.\\u00a0\\u202f ]\\d{3})+|\\d+(?:[.,]\\d+)?)\\s*(k|m|mn|millions?|lakhs?|lacs?|lpa|crores?)?\\b';
+const SIDE = `(?:${CURRENCY}\\s?)?${AMOUNT}(?:\\s?${CURRENCY})?`;
+const SALARY_RANGE = new RegExp(`${SIDE}(?:\\s*(?:-|–|—|to|and)\\s*${SIDE})?`, 'gi');
+
+const SALARY_CONTEXT = /\b(?:salary|salaries|compensation|pay|paid|rate|base|ote|package|remuneration|wages?|earnings?)\b/i;
+// Money that is not pay: funding rounds, revenue, budgets, perks
+const NON_SALARY_CONTEXT =
+  /\b(?:raised|funding|funded|series [a-e]|revenue|valuation|arr|investors?|budget|backed|allowance|stipend|bonus|equity|reimburs\w*)\b/i;
+// Where the clause around an amount ends: sentence or clause punctuation, or a conjunction starting a new clause
+const CLAUSE_BREAK = /[.;!?,](?=\s)|\s(?:and|but|while|whereas|plus)\s/gi;
+
+const PERIODS: ReadonlyArray<[RegExp, SalaryPeriod]> = [
+  [/\b(?:per|an?|\/)\s*(?:hour|hr)\b|\bhourly\b|\bp\/?h\b/i, 'hour'],
+  [/\b(?:per|an?|\/)\s*day\b|\bdaily\b|\bday rate\b|\bp\/?d\b/i, 'day'],
+  [/\b(?:per|an?|\/)\s*week\b|\bweekly\b/i, 'week'],
+  [/\b(?:per|an?|\/)\s*(?:month|mo)\b|\bmonthly\b|\bpcm\b/i, 'month'],
+  [/\b(?:per|an?|\/)\s*(?:year|yr|annum)\b|\bannual(?:ly)?\b|\byearly\b|\bp\.?a\.?(?:\s|$)|\blpa\b|\bctc\b/i, 'year'],
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20,
+};
+const YEARS_NUMBER = `(\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')})`;
+const YEARS_OF_EXPERIENCE = new RegExp(
+  `(?:\\b(at least|minimum(?: of)?|min\\.?|over|more than)\\s+)?\\b${YEARS_NUMBER}(?:\\s*(?:-|–|—|to)\\s*${YEARS_NUMBER})?\\s*\\+?\\s*(?:or more\\s+)?(?:years?|yrs?)\\b`,
+  'gi'
+);
+
+const HYBRID =
+  /\bhybrid\b|\b\d\s*(?:days?|x)\s*(?:a|per|\/)\s*week\s+(?:in|at)\s+(?:the|our)\s+office|\b(?:in|at)\s+(?:the|our)\s+office\s+\d\s*days?/i;
+const NOT_REMOTE = /\b(?:not|no|isn't)\s+(?:a\s+)?(?:fully\s+)?remote\b|\bremote (?:work )?is not (?:possible|available|an option)/i;
+const REMOTE = /\bremote\b|\bwork from (?:home|anywhere)\b|\bwfh\b|\btelecommut/i;
+const ON_SITE = /\bon[- ]?site\b|\bin[- ](?:office|person)\b|\boffice[- ]based\b/i;
+
+const LOCATION_LABEL = /^\s*(?:job |work |office )?locations?\s*[:–—-]\s*(.+)$/gim;
+const BASED_IN = /\b(?:[Bb]ased|[Ll]ocated) in ([A-Z][\w'.-]*(?:,? [A-Z][\w'.-]*){0,3})/g;
+const ARRANGEMENT_WORD = /^(?:remote|hybrid|on[- ]?site|flexible|anywhere|worldwide)\b/i;
+
+const NO_SPONSORSHIP =
+  /\b(?:not|unable to|cannot|can't|can ?not|won't|will not|do not|don't|does not|doesn't|are not able to)\s+(?:\w+\s+){0,3}?(?:offer|provide|support|sponsor)\w*\b(?:\s+(?:\w+\s+){0,2}?(?:visas?|sponsorship|work permits?))?|\bsponsorship (?:is )?(?:not|unavailable)\b|\bwithout (?:the need for |requiring |needing )?(?:current or future |visa )?sponsorship|\bno (?:visa )?sponsorship\b|\bmust (?:already )?(?:have|hold|possess) (?:the |a |full |valid )*(?:right|authori[sz]ation|permit) to work/i;
+const SPONSORSHIP =
+  /\bvisa sponsorship (?:is |will be )?(?:available|offered|provided|possible)|\b(?:we|will|can|able to|happy to|willing to)\s+(?:\w+\s+){0,2}?sponsor\b|\b(?:offer|provide)s?\s+(?:\w+\s+){0,2}?(?:visa|sponsorship)\b|\bvisa (?:support|assistance)\b|\bsponsorship (?:is )?available\b/i;
+
+const CONTRACT_LABEL = /^\s*(?:contract|employment|job|position|engagement)\s+type\s*[:–—-]\s*(.+)$/im;
+// Patterns tried on a labelled value only, where short words are safe
+const LABEL_CONTRACT_TYPES: ReadonlyArray<[RegExp, ContractType]> = [
+  [/\bintern\b/i, 'internship'],
+  [/\bcontractor\b/i, 'contract'],
+  [/\btemp\b|\bseasonal\b/i, 'temporary'],
+  [/\bperm\b/i, 'permanent'],
+];
+const CONTRACT_TYPES: ReadonlyArray<[RegExp, ContractType]> = [
+  [/\binternship\b/i, 'internship'],
+  [/\bapprentice(?:ship)?\b/i, 'apprenticeship'],
+  [/\bfixed[- ]term\b|\bmaternity (?:leave )?cover\b/i, 'fixed-term'],
+  [/\bfreelancer?\b/i, 'freelance'],
+  [
+    /\bcontract (?:role|position|basis|opportunity|assignment)\b|\b\d+[- ]?months? (?:rolling )?contract\b|\b(?:outside|inside) ir35\b|\bb2b contract\b|\bcontract$/i,
+    'contract',
+  ],
+  [/\btemporary\b/i, 'temporary'],
+  [/\bpermanent\b/i, 'permanent'],
+];
+
+function currencyCode(marker: string | undefined): string | undefined {
+  if (!marker) {
+    return undefined;
+  }
+  const symbol = CURRENCY_SYMBOLS.find(([candidate]) => candidate.toLowerCase() === marker.toLowerCase());
+  return symbol?.[1] ?? CURRENCY_WORDS[marker.toLowerCase()] ?? marker.toUpperCase();
+}
+
+function multiplier(suffix: string | undefined): number {
+  const unit = suffix?.toLowerCase() ?? '';
+  if (unit === 'k') return 1000;
+  if (/^(?:m|mn|millions?)$/.test(unit)) return 1000000;
+  if (/^(?:lakhs?|lacs?|lpa)$/.test(unit)) return 100000;
+  if (/^crores?$/.test(unit)) return 10000000;
+  return 1;
+}
+
+/**
+ * "120,000" / "55.000" / "12,00,000" are grouped thousands; "1.5" and "1,5" are decimals
+ */
+function parseAmount(digits: string): number {
+  if (/^\d{1,3}(?:[,.\u00a0\u202f ]\d{3})+$/.test(digits) || /^\d{1,2}(?:,\d{2})+,\d{3}$/.test(digits)) {
+    return Number(digits.replace(/[^\d]/g, ''));
+  }
+  return Number(digits.replace(',', '.'));
+}
+
+function salaryPeriod(after: string, line: string, max: number): SalaryPeriod {
+  for (const scope of [after, line]) {
+    const period = PERIODS.find(([pattern]) => pattern.test(scope));
+    if (period) {
+      return period[1];
+    }
+  }
+  // Unlabelled figures: five digits and up are annual, small ones hourly
+  if (max >= 15000) return 'year';
+  if (max < 500) return 'hour';
+  return 'month';
+}
+
+/**
+ * The clause of a line that holds [start, end), so "We raised $20M and pay $120k" judges each amount on its own words
+ * Breaks inside the amount itself ("$100k and $120k") are ignored
+ */
+function clauseAround(line: string, start: number, end: number): string {
+  let from = 0;
+  let to = line.length;
+  for (const separator of line.matchAll(CLAUSE_BREAK)) {
+    const index = separator.index ?? 0;
+    if (index + separator[0].length <= start) {
+      from = index + separator[0].length;
+    } else if (index >= end) {
+      to = index;
+      break;
+    }
+  }
+  return line.slice(from, to);
+}
+
+/**
+ * First salary range with a currency, preferring clauses that talk about pay
+ * Amounts in a clause about funding, revenue, budgets or perks are skipped unless that clause mentions pay
+ */
+function extractSalary(text: string): SalaryRange | undefined {
+  const candidates: Array<{ salary: SalaryRange; inContext: boolean }> = [];
+
+  for (const line of text.split('\n')) {
+    for (const match of line.matchAll(SALARY_RANGE)) {
+      const clause = clauseAround(line, match.index ?? 0, (match.index ?? 0) + match[0].length);
+      const inContext = SALARY_CONTEXT.test(clause);
+      if (NON_SALARY_CONTEXT.test(clause) && !inContext) {
+        continue;
+      }
+
+      const [text, currencyBefore, minDigits, minUnit, currencyAfter, maxCurrencyBefore, maxDigits, maxUnit, maxCurrencyAfter] =
+        match;
+      const indianUnit = [minUnit, maxUnit].some((unit) => unit && /^(?:lakhs?|lacs?|lpa|crores?)$/i.test(unit));
+      const currency =
+        currencyCode(currencyBefore ?? currencyAfter ?? maxCurrencyBefore ?? maxCurrencyAfter) ??
+        (indianUnit ? 'INR' : undefined);
+      if (!currency) {
+        continue;
+      }
+
+      // "$120-150k": the unit written once applies to both ends
+      let min = parseAmount(minDigits) * multiplier(minUnit ?? (maxDigits ? maxUnit : undefined));
+      let max = maxDigits ? parseAmount(maxDigits) * multiplier(maxUnit ?? minUnit) : min;
+      if (min > max) {
+        [min, max] = [max, min];
+      }
+      if (!Number.isFinite(min) || min <= 0) {
+        continue;
+      }
+
+      const after = line.slice((match.index ?? 0) + text.length, (match.index ?? 0) + text.length + 30);
+      candidates.push({
+        salary: {
+          min: Math.round(min),
+          max: Math.round(max),
+          currency,
+          period: salaryPeriod(after, line, max),
+          text: text.trim(),
+        },
+        inContext,
+      });
+    }
+  }
+
+  return (candidates.find((candidate) => candidate.inContext) ?? candidates[0])?.salary;
+}
+
+function toNumber(value: string): number {
+  return NUMBER_WORDS[value.toLowerCase()] ?? Number(value);
+}
+
+/**
+ * The strictest "N+ years of experience" in the posting
+ * A number only counts when "experience" is mentioned close to it
+ */
+function extractYearsOfExperience(text: string): JobFacts['yearsOfExperience'] {
+  let best: JobFacts['yearsOfExperience'];
+
+  for (const match of text.matchAll(YEARS_OF_EXPERIENCE)) {
+    const index = match.index ?? 0;
+    const context = text.slice(Math.max(0, index - 40), index + match[0].length + 60);
+    if (!/experien/i.test(context)) {
+      continue;
+    }
+
+    const min = toNumber(match[2]);
+    const max = match[3] ? toNumber(match[3]) : undefined;
+    if (!Number.isFinite(min) || min > 40 || (max !== undefined && max < min)) {
+      continue;
+    }
+    if (!best || min > best.min) {
+      best = max !== undefined ? { min, max } : { min };
+    }
+  }
+
+  return best;
+}
+
+function extractWorkArrangement(text: string): WorkArrangement | undefined {
+  if (HYBRID.test(text)) return 'hybrid';
+  if (NOT_REMOTE.test(text)) return 'on-site';
+  if (REMOTE.test(text)) return 'remote';
+  if (ON_SITE.test(text)) return 'on-site';
+  return undefined;
+}
+
+/**
+ * Places from "Location:" lines and "based in ..." phrases; arrangement words are left to the work arrangement
+ */
+function extractLocations(text: string): string[] {
+  const locations: string[] = [];
+
+  for (const match of text.matchAll(LOCATION_LABEL)) {
+    locations.push(...match[1].split(/;|\s+\/\s+|\s+or\s+|\s+\|\s+/));
+  }
+  for (const match of text.matchAll(BASED_IN)) {
+    locations.push(match[1]);
+  }
+
+  return uniqueStrings(
+    locations
+      .map((location) => location.replace(/\s*\((?:remote|hybrid|on[- ]?site)[^)]*\)/i, '').replace(/[.,;]+$/, '').trim())
+      .filter((location) => location.length >= 2 && location.length <= 60 && !ARRANGEMENT_WORD.test(location))
+  );
+}
+
+function extractVisaSponsorship(text: string): boolean | undefined {
+  // Only sentences about visas or the right to work, so "we don't offer equity" is not read as a refusal
+  const sentences = text
+    .split(/[.!?]\s+|\n/)
+    .filter((sentence) => /visa|sponsor|right to work|work permit|authori[sz]ation to work/i.test(sentence));
+  if (sentences.some((sentence) => NO_SPONSORSHIP.test(sentence))) return false;
+  if (sentences.some((sentence) => SPONSORSHIP.test(sentence))) return true;
+  return undefined;
+}
+
+function extractContractType(text: string): ContractType | undefined {
+  const label = text.match(CONTRACT_LABEL)?.[1];
+  if (label) {
+    const fromLabel = [...CONTRACT_TYPES, ...LABEL_CONTRACT_TYPES].find(([pattern]) => pattern.test(label));
+    if (fromLabel) {
+      return fromLabel[1];
+    }
+  }
+  return CONTRACT_TYPES.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/**
+ * Read the hard facts of a job description
+ * Deterministic: the same text always gives the same facts, with unknown facts left out
+ */
+export function extractJobFacts(text: string): JobFacts {
+  const facts: JobFacts = { locations: extractLocations(text) };
+
+  const salary = extractSalary(text);
+  const workArrangement = extractWorkArrangement(text);
+  const visaSponsorship = extractVisaSponsorship(text);
+  const contractType = extractContractType(text);
+  const yearsOfExperience = extractYearsOfExperience(text);
+
+  if (salary) facts.salary = salary;
+  if (workArrangement) facts.workArrangement = workArrangement;
+  if (visaSponsorship !== undefined) facts.visaSponsorship = visaSponsorship;
+  if (contractType) facts.contractType = contractType;
+  if (yearsOfExperience) facts.yearsOfExperience = yearsOfExperience;
+
+  return facts;
+}
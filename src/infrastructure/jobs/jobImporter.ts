@@ -0,0 +1,246 @@
+/**
+ * Job Importer
+ * Fetches job pages by URL (public hosts only, bounded in time and size) and turns them into a JobDescription
+ */
+
+import { lookup, type LookupAddress } from 'dns';
+import http, { type IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { JOB_IMPORT_CONFIG } from '@/src/shared/constants';
+import type { JobImportResult } from '@/src/shared/types';
+import { extractJobPosting } from './jobPosting';
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+// Below this the page is a login wall, a cookie notice or a JavaScript shell
+const MIN_POSTING_LENGTH = 200;
+
+/**
+ * The job could not be imported; the message is safe to show to the user
+ */
+export class JobImportError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'JobImportError';
+    this.status = status;
+  }
+}
+
+function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as IPv4
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return PRIVATE_NETWORKS.check(mapped[1], 'ipv4');
+  }
+  return PRIVATE_NETWORKS.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Refuse URLs that are not http(s) or that name a private address literally (the server must not be a proxy into its network)
+ * Host names are checked when the connection is made, by publicLookup
+ */
+function assertPublicURL(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new JobImportError('Only http and https links can be imported.');
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new JobImportError('That link points to a private network address and cannot be imported.');
+  }
+}
+
+/**
+ * DNS lookup for page requests that only ever hands out public addresses
+ * The socket connects to the address checked here, so a second answer from the name server (DNS rebinding) is never used
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(new JobImportError(`Couldn't find ${hostname}. Is the link right?`, 422), '', 0);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new JobImportError('That link points to a private network address and cannot be imported.'), '', 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Send one GET request through publicLookup, without following redirects
+ */
+function requestPage(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    client
+      .get(
+        url,
+        {
+          lookup: publicLookup,
+          signal,
+          headers: {
+            'User-Agent': JOB_IMPORT_CONFIG.USER_AGENT,
+            Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+          },
+        },
+        resolve
+      )
+      .on('error', reject);
+  });
+}
+
+/**
+ * Read a response body, giving up once it passes MAX_PAGE_BYTES
+ */
+async function readLimited(response: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of response) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > JOB_IMPORT_CONFIG.MAX_PAGE_BYTES) {
+      response.destroy();
+      throw new JobImportError('That page is too large to import.', 413);
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Decode a page with the charset from the Content-Type header or a <meta charset>, defaulting to UTF-8
+ */
+function decodePage(body: Buffer, contentType: string): string {
+  const charset =
+    contentType.match(/charset=["']?([\w-]+)/i)?.[1] ??
+    body.subarray(0, 2048).toString('latin1').match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] ??
+    'utf-8';
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    return new TextDecoder('utf-8').decode(body);
+  }
+}
+
+/**
+ * Fetch a job page, following redirects by hand so every hop is checked
+ * Each connection goes to the address publicLookup approved, never to a fresh DNS answer
+ */
+async function fetchJobPage(rawURL: string): Promise<{ html: string; url: string }> {
+  let url: URL;
+  try {
+    url = new URL(rawURL.trim());
+  } catch {
+    throw new JobImportError("That doesn't look like a link. Please paste the full URL, starting with https://");
+  }
+
+  const signal = AbortSignal.timeout(JOB_IMPORT_CONFIG.FETCH_TIMEOUT_MS);
+  try {
+    for (let hop = 0; hop <= JOB_IMPORT_CONFIG.MAX_REDIRECTS; hop++) {
+      assertPublicURL(url);
+      const response = await requestPage(url, signal);
+      const status = response.statusCode ?? 0;
+
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        url = new URL(location, url);
+        continue;
+      }
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new JobImportError(
+          `The job page answered with HTTP ${status}. If it needs a login, save the page as HTML and upload it instead.`,
+          502
+        );
+      }
+
+      const contentType = response.headers['content-type'] ?? '';
+      if (contentType && !/html|xml/i.test(contentType)) {
+        response.destroy();
+        throw new JobImportError(`That link is not a web page (${contentType.split(';')[0]}).`, 415);
+      }
+      return { html: decodePage(await readLimited(response), contentType), url: url.toString() };
+    }
+  } catch (error) {
+    if (error instanceof JobImportError) {
+      throw error;
+    }
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      throw new JobImportError('The job page took too long to load.', 504);
+    }
+    throw new JobImportError(`Couldn't load the job page: ${error instanceof Error ? error.message : 'network error'}`, 502);
+  }
+  throw new JobImportError('The link redirects too many times.', 502);
+}
+
+/**
+ * Turn a job page into a JobDescription
+ * Throws JobImportError when no posting text can be found
+ */
+export function importJobFromHTML(html: string, url?: string): JobImportResult {
+  const posting = extractJobPosting(html);
+  if (posting.content.replace(/\s+/g, ' ').trim().length < MIN_POSTING_LENGTH) {
+    throw new JobImportError(
+      "I couldn't find a job posting on that page. It may need a login or JavaScript; try copying the text instead.",
+      422
+    );
+  }
+
+  const warnings: string[] = [];
+  if (posting.source === 'page-text') {
+    warnings.push(
+      'The page has no structured job data, so the text was taken from its main content. Check it for leftovers such as navigation or cookie notices.'
+    );
+  }
+  if (!posting.title) {
+    warnings.push('The job title was not found.');
+  }
+  if (!posting.company) {
+    warnings.push('The company name was not found.');
+  }
+  if (posting.requirements.length === 0) {
+    warnings.push('No requirements section was found.');
+  }
+
+  return {
+    jobDescription: {
+      id: `job-${Date.now()}`,
+      content: posting.content,
+      title: posting.title,
+      company: posting.company,
+      requirements: posting.requirements,
+      createdAt: new Date().toISOString(),
+    },
+    source: posting.source,
+    url,
+    warnings,
+  };
+}
+
+/**
+ * Fetch a job page by URL and turn it into a JobDescription
+ */
+export async function importJobFromURL(rawURL: string): Promise<JobImportResult> {
+  const { html, url } = await fetchJobPage(rawURL);
+  return importJobFromHTML(html, url);
+}
@@ -0,0 +1,370 @@
+/**
+ * Job Posting Extractor
+ * Title, company, requirements and text of a job posting, from schema.org JobPosting JSON-LD, the page's main content or pasted text
+ */
+
+import { parseHTML } from '@/src/infrastructure/documents/htmlParser';
+import { decodeEntities } from '@/src/infrastructure/documents/markup';
+import { JOB_IMPORT_CONFIG } from '@/src/shared/constants';
+import type { JobImportSource } from '@/src/shared/types';
+import { uniqueStrings } from '@/src/shared/utils/text';
+import { extractReadableContent } from './readability';
+
+const JSON_LD_SCRIPT = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script\s*>/gi;
+const BULLET = /^\s*(?:[-•*·▪◦‣–]|\d{1,2}[.)])\s+/;
+
+// Headings start with the keyword, so "Strong communication skills" is not a "Skills" heading
+const REQUIREMENT_HEADING =
+  /^(?:(?:key|minimum|basic|preferred|required|desired|essential|technical|your|the|our)\s+)*(?:requirements?|qualifications?|what you(?:'|’)?ll (?:need|bring)|what you bring|what we(?:'|’)?re looking for|must[- ]haves?|nice[- ]to[- ]haves?|skills|about you|who you are|your profile|you have|you(?:'|’)?ll have)\b/i;
+const OTHER_HEADING =
+  /^(?:(?:key|main|core|your|the|our)\s+)*(?:responsibilities|what you(?:'|’)?ll do|duties|benefits|perks|we offer|what we offer|about (?:us|the (?:company|team|role))|how to apply|salary|compensation|the role|your role|day[- ]to[- ]day|our culture|why join)\b/i;
+// Requirement-like lines, used when a posting has no requirements heading
+const REQUIREMENT_LINE =
+  /\b(?:\d+\+?\s*years?|experience (?:with|in)|degree|required|must|proficien|knowledge of|familiar(?:ity)? with|fluent)\b/i;
+
+// "Job title: ...", "Company: ..." lines, as pasted postings and JSON-LD imports carry them
+const TITLE_LABEL = /^(?:job\s+title|position|role|title)\s*[:–—-]\s*(.{3,100})$/im;
+const COMPANY_LABEL = /^(?:company|employer|organi[sz]ation|hiring company)\s*[:–—-]\s*(.{2,80})$/im;
+// Words a job title almost always contains
+const TITLE_WORD =
+  /\b(?:engineer|developer|programmer|architect|designer|manager|director|head of|lead|analyst|scientist|specialist|consultant|administrator|coordinator|assistant|officer|associate|intern|executive|representative|technician|accountant|nurse|teacher|writer|editor|researcher|recruiter|advisor|strategist|operator|supervisor|agent|vp|cto|ceo|cfo)\b/i;
+// "At Acme, we..." / "About Acme" (but not "About the role")
+const COMPANY_INTRO = /(?:^|\n)\s*At ([A-Z][\w&.'-]*(?:\s+[A-Z][\w&.'-]*){0,3}),\s+we\b/;
+const ABOUT_HEADING =
+  /^About\s+(?!(?:[Uu]s|[Yy]ou|[Tt]he|[Tt]his|[Oo]ur|[Yy]our|[Mm]e)\b)([A-Z][\w&.'-]*(?:\s+[A-Z][\w&.'-]*){0,3})\s*:?$/m;
+
+// Boards whose og:site_name is the board, not the employer
+const JOB_BOARDS =
+  /linkedin|indeed|glassdoor|greenhouse|lever|workday|workable|smartrecruiters|monster|ziprecruiter|stepstone|totaljobs|reed|seek|welcome to the jungle|otta|wellfound|angellist|recruitee|personio|ashby|teamtailor|bamboohr/i;
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * What could be read from a job page
+ */
+export interface ExtractedJobPosting {
+  content: string;
+  title?: string;
+  company?: string;
+  requirements: string[];
+  source: JobImportSource;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isJobPosting(value: JsonObject): boolean {
+  const types = ([] as unknown[]).concat(value['@type'] ?? []);
+  return types.some((type) => typeof type === 'string' && /(?:^|[/:])JobPosting$/.test(type));
+}
+
+/**
+ * Every JobPosting object in a JSON-LD value, including inside @graph arrays and nested entities
+ */
+function findJobPostings(value: unknown, found: JsonObject[] = []): JsonObject[] {
+  if (Array.isArray(value)) {
+    value.forEach((item) => findJobPostings(item, found));
+  } else if (isObject(value)) {
+    if (isJobPosting(value)) {
+      found.push(value);
+    } else {
+      Object.values(value).forEach((item) => findJobPostings(item, found));
+    }
+  }
+  return found;
+}
+
+function parseJSONLD(html: string): JsonObject[] {
+  const postings: JsonObject[] = [];
+  for (const match of html.matchAll(JSON_LD_SCRIPT)) {
+    const source = match[1].trim().replace(/^<!--|-->$/g, '');
+    try {
+      findJobPostings(JSON.parse(source), postings);
+    } catch {
+      // Some sites emit raw line breaks and tabs inside strings
+      try {
+        findJobPostings(JSON.parse(source.replace(/[\r\n\t]+/g, ' ')), postings);
+      } catch {
+        continue;
+      }
+    }
+  }
+  return postings;
+}
+
+/**
+ * Plain text and headings of a JSON-LD text value, which may be HTML, entity-encoded HTML or plain text
+ */
+function richText(value: string): { text: string; headings: string[] } {
+  const decoded = /&lt;\/?[a-z]/i.test(value) ? decodeEntities(value) : value;
+  if (/<\/?[a-z][^>]*>/i.test(decoded)) {
+    const { text, headings } = parseHTML(decoded);
+    return { text, headings };
+  }
+  return { text: decodeEntities(decoded).replace(/\r\n?/g, '\n').trim(), headings: [] };
+}
+
+/**
+ * Name of a JSON-LD entity given as a string, an object with a name, or an array of either
+ */
+function nameOf(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return decodeEntities(value).trim() || undefined;
+  }
+  if (Array.isArray(value)) {
+    return value.map(nameOf).find(Boolean);
+  }
+  return isObject(value) ? nameOf(value.name) : undefined;
+}
+
+function describeLocation(posting: JsonObject): string | undefined {
+  const places = ([] as unknown[]).concat(posting.jobLocation ?? []);
+  const locations = places.map((place) => {
+    const address = isObject(place) ? place.address : undefined;
+    if (typeof address === 'string') {
+      return address;
+    }
+    if (!isObject(address)) {
+      return nameOf(place) ?? '';
+    }
+    return [address.addressLocality, address.addressRegion, nameOf(address.addressCountry)]
+      .filter((part): part is string => typeof part === 'string' && part.trim() !== '')
+      .join(', ');
+  });
+  if (posting.jobLocationType === 'TELECOMMUTE') {
+    locations.push('Remote');
+  }
+  return uniqueStrings(locations).join('; ') || undefined;
+}
+
+function describeSalary(posting: JsonObject): string | undefined {
+  const salary = posting.baseSalary;
+  if (!isObject(salary)) {
+    return undefined;
+  }
+  const value = isObject(salary.value) ? salary.value : { value: salary.value };
+  const amount =
+    value.minValue !== undefined && value.maxValue !== undefined
+      ? `${value.minValue}-${value.maxValue}`
+      : String(value.value ?? value.minValue ?? value.maxValue ?? '');
+  if (!amount) {
+    return undefined;
+  }
+  const unit = typeof value.unitText === 'string' ? ` per ${value.unitText.toLowerCase()}` : '';
+  return `${amount}${typeof salary.currency === 'string' ? ` ${salary.currency}` : ''}${unit}`;
+}
+
+/**
+ * Requirement lines from qualification-like JSON-LD properties
+ * Values are text (often HTML lists) or credential / experience objects
+ */
+function structuredRequirements(posting: JsonObject): string[] {
+  const lines: string[] = [];
+  for (const key of ['qualifications', 'skills', 'experienceRequirements', 'educationRequirements']) {
+    for (const value of ([] as unknown[]).concat(posting[key] ?? [])) {
+      if (typeof value === 'string') {
+        lines.push(...richText(value).text.split('\n'));
+      } else if (isObject(value) && typeof value.monthsOfExperience === 'number') {
+        lines.push(`${Math.round(value.monthsOfExperience / 12)}+ years of experience`);
+      } else if (isObject(value) && typeof value.credentialCategory === 'string') {
+        lines.push(`Education: ${value.credentialCategory}`);
+      } else {
+        lines.push(nameOf(value) ?? (isObject(value) && typeof value.description === 'string' ? value.description : ''));
+      }
+    }
+  }
+  return lines.map((line) => line.replace(BULLET, '').trim()).filter((line) => line.length >= 3);
+}
+
+/**
+ * Whether a line reads as a section heading: short, unbulleted, and either a known heading, ending in a colon
+ * or without sentence punctuation
+ */
+export function isHeadingLine(line: string, headings: ReadonlySet<string> = new Set()): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length > 0 &&
+    trimmed.length <= 80 &&
+    !BULLET.test(trimmed) &&
+    (headings.has(trimmed) || trimmed.endsWith(':') || !/[.!?,;]$/.test(trimmed)) &&
+    trimmed.split(/\s+/).length <= 8
+  );
+}
+
+/**
+ * Lines under requirement headings ("Requirements", "What you'll bring", "About you"...)
+ * Falls back to requirement-like bullet lines when the posting has no such heading
+ */
+export function extractRequirements(text: string, headings: string[] = []): string[] {
+  const headingSet = new Set(headings.map((heading) => heading.trim()));
+  const lines = text.split('\n');
+  const requirements: string[] = [];
+  let inSection = false;
+  // A bulleted section ends at its first unbulleted line ("Apply for this job", a closing paragraph)
+  let sectionHasBullets = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+    if (isHeadingLine(trimmed, headingSet) && (REQUIREMENT_HEADING.test(trimmed) || OTHER_HEADING.test(trimmed))) {
+      inSection = REQUIREMENT_HEADING.test(trimmed) && !OTHER_HEADING.test(trimmed);
+      sectionHasBullets = false;
+      continue;
+    }
+    if (inSection && (headingSet.has(trimmed) || (sectionHasBullets && !BULLET.test(trimmed)))) {
+      inSection = false;
+      continue;
+    }
+    sectionHasBullets ||= inSection && BULLET.test(trimmed);
+    if (inSection && trimmed.length >= 10 && trimmed.length <= 300) {
+      requirements.push(trimmed.replace(BULLET, ''));
+    }
+  }
+
+  if (requirements.length === 0) {
+    requirements.push(
+      ...lines
+        .filter((line) => BULLET.test(line) && REQUIREMENT_LINE.test(line))
+        .map((line) => line.replace(BULLET, '').trim())
+        .filter((line) => line.length >= 10 && line.length <= 300)
+    );
+  }
+
+  return uniqueStrings(requirements).slice(0, JOB_IMPORT_CONFIG.MAX_REQUIREMENTS);
+}
+
+function fromJSONLD(posting: JsonObject): ExtractedJobPosting {
+  const title = nameOf(posting.title);
+  const company = nameOf(posting.hiringOrganization);
+  const { text: description, headings } =
+    typeof posting.description === 'string' ? richText(posting.description) : { text: '', headings: [] };
+  const location = describeLocation(posting);
+  const salary = describeSalary(posting);
+  const employmentType = ([] as unknown[])
+    .concat(posting.employmentType ?? [])
+    .filter((type): type is string => typeof type === 'string')
+    .map((type) => type.replace(/_/g, ' ').toLowerCase())
+    .join(', ');
+
+  const header = [
+    title,
+    company ? `Company: ${company}` : '',
+    location ? `Location: ${location}` : '',
+    employmentType ? `Employment type: ${employmentType}` : '',
+    salary ? `Salary: ${salary}` : '',
+  ].filter(Boolean);
+
+  const structured = structuredRequirements(posting);
+  const missingFromDescription = structured.filter((line) => !description.includes(line));
+  const requirementsBlock =
+    missingFromDescription.length > 0 ? ['Requirements', ...missingFromDescription.map((line) => `• ${line}`)] : [];
+
+  return {
+    content: [header.join('\n'), description, requirementsBlock.join('\n')].filter(Boolean).join('\n\n'),
+    title,
+    company,
+    // Qualifications the employer tagged come first; boards often tag only some (just the experience),
+    // so the description's requirement section adds the rest
+    requirements: uniqueStrings([...structured, ...extractRequirements(description, headings)]).slice(
+      0,
+      JOB_IMPORT_CONFIG.MAX_REQUIREMENTS
+    ),
+    source: 'json-ld',
+  };
+}
+
+/**
+ * Split "Senior Engineer at Acme | LinkedIn" or "Acme hiring Senior Engineer in London | LinkedIn" into title and company
+ */
+function splitPageTitle(pageTitle: string): { title: string; company?: string } {
+  const atCompany = pageTitle.match(/^(.+?)\s+(?:at|@)\s+(.+?)(?:\s+[|–—-]\s+.*)?$/);
+  if (atCompany) {
+    return { title: atCompany[1].trim(), company: atCompany[2].trim() };
+  }
+  const companyHiring = pageTitle.match(/^(.+?)\s+hiring\s+(.+?)(?:\s+in\s+[^|–—]+)?(?:\s+[|–—]\s+.*)?$/);
+  if (companyHiring) {
+    return { title: companyHiring[2].trim(), company: companyHiring[1].trim() };
+  }
+  return { title: pageTitle.split(/\s+[|–—]\s+/)[0].trim() };
+}
+
+/**
+ * Drop the site name from either end of a page title ("Acme - Product Designer", "Product Designer | Acme")
+ */
+function withoutSiteName(pageTitle: string, siteName: string | undefined): string {
+  const parts = pageTitle.split(/\s+[|–—-]\s+/);
+  if (!siteName || parts.length < 2) {
+    return pageTitle;
+  }
+  if (parts[0].trim() === siteName) {
+    return parts.slice(1).join(' | ');
+  }
+  if (parts[parts.length - 1].trim() === siteName) {
+    return parts.slice(0, -1).join(' | ');
+  }
+  return pageTitle;
+}
+
+/**
+ * Job title and company of a plain-text posting
+ * Labelled lines win; otherwise the title is a short opening line that names a role ("Senior Engineer at Acme")
+ * and the company comes from "At Acme, we..." or an "About Acme" heading
+ */
+export function extractTitleAndCompany(text: string): { title?: string; company?: string } {
+  const labelledTitle = text.match(TITLE_LABEL)?.[1].trim();
+  const labelledCompany = text.match(COMPANY_LABEL)?.[1].trim();
+
+  const opening = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, 5)
+    .find(
+      (line) =>
+        line.length <= 100 &&
+        line.split(/\s+/).length <= 12 &&
+        !/[.!?]$/.test(line) &&
+        !REQUIREMENT_HEADING.test(line) &&
+        !OTHER_HEADING.test(line) &&
+        TITLE_WORD.test(line)
+    );
+  const fromOpening = opening ? splitPageTitle(opening) : undefined;
+
+  return {
+    title: labelledTitle ?? fromOpening?.title,
+    company:
+      labelledCompany ??
+      fromOpening?.company ??
+      text.match(COMPANY_INTRO)?.[1].trim() ??
+      text.match(ABOUT_HEADING)?.[1].trim(),
+  };
+}
+
+function fromPageText(html: string): ExtractedJobPosting {
+  const readable = extractReadableContent(html);
+  const { text, headings } = parseHTML(readable.html);
+  const pageTitle = readable.title ? splitPageTitle(withoutSiteName(readable.title, readable.siteName)) : undefined;
+  const title = readable.heading ?? pageTitle?.title;
+  const siteName = readable.siteName && !JOB_BOARDS.test(readable.siteName) ? readable.siteName : undefined;
+  const company = pageTitle?.company ?? siteName;
+
+  return {
+    content: title && !text.startsWith(title) ? `${title}\n\n${text}` : text,
+    title: title || undefined,
+    company,
+    requirements: extractRequirements(text, headings),
+    source: 'page-text',
+  };
+}
+
+/**
+ * Extract a job posting from a page
+ * Uses the first JobPosting in JSON-LD when there is one with a description, otherwise the page's main text
+ */
+export function extractJobPosting(html: string): ExtractedJobPosting {
+  const posting = parseJSONLD(html).find((candidate) => typeof candidate.description === 'string');
+  return posting ? fromJSONLD(posting) : fromPageText(html);
+}
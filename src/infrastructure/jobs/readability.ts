@@ -0,0 +1,224 @@
+/**
+ * Readability
+ * Finds the main content of a web page (the posting body) by scoring blocks on text length, commas and link density
+ */
+
+import { parseMarkupTree, type MarkupElement } from '@/src/infrastructure/documents/markup';
+
+const VOID_TAGS: ReadonlySet<string> = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+// Raw-text elements whose content would confuse the tag walker
+const RAW_TEXT_ELEMENTS = /<(script|style|noscript|template|svg|iframe)\b[\s\S]*?<\/\1\s*>/gi;
+
+// Page furniture that never holds the posting
+const SKIPPED_TAGS: ReadonlySet<string> = new Set(['head', 'nav', 'footer', 'aside', 'form', 'button', 'select']);
+const UNLIKELY_CLASSES =
+  /\b(?:nav|menu|footer|sidebar|cookie|consent|banner|share|social|related|similar|recommend|comment|breadcrumb|newsletter|modal|popup|promo|login|signup|subscribe)/i;
+const LIKELY_CLASSES = /job|posting|description|content|article|main|body|details|vacancy|position|career/i;
+// Class names job boards give the posting body
+const POSTING_CLASSES =
+  /job-?description|jobdescription|posting-?(?:body|content|description)|description__text|job-?details|vacancy-?description/i;
+
+// Text-bearing blocks whose length and commas vote for their ancestors
+const PARAGRAPH_TAGS: ReadonlySet<string> = new Set(['p', 'li', 'pre', 'dd', 'blockquote', 'td']);
+const MIN_PARAGRAPH_LENGTH = 25;
+const LIST_TAGS: ReadonlySet<string> = new Set(['ul', 'ol']);
+
+/**
+ * Main content of a page
+ */
+export interface ReadableContent {
+  html: string; // Markup of the chosen block and its related siblings, in document order
+  title?: string; // og:title or <title>, often "Job at Company | Site"
+  heading?: string; // The first h1, usually just the job title
+  siteName?: string; // og:site_name
+}
+
+function classAndId(element: MarkupElement): string {
+  return `${element.attributes.class ?? ''} ${element.attributes.id ?? ''}`;
+}
+
+/**
+ * Score adjustment from the element's tag, class and id
+ */
+function elementWeight(element: MarkupElement): number {
+  const names = classAndId(element);
+  let weight = 0;
+  if (POSTING_CLASSES.test(names)) {
+    weight += 50;
+  } else if (LIKELY_CLASSES.test(names)) {
+    weight += 25;
+  }
+  if (UNLIKELY_CLASSES.test(names)) {
+    weight -= 25;
+  }
+  if (element.tag === 'article' || element.tag === 'main') {
+    weight += 10;
+  } else if (element.tag === 'div' || element.tag === 'section') {
+    weight += 5;
+  }
+  return weight;
+}
+
+function isSkipped(element: MarkupElement): boolean {
+  if (SKIPPED_TAGS.has(element.tag)) {
+    return true;
+  }
+  // A header element is page chrome, but "job-header" blocks hold the title
+  const names = classAndId(element);
+  return (element.tag === 'header' && !LIKELY_CLASSES.test(names)) || (UNLIKELY_CLASSES.test(names) && !LIKELY_CLASSES.test(names));
+}
+
+/**
+ * Text and link-text lengths of every element, computed once
+ */
+function measure(root: MarkupElement): Map<MarkupElement, { text: number; links: number; commas: number }> {
+  const sizes = new Map<MarkupElement, { text: number; links: number; commas: number }>();
+
+  const visit = (element: MarkupElement): { text: number; links: number; commas: number } => {
+    const size = { text: 0, links: 0, commas: 0 };
+    for (const child of element.children) {
+      if (typeof child === 'string') {
+        size.text += child.replace(/\s+/g, ' ').trim().length;
+        size.commas += child.split(/[,،、]/).length - 1;
+      } else {
+        const childSize = visit(child);
+        size.text += childSize.text;
+        size.commas += childSize.commas;
+        size.links += child.tag === 'a' ? childSize.text : childSize.links;
+      }
+    }
+    sizes.set(element, size);
+    return size;
+  };
+
+  visit(root);
+  return sizes;
+}
+
+function directTextLength(element: MarkupElement): number {
+  return element.children
+    .filter((child): child is string => typeof child === 'string')
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim().length;
+}
+
+function find(root: MarkupElement, predicate: (element: MarkupElement) => boolean): MarkupElement | undefined {
+  for (const child of root.children) {
+    if (typeof child !== 'string') {
+      if (predicate(child)) {
+        return child;
+      }
+      const found = find(child, predicate);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+function textOf(element: MarkupElement): string {
+  return element.children
+    .map((child) => (typeof child === 'string' ? child : textOf(child)))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function metaContent(root: MarkupElement, property: string): string | undefined {
+  const meta = find(
+    root,
+    (element) => element.tag === 'meta' && (element.attributes.property ?? element.attributes.name) === property
+  );
+  return meta?.attributes.content?.trim() || undefined;
+}
+
+/**
+ * Extract the main content of an HTML page
+ * Paragraphs vote for their parent (full score), grandparent (half) and great-grandparent (a third);
+ * the best-scoring block wins, along with siblings that score close to it (postings are often split into sections)
+ */
+export function extractReadableContent(html: string): ReadableContent {
+  const source = html.replace(RAW_TEXT_ELEMENTS, '');
+  const root = parseMarkupTree(source, VOID_TAGS);
+  const sizes = measure(root);
+  const scores = new Map<MarkupElement, number>();
+  const parents = new Map<MarkupElement, MarkupElement>();
+
+  const addScore = (element: MarkupElement, score: number) => {
+    scores.set(element, (scores.get(element) ?? elementWeight(element)) + score);
+  };
+
+  const visit = (element: MarkupElement, ancestors: MarkupElement[]) => {
+    for (const child of element.children) {
+      if (typeof child === 'string' || isSkipped(child)) {
+        continue;
+      }
+      parents.set(child, element);
+
+      const size = sizes.get(child)!;
+      const isParagraph = PARAGRAPH_TAGS.has(child.tag) || directTextLength(child) >= MIN_PARAGRAPH_LENGTH;
+      if (isParagraph && size.text >= MIN_PARAGRAPH_LENGTH) {
+        const score = 1 + size.commas + Math.min(3, Math.floor(size.text / 100));
+        // Text directly inside a div (lines separated by <br>) votes for the div itself;
+        // list items vote past their list, so a bare <ul> never outscores the section that holds it and its heading
+        const voters =
+          child.tag === 'li' && LIST_TAGS.has(element.tag)
+            ? ancestors
+            : PARAGRAPH_TAGS.has(child.tag)
+              ? [element, ...ancestors]
+              : [child, element, ...ancestors];
+        voters.slice(0, 3).forEach((voter, level) => addScore(voter, score / (level === 0 ? 1 : level === 1 ? 2 : 3)));
+      }
+      visit(child, [element, ...ancestors]);
+    }
+  };
+  visit(root, []);
+
+  const finalScore = (element: MarkupElement) => {
+    const size = sizes.get(element)!;
+    const linkDensity = size.text > 0 ? size.links / size.text : 1;
+    return (scores.get(element) ?? 0) * (1 - linkDensity);
+  };
+
+  const body = find(root, (element) => element.tag === 'body') ?? root;
+  let best: MarkupElement = body;
+  let bestScore = 0;
+  for (const element of scores.keys()) {
+    const score = finalScore(element);
+    if (element !== root && score > bestScore) {
+      best = element;
+      bestScore = score;
+    }
+  }
+
+  // Sibling sections (about the role, requirements, benefits) that score well enough join the result
+  const parent = parents.get(best);
+  const threshold = Math.max(10, bestScore * 0.2);
+  const blocks =
+    parent && best !== body
+      ? parent.children.filter(
+          (sibling): sibling is MarkupElement =>
+            typeof sibling !== 'string' &&
+            (sibling === best ||
+              (!isSkipped(sibling) &&
+                (finalScore(sibling) >= threshold ||
+                  (PARAGRAPH_TAGS.has(sibling.tag) &&
+                    sizes.get(sibling)!.text >= 80 &&
+                    sizes.get(sibling)!.links / sizes.get(sibling)!.text < 0.25))))
+        )
+      : [best];
+
+  const h1 = find(body, (element) => element.tag === 'h1');
+  const titleElement = find(root, (element) => element.tag === 'title');
+
+  return {
+    html: blocks.map((block) => source.slice(block.start, block.end)).join('\n'),
+    title: metaContent(root, 'og:title') ?? (titleElement ? textOf(titleElement) || undefined : undefined),
+    heading: h1 ? textOf(h1) || undefined : undefined,
+    siteName: metaContent(root, 'og:site_name'),
+  };
+}
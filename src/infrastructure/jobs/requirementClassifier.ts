@@ -0,0 +1,157 @@
+/**
+ * Requirement Classifier
+ * Sorts job requirements into required/preferred/bonus and by category, from their wording and the section they sit in
+ */
+
+import type {
+  ClassifiedRequirement,
+  JobAnalysis,
+  RequirementCategory,
+  RequirementPriority,
+} from '@/src/shared/types';
+import { containsTerm } from '@/src/infrastructure/skills/skillMatcher';
+import { isHeadingLine } from './jobPosting';
+
+// Wording in the requirement itself; explicit markers beat the section heading
+const PRIORITY_MARKERS: ReadonlyArray<[RequirementPriority, RegExp]> = [
+  ['bonus', /\bbonus\b|\ba (?:big )?plus\b|nice[\s-]to[\s-]have|extra credit|icing on the cake|not required/i],
+  ['preferred', /\bprefer(?:red|ably)?\b|\bdesir(?:ed|able)\b|\bideally\b|\badvantage(?:ous)?\b|\bbeneficial\b|would be (?:great|good|helpful)/i],
+  ['required', /\brequired\b|\bmust\b|\bessential\b|\bmandatory\b|\bminimum\b|\bat least\b/i],
+];
+
+// Section headings by the words they open with ("Preferred qualifications", "Bonus points", "Must haves")
+const HEADING_PRIORITIES: ReadonlyArray<[RequirementPriority, RegExp]> = [
+  ['bonus', /^(?:bonus|nice[\s-]to[\s-]haves?|extra|plus|it(?:'|’)?s a plus)/i],
+  ['preferred', /^(?:preferred|desired|desirable|ideally|additional|it would be|what would be)/i],
+  [
+    'required',
+    /^(?:(?:key|minimum|basic|required|essential|technical|your)\s+)*(?:requirements?|qualifications?|must[\s-]haves?|skills|what you(?:'|’)?ll (?:need|bring)|what you bring|what we(?:'|’)?re looking for|you have|about you|who you are)/i,
+  ],
+];
+// Other sections end the one before ("Responsibilities", "Benefits")
+const OTHER_SECTION = /^(?:(?:key|main|your|the|our)\s+)*(?:responsibilities|duties|benefits|perks|what we offer|we offer|about|how to apply|the role|what you(?:'|’)?ll do)/i;
+
+// "Polish" is left out: "polish the UI" is far more common in a posting
+const HUMAN_LANGUAGES =
+  'english|german|french|spanish|italian|portuguese|dutch|swedish|danish|norwegian|finnish|russian|' +
+  'ukrainian|turkish|arabic|hebrew|hindi|urdu|bengali|mandarin|cantonese|chinese|japanese|korean|vietnamese|thai|' +
+  'indonesian|malay|greek|czech|hungarian|romanian|welsh|irish';
+
+// First matching category wins, so "Bachelor's degree and 3 years of experience" is education
+const CATEGORY_PATTERNS: ReadonlyArray<[RequirementCategory, RegExp]> = [
+  [
+    'language',
+    new RegExp(
+      `\\b(?:${HUMAN_LANGUAGES})\\b(?![\\s-]*(?:law|literature|market|customers?|clients?))|\\b(?:bilingual|multilingual|native speaker|[ABC][12] level)\\b`,
+      'i'
+    ),
+  ],
+  [
+    'location',
+    /right to work|work permit|\bvisa\b|authori[sz](?:ed|ation) to work|citizenship|\bcitizen\b|security clearance|\bclearance\b|relocat|commut|\bbased in\b|\bon-?site\b|willing(?:ness)? to travel|driving licen[cs]e|driver'?s licen[cs]e|background check|time ?zone/i,
+  ],
+  [
+    'certification',
+    // Acronyms are case-sensitive, the words are not
+    /[Cc]ertif|\b[Ll]icen[cs]ed?\b|[Cc]hartered|[Aa]ccredit|\b(?:PMP|CISSP|CISA|CISM|CPA|ACCA|CIMA|CFA|CCNA|CCNP|PRINCE2|ITIL|CSM|CKA|CKAD)\b/,
+  ],
+  [
+    'education',
+    /\bdegree\b|\bbachelor|\bmaster'?s\b|\bmaster of\b|\bph\.?\s?d\b|doctorate|\b(?:bsc|msc|mba|beng|meng)\b|\bdiploma\b|\bgraduate (?:of|in)\b|\beducation\b/i,
+  ],
+  ['experience', /\b\d+\s*\+?\s*(?:-\s*\d+\s*)?(?:years?|yrs)\b|\byears? of\b|\b(?:one|two|three|four|five|six|seven|eight|nine|ten) (?:\+ )?years?\b/i],
+];
+
+/**
+ * Priority and category for one requirement
+ * The section priority applies when the wording carries no marker of its own
+ */
+export function classifyRequirement(
+  text: string,
+  sectionPriority: RequirementPriority = 'required'
+): ClassifiedRequirement {
+  const priority = PRIORITY_MARKERS.find(([, pattern]) => pattern.test(text))?.[0] ?? sectionPriority;
+  const category = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'skill';
+  return { text, priority, category };
+}
+
+/**
+ * Classify requirements against the job description they came from
+ * Each requirement is found in the text to read the heading above it: its own line first, then a line
+ * that contains it as whole words (so "Go" is not found in "good communication"); requirements the model
+ * rephrased are classified from their own wording
+ */
+export function classifyRequirements(requirements: string[], jobDescription: string): ClassifiedRequirement[] {
+  const sections = sectionPriorities(jobDescription);
+  return requirements.map((requirement) => {
+    const key = normalize(requirement);
+    const section =
+      sections.find(({ line }) => line === key) ??
+      sections.find(({ line }) => containsTerm(line, key) || (line.length >= 20 && containsTerm(key, line)));
+    return classifyRequirement(requirement, section?.priority);
+  });
+}
+
+/**
+ * Classified requirements of an analysis, including analyses stored before classification existed
+ */
+export function requirementsOf(jobAnalysis: JobAnalysis): ClassifiedRequirement[] {
+  return jobAnalysis.requirements ?? jobAnalysis.keyRequirements.map((text) => classifyRequirement(text));
+}
+
+/**
+ * Sort order for requirements: required first, then preferred, then bonus
+ */
+export function priorityRank(priority: RequirementPriority): number {
+  return priority === 'required' ? 0 : priority === 'preferred' ? 1 : 2;
+}
+
+/**
+ * Requirement as a prompt line: "[required, experience] 5+ years of Kubernetes"
+ */
+export function formatRequirement(requirement: ClassifiedRequirement): string {
+  return `[${requirement.priority}, ${requirement.category}] ${requirement.text}`;
+}
+
+/**
+ * Requirements sorted by priority, keeping the posting's order within each priority
+ */
+export function sortByPriority(requirements: ClassifiedRequirement[]): ClassifiedRequirement[] {
+  return [...requirements].sort((a, b) => priorityRank(a.priority) - priorityRank(b.priority));
+}
+
+/**
+ * Each non-heading line of the text with the priority of the heading it sits under (if any)
+ * Only known headings and lines ending in a colon open a section, so an unbulleted requirement is not taken for one
+ */
+function sectionPriorities(text: string): Array<{ line: string; priority?: RequirementPriority }> {
+  const lines: Array<{ line: string; priority?: RequirementPriority }> = [];
+  let priority: RequirementPriority | undefined;
+
+  for (const raw of text.split('\n')) {
+    const trimmed = raw.trim();
+    if (!trimmed) {
+      continue;
+    }
+    const headingPriority = HEADING_PRIORITIES.find(([, pattern]) => pattern.test(trimmed))?.[0];
+    if (
+      isHeadingLine(trimmed) &&
+      (headingPriority || OTHER_SECTION.test(trimmed) || trimmed.endsWith(':'))
+    ) {
+      priority = headingPriority;
+      continue;
+    }
+    lines.push({ line: normalize(trimmed), priority });
+  }
+
+  return lines;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/^[^a-z0-9]+/, '')
+    .replace(/[.;:,]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,195 @@
+/**
+ * Prompt Registry
+ * Named, versioned prompt templates with typed variables and render-time validation
+ */
+
+import { PROMPT_TEMPLATES, type PromptId, type PromptVariableMap } from './templates';
+
+/**
+ * A versioned prompt template
+ * Placeholders use {{variableName}} and must be listed in `variables`
+ */
+export interface PromptTemplate<K extends PromptId = PromptId> {
+  id: K;
+  version: number;
+  description: string;
+  variables: ReadonlyArray<keyof PromptVariableMap[K] & string>;
+  template: string;
+}
+
+/**
+ * Any registered template, whatever its id
+ */
+export type AnyPromptTemplate = { [K in PromptId]: PromptTemplate<K> }[PromptId];
+
+/**
+ * A rendered prompt and the template version that produced it
+ */
+export interface RenderedPrompt {
+  id: PromptId;
+  version: number;
+  // "<id>@<version>", recorded on inference records and generation results
+  ref: string;
+  text: string;
+}
+
+/**
+ * Registry listing entry
+ */
+export interface PromptSummary {
+  id: PromptId;
+  version: number;
+  description: string;
+  variables: string[];
+  active: boolean;
+}
+
+/**
+ * Raised when a template cannot be registered or rendered
+ */
+export class PromptRenderError extends Error {
+  readonly promptId: string;
+  readonly missingVariables: string[];
+
+  constructor(message: string, promptId: string, missingVariables: string[] = []) {
+    super(message);
+    this.name = 'PromptRenderError';
+    this.promptId = promptId;
+    this.missingVariables = missingVariables;
+  }
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Templates by id, sorted by version ascending
+ */
+const registry = new Map<PromptId, AnyPromptTemplate[]>();
+
+function getPlaceholders(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1])));
+}
+
+/**
+ * Add a template version to the registry
+ * Rejects duplicate versions and placeholders that are not declared variables
+ */
+export function registerPrompt(template: AnyPromptTemplate): void {
+  const undeclared = getPlaceholders(template.template).filter(
+    (name) => !(template.variables as readonly string[]).includes(name)
+  );
+  if (undeclared.length > 0) {
+    throw new PromptRenderError(
+      `Prompt ${template.id}@${template.version} uses undeclared variables: ${undeclared.join(', ')}`,
+      template.id,
+      undeclared
+    );
+  }
+
+  const versions = registry.get(template.id) ?? [];
+  if (versions.some((existing) => existing.version === template.version)) {
+    throw new PromptRenderError(`Prompt ${template.id}@${template.version} is already registered`, template.id);
+  }
+
+  registry.set(
+    template.id,
+    [...versions, template].sort((a, b) => a.version - b.version)
+  );
+}
+
+/**
+ * Versions pinned with PROMPT_VERSIONS, e.g. "cv-generation=1,job-analysis=2"
+ * Used to roll back a bad prompt without a code change
+ */
+function getPinnedVersions(): Map<string, number> {
+  const pinned = new Map<string, number>();
+  for (const entry of (process.env.PROMPT_VERSIONS || '').split(',')) {
+    const [id, version] = entry.split('=').map((part) => part.trim());
+    if (id && version && Number.isInteger(Number(version))) {
+      pinned.set(id, Number(version));
+    }
+  }
+  return pinned;
+}
+
+/**
+ * Version used when none is requested: the pinned one, otherwise the latest
+ */
+export function getActiveVersion(id: PromptId): number {
+  const versions = registry.get(id);
+  if (!versions || versions.length === 0) {
+    throw new PromptRenderError(`Unknown prompt: ${id}`, id);
+  }
+
+  const pinned = getPinnedVersions().get(id);
+  if (pinned !== undefined) {
+    if (versions.some((template) => template.version === pinned)) {
+      return pinned;
+    }
+    console.warn(`[Prompts] PROMPT_VERSIONS pins ${id}@${pinned}, which does not exist; using latest`);
+  }
+
+  return versions[versions.length - 1].version;
+}
+
+/**
+ * Look up a template, defaulting to the active version
+ */
+export function getPrompt<K extends PromptId>(id: K, version: number = getActiveVersion(id)): PromptTemplate<K> {
+  const template = registry.get(id)?.find((candidate) => candidate.version === version);
+  if (!template) {
+    throw new PromptRenderError(`Unknown prompt version: ${id}@${version}`, id);
+  }
+  return template as unknown as PromptTemplate<K>;
+}
+
+/**
+ * Render a template with its variables
+ * Throws PromptRenderError when a placeholder has no value (empty strings are allowed)
+ */
+export function renderPrompt<K extends PromptId>(
+  id: K,
+  variables: PromptVariableMap[K],
+  version?: number
+): RenderedPrompt {
+  const template = getPrompt(id, version);
+  const values = variables as unknown as Record<string, string | undefined | null>;
+
+  const missing = getPlaceholders(template.template).filter(
+    (name) => values[name] === undefined || values[name] === null
+  );
+  if (missing.length > 0) {
+    throw new PromptRenderError(
+      `Prompt ${id}@${template.version} is missing variables: ${missing.join(', ')}`,
+      id,
+      missing
+    );
+  }
+
+  return {
+    id,
+    version: template.version,
+    ref: `${id}@${template.version}`,
+    text: template.template.replace(PLACEHOLDER_PATTERN, (_, name: string) => String(values[name])),
+  };
+}
+
+/**
+ * Every registered template version
+ */
+export function listPrompts(): PromptSummary[] {
+  return Array.from(registry.entries()).flatMap(([id, versions]) => {
+    const active = getActiveVersion(id);
+    return versions.map((template) => ({
+      id,
+      version: template.version,
+      description: template.description,
+      variables: [...template.variables],
+      active: template.version === active,
+    }));
+  });
+}
+
+for (const template of PROMPT_TEMPLATES) {
+  registerPrompt(template);
+}
@@ -0,0 +1,328 @@
+/**
+ * Prompt Templates
+ * Every prompt the app sends, by id and version; add a new version instead of editing a released one
+ */
+
+import type { AnyPromptTemplate } from './promptRegistry';
+
+/**
+ * Variables each prompt expects, keyed by prompt id
+ */
+export interface PromptVariableMap {
+  'job-analysis': {
+    jobDescription: string;
+  };
+  'cv-match': {
+    jobDescription: string;
+    requirements: string;
+    skills: string;
+    cvContent: string;
+    // Rule-based score components, from version 2 on
+    scoreBreakdown: string;
+  };
+  'cv-extraction': {
+    cvContent: string;
+  };
+  'question-generation': {
+    businessType: string;
+    industry: string;
+    keySkills: string;
+    keyRequirements: string;
+    values: string;
+    writingStyle: string;
+    domainStandards: string;
+    // Match score and gaps, empty when no CV match is available
+    matchContext: string;
+    // What the uploaded CV already contains
+    cvContext: string;
+    // Per-section instructions on what to ask for or skip
+    focusInstructions: string;
+  };
+  'cv-structuring': {
+    cvContent: string;
+    // JSON of the heuristic parse the model corrects
+    draft: string;
+  };
+  'cv-generation': {
+    jobDescription: string;
+    // Business context block, empty when the job was not analyzed
+    analysisContext: string;
+    cvData: string;
+    writingStyle: string;
+    domainStandards: string;
+    experienceLevel: string;
+    keySkills: string;
+  };
+}
+
+export type PromptId = keyof PromptVariableMap;
+
+export const PROMPT_TEMPLATES: AnyPromptTemplate[] = [
+  {
+    id: 'job-analysis',
+    version: 1,
+    description: 'Analyze a job description into business context and candidate profile JSON',
+    variables: ['jobDescription'],
+    template: `You are a professional job description analyzer. Analyze the following job description comprehensively.
+
+Job Description:
+{{jobDescription}}
+
+Provide a detailed analysis in the following JSON format:
+{
+  "businessType": "Type of business/company (e.g., 'Tech Startup', 'Financial Services', 'Healthcare')",
+  "industry": "Industry sector",
+  "candidateProfile": {
+    "experienceLevel": "Junior/Mid/Senior/Executive",
+    "keySkills": ["skill1", "skill2", "skill3"],
+    "personalityTraits": ["trait1", "trait2"],
+    "education": "Required education level"
+  },
+  "values": ["value1", "value2", "value3"],
+  "keyRequirements": ["requirement1", "requirement2"],
+  "writingStyle": "Professional/Casual/Technical/Creative",
+  "domainStandards": "Domain-specific CV writing standards (e.g., 'Software: Focus on impact and metrics', 'Marketing: Focus on campaigns and ROI')",
+  "missingInfo": ["What information might be missing from a typical CV"]
+}
+
+Be specific and detailed. Focus on what the employer values and what they're looking for in a candidate.`,
+  },
+  {
+    id: 'cv-match',
+    version: 1,
+    description: 'Score how well a CV matches a job description',
+    variables: ['jobDescription', 'requirements', 'skills', 'cvContent'],
+    template: `You are a CV matching expert. Analyze how well the CV matches the job description.
+
+Job Description:
+{{jobDescription}}
+
+Job Requirements:
+{{requirements}}
+
+Required Skills:
+{{skills}}
+
+CV Content:
+{{cvContent}}
+
+Provide a detailed matching analysis in JSON format:
+{
+  "matchScore": 0-100,
+  "matchedSkills": ["skill1", "skill2"],
+  "missingSkills": ["skill1", "skill2"],
+  "matchedRequirements": ["req1", "req2"],
+  "missingRequirements": ["req1", "req2"],
+  "semanticGaps": ["gap1", "gap2"],
+  "recommendations": ["rec1", "rec2"]
+}
+
+Be thorough and specific. Consider both exact matches and semantic similarity.`,
+  },
+  {
+    id: 'cv-match',
+    version: 2,
+    description: 'Comment on a rule-based CV match score: gaps and recommendations',
+    variables: ['jobDescription', 'requirements', 'skills', 'cvContent', 'scoreBreakdown'],
+    template: `You are a CV matching expert. The CV below has already been scored against the job by fixed rules. Do not re-score it; explain the gaps behind the score and how the candidate could close them.
+
+Job Description:
+{{jobDescription}}
+
+Job Requirements:
+{{requirements}}
+
+Required Skills:
+{{skills}}
+
+CV Content:
+{{cvContent}}
+
+Score Breakdown:
+{{scoreBreakdown}}
+
+Return ONLY a JSON object with this exact structure:
+{
+  "semanticGaps": ["gap1", "gap2"],
+  "recommendations": ["rec1", "rec2"]
+}
+
+Gaps are things the job needs that the CV does not show, including ones the rules missed. Recommendations are specific edits to the CV.`,
+  },
+  {
+    id: 'cv-extraction',
+    version: 1,
+    description: 'Extract personal info, experience, education and skills from CV text',
+    variables: ['cvContent'],
+    template: `Extract structured information from this CV content. Identify what information is present and what is missing.
+
+CV Content:
+{{cvContent}}
+
+Extract and return ONLY a JSON object with this exact structure:
+{
+  "personalInfo": {
+    "fullName": "extracted name or null",
+    "email": "extracted email or null",
+    "phone": "extracted phone or null",
+    "location": "extracted location or null"
+  },
+  "experience": [
+    {
+      "title": "job title or null",
+      "company": "company name or null",
+      "duration": "duration or null",
+      "description": "brief description or null"
+    }
+  ],
+  "education": [
+    {
+      "degree": "degree name or null",
+      "institution": "school name or null",
+      "field": "field of study or null",
+      "year": "graduation year or null"
+    }
+  ],
+  "skills": ["skill1", "skill2"],
+  "certifications": ["cert1", "cert2"],
+  "summary": "professional summary if present or null"
+}
+
+Be thorough but only include information that is clearly present in the CV. If information is missing or unclear, use null or empty arrays.`,
+  },
+  {
+    id: 'cv-structuring',
+    version: 1,
+    description: 'Correct and complete the heuristic parse of an uploaded CV into CVData fields',
+    variables: ['cvContent', 'draft'],
+    template: `You are a CV parser. Correct and complete a draft parse of the CV below.
+
+CV Content:
+{{cvContent}}
+
+Draft parse (from heading and pattern rules, may be incomplete or wrong):
+{{draft}}
+
+Return ONLY a JSON object with this exact structure:
+{
+  "personalInfo": {
+    "fullName": "name or null",
+    "email": "email or null",
+    "phone": "phone or null",
+    "location": "city, country or null",
+    "linkedIn": "LinkedIn URL or null",
+    "portfolio": "portfolio or GitHub URL or null",
+    "summary": "professional summary or null"
+  },
+  "experience": [
+    {
+      "company": "company name",
+      "position": "job title",
+      "startDate": "YYYY-MM or YYYY or null",
+      "endDate": "YYYY-MM or YYYY or null",
+      "current": false,
+      "description": ["responsibility or achievement"]
+    }
+  ],
+  "education": [
+    {
+      "institution": "school name",
+      "degree": "degree name",
+      "field": "field of study or null",
+      "startDate": "YYYY or null",
+      "endDate": "YYYY or null",
+      "gpa": "GPA or null"
+    }
+  ],
+  "skills": ["skill1", "skill2"],
+  "languages": [{ "name": "English", "proficiency": "native|fluent|professional|basic" }],
+  "certifications": ["cert1"]
+}
+
+Keep values from the draft that are correct. Only include information that is present in the CV, use null or empty arrays otherwise.`,
+  },
+  {
+    id: 'question-generation',
+    version: 1,
+    description: 'Generate Q&A questions that fill the gaps between the CV and the job',
+    variables: [
+      'businessType',
+      'industry',
+      'keySkills',
+      'keyRequirements',
+      'values',
+      'writingStyle',
+      'domainStandards',
+      'matchContext',
+      'cvContext',
+      'focusInstructions',
+    ],
+    template: `You are a professional recruiter. Generate 10-15 specific questions to gather information for creating an optimized CV.
+
+Job Analysis:
+- Business Type: {{businessType}}
+- Industry: {{industry}}
+- Required Skills: {{keySkills}}
+- Key Requirements: {{keyRequirements}}
+- Values: {{values}}
+- Writing Style: {{writingStyle}}
+- Domain Standards: {{domainStandards}}
+
+{{matchContext}}
+
+{{cvContext}}
+
+Generate 10-15 questions that will help gather MISSING information:
+{{focusInstructions}}
+- Achievements and impact metrics (always ask if not detailed)
+- Domain-specific experience
+- Values alignment
+- Certifications (if relevant)
+
+Format as JSON array:
+[
+  {
+    "type": "experience|skills|education|personal_info|certifications|summary",
+    "question": "The question text",
+    "purpose": "Why this question is important",
+    "priority": "high|medium|low"
+  }
+]
+
+Make questions specific to the job requirements. Focus on getting concrete examples, metrics, and achievements. DO NOT duplicate information already in the CV.`,
+  },
+  {
+    id: 'cv-generation',
+    version: 1,
+    description: 'Write the optimized CV tailored to the job',
+    variables: [
+      'jobDescription',
+      'analysisContext',
+      'cvData',
+      'writingStyle',
+      'domainStandards',
+      'experienceLevel',
+      'keySkills',
+    ],
+    template: `You are a professional CV optimizer. Your task is to create an optimized CV that matches the job description.
+
+Job Description:
+{{jobDescription}}
+{{analysisContext}}
+Original CV/Information:
+{{cvData}}
+
+Instructions:
+1. Analyze the job description to identify key requirements, skills, and qualifications
+2. Tailor the CV to highlight relevant experience and skills that match the job
+3. Use {{writingStyle}} language and formatting
+4. Follow {{domainStandards}} for this domain
+5. Ensure all sections are well-structured and easy to read
+6. Match keywords from the job description naturally
+7. Focus on achievements and impact, especially for {{experienceLevel}} level roles
+8. Keep the CV concise but comprehensive
+9. Highlight skills: {{keySkills}}
+
+Generate the optimized CV in a professional format:`,
+  },
+];
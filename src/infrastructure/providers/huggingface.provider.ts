@@ -0,0 +1,175 @@
+/**
+ * Hugging Face LLM Provider
+ * Uses the official @huggingface/inference library with InferenceClient
+ */
+
+import { InferenceClient } from '@huggingface/inference';
+import type { LLMEmbedRequest, LLMGenerateRequest, LLMProvider } from './types';
+
+/**
+ * Read the Hugging Face token from environment variables
+ * Tries multiple variable names for flexibility
+ */
+export function getHuggingFaceToken(): string | undefined {
+  return (
+    process.env.HUGGINGFACE_API_TOKEN ||
+    process.env.NEXT_PUBLIC_HUGGINGFACE_API_TOKEN ||
+    process.env.HF_TOKEN ||
+    process.env.HF_API_TOKEN
+  );
+}
+
+/**
+ * Whether a model should be called through chatCompletion
+ * Models that typically use chat completion: Llama, Mistral, GLM, Qwen, etc.
+ */
+export function isConversationalModel(model: string): boolean {
+  return (
+    model.includes('mistralai') ||
+    model.includes('Mistral') ||
+    model.includes('llama') ||
+    model.includes('Llama') ||
+    model.includes('meta-llama') ||
+    model.includes('GLM') ||
+    model.includes('glm') ||
+    model.includes('Qwen') ||
+    model.includes('qwen') ||
+    model.includes('chat') ||
+    model.includes('instruct') ||
+    model.includes('Instruct')
+  );
+}
+
+/**
+ * One sentence vector from a feature-extraction output
+ * Sentence-transformers models return the pooled vector; plain encoders return one vector per token, which is mean-pooled
+ */
+function toSentenceVector(output: number | number[] | number[][]): number[] {
+  if (!Array.isArray(output)) {
+    return [output];
+  }
+  if (output.length === 0 || !Array.isArray(output[0])) {
+    return output as number[];
+  }
+
+  const tokens = output as number[][];
+  return tokens[0].map((_, dimension) => tokens.reduce((sum, token) => sum + token[dimension], 0) / tokens.length);
+}
+
+/**
+ * Create the Hugging Face provider
+ */
+export function createHuggingFaceProvider(): LLMProvider {
+  const client = new InferenceClient(getHuggingFaceToken());
+
+  return {
+    name: 'huggingface',
+
+    async generate(request: LLMGenerateRequest): Promise<string> {
+      const { prompt, model, maxTokens, temperature = 0.7, topP = 0.9 } = request;
+
+      if (isConversationalModel(model)) {
+        // No provider specified - InferenceClient will auto-select from enabled providers
+        const completion = await client.chatCompletion({
+          model,
+          messages: [
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+          max_tokens: maxTokens,
+          temperature,
+          top_p: topP,
+        });
+
+        const generatedText = completion.choices[0]?.message?.content;
+        if (!generatedText) {
+          throw new Error('Model returned empty response');
+        }
+
+        return generatedText;
+      }
+
+      const response = await client.textGeneration({
+        model,
+        inputs: prompt,
+        parameters: {
+          max_new_tokens: maxTokens,
+          temperature,
+          top_p: topP,
+          do_sample: true,
+          return_full_text: false,
+        },
+      });
+
+      return response.generated_text || '';
+    },
+
+    async *stream(request: LLMGenerateRequest): AsyncIterable<string> {
+      const { prompt, model, maxTokens, temperature = 0.7, topP = 0.9, signal } = request;
+
+      if (isConversationalModel(model)) {
+        const chunks = client.chatCompletionStream(
+          {
+            model,
+            messages: [
+              {
+                role: 'user',
+                content: prompt,
+              },
+            ],
+            max_tokens: maxTokens,
+            temperature,
+            top_p: topP,
+          },
+          { signal }
+        );
+
+        for await (const chunk of chunks) {
+          const text = chunk.choices[0]?.delta?.content;
+          if (text) {
+            yield text;
+          }
+        }
+        return;
+      }
+
+      const chunks = client.textGenerationStream(
+        {
+          model,
+          inputs: prompt,
+          parameters: {
+            max_new_tokens: maxTokens,
+            temperature,
+            top_p: topP,
+            do_sample: true,
+            return_full_text: false,
+          },
+        },
+        { signal }
+      );
+
+      for await (const chunk of chunks) {
+        if (chunk.token?.text && !chunk.token.special) {
+          yield chunk.token.text;
+        }
+      }
+    },
+
+    async embed(request: LLMEmbedRequest): Promise<number[][]> {
+      const output = await client.featureExtraction({
+        model: request.model,
+        inputs: request.texts,
+      });
+
+      // A single input may come back unbatched
+      const vectors = request.texts.length === 1 && !Array.isArray(output[0]) ? [output] : output;
+      if (vectors.length !== request.texts.length) {
+        throw new Error(`Expected ${request.texts.length} embeddings, got ${vectors.length}`);
+      }
+
+      return vectors.map((vector) => toSentenceVector(vector as number | number[] | number[][]));
+    },
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * LLM Provider abstraction
+ * Lets generateText run against Hugging Face, a local OpenAI-compatible server or a mock
+ */
+
+import path from 'node:path';
+import { LLM_PROVIDER_CONFIG } from '@/src/shared/constants';
+import { createHuggingFaceProvider } from './huggingface.provider';
+import { createOpenAICompatibleProvider } from './openaiCompatible.provider';
+import { createMockProvider } from './mock.provider';
+import { createRecordingProvider, createReplayProvider } from './recordReplay.provider';
+import type { LLMProvider, LLMProviderName } from './types';
+
+/**
+ * Explicitly configured provider (tests and scripts), takes precedence over env
+ */
+let providerOverride: LLMProvider | null = null;
+
+/**
+ * Cached env-selected provider
+ */
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Read the provider name from environment variables (or parse the given value)
+ */
+export function getConfiguredProviderName(
+  configured: string = process.env.LLM_PROVIDER || LLM_PROVIDER_CONFIG.DEFAULT_PROVIDER
+): LLMProviderName {
+  const value = configured.toLowerCase();
+
+  switch (value) {
+    case 'huggingface':
+    case 'hf':
+      return 'huggingface';
+    case 'openai-compatible':
+    case 'openai':
+    case 'ollama':
+    case 'llamacpp':
+    case 'vllm':
+      return 'openai-compatible';
+    case 'mock':
+      return 'mock';
+    case 'record':
+      return 'record';
+    case 'replay':
+      return 'replay';
+    default:
+      console.warn(`[LLM] Unknown LLM_PROVIDER "${value}", falling back to huggingface`);
+      return 'huggingface';
+  }
+}
+
+/**
+ * Directory holding record/replay fixtures
+ */
+function getFixturesDir(): string {
+  return path.resolve(process.cwd(), process.env.LLM_FIXTURES_DIR || LLM_PROVIDER_CONFIG.FIXTURES_DIR);
+}
+
+/**
+ * Real provider that record mode captures (LLM_RECORD_PROVIDER, Hugging Face by default)
+ */
+function createRecordedProvider(): LLMProvider {
+  const name = getConfiguredProviderName(
+    process.env.LLM_RECORD_PROVIDER || LLM_PROVIDER_CONFIG.DEFAULT_PROVIDER
+  );
+  if (name === 'record' || name === 'replay') {
+    throw new Error('LLM_RECORD_PROVIDER must be a real provider, not record or replay');
+  }
+  return createLLMProvider(name);
+}
+
+/**
+ * Create a provider instance by name using environment configuration
+ */
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || LLM_PROVIDER_CONFIG.OPENAI_COMPATIBLE_BASE_URL,
+        apiKey: process.env.LLM_API_KEY,
+        modelOverride: process.env.LLM_MODEL,
+        embeddingModelOverride: process.env.LLM_EMBEDDING_MODEL,
+      });
+    case 'mock':
+      return createMockProvider();
+    case 'record':
+      return createRecordingProvider(createRecordedProvider(), getFixturesDir());
+    case 'replay':
+      return createReplayProvider(getFixturesDir());
+    case 'huggingface':
+    default:
+      return createHuggingFaceProvider();
+  }
+}
+
+/**
+ * Get the active LLM provider
+ */
+export function getLLMProvider(): LLMProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+
+  if (!cachedProvider) {
+    cachedProvider = createLLMProvider(getConfiguredProviderName());
+    console.log(`[LLM] Using provider: ${cachedProvider.name}`);
+  }
+
+  return cachedProvider;
+}
+
+/**
+ * Override the active provider (pass null to go back to env configuration)
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  providerOverride = provider;
+  cachedProvider = null;
+}
@@ -0,0 +1,50 @@
+/**
+ * Mock LLM Provider
+ * Deterministic, network-free responses for tests and offline development
+ */
+
+import { fnv1a } from '@/src/shared/utils/hash';
+import { findScriptedResponse } from './scriptedResponses';
+import type { LLMGenerateRequest, LLMProvider } from './types';
+
+/**
+ * Function that produces the mock reply for a request
+ */
+export type MockResponder = (request: LLMGenerateRequest) => string;
+
+/**
+ * Echo responder: echoes the request shape without any randomness
+ * The prompt hash tells apart replies to prompts that share a first line
+ */
+export const echoResponder: MockResponder = (request) =>
+  `[mock:${request.model}:${fnv1a(request.prompt).toString(16).padStart(8, '0')}] ${request.prompt
+    .split('\n')[0]
+    .substring(0, 200)}`;
+
+/**
+ * Default responder: canned JSON/CV for the app's own prompts, echo for anything else
+ */
+const defaultResponder: MockResponder = (request) =>
+  findScriptedResponse(request) ?? echoResponder(request);
+
+/**
+ * Create the mock provider
+ */
+export function createMockProvider(responder: MockResponder = defaultResponder): LLMProvider {
+  return {
+    name: 'mock',
+
+    async generate(request: LLMGenerateRequest): Promise<string> {
+      return responder(request);
+    },
+
+    async *stream(request: LLMGenerateRequest): AsyncIterable<string> {
+      // Word-sized chunks, keeping whitespace so the joined stream equals generate()
+      const chunks = responder(request).match(/\S+\s*|\s+/g) ?? [];
+      for (const chunk of chunks) {
+        request.signal?.throwIfAborted();
+        yield chunk;
+      }
+    },
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * OpenAI-compatible LLM Provider
+ * Talks to local inference servers exposing /v1/chat/completions and /v1/embeddings (Ollama, llama.cpp, vLLM)
+ */
+
+import { readSSE } from '@/src/shared/utils/sse';
+import { LLMProviderError, type LLMEmbedRequest, type LLMGenerateRequest, type LLMProvider } from './types';
+
+/**
+ * Connection settings for an OpenAI-compatible server
+ */
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  // Local servers rarely host the Hugging Face model ids, so one model can replace them all
+  modelOverride?: string;
+  // Same for the sentence embedding model (e.g. nomic-embed-text on Ollama)
+  embeddingModelOverride?: string;
+}
+
+/**
+ * Chat completion response shape (only the fields we read)
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+/**
+ * Embeddings response shape (only the fields we read)
+ */
+interface EmbeddingsResponse {
+  data?: Array<{
+    embedding?: number[];
+    index?: number;
+  }>;
+}
+
+/**
+ * Streaming chunk shape (only the fields we read)
+ */
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+/**
+ * Create an OpenAI-compatible provider
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  async function post(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new LLMProviderError(
+        `OpenAI-compatible server at ${baseUrl} returned ${response.status}: ${body.substring(0, 300)}`,
+        'openai-compatible',
+        response.status
+      );
+    }
+
+    return response;
+  }
+
+  async function postChatCompletion(request: LLMGenerateRequest, stream: boolean): Promise<Response> {
+    const { prompt, model, maxTokens, temperature = 0.7, topP = 0.9, signal } = request;
+    return post(
+      '/chat/completions',
+      {
+        model: config.modelOverride || model,
+        messages: [{ role: 'user', content: prompt }],
+        max_tokens: maxTokens,
+        temperature,
+        top_p: topP,
+        stream,
+      },
+      signal
+    );
+  }
+
+  return {
+    name: 'openai-compatible',
+
+    async generate(request: LLMGenerateRequest): Promise<string> {
+      const response = await postChatCompletion(request, false);
+      const completion = (await response.json()) as ChatCompletionResponse;
+      const generatedText = completion.choices?.[0]?.message?.content;
+      if (!generatedText) {
+        throw new LLMProviderError('Model returned empty response', 'openai-compatible');
+      }
+
+      return generatedText;
+    },
+
+    async *stream(request: LLMGenerateRequest): AsyncIterable<string> {
+      const response = await postChatCompletion(request, true);
+      if (!response.body) {
+        throw new LLMProviderError('Streaming response has no body', 'openai-compatible');
+      }
+
+      for await (const message of readSSE(response.body)) {
+        if (message.data === '[DONE]') {
+          return;
+        }
+
+        const chunk = JSON.parse(message.data) as ChatCompletionChunk;
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+      }
+    },
+
+    async embed(request: LLMEmbedRequest): Promise<number[][]> {
+      const response = await post('/embeddings', {
+        model: config.embeddingModelOverride || request.model,
+        input: request.texts,
+      });
+      const result = (await response.json()) as EmbeddingsResponse;
+      const data = [...(result.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+      if (data.length !== request.texts.length || data.some((item) => !item.embedding?.length)) {
+        throw new LLMProviderError('Server returned an incomplete embeddings response', 'openai-compatible');
+      }
+
+      return data.map((item) => item.embedding!);
+    },
+  };
+}
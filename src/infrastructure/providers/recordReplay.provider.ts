@@ -0,0 +1,216 @@
+/**
+ * Record/Replay LLM Providers
+ * Capture prompt→response pairs as fixture files and replay them deterministically offline
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { createCacheKey } from '@/src/infrastructure/inference/responseCache';
+import { LLMProviderError, type LLMEmbedRequest, type LLMGenerateRequest, type LLMProvider } from './types';
+
+/**
+ * Fixture file contents (pretty-printed so recorded fixtures diff well in review)
+ */
+export interface LLMFixture {
+  request: LLMGenerateRequest;
+  response: string;
+  recordedWith: string;
+  recordedAt: string; // ISO string format
+}
+
+/**
+ * Embedding fixture: the vectors the recorded provider returned for a batch of texts
+ */
+export interface LLMEmbeddingFixture {
+  request: LLMEmbedRequest;
+  vectors: number[][];
+  recordedWith: string;
+  recordedAt: string; // ISO string format
+}
+
+/**
+ * Fixture key: every request field that can change the reply
+ */
+export function getFixtureKey(request: LLMGenerateRequest): string {
+  return createCacheKey({
+    prompt: request.prompt,
+    model: request.model,
+    maxTokens: request.maxTokens,
+    temperature: request.temperature,
+    topP: request.topP,
+  });
+}
+
+function fixturePath(fixturesDir: string, request: LLMGenerateRequest): string {
+  return path.join(fixturesDir, `${getFixtureKey(request)}.json`);
+}
+
+/**
+ * Embedding fixture key: the model and the exact batch of texts
+ */
+export function getEmbeddingFixtureKey(request: LLMEmbedRequest): string {
+  return createCacheKey({ kind: 'embed', model: request.model, texts: request.texts });
+}
+
+function embeddingFixturePath(fixturesDir: string, request: LLMEmbedRequest): string {
+  return path.join(fixturesDir, `${getEmbeddingFixtureKey(request)}.json`);
+}
+
+async function readEmbeddingFixture(
+  fixturesDir: string,
+  request: LLMEmbedRequest
+): Promise<LLMEmbeddingFixture | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(embeddingFixturePath(fixturesDir, request), 'utf-8')) as LLMEmbeddingFixture;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeEmbeddingFixture(
+  fixturesDir: string,
+  request: LLMEmbedRequest,
+  vectors: number[][],
+  recordedWith: string
+): Promise<void> {
+  const fixture: LLMEmbeddingFixture = { request, vectors, recordedWith, recordedAt: new Date().toISOString() };
+  const file = embeddingFixturePath(fixturesDir, request);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(fixture)}\n`, 'utf-8');
+  console.log(`[LLM] 📼 Recorded embedding fixture ${path.basename(file)} (${request.texts.length} texts)`);
+}
+
+/**
+ * Read the fixture for a request, or undefined when none was recorded
+ */
+export async function readFixture(
+  fixturesDir: string,
+  request: LLMGenerateRequest
+): Promise<LLMFixture | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(fixturePath(fixturesDir, request), 'utf-8')) as LLMFixture;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeFixture(
+  fixturesDir: string,
+  request: LLMGenerateRequest,
+  response: string,
+  recordedWith: string
+): Promise<void> {
+  const { prompt, model, maxTokens, temperature, topP } = request;
+  const fixture: LLMFixture = {
+    // The abort signal is not part of the request that produced the reply
+    request: { prompt, model, maxTokens, temperature, topP },
+    response,
+    recordedWith,
+    recordedAt: new Date().toISOString(),
+  };
+  const file = fixturePath(fixturesDir, request);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, 'utf-8');
+  console.log(`[LLM] 📼 Recorded fixture ${path.basename(file)} (${request.model})`);
+}
+
+/**
+ * Split a recorded reply into word-sized chunks (same as the mock provider)
+ */
+function* replayChunks(response: string): Iterable<string> {
+  yield* response.match(/\S+\s*|\s+/g) ?? [];
+}
+
+/**
+ * Create the replay provider: answers only from fixtures and never touches the network
+ * A missing fixture is a 404 so the fallback chain moves on to the next model
+ * (and embedding falls back to local vectors, as it did when nothing was recorded)
+ */
+export function createReplayProvider(fixturesDir: string): LLMProvider {
+  const load = async (request: LLMGenerateRequest): Promise<string> => {
+    const fixture = await readFixture(fixturesDir, request);
+    if (!fixture) {
+      throw new LLMProviderError(
+        `No fixture for ${request.model} (${getFixtureKey(request).substring(0, 12)}). ` +
+          'Run once with LLM_PROVIDER=record to capture it.',
+        'replay',
+        404
+      );
+    }
+    return fixture.response;
+  };
+
+  return {
+    name: 'replay',
+
+    generate: load,
+
+    async *stream(request: LLMGenerateRequest): AsyncIterable<string> {
+      yield* replayChunks(await load(request));
+    },
+
+    async embed(request: LLMEmbedRequest): Promise<number[][]> {
+      const fixture = await readEmbeddingFixture(fixturesDir, request);
+      if (!fixture) {
+        throw new LLMProviderError(
+          `No embedding fixture for ${request.model} (${getEmbeddingFixtureKey(request).substring(0, 12)})`,
+          'replay',
+          404
+        );
+      }
+      return fixture.vectors;
+    },
+  };
+}
+
+/**
+ * Create the record provider: replays existing fixtures and records the rest from a real provider
+ * Embeddings are recorded too when the real provider has an embedding endpoint
+ */
+export function createRecordingProvider(inner: LLMProvider, fixturesDir: string): LLMProvider {
+  const innerEmbed = inner.embed?.bind(inner);
+
+  return {
+    name: 'record',
+
+    ...(innerEmbed && {
+      async embed(request: LLMEmbedRequest): Promise<number[][]> {
+        const fixture = await readEmbeddingFixture(fixturesDir, request);
+        if (fixture) {
+          return fixture.vectors;
+        }
+
+        const vectors = await innerEmbed(request);
+        await writeEmbeddingFixture(fixturesDir, request, vectors, inner.name);
+        return vectors;
+      },
+    }),
+
+    async generate(request: LLMGenerateRequest): Promise<string> {
+      const fixture = await readFixture(fixturesDir, request);
+      if (fixture) {
+        return fixture.response;
+      }
+
+      const response = await inner.generate(request);
+      await writeFixture(fixturesDir, request, response, inner.name);
+      return response;
+    },
+
+    async *stream(request: LLMGenerateRequest): AsyncIterable<string> {
+      const fixture = await readFixture(fixturesDir, request);
+      if (fixture) {
+        yield* replayChunks(fixture.response);
+        return;
+      }
+
+      // Only complete streams are recorded; an interrupted stream leaves no fixture
+      let response = '';
+      for await (const chunk of inner.stream(request)) {
+        response += chunk;
+        yield chunk;
+      }
+      await writeFixture(fixturesDir, request, response, inner.name);
+    },
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Scripted Mock Responses
+ * Canned model replies for each prompt the app sends, so every route works offline
+ */
+
+import type {
+  ExtractedCVFields,
+  GeneratedQuestionFields,
+  MatchCommentary,
+  ModelJobAnalysis,
+  StructuredCVFields,
+} from '@/src/infrastructure/inference/schemas';
+import type { LLMGenerateRequest } from './types';
+
+/**
+ * One scripted reply, used when the prompt matches
+ */
+export interface ScriptedResponse {
+  name: string;
+  match: RegExp;
+  respond: (request: LLMGenerateRequest) => string;
+}
+
+export const CANNED_JOB_ANALYSIS: ModelJobAnalysis = {
+  businessType: 'B2B SaaS',
+  industry: 'Technology',
+  candidateProfile: {
+    experienceLevel: 'Senior',
+    keySkills: ['TypeScript', 'React', 'Node.js', 'REST APIs', 'PostgreSQL'],
+    personalityTraits: ['Collaborative', 'Ownership', 'Clear communicator'],
+    education: "Bachelor's degree in Computer Science or equivalent experience",
+  },
+  values: ['Customer focus', 'Quality', 'Continuous learning'],
+  keyRequirements: [
+    '5+ years of professional software development',
+    'Production experience with React and TypeScript',
+    'Experience designing and maintaining REST APIs',
+  ],
+  writingStyle: 'Professional and results-oriented',
+  domainStandards: 'Reverse-chronological CV with quantified achievements',
+  missingInfo: ['Salary range', 'Team size'],
+};
+
+export const CANNED_MATCH_COMMENTARY: MatchCommentary = {
+  semanticGaps: ['No evidence of database design work'],
+  recommendations: [
+    'Quantify the impact of recent projects',
+    'Mention any PostgreSQL or SQL experience',
+  ],
+};
+
+export const CANNED_CV_FIELDS: ExtractedCVFields = {
+  personalInfo: {
+    fullName: 'Alex Morgan',
+    email: 'alex.morgan@example.com',
+    phone: '+1 555 0100',
+    location: 'Berlin, Germany',
+  },
+  experience: [
+    {
+      title: 'Software Engineer',
+      company: 'Example Corp',
+      duration: '2020 - Present',
+      description: 'Built React and TypeScript applications backed by Node.js APIs',
+    },
+  ],
+  education: [
+    {
+      degree: 'BSc',
+      institution: 'Example University',
+      field: 'Computer Science',
+      year: '2019',
+    },
+  ],
+  skills: ['TypeScript', 'React', 'Node.js'],
+  certifications: [],
+  summary: 'Software engineer focused on web applications.',
+};
+
+export const CANNED_CV_STRUCTURE: StructuredCVFields = {
+  personalInfo: {
+    fullName: 'Alex Morgan',
+    email: 'alex.morgan@example.com',
+    phone: '+1 555 0100',
+    location: 'Berlin, Germany',
+    summary: 'Software engineer focused on web applications.',
+  },
+  experience: [
+    {
+      company: 'Example Corp',
+      position: 'Software Engineer',
+      startDate: '2020-01',
+      current: true,
+      description: ['Built React and TypeScript applications backed by Node.js APIs'],
+    },
+  ],
+  education: [
+    {
+      institution: 'Example University',
+      degree: 'BSc',
+      field: 'Computer Science',
+      endDate: '2019',
+    },
+  ],
+  skills: ['TypeScript', 'React', 'Node.js'],
+  languages: [{ name: 'English', proficiency: 'fluent' }],
+  certifications: [],
+};
+
+export const CANNED_QUESTIONS: GeneratedQuestionFields[] = [
+  {
+    type: 'experience',
+    question: 'How many years have you worked with PostgreSQL or other relational databases?',
+    purpose: 'The job lists PostgreSQL as a key skill',
+    priority: 'high',
+  },
+  {
+    type: 'experience',
+    question: 'Which of your projects had the biggest measurable impact?',
+    purpose: 'Quantified achievements strengthen the CV',
+    priority: 'high',
+  },
+  {
+    type: 'certifications',
+    question: 'Do you hold any cloud or database certifications?',
+    purpose: 'Certifications can cover missing requirements',
+    priority: 'low',
+  },
+];
+
+export const CANNED_CV = `# Alex Morgan
+alex.morgan@example.com | +1 555 0100 | Berlin, Germany
+
+## Professional Summary
+Senior software engineer building TypeScript and React products backed by Node.js APIs.
+
+## Experience
+**Software Engineer**, Example Corp (2020 - Present)
+- Built customer-facing React and TypeScript applications
+- Designed REST APIs used by 20+ internal teams
+
+## Education
+BSc Computer Science, Example University (2019)
+
+## Skills
+TypeScript, React, Node.js, REST APIs
+`;
+
+const json = (value: unknown) => () => JSON.stringify(value, null, 2);
+
+/**
+ * Default scripts, matched against the opening of each prompt the app sends
+ * Repair re-prompts start with the original prompt, so they match too
+ */
+export const DEFAULT_SCRIPTED_RESPONSES: ScriptedResponse[] = [
+  { name: 'job-analysis', match: /^You are a professional job description analyzer/, respond: json(CANNED_JOB_ANALYSIS) },
+  { name: 'cv-match', match: /^You are a CV matching expert/, respond: json(CANNED_MATCH_COMMENTARY) },
+  { name: 'cv-extraction', match: /^Extract structured information from this CV/, respond: json(CANNED_CV_FIELDS) },
+  { name: 'cv-structuring', match: /^You are a CV parser\. Correct and complete/, respond: json(CANNED_CV_STRUCTURE) },
+  { name: 'questions', match: /^You are a professional recruiter\. Generate/, respond: json(CANNED_QUESTIONS) },
+  { name: 'cv-generation', match: /^You are a professional CV optimizer/, respond: () => CANNED_CV },
+];
+
+/**
+ * Find the scripted reply for a request, if any script matches
+ */
+export function findScriptedResponse(
+  request: LLMGenerateRequest,
+  scripts: ScriptedResponse[] = DEFAULT_SCRIPTED_RESPONSES
+): string | undefined {
+  return scripts.find((script) => script.match.test(request.prompt))?.respond(request);
+}
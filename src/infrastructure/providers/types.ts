@@ -0,0 +1,58 @@
+/**
+ * LLM Provider types
+ * Shared contract for every text generation backend
+ */
+
+/**
+ * Supported provider identifiers (value of the LLM_PROVIDER env variable)
+ */
+export type LLMProviderName = 'huggingface' | 'openai-compatible' | 'mock' | 'record' | 'replay';
+
+/**
+ * A single text generation request
+ */
+export interface LLMGenerateRequest {
+  prompt: string;
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+  topP?: number;
+  // Cancels the request, e.g. when the client that asked for a stream disconnects
+  signal?: AbortSignal;
+}
+
+/**
+ * A sentence embedding request
+ */
+export interface LLMEmbedRequest {
+  texts: string[];
+  model: string;
+}
+
+/**
+ * Contract every LLM backend implements
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  generate(request: LLMGenerateRequest): Promise<string>;
+  // Yields text chunks as the model produces them
+  stream(request: LLMGenerateRequest): AsyncIterable<string>;
+  // One vector per text; backends without an embedding endpoint leave this out
+  embed?(request: LLMEmbedRequest): Promise<number[][]>;
+}
+
+/**
+ * Error raised by a provider when the backend answers with a failure
+ * Carries the HTTP status when one is available
+ */
+export class LLMProviderError extends Error {
+  readonly provider: LLMProviderName;
+  readonly status?: number;
+
+  constructor(message: string, provider: LLMProviderName, status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
@@ -3,230 +3,151 @@
  * Analyzes CV content and calculates match score with job description
  */
 
-import { generateText } from './huggingface.service';
 import { HUGGINGFACE_MODELS } from '@/src/shared/constants';
+import { generateStructured } from '@/src/infrastructure/inference/structuredOutput';
+import { matchCommentarySchema, type MatchCommentary } from '@/src/infrastructure/inference/schemas';
+import { renderPromptWithinBudget } from '@/src/infrastructure/inference/tokenBudget';
+import {
+  formatRequirement,
+  priorityRank,
+  requirementsOf,
+  sortByPriority,
+} from '@/src/infrastructure/jobs/requirementClassifier';
+import { matchSkills } from '@/src/infrastructure/skills/skillMatcher';
+import { assessExperienceFit, type ExperienceFit } from './experienceTimeline.service';
 import type { JobAnalysis } from './jobAnalyzer.service';
+import { scoreCVMatch, type MatchScoreBreakdown } from './matchScorer.service';
+import { matchRequirementsSemantically, type RequirementEvidence } from './semanticMatcher.service';
 
 export interface CVMatchAnalysis {
-  matchScore: number; // 0-100
+  matchScore: number; // 0-100, equal to scoreBreakdown.total
   matchedSkills: string[];
   missingSkills: string[];
   matchedRequirements: string[];
   missingRequirements: string[];
   semanticGaps: string[];
   recommendations: string[];
+  // Which CV line satisfies which requirement, by embedding similarity
+  requirementEvidence?: RequirementEvidence[];
+  // Tenure from the CV's dated roles against the years and level the job asks for
+  experience?: ExperienceFit;
+  // Weighted components the score is the sum of
+  scoreBreakdown: MatchScoreBreakdown;
 }
 
 /**
- * Analyze CV match with job description
+ * Analyze CV match with job description as of a given date
+ * The score and the matched/missing lists are computed by rules, so the same CV and job score the same for the same
+ * embedding method (scoreBreakdown.matching) and as-of month (scoreBreakdown.asOf, up to which current roles count);
+ * the model only adds commentary (gaps and recommendations)
  */
 export async function analyzeCVMatch(
   cvContent: string,
   jobDescription: string,
-  jobAnalysis: JobAnalysis
+  jobAnalysis: JobAnalysis,
+  asOf: Date
 ): Promise<CVMatchAnalysis> {
-  const analysisPrompt = `You are a CV matching expert. Analyze how well the CV matches the job description.
-
-Job Description:
-${jobDescription}
-
-Job Requirements:
-${jobAnalysis.keyRequirements.join('\n')}
-
-Required Skills:
-${jobAnalysis.candidateProfile.keySkills.join(', ')}
-
-CV Content:
-${cvContent}
-
-Provide a detailed matching analysis in JSON format:
-{
-  "matchScore": 0-100,
-  "matchedSkills": ["skill1", "skill2"],
-  "missingSkills": ["skill1", "skill2"],
-  "matchedRequirements": ["req1", "req2"],
-  "missingRequirements": ["req1", "req2"],
-  "semanticGaps": ["gap1", "gap2"],
-  "recommendations": ["rec1", "rec2"]
-}
-
-Be thorough and specific. Consider both exact matches and semantic similarity.`;
-
-  try {
-    const response = await generateText(
-      analysisPrompt,
-      HUGGINGFACE_MODELS.CV_GENERATION,
-      2000
-    );
+  // Aliases and narrower skills count: "React.js" and "Next.js" both show React
+  const skills = matchSkills(jobAnalysis.candidateProfile.keySkills, cvContent);
+  const { evidence: requirementEvidence, matching } = await matchRequirementsSemantically(
+    jobAnalysis.keyRequirements,
+    cvContent
+  );
+  const experience = assessExperienceFit(cvContent, jobAnalysis, asOf);
+  const scoreBreakdown = scoreCVMatch({
+    cvContent,
+    jobDescription,
+    jobAnalysis,
+    requirementEvidence,
+    matching,
+    skills,
+    experience,
+  });
 
-    console.log('AI Analysis Response:', response.substring(0, 500)); // Debug log
+  // Missing requirements are listed required first, so gaps and recommendations start with what matters most
+  const ranks = new Map(requirementsOf(jobAnalysis).map((r) => [r.text, priorityRank(r.priority)]));
+  const matchedRequirements = requirementEvidence.filter((e) => e.matched).map((e) => e.requirement);
+  const missingRequirements = requirementEvidence
+    .filter((e) => !e.matched)
+    .map((e) => e.requirement)
+    .sort((a, b) => (ranks.get(a) ?? 0) - (ranks.get(b) ?? 0));
+
+  console.log('Match Score:', {
+    matchScore: scoreBreakdown.total,
+    components: Object.fromEntries(scoreBreakdown.components.map((c) => [c.id, c.applicable ? c.points : 'n/a'])),
+  });
 
-    // Try to extract JSON - be more flexible with JSON extraction
-    let jsonMatch = response.match(/\{[\s\S]*\}/);
-    
-    // If no JSON found, try to find JSON array or other formats
-    if (!jsonMatch) {
-      jsonMatch = response.match(/```json\s*(\{[\s\S]*?\})\s*```/);
-    }
-    if (!jsonMatch) {
-      jsonMatch = response.match(/```\s*(\{[\s\S]*?\})\s*```/);
-    }
-    
-    if (jsonMatch) {
-      try {
-        const jsonStr = jsonMatch[1] || jsonMatch[0];
-        const parsed = JSON.parse(jsonStr) as CVMatchAnalysis;
-        
-        // Validate parsed data
-        if (typeof parsed.matchScore === 'number' && parsed.matchScore >= 0 && parsed.matchScore <= 100) {
-          // Ensure arrays exist
-          parsed.matchedSkills = parsed.matchedSkills || [];
-          parsed.missingSkills = parsed.missingSkills || [];
-          parsed.matchedRequirements = parsed.matchedRequirements || [];
-          parsed.missingRequirements = parsed.missingRequirements || [];
-          parsed.semanticGaps = parsed.semanticGaps || [];
-          parsed.recommendations = parsed.recommendations || [];
-          
-          console.log('AI Analysis Success:', { matchScore: parsed.matchScore });
-          return parsed;
-        } else {
-          console.warn('AI returned invalid matchScore, using fallback');
-        }
-      } catch (parseError) {
-        console.error('JSON parse error:', parseError);
-      }
-    } else {
-      console.warn('No JSON found in AI response, using fallback');
+  const commentary = await getMatchCommentary(cvContent, jobDescription, jobAnalysis, scoreBreakdown).catch(
+    (error) => {
+      console.error('CV match commentary error:', error);
+      console.log('Using rule-based commentary due to error');
+      return {
+        semanticGaps: missingRequirements.slice(0, 5),
+        recommendations: generateRecommendations(skills.missing, missingRequirements),
+      };
     }
+  );
 
-    // Fallback: calculate basic match
-    console.log('Using fallback calculation');
-    return calculateBasicMatch(cvContent, jobDescription, jobAnalysis);
-  } catch (error) {
-    console.error('CV match analysis error:', error);
-    console.log('Using fallback calculation due to error');
-    return calculateBasicMatch(cvContent, jobDescription, jobAnalysis);
-  }
+  return {
+    matchScore: scoreBreakdown.total,
+    matchedSkills: skills.matched,
+    missingSkills: skills.missing,
+    matchedRequirements,
+    missingRequirements,
+    ...commentary,
+    requirementEvidence,
+    experience,
+    scoreBreakdown,
+  };
 }
 
 /**
- * Calculate basic match score using keyword matching
+ * Ask the model to explain the rule-based score
  */
-function calculateBasicMatch(
+async function getMatchCommentary(
   cvContent: string,
   jobDescription: string,
-  jobAnalysis: JobAnalysis
-): CVMatchAnalysis {
-  const cvLower = cvContent.toLowerCase();
-  const jobLower = jobDescription.toLowerCase();
-
-  // Count matched skills
-  const matchedSkills: string[] = [];
-  const missingSkills: string[] = [];
-
-  for (const skill of jobAnalysis.candidateProfile.keySkills) {
-    const skillLower = skill.toLowerCase();
-    if (cvLower.includes(skillLower)) {
-      matchedSkills.push(skill);
-    } else {
-      missingSkills.push(skill);
-    }
-  }
-
-  // Count matched requirements
-  const matchedRequirements: string[] = [];
-  const missingRequirements: string[] = [];
-
-  for (const req of jobAnalysis.keyRequirements) {
-    const reqLower = req.toLowerCase();
-    // Check if CV mentions any key terms from requirement
-    const reqWords = reqLower.split(/\s+/).filter((w) => w.length > 4);
-    const hasMatch = reqWords.some((word) => cvLower.includes(word));
-    
-    if (hasMatch) {
-      matchedRequirements.push(req);
-    } else {
-      missingRequirements.push(req);
+  jobAnalysis: JobAnalysis,
+  scoreBreakdown: MatchScoreBreakdown
+): Promise<MatchCommentary> {
+  // Requirements, skills and the breakdown are kept whole; the CV and then the job description are trimmed
+  const prompt = renderPromptWithinBudget(
+    'cv-match',
+    {
+      jobDescription,
+      requirements: sortByPriority(requirementsOf(jobAnalysis)).map(formatRequirement).join('\n'),
+      skills: jobAnalysis.candidateProfile.keySkills.join(', '),
+      cvContent,
+      scoreBreakdown: describeBreakdown(scoreBreakdown),
+    },
+    {
+      model: HUGGINGFACE_MODELS.CV_GENERATION,
+      maxOutputTokens: 2000,
+      truncatable: ['cvContent', 'jobDescription'],
     }
-  }
+  );
 
-  // Calculate score with better weighting
-  // Ensure we have valid data
-  const totalSkills = Math.max(1, jobAnalysis.candidateProfile.keySkills.length);
-  const totalRequirements = Math.max(1, jobAnalysis.keyRequirements.length);
-  
-  // Skill matching (40% weight)
-  const skillScore = (matchedSkills.length / totalSkills) * 40;
-  
-  // Requirement matching (40% weight)
-  const requirementScore = (matchedRequirements.length / totalRequirements) * 40;
-  
-  // Keyword overlap (20% weight)
-  const keywordOverlap = calculateKeywordOverlap(cvContent, jobDescription);
-  const keywordScore = keywordOverlap * 20;
-  
-  // Calculate total score
-  let matchScore = Math.round(skillScore + requirementScore + keywordScore);
-  
-  // Add bonus for having substantial content
-  if (cvContent.length > 500) {
-    matchScore = Math.min(100, matchScore + 5); // Small bonus for detailed CV
-  }
-  
-  // Ensure score is between 0-100
-  matchScore = Math.max(0, Math.min(100, matchScore));
-  
-  console.log('Fallback Calculation:', {
-    matchedSkills: matchedSkills.length,
-    totalSkills,
-    matchedRequirements: matchedRequirements.length,
-    totalRequirements,
-    keywordOverlap,
-    skillScore,
-    requirementScore,
-    keywordScore,
-    matchScore,
+  return generateStructured({
+    prompt: prompt.text,
+    promptVersion: prompt.ref,
+    budget: prompt.budget,
+    schema: matchCommentarySchema,
+    label: 'CV match commentary',
+    model: HUGGINGFACE_MODELS.CV_GENERATION,
+    maxLength: 2000,
   });
-
-  return {
-    matchScore,
-    matchedSkills,
-    missingSkills,
-    matchedRequirements,
-    missingRequirements,
-    semanticGaps: missingRequirements.slice(0, 5),
-    recommendations: generateRecommendations(missingSkills, missingRequirements),
-  };
 }
 
 /**
- * Calculate keyword overlap between CV and job description
+ * Plain-text breakdown for the prompt: one line per scored component, then its evidence
  */
-function calculateKeywordOverlap(cvContent: string, jobDescription: string): number {
-  const cvWords = new Set(
-    cvContent
-      .toLowerCase()
-      .split(/\s+/)
-      .filter((w) => w.length > 4)
-      .map((w) => w.replace(/[^\w]/g, ''))
-  );
-
-  const jobWords = new Set(
-    jobDescription
-      .toLowerCase()
-      .split(/\s+/)
-      .filter((w) => w.length > 4)
-      .map((w) => w.replace(/[^\w]/g, ''))
-  );
-
-  let matches = 0;
-  for (const word of jobWords) {
-    if (cvWords.has(word)) {
-      matches++;
-    }
+function describeBreakdown(breakdown: MatchScoreBreakdown): string {
+  const lines = [`Total: ${breakdown.total}/100`];
+  for (const component of breakdown.components.filter((c) => c.applicable)) {
+    lines.push(`${component.label}: ${component.score}/100 (${component.points} points)`);
+    lines.push(...component.evidence.map((item) => `  - ${item}`));
   }
-
-  return jobWords.size > 0 ? matches / jobWords.size : 0;
+  return lines.join('\n');
 }
 
 /**
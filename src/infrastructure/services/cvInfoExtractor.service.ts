@@ -3,8 +3,12 @@
  * Extracts structured information from CV content to avoid asking redundant questions
  */
 
-import { generateText } from './huggingface.service';
 import { HUGGINGFACE_MODELS } from '@/src/shared/constants';
+import { generateStructured } from '@/src/infrastructure/inference/structuredOutput';
+import { extractedCVFieldsSchema, type ExtractedCVFields } from '@/src/infrastructure/inference/schemas';
+import { renderChunkedPrompts } from '@/src/infrastructure/inference/tokenBudget';
+import { findSkills } from '@/src/infrastructure/skills/skillMatcher';
+import { uniqueStrings } from '@/src/shared/utils/text';
 
 export interface ExtractedCVInfo {
   personalInfo: {
@@ -52,82 +56,49 @@ export async function extractCVInfo(cvContent: string): Promise<ExtractedCVInfo>
     };
   }
 
-  const extractionPrompt = `Extract structured information from this CV content. Identify what information is present and what is missing.
-
-CV Content:
-${cvContent}
-
-Extract and return ONLY a JSON object with this exact structure:
-{
-  "personalInfo": {
-    "fullName": "extracted name or null",
-    "email": "extracted email or null",
-    "phone": "extracted phone or null",
-    "location": "extracted location or null"
-  },
-  "experience": [
-    {
-      "title": "job title or null",
-      "company": "company name or null",
-      "duration": "duration or null",
-      "description": "brief description or null"
-    }
-  ],
-  "education": [
-    {
-      "degree": "degree name or null",
-      "institution": "school name or null",
-      "field": "field of study or null",
-      "year": "graduation year or null"
-    }
-  ],
-  "skills": ["skill1", "skill2"],
-  "certifications": ["cert1", "cert2"],
-  "summary": "professional summary if present or null"
-}
-
-Be thorough but only include information that is clearly present in the CV. If information is missing or unclear, use null or empty arrays.`;
+  // Long CVs are extracted chunk by chunk and the results merged
+  const prompts = renderChunkedPrompts('cv-extraction', { cvContent }, 'cvContent', {
+    model: HUGGINGFACE_MODELS.CV_GENERATION,
+    maxOutputTokens: 2000,
+  });
 
   try {
-    const response = await generateText(
-      extractionPrompt,
-      HUGGINGFACE_MODELS.CV_GENERATION,
-      2000
-    );
-
-    // Extract JSON from response
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const extracted = JSON.parse(jsonMatch[0]) as Omit<ExtractedCVInfo, 'hasPersonalInfo' | 'hasExperience' | 'hasEducation' | 'hasSkills'>;
-      
-      // Calculate boolean flags
-      const hasPersonalInfo = !!(
-        extracted.personalInfo?.fullName ||
-        extracted.personalInfo?.email ||
-        extracted.personalInfo?.phone
+    const parts: ExtractedCVFields[] = [];
+    for (const prompt of prompts) {
+      parts.push(
+        await generateStructured({
+          prompt: prompt.text,
+          promptVersion: prompt.ref,
+          budget: prompt.budget,
+          schema: extractedCVFieldsSchema,
+          label: 'CV info extraction',
+          model: HUGGINGFACE_MODELS.CV_GENERATION,
+          maxLength: 2000,
+        })
       );
-      
-      const hasExperience = extracted.experience && extracted.experience.length > 0 &&
-        extracted.experience.some(exp => exp.title || exp.company);
-      
-      const hasEducation = extracted.education && extracted.education.length > 0 &&
-        extracted.education.some(edu => edu.degree || edu.institution);
-      
-      const hasSkills = extracted.skills && extracted.skills.length > 0;
-
-      return {
-        ...extracted,
-        personalInfo: extracted.personalInfo || {},
-        experience: extracted.experience || [],
-        education: extracted.education || [],
-        skills: extracted.skills || [],
-        certifications: extracted.certifications || [],
-        hasPersonalInfo,
-        hasExperience,
-        hasEducation,
-        hasSkills,
-      };
     }
+    const extracted = parts.length === 1 ? parts[0] : mergeExtractedFields(parts);
+
+    // Calculate boolean flags
+    const hasPersonalInfo = !!(
+      extracted.personalInfo.fullName ||
+      extracted.personalInfo.email ||
+      extracted.personalInfo.phone
+    );
+
+    const hasExperience = extracted.experience.some(exp => exp.title || exp.company);
+
+    const hasEducation = extracted.education.some(edu => edu.degree || edu.institution);
+
+    const hasSkills = extracted.skills.length > 0;
+
+    return {
+      ...extracted,
+      hasPersonalInfo,
+      hasExperience,
+      hasEducation,
+      hasSkills,
+    };
   } catch (error) {
     console.error('CV info extraction error:', error);
   }
@@ -136,6 +107,29 @@ Be thorough but only include information that is clearly present in the CV. If i
   return extractBasicInfo(cvContent);
 }
 
+/**
+ * Reduce step for chunked extraction: first non-empty personal details,
+ * all experience and education entries, combined skill lists
+ */
+function mergeExtractedFields(parts: ExtractedCVFields[]): ExtractedCVFields {
+  const firstDefined = <T>(pick: (part: ExtractedCVFields) => T | undefined) =>
+    parts.map(pick).find((value) => value !== undefined);
+
+  return {
+    personalInfo: {
+      fullName: firstDefined((p) => p.personalInfo.fullName),
+      email: firstDefined((p) => p.personalInfo.email),
+      phone: firstDefined((p) => p.personalInfo.phone),
+      location: firstDefined((p) => p.personalInfo.location),
+    },
+    experience: parts.flatMap((p) => p.experience),
+    education: parts.flatMap((p) => p.education),
+    skills: uniqueStrings(parts.flatMap((p) => p.skills)),
+    certifications: uniqueStrings(parts.flatMap((p) => p.certifications)),
+    summary: firstDefined((p) => p.summary),
+  };
+}
+
 /**
  * Basic information extraction using regex patterns
  */
@@ -166,20 +160,9 @@ function extractBasicInfo(cvContent: string): ExtractedCVInfo {
     info.hasPersonalInfo = true;
   }
 
-  // Check for common skill keywords
-  const skillKeywords = [
-    'javascript', 'python', 'react', 'node', 'typescript', 'java', 'c++', 'sql',
-    'aws', 'docker', 'kubernetes', 'git', 'agile', 'scrum', 'leadership',
-    'project management', 'data analysis', 'machine learning', 'ai'
-  ];
-  
-  const foundSkills: string[] = [];
-  for (const skill of skillKeywords) {
-    if (cvContent.toLowerCase().includes(skill.toLowerCase())) {
-      foundSkills.push(skill);
-    }
-  }
-  
+  // Check for skills from the taxonomy
+  const foundSkills = findSkills(cvContent).map((skill) => skill.name);
+
   if (foundSkills.length > 0) {
     info.skills = foundSkills;
     info.hasSkills = true;
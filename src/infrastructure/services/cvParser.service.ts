@@ -0,0 +1,366 @@
+/**
+ * CV Parser Service
+ * Turns extracted CV text into CVData: deterministic heuristics first, then an LLM refinement pass
+ */
+
+import { CV_PARSING, HUGGINGFACE_MODELS } from '@/src/shared/constants';
+import { generateStructured } from '@/src/infrastructure/inference/structuredOutput';
+import { structuredCVSchema, type StructuredCVFields } from '@/src/infrastructure/inference/schemas';
+import { renderPromptWithinBudget } from '@/src/infrastructure/inference/tokenBudget';
+import {
+  normalizeDate,
+  parseCVHeuristically,
+  type HeuristicCVParse,
+} from '@/src/infrastructure/utils/cvHeuristics';
+import { uniqueStrings } from '@/src/shared/utils/text';
+import type {
+  CVData,
+  CVFieldConfidence,
+  CVParseResult,
+  Education,
+  Experience,
+  Language,
+  PersonalInfo,
+} from '@/src/shared/types';
+
+/**
+ * Options for parseCV
+ */
+export interface CVParseOptions {
+  // Set to false to skip the LLM pass and return the heuristic parse only
+  refine?: boolean;
+  // Hyperlink targets embedded in the uploaded document, used for contact details
+  links?: string[];
+  // How reliable the text itself is (0-1), e.g. OCR confidence for scanned documents
+  sourceConfidence?: number;
+}
+
+type FieldValue = string | boolean | string[] | undefined;
+
+/**
+ * Parse CV text into CVData with per-field confidence
+ * Falls back to the heuristic parse when the refinement call fails
+ */
+export async function parseCV(text: string, options: CVParseOptions = {}): Promise<CVParseResult> {
+  const heuristic = parseCVHeuristically(text, options.links);
+  const shouldRefine = options.refine !== false;
+
+  let cvData = heuristic.cvData;
+  let confidence = heuristic.confidence;
+  let refined = false;
+
+  if (shouldRefine) {
+    try {
+      const refinement = await refineWithLLM(text, heuristic);
+      ({ cvData, confidence } = mergeRefinement(heuristic, refinement));
+      refined = true;
+    } catch (error) {
+      console.error('[CVParser] ⚠️ Refinement failed, using heuristic parse:', error);
+    }
+  }
+
+  // Every field read from unreliable text (OCR) is only as good as that text
+  if (options.sourceConfidence !== undefined && options.sourceConfidence < 1) {
+    const scale = Math.max(0, options.sourceConfidence);
+    confidence = Object.fromEntries(
+      Object.entries(confidence).map(([path, value]) => [path, Math.round(value * scale * 100) / 100])
+    );
+  }
+
+  return {
+    cvData,
+    confidence,
+    uncertainFields: Object.entries(confidence)
+      .filter(([, value]) => value < CV_PARSING.UNCERTAIN_THRESHOLD)
+      .map(([path]) => path),
+    sections: heuristic.sections,
+    refined,
+  };
+}
+
+/**
+ * Ask the model to correct the heuristic parse
+ * The raw CV text is trimmed first when the prompt is too long; the draft is kept whole
+ */
+async function refineWithLLM(text: string, heuristic: HeuristicCVParse): Promise<StructuredCVFields> {
+  const { id: _id, rawContent: _rawContent, createdAt: _createdAt, ...draft } = heuristic.cvData;
+  const prompt = renderPromptWithinBudget(
+    'cv-structuring',
+    { cvContent: text, draft: JSON.stringify(draft, null, 2) },
+    {
+      model: HUGGINGFACE_MODELS.CV_GENERATION,
+      maxOutputTokens: CV_PARSING.REFINE_MAX_OUTPUT_TOKENS,
+      truncatable: ['cvContent'],
+    }
+  );
+
+  return generateStructured({
+    prompt: prompt.text,
+    promptVersion: prompt.ref,
+    budget: prompt.budget,
+    schema: structuredCVSchema,
+    label: 'CV structuring',
+    model: HUGGINGFACE_MODELS.CV_GENERATION,
+    maxLength: CV_PARSING.REFINE_MAX_OUTPUT_TOKENS,
+  });
+}
+
+function normalizeForComparison(value: FieldValue): string {
+  const text = Array.isArray(value) ? value.join(' ') : String(value ?? '');
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function isEmpty(value: FieldValue): boolean {
+  return value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Choose between the heuristic and the LLM value of one field
+ * Agreement raises confidence; on disagreement a pattern match (email, dates) stands,
+ * otherwise the more trusted value is kept but flagged
+ */
+function pickField<T extends FieldValue>(
+  heuristicValue: T,
+  heuristicConfidence: number,
+  llmValue: T
+): { value: T; confidence: number } {
+  if (isEmpty(llmValue)) {
+    return { value: heuristicValue, confidence: heuristicConfidence };
+  }
+  if (isEmpty(heuristicValue)) {
+    return { value: llmValue, confidence: CV_PARSING.LLM_CONFIDENCE };
+  }
+  if (normalizeForComparison(heuristicValue) === normalizeForComparison(llmValue)) {
+    return { value: heuristicValue, confidence: Math.min(1, heuristicConfidence + CV_PARSING.AGREEMENT_BONUS) };
+  }
+  if (heuristicConfidence >= CV_PARSING.TRUSTED_HEURISTIC) {
+    return { value: heuristicValue, confidence: heuristicConfidence };
+  }
+  return {
+    value: heuristicConfidence >= CV_PARSING.LLM_CONFIDENCE ? heuristicValue : llmValue,
+    confidence: CV_PARSING.DISAGREEMENT_CONFIDENCE,
+  };
+}
+
+/**
+ * Index of the first unused heuristic entry describing the same job, school or language, or -1
+ */
+function findMatchingEntry(
+  candidates: Array<Array<string | undefined>>,
+  keys: Array<string | undefined>,
+  used: Set<number>
+): number {
+  const wanted = keys.map((key) => normalizeForComparison(key)).filter(Boolean);
+  return candidates.findIndex(
+    (candidateKeys, index) =>
+      !used.has(index) &&
+      candidateKeys
+        .map((key) => normalizeForComparison(key))
+        .filter(Boolean)
+        .some((candidate) => wanted.some((key) => candidate.includes(key) || key.includes(candidate)))
+  );
+}
+
+/**
+ * Model dates are normalized like heuristic ones ("Jan 2020" becomes "2020-01")
+ */
+function normalizeModelDate(value: string | undefined): string | undefined {
+  return value ? normalizeDate(value) || value : undefined;
+}
+
+/**
+ * Combine the heuristic parse with the refinement pass into CVData and confidences
+ */
+function mergeRefinement(
+  heuristic: HeuristicCVParse,
+  refinement: StructuredCVFields
+): { cvData: CVData; confidence: CVFieldConfidence } {
+  const base = heuristic.cvData;
+  const baseConfidence = heuristic.confidence;
+  const confidence: CVFieldConfidence = {};
+  const heuristicConfidence = (path: string) => baseConfidence[path] ?? 0;
+
+  // Personal info
+  const personalInfo: PersonalInfo = { ...base.personalInfo };
+  const personalFields: Array<keyof PersonalInfo> = [
+    'fullName',
+    'email',
+    'phone',
+    'location',
+    'linkedIn',
+    'portfolio',
+    'summary',
+  ];
+  for (const field of personalFields) {
+    const path = `personalInfo.${field}`;
+    const picked = pickField(base.personalInfo[field], heuristicConfidence(path), refinement.personalInfo[field]);
+    if (picked.value) {
+      personalInfo[field] = picked.value;
+      confidence[path] = picked.confidence;
+    } else if (path in baseConfidence) {
+      confidence[path] = 0;
+    }
+  }
+
+  // Experience: the model's entries matched back to heuristic entries field by field
+  const experience: Experience[] = mergeEntries(
+    'experience',
+    base.experience,
+    refinement.experience,
+    heuristic.confidence,
+    confidence,
+    { base: (exp) => [exp.company, exp.position], model: (entry) => [entry.company, entry.position] },
+    (entry, source, match, index): Experience => {
+      const fromPath = (field: string) => (match >= 0 ? heuristicConfidence(`experience.${match}.${field}`) : 0);
+      const path = `experience.${index}`;
+
+      const company = pickField(source?.company ?? '', fromPath('company'), entry.company ?? '');
+      const position = pickField(source?.position ?? '', fromPath('position'), entry.position ?? '');
+      const startDate = pickField(source?.startDate ?? '', fromPath('startDate'), normalizeModelDate(entry.startDate) ?? '');
+      const endDate = pickField(source?.endDate, fromPath('endDate'), normalizeModelDate(entry.endDate));
+      const description = pickField(source?.description ?? [], fromPath('description'), entry.description);
+
+      confidence[`${path}.company`] = company.value ? company.confidence : 0;
+      confidence[`${path}.position`] = position.value ? position.confidence : 0;
+      confidence[`${path}.startDate`] = startDate.value ? startDate.confidence : 0;
+      if (endDate.value || entry.current || source?.current) {
+        confidence[`${path}.endDate`] = endDate.value ? endDate.confidence : CV_PARSING.LLM_CONFIDENCE;
+      }
+      if (description.value.length > 0) {
+        confidence[`${path}.description`] = description.confidence;
+      }
+
+      return {
+        id: `exp-${index + 1}`,
+        company: company.value,
+        position: position.value,
+        startDate: startDate.value,
+        endDate: endDate.value,
+        current: endDate.value ? false : (source?.current ?? entry.current),
+        description: description.value,
+      };
+    },
+    (exp, index) => ({ ...exp, id: `exp-${index + 1}` })
+  );
+
+  // Education, merged the same way
+  const education: Education[] = mergeEntries(
+    'education',
+    base.education,
+    refinement.education,
+    heuristic.confidence,
+    confidence,
+    { base: (edu) => [edu.institution], model: (entry) => [entry.institution] },
+    (entry, source, match, index): Education => {
+      const fromPath = (field: string) => (match >= 0 ? heuristicConfidence(`education.${match}.${field}`) : 0);
+      const path = `education.${index}`;
+
+      const institution = pickField(source?.institution ?? '', fromPath('institution'), entry.institution ?? '');
+      const degree = pickField(source?.degree ?? '', fromPath('degree'), entry.degree ?? '');
+      const field = pickField(source?.field, fromPath('field'), entry.field);
+      const startDate = pickField(source?.startDate ?? '', fromPath('startDate'), normalizeModelDate(entry.startDate) ?? '');
+      const endDate = pickField(source?.endDate, fromPath('endDate'), normalizeModelDate(entry.endDate));
+      const gpa = pickField(source?.gpa, fromPath('gpa'), entry.gpa);
+
+      confidence[`${path}.institution`] = institution.value ? institution.confidence : 0;
+      confidence[`${path}.degree`] = degree.value ? degree.confidence : 0;
+      for (const [name, picked] of Object.entries({ field, startDate, endDate, gpa })) {
+        if (picked.value) {
+          confidence[`${path}.${name}`] = picked.confidence;
+        }
+      }
+
+      return {
+        id: `edu-${index + 1}`,
+        institution: institution.value,
+        degree: degree.value,
+        field: field.value,
+        startDate: startDate.value,
+        endDate: endDate.value,
+        gpa: gpa.value,
+      };
+    },
+    (edu, index) => ({ ...edu, id: `edu-${index + 1}` })
+  );
+
+  // Languages: proficiency from the heuristics when they found an explicit level
+  const languages: Language[] = mergeEntries(
+    'languages',
+    base.languages ?? [],
+    refinement.languages,
+    heuristic.confidence,
+    confidence,
+    { base: (language) => [language.name], model: (language) => [language.name] },
+    (language, source, match, index) => {
+      const proficiency = pickField(
+        source?.proficiency,
+        match >= 0 ? heuristicConfidence(`languages.${match}.proficiency`) : 0,
+        language.proficiency
+      );
+      confidence[`languages.${index}.name`] = source ? 0.95 : CV_PARSING.LLM_CONFIDENCE;
+      confidence[`languages.${index}.proficiency`] = proficiency.confidence;
+      return { name: source?.name ?? language.name, proficiency: proficiency.value ?? language.proficiency };
+    },
+    (language) => language
+  );
+
+  // Lists: union of both passes
+  const skills = uniqueStrings([...base.skills, ...refinement.skills]);
+  const certifications = uniqueStrings([...(base.certifications ?? []), ...refinement.certifications]);
+
+  confidence.experience = experience.length > 0 ? Math.max(heuristicConfidence('experience'), CV_PARSING.LLM_CONFIDENCE) : 0;
+  confidence.education = education.length > 0 ? Math.max(heuristicConfidence('education'), CV_PARSING.LLM_CONFIDENCE) : 0;
+  confidence.skills = pickField(base.skills, heuristicConfidence('skills'), refinement.skills).confidence;
+  if (certifications.length > 0) {
+    confidence.certifications = pickField(
+      base.certifications ?? [],
+      heuristicConfidence('certifications'),
+      refinement.certifications
+    ).confidence;
+  }
+
+  return {
+    cvData: { ...base, personalInfo, experience, education, skills, certifications, languages },
+    confidence,
+  };
+}
+
+/**
+ * Merge an entry list: the model's entries first, each matched back to at most one heuristic entry,
+ * then the heuristic entries the model left out, keeping their own confidences
+ */
+function mergeEntries<B, M, R>(
+  section: string,
+  baseEntries: B[],
+  modelEntries: M[],
+  baseConfidence: CVFieldConfidence,
+  confidence: CVFieldConfidence,
+  keys: { base: (entry: B) => Array<string | undefined>; model: (entry: M) => Array<string | undefined> },
+  merge: (entry: M, source: B | undefined, sourceIndex: number, index: number) => R,
+  rebase: (entry: B, index: number) => R
+): R[] {
+  const used = new Set<number>();
+  const merged = modelEntries.map((entry, index) => {
+    const match = findMatchingEntry(baseEntries.map(keys.base), keys.model(entry), used);
+    if (match >= 0) {
+      used.add(match);
+    }
+    return merge(entry, match >= 0 ? baseEntries[match] : undefined, match, index);
+  });
+
+  baseEntries.forEach((entry, sourceIndex) => {
+    if (used.has(sourceIndex)) {
+      return;
+    }
+    const index = merged.length;
+    const prefix = `${section}.${sourceIndex}.`;
+    for (const [path, value] of Object.entries(baseConfidence)) {
+      if (path.startsWith(prefix)) {
+        confidence[`${section}.${index}.${path.slice(prefix.length)}`] = value;
+      }
+    }
+    merged.push(rebase(entry, index));
+  });
+
+  return merged;
+}
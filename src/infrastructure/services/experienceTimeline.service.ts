@@ -0,0 +1,288 @@
+/**
+ * Experience Timeline Service
+ * Works out the candidate's tenure from the dates of their roles: total and per-skill years, gaps, seniority band
+ */
+
+import { EXPERIENCE_TIMELINE_CONFIG } from '@/src/shared/constants';
+import type { Experience, JobAnalysis } from '@/src/shared/types';
+import { requirementsOf } from '@/src/infrastructure/jobs/requirementClassifier';
+import { findSkillMentions, findSkills, skillAncestors } from '@/src/infrastructure/skills/skillMatcher';
+import { parseCVHeuristically } from '@/src/infrastructure/utils/cvHeuristics';
+
+/**
+ * A break between roles
+ */
+export interface ExperienceGap {
+  from: string; // YYYY-MM
+  to: string; // YYYY-MM
+  months: number;
+}
+
+/**
+ * Years of roles that mention a skill (or a narrower one: Next.js roles count for React)
+ */
+export interface SkillTenure {
+  skill: string;
+  years: number;
+}
+
+/**
+ * Seniority a CV reads as, with what it was read from
+ */
+export interface SeniorityBand {
+  rank: number; // 1 Junior ... 5 Executive
+  label: string;
+  basis: string;
+}
+
+export interface ExperienceTimeline {
+  asOf: string; // YYYY-MM: roles running to the present are counted up to this month
+  totalYears: number; // Overlapping roles counted once, gaps not counted
+  datedRoles: number;
+  undatedRoles: number; // Roles without a usable start date, left out of every figure
+  overlapYears: number; // Time spent in two or more roles at once
+  gaps: ExperienceGap[]; // Breaks of MIN_GAP_MONTHS or more, oldest first
+  skillYears: SkillTenure[]; // Longest first
+  seniority?: SeniorityBand; // Absent when no role is dated
+}
+
+/**
+ * A requirement asking for years with a particular skill ("5+ years of Kubernetes")
+ */
+export interface SkillYearsRequirement {
+  requirement: string;
+  skill: string;
+  requiredYears: number;
+  years: number; // What the timeline shows for the skill
+}
+
+/**
+ * CV tenure against the years and level a job asks for
+ */
+export interface ExperienceFit {
+  timeline: ExperienceTimeline;
+  years?: number; // Timeline years, or the "N years of experience" the CV states when no role is dated
+  seniority?: SeniorityBand;
+  requiredYears?: number;
+  requiredLevel?: { rank: number; label: string };
+  yearsShortfall?: number; // Years under the job's minimum, 0 when met
+  levelGap?: number; // Ranks below the job's level, 0 when met
+  skillRequirements: SkillYearsRequirement[];
+}
+
+/**
+ * A role's dates as a half-open range of month indexes (year * 12 + month)
+ */
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Seniority ranks, highest first so "Senior/Lead" reads as Lead
+const SENIORITY_RANKS: ReadonlyArray<[RegExp, number, string]> = [
+  [/\b(?:executive|director|head of|vp|vice president|chief)\b/i, 5, 'Executive'],
+  [/\b(?:lead|principal|staff)\b/i, 4, 'Lead'],
+  [/\bsenior\b/i, 3, 'Senior'],
+  [/\b(?:mid|intermediate)\b/i, 2, 'Mid'],
+  [/\b(?:junior|entry|graduate|intern|trainee)\b/i, 1, 'Junior'],
+];
+
+const STATED_YEARS = /(\d{1,2})\+?\s*years?\s+(?:of\s+)?(?:professional\s+|industry\s+|commercial\s+)?experience/gi;
+const REQUIRED_YEARS = /(\d{1,2})\s*\+?\s*(?:-\s*\d{1,2}\s*)?(?:years?|yrs)\b/gi;
+
+/**
+ * Build the timeline of a list of roles as of a given date
+ * Year-only dates are taken as mid-year, so "2019 - 2021" is two years; roles running to the present end in the
+ * as-of month, which callers pass in so the same CV always gives the same figures
+ */
+export function buildExperienceTimeline(experience: Experience[], asOf: Date): ExperienceTimeline {
+  const current = asOf.getUTCFullYear() * 12 + asOf.getUTCMonth() + 1;
+  const roles = experience.flatMap((role) => {
+    const span = roleSpan(role, current);
+    return span ? [{ role, span }] : [];
+  });
+
+  const merged = mergeSpans(roles.map(({ span }) => span));
+  const totalMonths = monthsIn(merged);
+  const overlapMonths = roles.reduce((sum, { span }) => sum + span.end - span.start, 0) - totalMonths;
+
+  const gaps: ExperienceGap[] = [];
+  for (let i = 1; i < merged.length; i++) {
+    const months = merged[i].start - merged[i - 1].end;
+    if (months >= EXPERIENCE_TIMELINE_CONFIG.MIN_GAP_MONTHS) {
+      gaps.push({ from: monthLabel(merged[i - 1].end), to: monthLabel(merged[i].start), months });
+    }
+  }
+
+  const skillSpans = new Map<string, Span[]>();
+  for (const { role, span } of roles) {
+    const text = [role.position, ...role.description, ...(role.achievements ?? [])].join('\n');
+    const names = new Set(findSkills(text).flatMap((skill) => [skill, ...skillAncestors(skill)]).map((s) => s.name));
+    names.forEach((name) => skillSpans.set(name, [...(skillSpans.get(name) ?? []), span]));
+  }
+  const skillYears = Array.from(skillSpans.entries())
+    .map(([skill, spans]) => ({ skill, years: toYears(monthsIn(mergeSpans(spans))) }))
+    .sort((a, b) => b.years - a.years || a.skill.localeCompare(b.skill));
+
+  const totalYears = toYears(totalMonths);
+  const latest = roles.slice().sort((a, b) => b.span.end - a.span.end)[0];
+
+  return {
+    asOf: monthLabel(current - 1),
+    totalYears,
+    datedRoles: roles.length,
+    undatedRoles: experience.length - roles.length,
+    overlapYears: toYears(overlapMonths),
+    gaps,
+    skillYears,
+    seniority: latest ? seniorityBand(totalYears, latest.role.position) : undefined,
+  };
+}
+
+/**
+ * Compare the tenure a CV shows with the years and level a job asks for, as of a given date
+ */
+export function assessExperienceFit(cvContent: string, jobAnalysis: JobAnalysis, asOf: Date): ExperienceFit {
+  const timeline = buildExperienceTimeline(parseCVHeuristically(cvContent).cvData.experience, asOf);
+
+  const stated = Array.from(cvContent.matchAll(STATED_YEARS)).map((match) => Number(match[1]));
+  const years = timeline.datedRoles > 0 ? timeline.totalYears : stated.length > 0 ? Math.max(...stated) : undefined;
+  const seniority = timeline.seniority ?? (years !== undefined ? seniorityBand(years) : undefined);
+
+  // "0+ years" asks for nothing
+  const requiredYears = jobAnalysis.facts.yearsOfExperience?.min || undefined;
+  const requiredLevel = seniorityRank(jobAnalysis.candidateProfile.experienceLevel);
+
+  // Per-skill years need dated roles; a CV that only states its years is not marked down for them
+  const tenure = new Map(timeline.skillYears.map((entry) => [entry.skill, entry.years]));
+  const skillRequirements = requirementsOf(jobAnalysis)
+    .filter((requirement) => timeline.datedRoles > 0 && requirement.category === 'experience')
+    .flatMap(({ text }) =>
+      yearsPerSkill(text).map(({ skill, requiredYears }) => ({
+        requirement: text,
+        skill,
+        requiredYears,
+        years: tenure.get(skill) ?? 0,
+      }))
+    )
+    .filter((requirement) => requirement.requiredYears > 0);
+
+  return {
+    timeline,
+    years,
+    seniority,
+    requiredYears,
+    requiredLevel,
+    yearsShortfall:
+      requiredYears !== undefined && years !== undefined ? toYears(Math.max(0, requiredYears - years) * 12) : undefined,
+    levelGap: requiredLevel && seniority ? Math.max(0, requiredLevel.rank - seniority.rank) : undefined,
+    skillRequirements,
+  };
+}
+
+/**
+ * Years asked for each skill of a requirement: every skill takes the nearest year count,
+ * so "5+ years React and 2+ years Go" asks for 5 years of React and 2 of Go
+ */
+function yearsPerSkill(text: string): Array<{ skill: string; requiredYears: number }> {
+  const counts = Array.from(text.matchAll(REQUIRED_YEARS), (match) => ({
+    years: Number(match[1]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+  if (counts.length === 0) {
+    return [];
+  }
+
+  const result = new Map<string, number>();
+  for (const mention of findSkillMentions(text)) {
+    const distance = (count: { start: number; end: number }) =>
+      count.start >= mention.end ? count.start - mention.end : Math.max(0, mention.start - count.end);
+    const nearest = counts.reduce((best, count) => (distance(count) < distance(best) ? count : best));
+    // A skill named twice keeps the years next to its first mention
+    if (!result.has(mention.skill.name)) {
+      result.set(mention.skill.name, nearest.years);
+    }
+  }
+  return Array.from(result, ([skill, requiredYears]) => ({ skill, requiredYears }));
+}
+
+/**
+ * Seniority named in a job level or title ("Senior", "Lead Engineer")
+ */
+function seniorityRank(level: string): { rank: number; label: string } | undefined {
+  const found = SENIORITY_RANKS.find(([pattern]) => pattern.test(level));
+  return found && { rank: found[1], label: found[2] };
+}
+
+/**
+ * Band from tenure, raised one rank when the latest title claims more; tenure alone never reads as Executive
+ */
+function seniorityBand(years: number, latestTitle = ''): SeniorityBand {
+  const { MID, SENIOR, LEAD } = EXPERIENCE_TIMELINE_CONFIG.SENIORITY_YEARS;
+  const tenureRank = years < MID ? 1 : years < SENIOR ? 2 : years < LEAD ? 3 : 4;
+  const titled = seniorityRank(latestTitle);
+  const rank = titled && titled.rank > tenureRank ? Math.min(titled.rank, tenureRank + 1) : tenureRank;
+  const basis = `${years} year${years === 1 ? '' : 's'} of experience` +
+    (rank > tenureRank ? ` and the title "${latestTitle}"` : '');
+  return { rank, label: rankLabel(rank), basis };
+}
+
+function rankLabel(rank: number): string {
+  return SENIORITY_RANKS.find(([, candidate]) => candidate === rank)?.[2] ?? 'Unknown';
+}
+
+/**
+ * Month range of a role, or null when its dates are missing, unreadable, reversed or in the future
+ */
+function roleSpan(role: Experience, current: number): Span | null {
+  const start = monthIndex(role.startDate, 'start');
+  const end = role.current || !role.endDate ? (role.current ? current : null) : monthIndex(role.endDate, 'end');
+  if (start === null || end === null || start > current || end < start) {
+    return null;
+  }
+  return { start, end: Math.min(end, current) };
+}
+
+/**
+ * Month index of a "YYYY-MM" or "YYYY" date; month dates are inclusive, so an end month counts in full
+ */
+function monthIndex(date: string, side: 'start' | 'end'): number | null {
+  const match = date.trim().match(/^(\d{4})(?:-(\d{2}))?$/);
+  if (!match) {
+    return null;
+  }
+  const year = Number(match[1]);
+  if (!match[2]) {
+    return year * 12 + 6;
+  }
+  return year * 12 + Number(match[2]) - 1 + (side === 'end' ? 1 : 0);
+}
+
+function monthLabel(index: number): string {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Sort spans and join those that overlap or touch
+ */
+function mergeSpans(spans: Span[]): Span[] {
+  const merged: Span[] = [];
+  for (const span of spans.slice().sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+function monthsIn(spans: Span[]): number {
+  return spans.reduce((sum, span) => sum + span.end - span.start, 0);
+}
+
+function toYears(months: number): number {
+  return Math.round((months / 12) * 10) / 10;
+}
@@ -1,31 +1,48 @@
 /**
  * Hugging Face Inference Service
- * Uses the official @huggingface/inference library with InferenceClient
+ * Text generation entry point; the backend is chosen by the LLM provider abstraction
  */
 
-import { InferenceClient, InferenceClientProviderApiError } from '@huggingface/inference';
-import { HUGGINGFACE_MODELS } from '@/src/shared/constants';
+import { InferenceClientProviderApiError } from '@huggingface/inference';
+import { CACHE_CONFIG, HUGGINGFACE_MODELS } from '@/src/shared/constants';
+import { getLLMProvider } from '@/src/infrastructure/providers/llmProvider';
+import {
+  generateWithFallback,
+  streamWithFallback,
+  FallbackChainError,
+} from '@/src/infrastructure/inference/fallbackChain';
+import { recordInference } from '@/src/infrastructure/inference/inferenceTrace';
+import { measureUsage, recordUsage, resolveFeature } from '@/src/infrastructure/inference/usageLedger';
+import {
+  CACHE_NAMESPACES,
+  createCacheKey,
+  getCached,
+  setCached,
+} from '@/src/infrastructure/inference/responseCache';
+import { runHealthCheck } from '@/src/infrastructure/services/providerHealth.service';
+import { renderPromptWithinBudget, type BudgetedPrompt } from '@/src/infrastructure/inference/tokenBudget';
+import type {
+  ConnectionVerification,
+  InferenceFeature,
+  InferenceProviderInfo,
+  InferenceRecord,
+  TokenBudgetReport,
+} from '@/src/shared/types';
 
 /**
- * Provider information
+ * Reply length for generated CVs (tokens)
  */
-interface ProviderInfo {
-  name: string;
-  enabled: boolean;
-  active: boolean;
-  status?: string;
-  models?: string[];
-}
+const CV_MAX_OUTPUT_TOKENS = 2000;
 
 /**
- * Connection status tracking
+ * Connection status tracking, updated by verifyConnection
  */
 let connectionStatus: {
   initialized: boolean;
   lastCheck: Date | null;
   tokenFound: boolean;
   tokenPrefix: string;
-  providers?: ProviderInfo[];
+  providers?: InferenceProviderInfo[];
 } = {
   initialized: false,
   lastCheck: null,
@@ -35,105 +52,125 @@ let connectionStatus: {
 };
 
 /**
- * Initialize Hugging Face client
- * Reads token from environment variables
+ * Result of a generation call together with the model that answered
  */
-function getHfClient(): InferenceClient {
-  // Try multiple environment variable names for flexibility
-  const token =
-    process.env.HUGGINGFACE_API_TOKEN ||
-    process.env.NEXT_PUBLIC_HUGGINGFACE_API_TOKEN ||
-    process.env.HF_TOKEN ||
-    process.env.HF_API_TOKEN;
-
-  // Create InferenceClient (newer API)
-  const client = new InferenceClient(token);
-
-  
-  return client;
+export interface GenerateTextResult {
+  text: string;
+  inference: InferenceRecord;
 }
 
+/**
+ * Per-call generation options
+ */
+export interface GenerateTextOptions {
+  // Set to false to always call the model, e.g. when the user asks for a fresh CV
+  cache?: boolean;
+  // Registry prompt that produced the text ("<id>@<version>"), recorded on the inference record
+  promptVersion?: string;
+  // Token budget applied to the prompt, recorded on the inference record
+  budget?: TokenBudgetReport;
+  // Feature the usage is booked to; defaults to the id of the registry prompt
+  feature?: InferenceFeature;
+}
 
+/**
+ * Tag an inference record with the prompt version and budget, when known
+ */
+function tagInference(
+  inference: InferenceRecord,
+  { promptVersion, budget }: GenerateTextOptions
+): InferenceRecord {
+  return {
+    ...inference,
+    ...(promptVersion && { promptVersion }),
+    ...(budget && { budget }),
+  };
+}
 
-
-
-
-
-
+/**
+ * Attach usage to a finished call's record and add it to the usage ledger and the request trace
+ */
+function finishInference(
+  inference: InferenceRecord,
+  prompt: string,
+  output: string,
+  startTime: number,
+  options: GenerateTextOptions
+): InferenceRecord {
+  const tagged = tagInference(inference, options);
+  const feature = resolveFeature(options.promptVersion, options.feature);
+  const finished = { ...tagged, usage: measureUsage(tagged, prompt, output, feature, Date.now() - startTime) };
+  recordUsage(finished);
+  recordInference(finished);
+  return finished;
+}
 
 /**
- * Generate text using Hugging Face model
- * Uses chatCompletion for conversational models, textGeneration for others
+ * Generate text using the configured LLM provider
+ * Hugging Face by default; see LLM_PROVIDER_CONFIG for local and mock providers
  */
 export async function generateText(
   prompt: string,
   model: string = HUGGINGFACE_MODELS.CV_GENERATION,
-  maxLength: number = 2000
+  maxLength: number = 2000,
+  options: GenerateTextOptions = {}
 ): Promise<string> {
-  const client = getHfClient();
-
-  // Determine which API to use based on model type
-  // Models that typically use chat completion: Llama, Mistral, GLM, Qwen, etc.
-  const requiresConversational = 
-    model.includes('mistralai') || 
-    model.includes('Mistral') ||
-    model.includes('llama') ||
-    model.includes('Llama') ||
-    model.includes('meta-llama') ||
-    model.includes('GLM') ||
-    model.includes('glm') ||
-    model.includes('Qwen') ||
-    model.includes('qwen') ||
-    model.includes('chat') ||
-    model.includes('instruct') ||
-    model.includes('Instruct');
+  const result = await generateTextWithMetadata(prompt, model, maxLength, options);
+  return result.text;
+}
+
+/**
+ * Generate text and report which model answered
+ * Walks the fallback chain and records the outcome in the active inference trace
+ */
+export async function generateTextWithMetadata(
+  prompt: string,
+  model: string = HUGGINGFACE_MODELS.CV_GENERATION,
+  maxLength: number = 2000,
+  options: GenerateTextOptions = {}
+): Promise<GenerateTextResult> {
+  const provider = getLLMProvider();
+  const startTime = Date.now();
+  const useCache = options.cache !== false;
+  // Keyed by everything that changes the output; temperature and top_p are the provider defaults
+  const cacheKey = createCacheKey({ provider: provider.name, prompt, model, maxLength });
+
+  if (useCache) {
+    const cached = await getCached<GenerateTextResult>(CACHE_NAMESPACES.GENERATION, cacheKey);
+    if (cached) {
+      const inference = finishInference({ ...cached.inference, cached: true }, prompt, cached.text, startTime, options);
+      return { text: cached.text, inference };
+    }
+  }
 
   try {
-    if (requiresConversational) {
-      // Use chatCompletion for conversational models (like GLM-4.7-Flash)
-      // Note: No provider specified - library will automatically select the best available provider
-      const completion = await client.chatCompletion({
-        model: "zai-org/GLM-4.7-Flash",
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        max_tokens: maxLength,
-        temperature: 0.7,
-        top_p: 0.9,
-        // No provider specified - InferenceClient will auto-select from enabled providers
-      });
-
-      const generatedText = completion.choices[0]?.message?.content;
-      if (!generatedText) {
-        throw new Error('Model returned empty response');
-      }
-      
-      return generatedText;
-    } else {
-      // Use textGeneration for other models
-      // Note: No provider specified - library will automatically select the best available provider
-      const response = await client.textGeneration({
-        model: "zai-org/GLM-4.7-Flash",
-        inputs: prompt,
-        parameters: {
-          max_new_tokens: maxLength,
-          temperature: 0.7,
-          top_p: 0.9,
-          do_sample: true,
-          return_full_text: false,
-        },
-        // No provider specified - InferenceClient will auto-select from enabled providers
-      });
-
-      return response.generated_text || '';
+    const result = await generateWithFallback(provider, {
+      prompt,
+      model,
+      maxTokens: maxLength,
+    });
+    const tagged: GenerateTextResult = {
+      text: result.text,
+      inference: finishInference(result.inference, prompt, result.text, startTime, options),
+    };
+
+    if (useCache) {
+      await setCached(CACHE_NAMESPACES.GENERATION, cacheKey, tagged, CACHE_CONFIG.GENERATION_TTL_MS);
+    }
+    return tagged;
+  } catch (chainError) {
+    if (!(chainError instanceof FallbackChainError)) {
+      throw chainError;
     }
-  } catch (error: any) {
+    finishInference(chainError.inference, prompt, '', startTime, options);
+
+    const error: any = chainError.lastError;
+
     // Enhanced error diagnostics
     console.error('[HF] ❌ Generation error:', {
       model,
+      provider: provider.name,
+      attempts: chainError.inference.attempts.map((a) => `${a.model}: ${a.outcome}`),
       errorType: error?.constructor?.name,
       errorMessage: error?.message,
       errorStack: error?.stack?.substring(0, 500),
@@ -149,83 +186,7 @@ export async function generateText(
       error?.message?.includes('InferenceClientProviderApiError');
     
     if (isProviderError) {
-      console.error('[HF] 🔍 ProviderApiError Diagnostics:');
-      console.error('[HF]   - This usually means no inference providers are enabled');
-      console.error('[HF]   - Or the model is not available through any provider');
-      console.error('[HF]   - Or there was an HTTP error when requesting the provider');
-      console.error('[HF]   - Check: https://hf.co/settings/inference-providers');
-      
-      // Try to extract more details from the error
-      // InferenceClientProviderApiError has httpRequest and httpResponse properties
-      if (error.httpRequest) {
-        console.error('[HF]   HTTP Request Details:', {
-          url: error.httpRequest?.url,
-          method: error.httpRequest?.method,
-          headers: error.httpRequest?.headers ? Object.keys(error.httpRequest.headers) : 'N/A',
-        });
-      }
-      
-      if (error.httpResponse) {
-        const responseBody = error.httpResponse?.body;
-        let parsedBody = responseBody;
-        try {
-          if (typeof responseBody === 'string') {
-            parsedBody = JSON.parse(responseBody);
-          }
-        } catch {
-          // Keep as string if not JSON
-        }
-        
-        console.error('[HF]   HTTP Response Details:', {
-          status: error.httpResponse?.status,
-          statusText: error.httpResponse?.statusText,
-          body: parsedBody,
-        });
-        
-        // Log specific error messages from response
-        if (parsedBody && typeof parsedBody === 'object') {
-          if (parsedBody.error) {
-            console.error('[HF]   Provider Error:', parsedBody.error);
-          }
-          if (parsedBody.message) {
-            console.error('[HF]   Provider Message:', parsedBody.message);
-          }
-          if (parsedBody.detail) {
-            console.error('[HF]   Provider Detail:', parsedBody.detail);
-          }
-        }
-      }
-      
-      // Log the full error for debugging
-      console.error('[HF]   Full Error Object:', {
-        name: error.name,
-        message: error.message,
-        constructor: error.constructor?.name,
-      });
-
-      // Try fallback models if primary model fails
-      const fallbackModels = [
-        HUGGINGFACE_MODELS.GLM_FLASH,
-        HUGGINGFACE_MODELS.FALLBACK,
-        HUGGINGFACE_MODELS.ALTERNATIVE_FALLBACK,
-        HUGGINGFACE_MODELS.LAST_RESORT,
-      ];
-
-      if (!fallbackModels.includes(model as any)) {
-        console.log(`[HF] 🔄 Primary model (${model}) failed, trying fallback models...`);
-        
-        for (const fallbackModel of fallbackModels) {
-          try {
-            console.log(`[HF] 🔄 Trying fallback model: ${fallbackModel}`);
-            const fallbackResult = await generateText(prompt, fallbackModel, maxLength);
-            console.log(`[HF] ✅ Fallback model ${fallbackModel} succeeded`);
-            return fallbackResult;
-          } catch (fallbackError) {
-            console.error(`[HF] ❌ Fallback model ${fallbackModel} failed:`, fallbackError instanceof Error ? fallbackError.message : String(fallbackError));
-            continue;
-          }
-        }
-      }
+      logProviderErrorDiagnostics(error);
 
       // Provide helpful error message
       const diagnosticMessage = `
@@ -243,7 +204,7 @@ DIAGNOSIS:
 3. Model availability:
    - Model: ${model}
    - This model may not be available through your enabled providers
-   - Tried fallback models but all failed
+   - Tried fallback models but all failed: ${chainError.inference.attempts.map((a) => a.model).join(', ')}
 
 4. Common solutions:
    - Enable Novita or Together provider (most reliable)
@@ -256,28 +217,197 @@ See HUGGINGFACE_SETUP.md for detailed instructions.
       throw new Error(diagnosticMessage);
     }
 
-    // Re-throw other errors as-is
-    throw error;
+    // Re-throw other errors as-is, or the chain summary when nothing was attempted
+    throw error ?? chainError;
+  }
+}
+
+/**
+ * Stream text using the configured LLM provider
+ * Falls back to the next model only until the first chunk arrives; options.signal cancels the stream
+ */
+export async function* streamText(
+  prompt: string,
+  model: string = HUGGINGFACE_MODELS.CV_GENERATION,
+  maxLength: number = 2000,
+  options: Omit<GenerateTextOptions, 'cache'> & { signal?: AbortSignal } = {}
+): AsyncGenerator<string> {
+  const provider = getLLMProvider();
+  const startTime = Date.now();
+  let output = '';
+
+  // onComplete runs after the last chunk has been relayed, so `output` is complete by then
+  const chunks = streamWithFallback(
+    provider,
+    {
+      prompt,
+      model,
+      maxTokens: maxLength,
+      signal: options.signal,
+    },
+    (inference) => finishInference(inference, prompt, output, startTime, options)
+  );
+  for await (const chunk of chunks) {
+    output += chunk;
+    yield chunk;
+  }
+}
+
+/**
+ * Verify the connection to the configured provider
+ * Runs the health check (token, probes, provider discovery) and updates the connection status
+ */
+export async function verifyConnection(): Promise<ConnectionVerification> {
+  const report = await runHealthCheck();
+  const workingProbe = report.models.find((probe) => probe.ok);
+  const failedProbe = report.models.find((probe) => !probe.ok);
+
+  connectionStatus = {
+    initialized: true,
+    lastCheck: new Date(report.checkedAt),
+    tokenFound: report.token?.found ?? false,
+    tokenPrefix: report.token?.prefix ?? '',
+    providers: report.inferenceProviders,
+  };
+
+  return {
+    connected: report.healthy,
+    tokenFound: connectionStatus.tokenFound,
+    tokenPrefix: connectionStatus.tokenPrefix,
+    providers: report.inferenceProviders,
+    models: report.models,
+    latencyMs: workingProbe?.latencyMs ?? report.token?.latencyMs,
+    error: report.healthy ? undefined : report.token?.error ?? failedProbe?.error,
+    timestamp: connectionStatus.lastCheck ?? new Date(),
+  };
+}
+
+/**
+ * Status recorded by the last verifyConnection call
+ */
+export function getConnectionStatus(): typeof connectionStatus {
+  return { ...connectionStatus };
+}
+
+/**
+ * Log details of an InferenceClientProviderApiError
+ */
+function logProviderErrorDiagnostics(error: any): void {
+  console.error('[HF] 🔍 ProviderApiError Diagnostics:');
+  console.error('[HF]   - This usually means no inference providers are enabled');
+  console.error('[HF]   - Or the model is not available through any provider');
+  console.error('[HF]   - Or there was an HTTP error when requesting the provider');
+  console.error('[HF]   - Check: https://hf.co/settings/inference-providers');
+  
+  // Try to extract more details from the error
+  // InferenceClientProviderApiError has httpRequest and httpResponse properties
+  if (error.httpRequest) {
+    console.error('[HF]   HTTP Request Details:', {
+      url: error.httpRequest?.url,
+      method: error.httpRequest?.method,
+      headers: error.httpRequest?.headers ? Object.keys(error.httpRequest.headers) : 'N/A',
+    });
   }
+  
+  if (error.httpResponse) {
+    const responseBody = error.httpResponse?.body;
+    let parsedBody = responseBody;
+    try {
+      if (typeof responseBody === 'string') {
+        parsedBody = JSON.parse(responseBody);
+      }
+    } catch {
+      // Keep as string if not JSON
+    }
+    
+    console.error('[HF]   HTTP Response Details:', {
+      status: error.httpResponse?.status,
+      statusText: error.httpResponse?.statusText,
+      body: parsedBody,
+    });
+    
+    // Log specific error messages from response
+    if (parsedBody && typeof parsedBody === 'object') {
+      if (parsedBody.error) {
+        console.error('[HF]   Provider Error:', parsedBody.error);
+      }
+      if (parsedBody.message) {
+        console.error('[HF]   Provider Message:', parsedBody.message);
+      }
+      if (parsedBody.detail) {
+        console.error('[HF]   Provider Detail:', parsedBody.detail);
+      }
+    }
+  }
+  
+  // Log the full error for debugging
+  console.error('[HF]   Full Error Object:', {
+    name: error.name,
+    message: error.message,
+    constructor: error.constructor?.name,
+  });
+}
+
+/**
+ * Job analysis fields used to tailor the CV prompt
+ */
+export interface CVGenerationContext {
+  businessType: string;
+  industry: string;
+  candidateProfile: {
+    experienceLevel: string;
+    keySkills: string[];
+  };
+  writingStyle: string;
+  domainStandards: string;
 }
 
 /**
  * Generate CV content with job analysis
+ * The prompt version is recorded on the inference record of the call
  */
 export async function generateCV(
   jobDescription: string,
   cvData: string,
-  jobAnalysis?: {
-    businessType: string;
-    industry: string;
-    candidateProfile: {
-      experienceLevel: string;
-      keySkills: string[];
-    };
-    writingStyle: string;
-    domainStandards: string;
-  }
+  jobAnalysis?: CVGenerationContext
 ): Promise<string> {
+  const prompt = buildCVPrompt(jobDescription, cvData, jobAnalysis);
+
+  // Never cached: asking again should produce a fresh CV
+  return generateText(prompt.text, HUGGINGFACE_MODELS.CV_GENERATION, CV_MAX_OUTPUT_TOKENS, {
+    cache: false,
+    promptVersion: prompt.ref,
+    budget: prompt.budget,
+  });
+}
+
+/**
+ * Stream CV content with job analysis, chunk by chunk
+ * Aborting the signal stops generation at the provider
+ */
+export function streamCV(
+  jobDescription: string,
+  cvData: string,
+  jobAnalysis?: CVGenerationContext,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const prompt = buildCVPrompt(jobDescription, cvData, jobAnalysis);
+  return streamText(prompt.text, HUGGINGFACE_MODELS.CV_GENERATION, CV_MAX_OUTPUT_TOKENS, {
+    promptVersion: prompt.ref,
+    budget: prompt.budget,
+    signal,
+  });
+}
+
+/**
+ * Render the CV optimization prompt from the registry
+ * A CV or job description too long for the model is trimmed, the raw CV text first
+ */
+function buildCVPrompt(
+  jobDescription: string,
+  cvData: string,
+  jobAnalysis?: CVGenerationContext
+): BudgetedPrompt {
   const analysisContext = jobAnalysis
     ? `
 Business Context:
@@ -290,28 +420,23 @@ Business Context:
 `
     : '';
 
-  const prompt = `You are a professional CV optimizer. Your task is to create an optimized CV that matches the job description.
-
-Job Description:
-${jobDescription}
-${analysisContext}
-Original CV/Information:
-${cvData}
-
-Instructions:
-1. Analyze the job description to identify key requirements, skills, and qualifications
-2. Tailor the CV to highlight relevant experience and skills that match the job
-3. Use ${jobAnalysis?.writingStyle || 'professional'} language and formatting
-4. Follow ${jobAnalysis?.domainStandards || 'standard professional CV format'} for this domain
-5. Ensure all sections are well-structured and easy to read
-6. Match keywords from the job description naturally
-7. Focus on achievements and impact, especially for ${jobAnalysis?.candidateProfile.experienceLevel || 'professional'} level roles
-8. Keep the CV concise but comprehensive
-9. Highlight skills: ${jobAnalysis?.candidateProfile.keySkills.join(', ') || 'all relevant skills'}
-
-Generate the optimized CV in a professional format:`;
-
-  return generateText(prompt, HUGGINGFACE_MODELS.CV_GENERATION);
+  return renderPromptWithinBudget(
+    'cv-generation',
+    {
+      jobDescription,
+      analysisContext,
+      cvData,
+      writingStyle: jobAnalysis?.writingStyle || 'professional',
+      domainStandards: jobAnalysis?.domainStandards || 'standard professional CV format',
+      experienceLevel: jobAnalysis?.candidateProfile.experienceLevel || 'professional',
+      keySkills: jobAnalysis?.candidateProfile.keySkills.join(', ') || 'all relevant skills',
+    },
+    {
+      model: HUGGINGFACE_MODELS.CV_GENERATION,
+      maxOutputTokens: CV_MAX_OUTPUT_TOKENS,
+      truncatable: ['cvData', 'jobDescription'],
+    }
+  );
 }
 
 /**
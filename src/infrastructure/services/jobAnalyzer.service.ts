@@ -1,83 +1,168 @@
 /**
  * Job Description Analyzer Service
- * Analyzes job descriptions to extract business type, candidate profile, values, and requirements
+ * Analyzes job descriptions to extract business type, candidate profile, values, and requirements,
+ * plus rule-based facts (salary, work arrangement, location, visa, contract, years of experience)
+ * and requirement classes (required/preferred/bonus, category)
  */
 
-import { generateText } from './huggingface.service';
-import { HUGGINGFACE_MODELS } from '@/src/shared/constants';
-
-export interface JobAnalysis {
-  businessType: string;
-  industry: string;
-  candidateProfile: {
-    experienceLevel: string;
-    keySkills: string[];
-    personalityTraits: string[];
-    education: string;
-  };
-  values: string[];
-  keyRequirements: string[];
-  writingStyle: string;
-  domainStandards: string;
-  missingInfo: string[];
-}
+import { CACHE_CONFIG, HUGGINGFACE_MODELS, JOB_IMPORT_CONFIG } from '@/src/shared/constants';
+import {
+  CACHE_NAMESPACES,
+  createCacheKey,
+  getCached,
+  setCached,
+} from '@/src/infrastructure/inference/responseCache';
+import { generateStructured, StructuredOutputError } from '@/src/infrastructure/inference/structuredOutput';
+import { jobAnalysisSchema, type ModelJobAnalysis } from '@/src/infrastructure/inference/schemas';
+import { renderChunkedPrompts } from '@/src/infrastructure/inference/tokenBudget';
+import { extractJobFacts } from '@/src/infrastructure/jobs/jobFacts';
+import { extractRequirements as extractPostingRequirements } from '@/src/infrastructure/jobs/jobPosting';
+import { classifyRequirements } from '@/src/infrastructure/jobs/requirementClassifier';
+import { canonicalSkillName, findSkills } from '@/src/infrastructure/skills/skillMatcher';
+import { uniqueStrings } from '@/src/shared/utils/text';
+import type { JobAnalysis, JobFacts } from '@/src/shared/types';
+
+export type { JobAnalysis };
+
+/**
+ * Reply length for one job analysis call (tokens)
+ */
+const ANALYSIS_MAX_OUTPUT_TOKENS = 2000;
+
+/**
+ * missingInfo topics the rule-based facts can settle
+ */
+const FACT_TOPICS: ReadonlyArray<[RegExp, (facts: JobFacts) => boolean]> = [
+  [/salary|compensation|\bpay\b|remuneration/i, (facts) => facts.salary !== undefined],
+  [
+    /remote|hybrid|on-?site|work(?:ing)? (?:arrangement|model)|location/i,
+    (facts) => facts.workArrangement !== undefined || facts.locations.length > 0,
+  ],
+  [/visa|sponsor/i, (facts) => facts.visaSponsorship !== undefined],
+  [/contract|employment type/i, (facts) => facts.contractType !== undefined],
+  [/years? of experience/i, (facts) => facts.yearsOfExperience !== undefined],
+];
 
 /**
  * Analyze job description comprehensively
+ * The model reads the business context; salary, location and other hard facts are read by rules and merged in,
+ * and every key requirement is classified against the section of the description it came from
  */
 export async function analyzeJobDescription(
   jobDescription: string
 ): Promise<JobAnalysis> {
-  const analysisPrompt = `You are a professional job description analyzer. Analyze the following job description comprehensively.
-
-Job Description:
-${jobDescription}
-
-Provide a detailed analysis in the following JSON format:
-{
-  "businessType": "Type of business/company (e.g., 'Tech Startup', 'Financial Services', 'Healthcare')",
-  "industry": "Industry sector",
-  "candidateProfile": {
-    "experienceLevel": "Junior/Mid/Senior/Executive",
-    "keySkills": ["skill1", "skill2", "skill3"],
-    "personalityTraits": ["trait1", "trait2"],
-    "education": "Required education level"
-  },
-  "values": ["value1", "value2", "value3"],
-  "keyRequirements": ["requirement1", "requirement2"],
-  "writingStyle": "Professional/Casual/Technical/Creative",
-  "domainStandards": "Domain-specific CV writing standards (e.g., 'Software: Focus on impact and metrics', 'Marketing: Focus on campaigns and ROI')",
-  "missingInfo": ["What information might be missing from a typical CV"]
+  const analysis = await analyzeWithModel(jobDescription);
+  return mergeJobFacts(analysis, extractJobFacts(jobDescription), jobDescription);
 }
 
-Be specific and detailed. Focus on what the employer values and what they're looking for in a candidate.`;
+/**
+ * Attach the facts, dropping missingInfo entries the facts answer (the model often reports a salary it overlooked)
+ * Key skills are renamed to their taxonomy names, so "node", "NodeJS" and "Node.js" become one skill
+ */
+function mergeJobFacts(analysis: ModelJobAnalysis, facts: JobFacts, jobDescription: string): JobAnalysis {
+  const settled = (item: string) => FACT_TOPICS.some(([topic, isKnown]) => topic.test(item) && isKnown(facts));
+  return {
+    ...analysis,
+    candidateProfile: {
+      ...analysis.candidateProfile,
+      keySkills: uniqueStrings(analysis.candidateProfile.keySkills.map(canonicalSkillName)),
+    },
+    missingInfo: analysis.missingInfo.filter((item) => !settled(item)),
+    facts,
+    requirements: classifyRequirements(analysis.keyRequirements, jobDescription),
+  };
+}
+
+/**
+ * Model part of the analysis
+ * Successful analyses are cached by the normalized job description text
+ * Descriptions too long for the model are analyzed in chunks and the results merged
+ */
+async function analyzeWithModel(jobDescription: string): Promise<ModelJobAnalysis> {
+  const prompts = renderChunkedPrompts('job-analysis', { jobDescription }, 'jobDescription', {
+    model: HUGGINGFACE_MODELS.CV_GENERATION,
+    maxOutputTokens: ANALYSIS_MAX_OUTPUT_TOKENS,
+  });
+  // A new prompt version must not be served analyses produced by the old one
+  const cacheKey = createCacheKey({
+    jobDescription: jobDescription.trim().replace(/\s+/g, ' '),
+    model: HUGGINGFACE_MODELS.CV_GENERATION,
+    prompt: prompts[0].ref,
+  });
+  const cached = await getCached<ModelJobAnalysis>(CACHE_NAMESPACES.JOB_ANALYSIS, cacheKey);
+  if (cached) {
+    console.log('[Cache] Job analysis served from cache');
+    return cached;
+  }
 
   try {
-    const response = await generateText(
-      analysisPrompt,
-      HUGGINGFACE_MODELS.CV_GENERATION,
-      2000
-    );
-
-    // Try to extract JSON from response
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]) as JobAnalysis;
+    const analyses: ModelJobAnalysis[] = [];
+    for (const prompt of prompts) {
+      analyses.push(
+        await generateStructured({
+          prompt: prompt.text,
+          promptVersion: prompt.ref,
+          budget: prompt.budget,
+          schema: jobAnalysisSchema,
+          label: 'job analysis',
+          model: HUGGINGFACE_MODELS.CV_GENERATION,
+          maxLength: ANALYSIS_MAX_OUTPUT_TOKENS,
+          // The merged analysis is cached below
+          cache: false,
+        })
+      );
     }
+    const analysis = analyses.length === 1 ? analyses[0] : mergeJobAnalyses(analyses);
 
-    // Fallback: return structured analysis
-    return parseAnalysisFromText(response);
+    // Only schema-valid model answers reach the cache (raw replies never do), so prose and heuristic
+    // fallbacks are retried next time
+    await setCached(CACHE_NAMESPACES.JOB_ANALYSIS, cacheKey, analysis, CACHE_CONFIG.JOB_ANALYSIS_TTL_MS);
+    return analysis;
   } catch (error) {
+    // Fallback: the model answered in prose, pull what we can from it
+    if (error instanceof StructuredOutputError && error.failure === 'no_json') {
+      return parseAnalysisFromText(error.rawResponse);
+    }
+
     console.error('Job analysis error:', error);
     // Return basic analysis as fallback
     return getBasicAnalysis(jobDescription);
   }
 }
 
+/**
+ * Reduce step for chunked analysis: the first chunk (title, company intro) wins for
+ * descriptive fields, lists are combined, the most common experience level is kept
+ */
+function mergeJobAnalyses(analyses: ModelJobAnalysis[]): ModelJobAnalysis {
+  const [first] = analyses;
+  const merge = (pick: (analysis: ModelJobAnalysis) => string[]) => uniqueStrings(analyses.flatMap(pick));
+
+  const levelCounts = new Map<string, number>();
+  for (const analysis of analyses) {
+    const level = analysis.candidateProfile.experienceLevel;
+    levelCounts.set(level, (levelCounts.get(level) ?? 0) + 1);
+  }
+  const experienceLevel = Array.from(levelCounts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+
+  return {
+    ...first,
+    candidateProfile: {
+      experienceLevel,
+      keySkills: merge((a) => a.candidateProfile.keySkills),
+      personalityTraits: merge((a) => a.candidateProfile.personalityTraits),
+      education: first.candidateProfile.education,
+    },
+    values: merge((a) => a.values),
+    keyRequirements: merge((a) => a.keyRequirements),
+    missingInfo: merge((a) => a.missingInfo),
+  };
+}
+
 /**
  * Parse analysis from text response
  */
-function parseAnalysisFromText(text: string): JobAnalysis {
+function parseAnalysisFromText(text: string): ModelJobAnalysis {
   // Extract key information using regex patterns
   const businessTypeMatch = text.match(/businessType["\s:]+([^",\n]+)/i);
   const industryMatch = text.match(/industry["\s:]+([^",\n]+)/i);
@@ -138,13 +223,13 @@ function extractRequirements(text: string): string[] {
     }
   }
 
-  return requirements.slice(0, 10); // Limit to 10 requirements
+  return requirements.slice(0, JOB_IMPORT_CONFIG.MAX_REQUIREMENTS);
 }
 
 /**
  * Get basic analysis as fallback
  */
-function getBasicAnalysis(jobDescription: string): JobAnalysis {
+function getBasicAnalysis(jobDescription: string): ModelJobAnalysis {
   const lowerDesc = jobDescription.toLowerCase();
   
   return {
@@ -157,7 +242,8 @@ function getBasicAnalysis(jobDescription: string): JobAnalysis {
       education: 'Not specified',
     },
     values: [],
-    keyRequirements: extractRequirements(jobDescription),
+    // Section-aware, so "Nice to have" items are kept for classification
+    keyRequirements: extractPostingRequirements(jobDescription),
     writingStyle: 'Professional',
     domainStandards: 'Standard professional CV format',
     missingInfo: [],
@@ -168,32 +254,5 @@ function getBasicAnalysis(jobDescription: string): JobAnalysis {
  * Extract skills from job description text
  */
 function extractSkillsFromText(text: string): string[] {
-  const commonSkills = [
-    'javascript',
-    'python',
-    'react',
-    'node',
-    'sql',
-    'aws',
-    'docker',
-    'kubernetes',
-    'agile',
-    'scrum',
-    'leadership',
-    'communication',
-    'project management',
-    'data analysis',
-    'machine learning',
-  ];
-
-  const foundSkills: string[] = [];
-  const lowerText = text.toLowerCase();
-
-  for (const skill of commonSkills) {
-    if (lowerText.includes(skill)) {
-      foundSkills.push(skill.charAt(0).toUpperCase() + skill.slice(1));
-    }
-  }
-
-  return foundSkills;
+  return findSkills(text).map((skill) => skill.name);
 }
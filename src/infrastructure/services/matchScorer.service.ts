@@ -0,0 +1,298 @@
+/**
+ * Match Scorer Service
+ * Deterministic CV match score built from weighted components, each with the evidence behind it
+ */
+
+import { MATCH_SCORE_CONFIG } from '@/src/shared/constants';
+import { classifyRequirement, requirementsOf } from '@/src/infrastructure/jobs/requirementClassifier';
+import type { JobAnalysis, RequirementPriority } from '@/src/shared/types';
+import type { ExperienceFit } from './experienceTimeline.service';
+import type { RequirementEvidence, RequirementMatching } from './semanticMatcher.service';
+
+export type ScoreComponentId = 'must-have' | 'nice-to-have' | 'skills' | 'seniority' | 'education' | 'keywords';
+
+/**
+ * One part of the match score
+ */
+export interface ScoreComponent {
+  id: ScoreComponentId;
+  label: string;
+  weight: number; // configured share of the total
+  applicable: boolean; // false when the job gives nothing to score against
+  score: number; // 0-100
+  points: number; // contribution to the total, after unscored weights are shared out
+  evidence: string[];
+}
+
+export interface MatchScoreBreakdown {
+  total: number; // 0-100
+  components: ScoreComponent[];
+  matching: RequirementMatching; // Vectors the requirements were matched with; scores are comparable only for the same ones
+  asOf: string; // YYYY-MM that roles running to the present were counted up to
+}
+
+/**
+ * Everything the score is computed from
+ */
+export interface MatchScoreInput {
+  cvContent: string;
+  jobDescription: string;
+  jobAnalysis: JobAnalysis;
+  requirementEvidence: RequirementEvidence[];
+  matching: RequirementMatching;
+  skills: { matched: string[]; missing: string[] };
+  experience: ExperienceFit;
+}
+
+type ComponentResult = Pick<ScoreComponent, 'applicable' | 'score' | 'evidence'>;
+
+const NOT_APPLICABLE: ComponentResult = { applicable: false, score: 0, evidence: [] };
+
+// Within the nice-to-have component a preferred requirement counts twice as much as a bonus one
+const OPTIONAL_WEIGHTS: Record<Exclude<RequirementPriority, 'required'>, number> = { preferred: 2, bonus: 1 };
+
+/**
+ * "MA" / "BA" only where they name a degree ("MA in Economics", "BA (Hons) History", "BA/BS degree"),
+ * not a state after a comma ("Boston, MA") or a lone abbreviation
+ */
+function degreeAbbreviation(abbreviation: string): RegExp {
+  return new RegExp(
+    `(?:^|[^,\\s][ \\t]+|[(/][ \\t]*)${abbreviation}\\b(?=[ \\t]*(?:\\(?[Hh]ons\\b|\\/|in\\b|of\\b|or\\b|[Dd]egree\\b|[A-Z][a-z]))`,
+    'm'
+  );
+}
+
+// Degree levels, highest first; a bare "degree" only counts in the job description
+// "MA" and "BA" are matched case-sensitively, "Scrum Master" is not a degree
+const DEGREE_LEVELS: ReadonlyArray<[RegExp[], number, string]> = [
+  [[/\b(?:ph\.?\s?d|doctorate|doctoral)\b/i], 4, 'Doctorate'],
+  [[/\b(?:master'?s|master of|msc|m\.sc|mba|meng)\b/i, degreeAbbreviation('MA')], 3, "Master's"],
+  [[/\b(?:bachelor'?s|bachelor of|bsc|b\.sc|beng|undergraduate)\b/i, degreeAbbreviation('BA')], 2, "Bachelor's"],
+  [[/\b(?:associate'?s degree|diploma|hnd|hnc)\b/i], 1, 'Diploma'],
+];
+const GENERIC_DEGREE = /\bdegree\b/i;
+
+// Posting boilerplate that says nothing about the role
+const KEYWORD_STOP_WORDS = new Set([
+  'about', 'above', 'after', 'apply', 'being', 'benefits', 'candidate', 'candidates', 'company', 'could',
+  'every', 'excellent', 'experience', 'great', 'including', 'ideal', 'join', 'looking', 'other', 'offer',
+  'please', 'position', 'requirements', 'responsibilities', 'should', 'skills', 'strong', 'their', 'there',
+  'these', 'those', 'through', 'under', 'using', 'where', 'which', 'while', 'within', 'working', 'would',
+  'years', 'ability', 'across', 'knowledge', 'opportunity', 'role', 'must', 'will',
+]);
+
+/**
+ * Score a CV against a job from the evidence gathered for it
+ * Pure function of its input
+ */
+export function scoreCVMatch(input: MatchScoreInput): MatchScoreBreakdown {
+  const { WEIGHTS } = MATCH_SCORE_CONFIG;
+  const priorities = new Map(requirementsOf(input.jobAnalysis).map((r) => [r.text, r.priority]));
+  const priorityOf = (e: RequirementEvidence) =>
+    priorities.get(e.requirement) ?? classifyRequirement(e.requirement).priority;
+  const mustHave = input.requirementEvidence.filter((e) => priorityOf(e) === 'required');
+  const niceToHave = input.requirementEvidence.flatMap((e) => {
+    const priority = priorityOf(e);
+    return priority === 'required' ? [] : [{ ...e, weight: OPTIONAL_WEIGHTS[priority] }];
+  });
+
+  const parts: Array<[ScoreComponentId, string, number, ComponentResult]> = [
+    ['must-have', 'Must-have requirements', WEIGHTS.MUST_HAVE, scoreRequirements(mustHave)],
+    ['nice-to-have', 'Nice-to-have requirements', WEIGHTS.NICE_TO_HAVE, scoreRequirements(niceToHave)],
+    ['skills', 'Skills', WEIGHTS.SKILLS, scoreSkills(input.skills)],
+    ['seniority', 'Seniority fit', WEIGHTS.SENIORITY, scoreSeniority(input.experience)],
+    ['education', 'Education', WEIGHTS.EDUCATION, scoreEducation(input.cvContent, input.jobDescription, input.jobAnalysis)],
+    ['keywords', 'Keyword coverage', WEIGHTS.KEYWORDS, scoreKeywords(input.cvContent, input.jobDescription)],
+  ];
+
+  const applicableWeight = parts.reduce((sum, [, , weight, result]) => sum + (result.applicable ? weight : 0), 0);
+  const components = parts.map(([id, label, weight, result]): ScoreComponent => {
+    const share = result.applicable && applicableWeight > 0 ? weight / applicableWeight : 0;
+    return { id, label, weight, ...result, points: round(result.score * share, 1) };
+  });
+  const total = Math.round(components.reduce((sum, component) => sum + component.points, 0));
+
+  return {
+    total: Math.max(0, Math.min(100, total)),
+    components,
+    matching: input.matching,
+    asOf: input.experience.timeline.asOf,
+  };
+}
+
+/**
+ * Weighted share of requirements some CV line satisfies (all weights 1 unless given)
+ */
+function scoreRequirements(requirements: Array<RequirementEvidence & { weight?: number }>): ComponentResult {
+  if (requirements.length === 0) {
+    return NOT_APPLICABLE;
+  }
+
+  const total = requirements.reduce((sum, e) => sum + (e.weight ?? 1), 0);
+  const met = requirements.reduce((sum, e) => sum + (e.matched ? e.weight ?? 1 : 0), 0);
+  return {
+    applicable: true,
+    score: Math.round((met / total) * 100),
+    evidence: requirements.map((e) =>
+      e.matched ? `Met: "${e.requirement}" (CV: "${e.evidence}")` : `Not shown: "${e.requirement}"`
+    ),
+  };
+}
+
+/**
+ * Share of the job's key skills the CV shows
+ */
+function scoreSkills({ matched, missing }: MatchScoreInput['skills']): ComponentResult {
+  const total = matched.length + missing.length;
+  if (total === 0) {
+    return NOT_APPLICABLE;
+  }
+
+  return {
+    applicable: true,
+    score: Math.round((matched.length / total) * 100),
+    evidence: [
+      ...(matched.length > 0 ? [`Shown: ${matched.join(', ')}`] : []),
+      ...(missing.length > 0 ? [`Missing: ${missing.join(', ')}`] : []),
+    ],
+  };
+}
+
+/**
+ * Years, level and per-skill years from the CV timeline against what the job asks for
+ * Required years scale linearly; each seniority rank short of the job's costs more than the last
+ */
+function scoreSeniority(fit: ExperienceFit): ComponentResult {
+  const { timeline, years, seniority, requiredYears, requiredLevel, skillRequirements } = fit;
+  if (requiredYears === undefined && requiredLevel === undefined && skillRequirements.length === 0) {
+    return NOT_APPLICABLE;
+  }
+
+  if (years === undefined || !seniority) {
+    return {
+      applicable: true,
+      score: 50,
+      evidence: ['No dated roles or stated years of experience found in the CV'],
+    };
+  }
+
+  const scores: number[] = [];
+  const evidence =
+    timeline.datedRoles > 0
+      ? [
+          `CV shows ${years} year${years === 1 ? '' : 's'} across ${timeline.datedRoles} dated role${timeline.datedRoles === 1 ? '' : 's'}` +
+            (timeline.overlapYears > 0 ? ` (${timeline.overlapYears} overlapping years counted once)` : ''),
+          ...timeline.gaps.map((gap) => `Gap of ${gap.months} months (${gap.from} to ${gap.to})`),
+        ]
+      : [`CV states ${years} year${years === 1 ? '' : 's'} of experience`];
+  if (requiredYears !== undefined) {
+    scores.push(Math.min(100, Math.round((years / requiredYears) * 100)));
+    evidence.push(`Job asks for ${requiredYears}+ years`);
+  }
+  if (requiredLevel !== undefined) {
+    const gap = requiredLevel.rank - seniority.rank;
+    scores.push(gap <= 0 ? 100 : gap === 1 ? 60 : 20);
+    evidence.push(`Job level ${requiredLevel.label}; CV reads as ${seniority.label} (${seniority.basis})`);
+  }
+  for (const requirement of skillRequirements) {
+    scores.push(Math.min(100, Math.round((requirement.years / requirement.requiredYears) * 100)));
+    evidence.push(
+      `Job asks for ${requirement.requiredYears}+ years of ${requirement.skill}; CV roles show ${requirement.years}`
+    );
+  }
+
+  return {
+    applicable: true,
+    score: Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+    evidence,
+  };
+}
+
+/**
+ * Highest degree in the CV against the lowest degree the job accepts
+ * "Or equivalent experience" earns half marks without the degree
+ */
+function scoreEducation(cvContent: string, jobDescription: string, jobAnalysis: JobAnalysis): ComponentResult {
+  const profileEducation = jobAnalysis.candidateProfile.education;
+  const requirementText = [
+    /not specified|^none$|^n\/a$/i.test(profileEducation.trim()) ? '' : profileEducation,
+    ...jobDescription.split('\n').filter((line) => degreeLevel(line, true, 'lowest') !== undefined),
+  ].join('\n');
+
+  const required = degreeLevel(requirementText, true, 'lowest');
+  if (!required) {
+    return NOT_APPLICABLE;
+  }
+
+  const held = degreeLevel(cvContent, false, 'highest');
+  const equivalentAccepted = /equivalent|or similar|comparable experience/i.test(requirementText);
+  const gap = required.rank - (held?.rank ?? 0);
+  const score = gap <= 0 ? 100 : gap === 1 && held ? 60 : equivalentAccepted ? 50 : 0;
+
+  return {
+    applicable: true,
+    score,
+    evidence: [
+      `Job asks for ${required.label}${equivalentAccepted ? ' or equivalent' : ''}`,
+      held ? `CV shows ${held.label}` : 'No degree found in the CV',
+    ],
+  };
+}
+
+/**
+ * Share of the job description's most frequent terms that appear in the CV
+ */
+function scoreKeywords(cvContent: string, jobDescription: string): ComponentResult {
+  const counts = new Map<string, number>();
+  for (const word of significantWords(jobDescription)) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  const keywords = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MATCH_SCORE_CONFIG.KEYWORD_LIMIT)
+    .map(([word]) => word);
+  if (keywords.length === 0) {
+    return NOT_APPLICABLE;
+  }
+
+  const cvWords = new Set(significantWords(cvContent));
+  const found = keywords.filter((word) => cvWords.has(word));
+  const missing = keywords.filter((word) => !cvWords.has(word));
+  const coverage = found.length / keywords.length;
+
+  return {
+    applicable: true,
+    score: Math.min(100, Math.round((coverage / MATCH_SCORE_CONFIG.FULL_KEYWORD_COVERAGE) * 100)),
+    evidence: [
+      `Covers ${found.length} of ${keywords.length} key terms from the job description`,
+      ...(missing.length > 0 ? [`Not found: ${missing.slice(0, 10).join(', ')}`] : []),
+    ],
+  };
+}
+
+/**
+ * Highest or lowest degree level named in the text
+ */
+function degreeLevel(
+  text: string,
+  allowGeneric: boolean,
+  pick: 'highest' | 'lowest'
+): { rank: number; label: string } | undefined {
+  const levels = DEGREE_LEVELS.filter(([patterns]) => patterns.some((pattern) => pattern.test(text)));
+  if (levels.length === 0) {
+    return allowGeneric && GENERIC_DEGREE.test(text) ? { rank: 2, label: "Bachelor's" } : undefined;
+  }
+  const [, rank, label] = pick === 'highest' ? levels[0] : levels[levels.length - 1];
+  return { rank, label };
+}
+
+function significantWords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z0-9+#.-]*[a-z0-9+#]/g) ?? []).filter(
+    (word) => word.length > 4 && !KEYWORD_STOP_WORDS.has(word)
+  );
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,347 @@
+/**
+ * Provider Health Service
+ * Configuration check, token check, per-model probe requests and inference provider discovery shared by the API and scripts
+ */
+
+import { HEALTH_CHECK_CONFIG, HUGGINGFACE_MODELS } from '@/src/shared/constants';
+import { getLLMProvider } from '@/src/infrastructure/providers/llmProvider';
+import { getHuggingFaceToken } from '@/src/infrastructure/providers/huggingface.provider';
+import { buildFallbackChain, getErrorStatus } from '@/src/infrastructure/inference/fallbackChain';
+import { measureUsage, recordUsage } from '@/src/infrastructure/inference/usageLedger';
+import type { LLMProvider } from '@/src/infrastructure/providers/types';
+import type {
+  InferenceAttempt,
+  InferenceProviderInfo,
+  InferenceRecord,
+  ModelProbeResult,
+  ProviderHealthReport,
+  TokenCheckResult,
+} from '@/src/shared/types';
+
+/**
+ * Options for a health check run
+ */
+export interface HealthCheckOptions {
+  // Models to probe; defaults to the configured fallback chain
+  models?: string[];
+  // Set to false to skip probe requests (token check and discovery only)
+  probe?: boolean;
+}
+
+/**
+ * Fine-grained token permission needed to call Inference Providers
+ */
+const INFERENCE_PERMISSION = 'inference.serverless.write';
+
+/**
+ * Shape of the whoami-v2 response fields we use
+ */
+interface WhoAmIResponse {
+  name?: string;
+  auth?: {
+    accessToken?: {
+      role?: string;
+      fineGrained?: {
+        global?: string[];
+      };
+    };
+  };
+}
+
+/**
+ * Provider mapping entry as returned by the Hub (object or array form)
+ */
+interface ProviderMappingEntry {
+  provider?: string;
+  status?: string;
+}
+
+/**
+ * Models the app calls: the primary model followed by the fallback chain
+ */
+export function getConfiguredModels(): string[] {
+  return buildFallbackChain(HUGGINGFACE_MODELS.CV_GENERATION);
+}
+
+/**
+ * Requested models that are not in the configured chain (probing is limited to those)
+ */
+export function findUnconfiguredModels(models: string[]): string[] {
+  const configured = new Set(getConfiguredModels());
+  return models.filter((model) => !configured.has(model));
+}
+
+/**
+ * Redacted token prefix safe to log and return from the API
+ */
+function tokenPrefix(token: string): string {
+  return `${token.substring(0, 10)}...`;
+}
+
+/**
+ * Hub API path for a model id, encoded per segment so "org/name" keeps its slash
+ */
+function modelPath(model: string): string {
+  return model.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * What can be said about a token without asking the Hub
+ */
+function inspectToken(token: string | undefined): TokenCheckResult {
+  if (!token) {
+    return {
+      found: false,
+      prefix: '',
+      formatValid: false,
+      error: 'No Hugging Face token found. Set HUGGINGFACE_API_TOKEN in .env.local',
+    };
+  }
+  return { found: true, prefix: tokenPrefix(token), formatValid: token.startsWith('hf_') && token.length >= 20 };
+}
+
+/**
+ * Check that a Hugging Face token is present, well-formed and accepted by the Hub
+ */
+export async function checkToken(token: string | undefined = getHuggingFaceToken()): Promise<TokenCheckResult> {
+  const result = inspectToken(token);
+  if (!token) {
+    return result;
+  }
+
+  const startTime = Date.now();
+  try {
+    const response = await fetch(`${HEALTH_CHECK_CONFIG.HUB_API_URL}/whoami-v2`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: AbortSignal.timeout(HEALTH_CHECK_CONFIG.HUB_TIMEOUT_MS),
+    });
+    result.latencyMs = Date.now() - startTime;
+    result.status = response.status;
+
+    if (!response.ok) {
+      result.valid = false;
+      result.error = `Token rejected by Hugging Face (${response.status}): ${(await response.text()).substring(0, 200)}`;
+      return result;
+    }
+
+    const whoami = (await response.json()) as WhoAmIResponse;
+    const accessToken = whoami.auth?.accessToken;
+    result.valid = true;
+    result.user = whoami.name;
+    result.role = accessToken?.role;
+    // Read and write tokens can always call providers; fine-grained tokens need the permission ticked
+    result.canCallInferenceProviders =
+      accessToken?.role !== 'fineGrained' ||
+      (accessToken.fineGrained?.global ?? []).includes(INFERENCE_PERMISSION);
+  } catch (error) {
+    result.latencyMs = Date.now() - startTime;
+    result.error = error instanceof Error ? error.message : 'Token check failed';
+  }
+
+  return result;
+}
+
+/**
+ * Send a tiny generation request to one model and time it
+ * Goes straight to the provider: no cache, no fallback, no circuit breaker bookkeeping;
+ * the call is booked in the usage ledger like any other
+ */
+export async function probeModel(
+  model: string,
+  provider: LLMProvider = getLLMProvider()
+): Promise<ModelProbeResult> {
+  const startTime = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let result: ModelProbeResult;
+  let output = '';
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Probe timed out after ${HEALTH_CHECK_CONFIG.PROBE_TIMEOUT_MS}ms`)),
+        HEALTH_CHECK_CONFIG.PROBE_TIMEOUT_MS
+      );
+    });
+
+    output = await Promise.race([
+      provider.generate({
+        prompt: HEALTH_CHECK_CONFIG.PROBE_PROMPT,
+        model,
+        maxTokens: HEALTH_CHECK_CONFIG.PROBE_MAX_TOKENS,
+        temperature: 0.1,
+      }),
+      timeout,
+    ]);
+
+    result = { model, provider: provider.name, ok: true, latencyMs: Date.now() - startTime };
+  } catch (error) {
+    result = {
+      model,
+      provider: provider.name,
+      ok: false,
+      latencyMs: Date.now() - startTime,
+      status: getErrorStatus(error),
+      error: error instanceof Error ? error.message : 'Probe failed',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+
+  recordProbeUsage(result, output);
+  return result;
+}
+
+/**
+ * Book a probe in the usage ledger under the health-check feature
+ */
+function recordProbeUsage(result: ModelProbeResult, output: string): void {
+  const attempt: InferenceAttempt = result.ok
+    ? { model: result.model, outcome: 'success', retries: 0, durationMs: result.latencyMs }
+    : {
+        model: result.model,
+        outcome: 'failed',
+        retries: 0,
+        status: result.status,
+        error: result.error?.substring(0, 300),
+        durationMs: result.latencyMs,
+      };
+  const record: InferenceRecord = {
+    requestedModel: result.model,
+    model: result.ok ? result.model : null,
+    provider: result.provider,
+    fallbackHops: 0,
+    attempts: [attempt],
+  };
+  recordUsage({
+    ...record,
+    usage: measureUsage(record, HEALTH_CHECK_CONFIG.PROBE_PROMPT, output, 'health-check', result.latencyMs),
+  });
+}
+
+/**
+ * Normalize the Hub's inferenceProviderMapping (older responses use an object keyed by provider)
+ */
+function toMappingEntries(mapping: unknown): ProviderMappingEntry[] {
+  if (Array.isArray(mapping)) {
+    return mapping as ProviderMappingEntry[];
+  }
+  if (mapping && typeof mapping === 'object') {
+    return Object.entries(mapping as Record<string, ProviderMappingEntry>).map(([provider, entry]) => ({
+      ...entry,
+      provider,
+    }));
+  }
+  return [];
+}
+
+/**
+ * Discover which inference providers serve each model, merged per provider
+ */
+export async function discoverInferenceProviders(
+  models: string[] = getConfiguredModels(),
+  token: string | undefined = getHuggingFaceToken()
+): Promise<InferenceProviderInfo[]> {
+  const providers = new Map<string, InferenceProviderInfo>();
+
+  await Promise.all(
+    models.map(async (model) => {
+      try {
+        const response = await fetch(
+          `${HEALTH_CHECK_CONFIG.HUB_API_URL}/models/${modelPath(model)}?expand[]=inferenceProviderMapping`,
+          {
+            headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+            signal: AbortSignal.timeout(HEALTH_CHECK_CONFIG.HUB_TIMEOUT_MS),
+          }
+        );
+        if (!response.ok) {
+          console.warn(`[HF] Provider discovery for ${model} failed (${response.status})`);
+          return;
+        }
+
+        const info = (await response.json()) as { inferenceProviderMapping?: unknown };
+        for (const entry of toMappingEntries(info.inferenceProviderMapping)) {
+          if (!entry.provider) {
+            continue;
+          }
+
+          const existing = providers.get(entry.provider) ?? {
+            name: entry.provider,
+            enabled: true,
+            active: false,
+            models: [],
+          };
+          existing.models?.push(model);
+          if (entry.status === 'live') {
+            existing.active = true;
+          }
+          existing.status = existing.active ? 'live' : entry.status;
+          providers.set(entry.provider, existing);
+        }
+      } catch (error) {
+        console.warn(
+          `[HF] Provider discovery for ${model} failed:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    })
+  );
+
+  return Array.from(providers.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Liveness check from configuration alone: no Hub request and no model call, so it costs nothing to poll
+ * Healthy when the provider is set up (for Hugging Face: a well-formed token is present)
+ */
+export function checkConfiguration(): ProviderHealthReport {
+  const provider = getLLMProvider();
+  const token = provider.name === 'huggingface' ? inspectToken(getHuggingFaceToken()) : null;
+
+  return {
+    provider: provider.name,
+    healthy: token === null || token.formatValid,
+    token,
+    models: [],
+    inferenceProviders: [],
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Run the full health check for the active provider
+ * Probes are paid generation calls, so callers must restrict this to admins and to configured models
+ * Probes run one after another so a check never bursts the provider's rate limit
+ */
+export async function runHealthCheck(options: HealthCheckOptions = {}): Promise<ProviderHealthReport> {
+  const { models = getConfiguredModels(), probe = true } = options;
+  const provider = getLLMProvider();
+  const usesHuggingFace = provider.name === 'huggingface';
+
+  console.log(`[HF] 🩺 Running health check for provider ${provider.name} (${models.length} models)`);
+
+  const token = usesHuggingFace ? await checkToken() : null;
+  const inferenceProviders = usesHuggingFace && token?.valid ? await discoverInferenceProviders(models) : [];
+
+  const probes: ModelProbeResult[] = [];
+  if (probe && (!token || token.valid)) {
+    for (const model of models) {
+      const result = await probeModel(model, provider);
+      console.log(
+        `[HF] ${result.ok ? '✅' : '❌'} Probe ${model}: ${result.ok ? `${result.latencyMs}ms` : result.error}`
+      );
+      probes.push(result);
+    }
+  }
+
+  const tokenHealthy = token === null || token.valid === true;
+  const modelsHealthy = !probe || probes.some((result) => result.ok);
+
+  return {
+    provider: provider.name,
+    healthy: tokenHealthy && modelsHealthy,
+    token,
+    models: probes,
+    inferenceProviders,
+    checkedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Semantic Matcher Service
+ * Matches job requirements to the CV lines that satisfy them by sentence-embedding similarity
+ */
+
+import { SEMANTIC_MATCH_CONFIG } from '@/src/shared/constants';
+import { cosineSimilarity, embedTexts, type EmbeddingResult } from '@/src/infrastructure/inference/embeddings';
+import { uniqueStrings } from '@/src/shared/utils/text';
+
+/**
+ * Best CV evidence for one requirement
+ */
+export interface RequirementEvidence {
+  requirement: string;
+  matched: boolean;
+  similarity: number; // cosine similarity of the best line, rounded to 2 decimals
+  evidence?: string; // the CV line that satisfies the requirement, only when matched
+}
+
+/**
+ * Which vectors the requirements were matched with
+ * Similarities (and so the score) are only comparable between runs with the same method and model
+ */
+export type RequirementMatching = Pick<EmbeddingResult, 'method' | 'model' | 'degraded'>;
+
+/**
+ * Evidence per requirement and how it was found
+ */
+export interface SemanticMatchResult {
+  evidence: RequirementEvidence[];
+  matching: RequirementMatching;
+}
+
+const NOTHING_EMBEDDED: RequirementMatching = { method: 'local', model: 'none', degraded: false };
+
+/**
+ * Find the CV line that best supports each requirement
+ * A requirement is matched when its best line clears the similarity threshold for the vectors used
+ */
+export async function matchRequirementsSemantically(
+  requirements: string[],
+  cvContent: string
+): Promise<SemanticMatchResult> {
+  const lines = splitCVLines(cvContent);
+  if (requirements.length === 0) {
+    return { evidence: [], matching: NOTHING_EMBEDDED };
+  }
+  if (lines.length === 0) {
+    return {
+      evidence: requirements.map((requirement) => ({ requirement, matched: false, similarity: 0 })),
+      matching: NOTHING_EMBEDDED,
+    };
+  }
+
+  const { vectors, method, model, degraded } = await embedTexts([...requirements, ...lines]);
+  const threshold =
+    method === 'model' ? SEMANTIC_MATCH_CONFIG.SIMILARITY_THRESHOLD : SEMANTIC_MATCH_CONFIG.LOCAL_SIMILARITY_THRESHOLD;
+  const lineVectors = vectors.slice(requirements.length);
+
+  const results = requirements.map((requirement, index) => {
+    let best = { line: '', similarity: 0 };
+    lineVectors.forEach((vector, lineIndex) => {
+      const similarity = cosineSimilarity(vectors[index], vector);
+      if (similarity > best.similarity) {
+        best = { line: lines[lineIndex], similarity };
+      }
+    });
+
+    const matched = best.similarity >= threshold;
+    return {
+      requirement,
+      matched,
+      similarity: Math.round(best.similarity * 100) / 100,
+      ...(matched ? { evidence: best.line } : {}),
+    };
+  });
+
+  console.log('Semantic Match:', {
+    model,
+    degraded,
+    requirements: requirements.length,
+    cvLines: lines.length,
+    matched: results.filter((result) => result.matched).length,
+  });
+  return { evidence: results, matching: { method, model, degraded } };
+}
+
+/**
+ * CV bullets and sentences worth comparing against a requirement
+ * Bullet markers are dropped, long paragraphs are split into sentences, and headings
+ * and contact lines are too short to keep
+ */
+function splitCVLines(cvContent: string): string[] {
+  const lines = cvContent
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*(?:[-•*·▪‣◦]|\d+[.)])\s*/, '').trim())
+    .flatMap((line) =>
+      line.length > SEMANTIC_MATCH_CONFIG.MAX_LINE_LENGTH ? line.split(/(?:[.!?;])\s+(?=[A-Z])/) : [line]
+    )
+    .map((line) => line.trim().substring(0, SEMANTIC_MATCH_CONFIG.MAX_LINE_LENGTH))
+    .filter((line) => line.length >= SEMANTIC_MATCH_CONFIG.MIN_LINE_LENGTH && /[a-zA-Z]{3}/.test(line));
+
+  return uniqueStrings(lines).slice(0, SEMANTIC_MATCH_CONFIG.MAX_CV_LINES);
+}
@@ -0,0 +1,165 @@
+/**
+ * Skill Matcher
+ * Finds taxonomy skills in text on word boundaries and matches required skills against a CV, parents included
+ */
+
+import { detectSectionKind } from '@/src/infrastructure/utils/cvHeuristics';
+import { SKILLS, type SkillDefinition } from './skillTaxonomy';
+
+// Characters that continue a skill name: "java" in "javascript" or "c" in "c++" is not a match
+const NAME_CHARS = 'a-zA-Z0-9+#';
+// Separators of inline skill lists: "Python, Go", "Python | Go", "Python · Go"
+const LIST_SEPARATORS = ',/(;:|•·';
+// Case-sensitive names must follow a lowercase word on the same line, a list separator or a bullet, so a
+// capitalized sentence opener ("Express your ideas", "Swift delivery") is not read as a skill
+const MID_SENTENCE = `(?:[a-z0-9][ \\t]+|[${LIST_SEPARATORS}]\\s*|(?:^|\\n)\\s*[-•*·]\\s*)`;
+// At a line start they count when the line is a list: the name alone ("Go" on its own line) or before a separator
+const LIST_LINE_START = '(?:^|\\n)[ \\t]*';
+const LIST_LINE_END = `(?=[ \\t]*(?:$|\\r?\\n|[${LIST_SEPARATORS}]))`;
+
+const SKILLS_BY_ID: ReadonlyMap<string, SkillDefinition> = new Map(SKILLS.map((skill) => [skill.id, skill]));
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Pattern matching any of the terms as a whole name
+ * Case-sensitive terms ("Go", "R") also may not touch a hyphen, apostrophe or ampersand ("Go-to", "C-level", "R&D")
+ */
+function termPattern(terms: string[], caseSensitive: boolean): RegExp | undefined {
+  if (terms.length === 0) {
+    return undefined;
+  }
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  return caseSensitive
+    ? new RegExp(
+        `(?:${MID_SENTENCE}(?:${alternatives})|${LIST_LINE_START}(?:${alternatives})${LIST_LINE_END})(?![${NAME_CHARS}'’&-])`
+      )
+    : new RegExp(`(?:^|[^${NAME_CHARS}.])(?:${alternatives})(?![${NAME_CHARS}])`, 'i');
+}
+
+const ALIAS_INDEX: ReadonlyMap<string, SkillDefinition> = new Map(
+  SKILLS.flatMap((skill) =>
+    [skill.id, skill.name, ...skill.aliases, ...(skill.caseSensitiveAliases ?? [])].map(
+      (alias) => [normalizeName(alias), skill] as const
+    )
+  )
+);
+
+const SKILL_PATTERNS: ReadonlyArray<{ skill: SkillDefinition; patterns: RegExp[] }> = SKILLS.map((skill) => ({
+  skill,
+  patterns: [
+    termPattern([skill.name, ...skill.aliases].filter((alias) => !skill.caseSensitiveAliases?.includes(alias)), false),
+    termPattern(skill.caseSensitiveAliases ?? [], true),
+  ].filter((pattern): pattern is RegExp => pattern !== undefined),
+}));
+
+/**
+ * Canonical skill for a name or alias ("node" and "NodeJS" are both Node.js)
+ */
+export function normalizeSkill(name: string): SkillDefinition | undefined {
+  const normalized = normalizeName(name);
+  return ALIAS_INDEX.get(normalized) ?? ALIAS_INDEX.get(normalized.replace(/\s*(?:skills?|experience|development)$/, ''));
+}
+
+/**
+ * Canonical display name, or the name as given when it is not in the taxonomy
+ */
+export function canonicalSkillName(name: string): string {
+  return normalizeSkill(name)?.name ?? name.trim();
+}
+
+/**
+ * The skill's broader skills, nearest first (Next.js -> React -> JavaScript)
+ */
+export function skillAncestors(skill: SkillDefinition): SkillDefinition[] {
+  const ancestors: SkillDefinition[] = [];
+  let parent = skill.parent ? SKILLS_BY_ID.get(skill.parent) : undefined;
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = parent.parent ? SKILLS_BY_ID.get(parent.parent) : undefined;
+  }
+  return ancestors;
+}
+
+/**
+ * Whether the text mentions the term as a whole word; "ai" is not found in "maintain"
+ */
+export function containsTerm(text: string, term: string): boolean {
+  const trimmed = term.trim();
+  return trimmed.length > 0 && termPattern([trimmed], false)!.test(text);
+}
+
+/**
+ * Lines under a skills heading, as bullets, so every line start there counts as a list item
+ * ("Skills\nGo programming" names Go even though "Go" opens the line)
+ */
+function skillSectionLines(text: string): string {
+  const lines: string[] = [];
+  let inSkills = false;
+  for (const line of text.split(/\r?\n/)) {
+    const kind = detectSectionKind(line);
+    if (kind) {
+      inSkills = kind === 'skills';
+    } else if (inSkills && line.trim()) {
+      lines.push(`- ${line.trim()}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Every taxonomy skill mentioned in the text, in taxonomy order
+ */
+export function findSkills(text: string): SkillDefinition[] {
+  const texts = [text, skillSectionLines(text)].filter(Boolean);
+  return SKILL_PATTERNS.filter(({ patterns }) =>
+    patterns.some((pattern) => texts.some((candidate) => pattern.test(candidate)))
+  ).map(({ skill }) => skill);
+}
+
+/**
+ * Every place a taxonomy skill is named in the text, in text order
+ * Offsets cover the match, which may include the separator before a short name
+ */
+export function findSkillMentions(text: string): Array<{ skill: SkillDefinition; start: number; end: number }> {
+  return SKILL_PATTERNS.flatMap(({ skill, patterns }) =>
+    patterns.flatMap((pattern) =>
+      Array.from(text.matchAll(new RegExp(pattern.source, `${pattern.flags}g`)), (match) => ({
+        skill,
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length,
+      }))
+    )
+  ).sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Split required skills into those the text shows and those it does not
+ * A skill counts when the text names it or a narrower skill (React shows JavaScript, not the other way round);
+ * skills outside the taxonomy are looked up as whole words
+ */
+export function matchSkills(required: string[], text: string): { matched: string[]; missing: string[] } {
+  const shown = new Set<string>();
+  for (const skill of findSkills(text)) {
+    shown.add(skill.id);
+    skillAncestors(skill).forEach((ancestor) => shown.add(ancestor.id));
+  }
+
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const name of required) {
+    const skill = normalizeSkill(name);
+    const found = skill ? shown.has(skill.id) : containsTerm(text, name);
+    (found ? matched : missing).push(name);
+  }
+  return { matched, missing };
+}
@@ -0,0 +1,147 @@
+/**
+ * Skills Taxonomy
+ * Canonical skills with aliases, a category and a parent (React is part of the JavaScript ecosystem)
+ */
+
+export type SkillCategory =
+  | 'language'
+  | 'framework'
+  | 'database'
+  | 'cloud'
+  | 'devops'
+  | 'data'
+  | 'tool'
+  | 'methodology'
+  | 'soft-skill';
+
+/**
+ * One canonical skill
+ */
+export interface SkillDefinition {
+  id: string;
+  name: string; // Display name
+  category: SkillCategory;
+  aliases: string[]; // Matched case-insensitively on word boundaries
+  caseSensitiveAliases?: string[]; // Short names that are also English words ("Go", "R", "AI")
+  parent?: string; // Id of the broader skill this one implies (React -> JavaScript)
+}
+
+export const SKILLS: readonly SkillDefinition[] = [
+  // Languages
+  { id: 'javascript', name: 'JavaScript', category: 'language', aliases: ['javascript', 'js', 'ecmascript', 'es6'] },
+  { id: 'typescript', name: 'TypeScript', category: 'language', aliases: ['typescript', 'ts'], parent: 'javascript' },
+  { id: 'python', name: 'Python', category: 'language', aliases: ['python', 'python3'] },
+  { id: 'java', name: 'Java', category: 'language', aliases: ['java', 'java 8', 'java 11', 'java 17'] },
+  { id: 'kotlin', name: 'Kotlin', category: 'language', aliases: ['kotlin'], parent: 'java' },
+  { id: 'scala', name: 'Scala', category: 'language', aliases: ['scala'] },
+  { id: 'csharp', name: 'C#', category: 'language', aliases: ['c#', 'csharp', 'c sharp'] },
+  { id: 'cpp', name: 'C++', category: 'language', aliases: ['c++', 'cpp'] },
+  { id: 'c', name: 'C', category: 'language', aliases: [], caseSensitiveAliases: ['C'] },
+  { id: 'go', name: 'Go', category: 'language', aliases: ['golang'], caseSensitiveAliases: ['Go'] },
+  { id: 'rust', name: 'Rust', category: 'language', aliases: [], caseSensitiveAliases: ['Rust'] },
+  { id: 'ruby', name: 'Ruby', category: 'language', aliases: ['ruby'] },
+  { id: 'php', name: 'PHP', category: 'language', aliases: ['php'] },
+  { id: 'swift', name: 'Swift', category: 'language', aliases: [], caseSensitiveAliases: ['Swift'] },
+  { id: 'objective-c', name: 'Objective-C', category: 'language', aliases: ['objective-c', 'objective c'] },
+  { id: 'dart', name: 'Dart', category: 'language', aliases: [], caseSensitiveAliases: ['Dart'] },
+  { id: 'r', name: 'R', category: 'language', aliases: [], caseSensitiveAliases: ['R'] },
+  { id: 'sql', name: 'SQL', category: 'language', aliases: ['sql', 't-sql', 'pl/sql', 'plsql'] },
+  { id: 'bash', name: 'Bash', category: 'language', aliases: ['bash', 'shell scripting', 'shell script'] },
+  { id: 'html', name: 'HTML', category: 'language', aliases: ['html', 'html5'] },
+  { id: 'css', name: 'CSS', category: 'language', aliases: ['css', 'css3', 'sass', 'scss'] },
+
+  // Frameworks and libraries
+  { id: 'react', name: 'React', category: 'framework', aliases: ['react', 'react.js', 'reactjs'], parent: 'javascript' },
+  { id: 'nextjs', name: 'Next.js', category: 'framework', aliases: ['next.js', 'nextjs'], parent: 'react' },
+  { id: 'react-native', name: 'React Native', category: 'framework', aliases: ['react native'], parent: 'react' },
+  { id: 'redux', name: 'Redux', category: 'framework', aliases: ['redux', 'redux toolkit'], parent: 'react' },
+  { id: 'angular', name: 'Angular', category: 'framework', aliases: ['angular', 'angularjs'], parent: 'typescript' },
+  { id: 'vue', name: 'Vue.js', category: 'framework', aliases: ['vue', 'vue.js', 'vuejs'], parent: 'javascript' },
+  { id: 'svelte', name: 'Svelte', category: 'framework', aliases: ['svelte', 'sveltekit'], parent: 'javascript' },
+  { id: 'nodejs', name: 'Node.js', category: 'framework', aliases: ['node', 'node.js', 'nodejs'], parent: 'javascript' },
+  { id: 'express', name: 'Express', category: 'framework', aliases: ['express.js', 'expressjs'], caseSensitiveAliases: ['Express'], parent: 'nodejs' },
+  { id: 'nestjs', name: 'NestJS', category: 'framework', aliases: ['nestjs', 'nest.js'], parent: 'nodejs' },
+  { id: 'django', name: 'Django', category: 'framework', aliases: ['django'], parent: 'python' },
+  { id: 'flask', name: 'Flask', category: 'framework', aliases: ['flask'], parent: 'python' },
+  { id: 'fastapi', name: 'FastAPI', category: 'framework', aliases: ['fastapi'], parent: 'python' },
+  { id: 'spring', name: 'Spring', category: 'framework', aliases: ['spring boot', 'springboot', 'spring framework'], caseSensitiveAliases: ['Spring'], parent: 'java' },
+  { id: 'dotnet', name: '.NET', category: 'framework', aliases: ['.net', 'dotnet', '.net core', 'asp.net'], parent: 'csharp' },
+  { id: 'rails', name: 'Ruby on Rails', category: 'framework', aliases: ['ruby on rails', 'ror'], caseSensitiveAliases: ['Rails'], parent: 'ruby' },
+  { id: 'laravel', name: 'Laravel', category: 'framework', aliases: ['laravel'], parent: 'php' },
+  { id: 'flutter', name: 'Flutter', category: 'framework', aliases: ['flutter'], parent: 'dart' },
+  { id: 'tailwind', name: 'Tailwind CSS', category: 'framework', aliases: ['tailwind', 'tailwind css', 'tailwindcss'], parent: 'css' },
+  { id: 'graphql', name: 'GraphQL', category: 'framework', aliases: ['graphql'] },
+  { id: 'rest', name: 'REST APIs', category: 'framework', aliases: ['rest api', 'rest apis', 'restful', 'restful apis'], caseSensitiveAliases: ['REST'] },
+
+  // Databases
+  { id: 'postgresql', name: 'PostgreSQL', category: 'database', aliases: ['postgresql', 'postgres', 'psql'], parent: 'sql' },
+  { id: 'mysql', name: 'MySQL', category: 'database', aliases: ['mysql', 'mariadb'], parent: 'sql' },
+  { id: 'sql-server', name: 'SQL Server', category: 'database', aliases: ['sql server', 'mssql', 'ms sql'], parent: 'sql' },
+  { id: 'oracle-db', name: 'Oracle Database', category: 'database', aliases: ['oracle database', 'oracle db'], parent: 'sql' },
+  { id: 'nosql', name: 'NoSQL', category: 'database', aliases: ['nosql'] },
+  { id: 'mongodb', name: 'MongoDB', category: 'database', aliases: ['mongodb', 'mongo'], parent: 'nosql' },
+  { id: 'redis', name: 'Redis', category: 'database', aliases: ['redis'], parent: 'nosql' },
+  { id: 'dynamodb', name: 'DynamoDB', category: 'database', aliases: ['dynamodb'], parent: 'nosql' },
+  { id: 'cassandra', name: 'Cassandra', category: 'database', aliases: ['cassandra'], parent: 'nosql' },
+  { id: 'elasticsearch', name: 'Elasticsearch', category: 'database', aliases: ['elasticsearch', 'elastic search', 'opensearch'] },
+
+  // Cloud
+  { id: 'cloud', name: 'Cloud Computing', category: 'cloud', aliases: ['cloud computing', 'cloud platforms', 'cloud infrastructure'] },
+  { id: 'aws', name: 'AWS', category: 'cloud', aliases: ['aws', 'amazon web services', 'ec2', 's3', 'aws lambda'], parent: 'cloud' },
+  { id: 'azure', name: 'Azure', category: 'cloud', aliases: ['azure', 'microsoft azure'], parent: 'cloud' },
+  { id: 'gcp', name: 'Google Cloud', category: 'cloud', aliases: ['gcp', 'google cloud', 'google cloud platform', 'bigquery'], parent: 'cloud' },
+  { id: 'serverless', name: 'Serverless', category: 'cloud', aliases: ['serverless'], parent: 'cloud' },
+
+  // DevOps
+  { id: 'devops', name: 'DevOps', category: 'devops', aliases: ['devops', 'dev ops'] },
+  { id: 'docker', name: 'Docker', category: 'devops', aliases: ['docker', 'containerization', 'containerisation'], parent: 'devops' },
+  { id: 'kubernetes', name: 'Kubernetes', category: 'devops', aliases: ['kubernetes', 'k8s', 'eks', 'gke', 'aks'], parent: 'docker' },
+  { id: 'terraform', name: 'Terraform', category: 'devops', aliases: ['terraform', 'infrastructure as code', 'iac'], parent: 'devops' },
+  { id: 'ci-cd', name: 'CI/CD', category: 'devops', aliases: ['ci/cd', 'ci cd', 'continuous integration', 'continuous delivery', 'continuous deployment', 'github actions', 'gitlab ci', 'jenkins', 'circleci'], parent: 'devops' },
+  { id: 'linux', name: 'Linux', category: 'devops', aliases: ['linux', 'unix'] },
+
+  // Data and AI
+  { id: 'machine-learning', name: 'Machine Learning', category: 'data', aliases: ['machine learning', 'ml'] },
+  { id: 'deep-learning', name: 'Deep Learning', category: 'data', aliases: ['deep learning', 'neural networks'], parent: 'machine-learning' },
+  { id: 'ai', name: 'Artificial Intelligence', category: 'data', aliases: ['artificial intelligence'], caseSensitiveAliases: ['AI'] },
+  { id: 'llm', name: 'Large Language Models', category: 'data', aliases: ['llm', 'llms', 'large language models', 'generative ai', 'genai'], parent: 'ai' },
+  { id: 'nlp', name: 'NLP', category: 'data', aliases: ['nlp', 'natural language processing'], parent: 'machine-learning' },
+  { id: 'pytorch', name: 'PyTorch', category: 'data', aliases: ['pytorch'], parent: 'deep-learning' },
+  { id: 'tensorflow', name: 'TensorFlow', category: 'data', aliases: ['tensorflow', 'keras'], parent: 'deep-learning' },
+  { id: 'scikit-learn', name: 'scikit-learn', category: 'data', aliases: ['scikit-learn', 'sklearn'], parent: 'machine-learning' },
+  { id: 'pandas', name: 'pandas', category: 'data', aliases: ['pandas', 'numpy'], parent: 'python' },
+  { id: 'data-analysis', name: 'Data Analysis', category: 'data', aliases: ['data analysis', 'data analytics', 'analytics'] },
+  { id: 'data-engineering', name: 'Data Engineering', category: 'data', aliases: ['data engineering', 'etl', 'elt', 'data pipelines'] },
+  { id: 'spark', name: 'Apache Spark', category: 'data', aliases: ['apache spark', 'pyspark'], caseSensitiveAliases: ['Spark'], parent: 'data-engineering' },
+  { id: 'kafka', name: 'Kafka', category: 'data', aliases: ['kafka', 'apache kafka'], parent: 'data-engineering' },
+  { id: 'airflow', name: 'Airflow', category: 'data', aliases: ['airflow', 'apache airflow'], parent: 'data-engineering' },
+  { id: 'excel', name: 'Excel', category: 'data', aliases: ['microsoft excel', 'ms excel', 'spreadsheets'], caseSensitiveAliases: ['Excel'] },
+  { id: 'power-bi', name: 'Power BI', category: 'data', aliases: ['power bi', 'powerbi'], parent: 'data-analysis' },
+  { id: 'tableau', name: 'Tableau', category: 'data', aliases: ['tableau'], parent: 'data-analysis' },
+
+  // Tools
+  { id: 'git', name: 'Git', category: 'tool', aliases: ['git', 'github', 'gitlab', 'bitbucket', 'version control'] },
+  { id: 'jira', name: 'Jira', category: 'tool', aliases: ['jira', 'confluence'] },
+  { id: 'figma', name: 'Figma', category: 'tool', aliases: ['figma'] },
+  { id: 'salesforce', name: 'Salesforce', category: 'tool', aliases: ['salesforce', 'sfdc'] },
+  { id: 'sap', name: 'SAP', category: 'tool', aliases: [], caseSensitiveAliases: ['SAP'] },
+
+  // Methodologies
+  { id: 'agile', name: 'Agile', category: 'methodology', aliases: ['agile', 'agile methodologies', 'kanban'] },
+  { id: 'scrum', name: 'Scrum', category: 'methodology', aliases: ['scrum', 'sprint planning'], parent: 'agile' },
+  { id: 'project-management', name: 'Project Management', category: 'methodology', aliases: ['project management', 'pmp', 'prince2'] },
+  { id: 'tdd', name: 'Test-Driven Development', category: 'methodology', aliases: ['tdd', 'test-driven development', 'test driven development'] },
+  { id: 'testing', name: 'Automated Testing', category: 'methodology', aliases: ['automated testing', 'unit testing', 'integration testing', 'jest', 'cypress', 'playwright', 'selenium', 'pytest'] },
+  { id: 'microservices', name: 'Microservices', category: 'methodology', aliases: ['microservices', 'microservice architecture'] },
+  { id: 'system-design', name: 'System Design', category: 'methodology', aliases: ['system design', 'distributed systems', 'software architecture'] },
+
+  // Soft skills
+  { id: 'communication', name: 'Communication', category: 'soft-skill', aliases: ['communication', 'communication skills', 'written communication', 'verbal communication'] },
+  { id: 'leadership', name: 'Leadership', category: 'soft-skill', aliases: ['leadership', 'team leadership', 'people management'] },
+  { id: 'mentoring', name: 'Mentoring', category: 'soft-skill', aliases: ['mentoring', 'mentorship', 'coaching'], parent: 'leadership' },
+  { id: 'teamwork', name: 'Teamwork', category: 'soft-skill', aliases: ['teamwork', 'collaboration', 'team player'] },
+  { id: 'problem-solving', name: 'Problem Solving', category: 'soft-skill', aliases: ['problem solving', 'problem-solving', 'analytical thinking', 'critical thinking'] },
+  { id: 'stakeholder-management', name: 'Stakeholder Management', category: 'soft-skill', aliases: ['stakeholder management', 'stakeholder engagement'] },
+  { id: 'time-management', name: 'Time Management', category: 'soft-skill', aliases: ['time management', 'prioritization', 'prioritisation'] },
+  { id: 'customer-service', name: 'Customer Service', category: 'soft-skill', aliases: ['customer service', 'customer support', 'client relations'] },
+];
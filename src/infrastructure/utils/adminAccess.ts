@@ -0,0 +1,43 @@
+/**
+ * Admin Access
+ * Guards maintenance endpoints (cache invalidation, usage reset, paid health probes) behind ADMIN_TOKEN
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Why a request was refused, with the HTTP status to answer with
+ */
+export interface AdminAccessDenial {
+  status: 401 | 403;
+  error: string;
+}
+
+/**
+ * Compare digests so neither length nor content leaks through timing
+ */
+function tokensMatch(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+/**
+ * Check a request for admin rights
+ * With ADMIN_TOKEN set, `Authorization: Bearer <token>` is required; without it only the development server allows access
+ * Returns null when access is granted
+ */
+export function checkAdminAccess(headers: Headers): AdminAccessDenial | null {
+  const adminToken = process.env.ADMIN_TOKEN;
+
+  if (!adminToken) {
+    return process.env.NODE_ENV === 'development'
+      ? null
+      : { status: 403, error: 'This endpoint is disabled. Set ADMIN_TOKEN to enable it outside development' };
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(headers.get('authorization') ?? '');
+  if (!match || !tokensMatch(match[1].trim(), adminToken)) {
+    return { status: 401, error: 'A valid admin token is required' };
+  }
+  return null;
+}
@@ -0,0 +1,621 @@
+/**
+ * CV Heuristics
+ * Deterministic CV text parsing: heading-based sections, date ranges, entries and contact details
+ */
+
+import type {
+  CVData,
+  CVFieldConfidence,
+  CVSectionKind,
+  Education,
+  Experience,
+  Language,
+  PersonalInfo,
+} from '@/src/shared/types';
+import { uniqueStrings } from '@/src/shared/utils/text';
+
+/**
+ * Result of the heuristic pass, before any LLM refinement
+ */
+export interface HeuristicCVParse {
+  cvData: CVData;
+  confidence: CVFieldConfidence;
+  sections: Array<{ kind: CVSectionKind; heading: string }>;
+}
+
+/**
+ * A block of lines under one heading
+ */
+interface CVSection {
+  kind: CVSectionKind;
+  heading: string;
+  lines: string[];
+}
+
+/**
+ * One entry of an experience or education section: header lines followed by bullets
+ */
+interface SectionEntry {
+  header: string[];
+  bullets: string[];
+}
+
+/**
+ * Parsed start/end of an entry
+ */
+export interface DateRange {
+  startDate: string;
+  endDate?: string;
+  current: boolean;
+}
+
+/**
+ * Heading text (lowercased, '&' spelled 'and') for each section kind
+ */
+const SECTION_HEADINGS: Record<CVSectionKind, string[]> = {
+  summary: [
+    'summary',
+    'professional summary',
+    'profile',
+    'professional profile',
+    'about',
+    'about me',
+    'objective',
+    'career objective',
+    'personal statement',
+  ],
+  experience: [
+    'experience',
+    'work experience',
+    'professional experience',
+    'relevant experience',
+    'employment',
+    'employment history',
+    'work history',
+    'career history',
+  ],
+  education: [
+    'education',
+    'education and training',
+    'academic background',
+    'qualifications',
+    'academic qualifications',
+  ],
+  skills: [
+    'skills',
+    'technical skills',
+    'key skills',
+    'core skills',
+    'core competencies',
+    'competencies',
+    'technologies',
+    'skills and tools',
+    'tools and technologies',
+  ],
+  languages: ['languages', 'language skills'],
+  certifications: [
+    'certifications',
+    'certificates',
+    'licenses and certifications',
+    'licences and certifications',
+    'certifications and licenses',
+    'courses',
+  ],
+  projects: ['projects', 'personal projects', 'selected projects', 'side projects'],
+  other: [
+    'interests',
+    'hobbies',
+    'hobbies and interests',
+    'references',
+    'volunteering',
+    'volunteer experience',
+    'awards',
+    'honors and awards',
+    'publications',
+    'achievements',
+  ],
+};
+
+const HEADING_LOOKUP = new Map<string, CVSectionKind>(
+  (Object.entries(SECTION_HEADINGS) as Array<[CVSectionKind, string[]]>).flatMap(([kind, headings]) =>
+    headings.map((heading) => [heading, kind] as [string, CVSectionKind])
+  )
+);
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DATE_TOKEN =
+  '(?:(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?\\s+\\d{4}|\\d{1,2}[/.]\\d{4}|\\d{4}[-/.]\\d{1,2}(?!\\d)|\\d{4})';
+const OPEN_END = '(?:present|current|now|today|ongoing)';
+const DATE_RANGE_PATTERN = new RegExp(
+  `(${DATE_TOKEN})\\s*(?:-|–|—|to|until)\\s*(${DATE_TOKEN}|${OPEN_END})`,
+  'i'
+);
+const SINGLE_DATE_PATTERN = new RegExp(`(${DATE_TOKEN})`, 'i');
+
+const BULLET_PATTERN = /^\s*(?:[•●▪◦‣∙·*\-–]|\d+[.)])\s+/;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE_PATTERN = /\+?\(?\d[\d\s().-]{7,}\d/g;
+const LINKEDIN_PATTERN = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/in\/[\w-]+\/?/i;
+const URL_PATTERN = /(?:https?:\/\/[^\s|,]+|(?:www\.)?github\.com\/[\w-]+)/gi;
+const NAME_PATTERN = /^[A-ZÀ-Ö][A-Za-zÀ-ÖØ-öø-ÿ.'-]*(?:\s+[A-ZÀ-Ö][A-Za-zÀ-ÖØ-öø-ÿ.'-]*){1,3}$/;
+const LOCATION_PATTERN = /^[A-ZÀ-Ö][A-Za-zÀ-ÖØ-öø-ÿ .'-]+,\s*[A-ZÀ-Ö][A-Za-zÀ-ÖØ-öø-ÿ .'-]+$/;
+
+const TITLE_WORDS =
+  /\b(engineer|developer|manager|designer|analyst|consultant|director|lead|intern|specialist|architect|scientist|officer|coordinator|assistant|administrator|head|vp|president|founder|owner|associate|executive|technician|teacher|nurse|accountant|programmer|researcher)\b/i;
+const DEGREE_WORDS =
+  /\b(bachelor|master|b\.?sc|m\.?sc|b\.?eng|m\.?eng|b\.?a|m\.?a|bs|ms|ba|mba|ph\.?d|doctor(?:ate)?|diploma|associate|a-levels?|high school|gcse|hnd)\b/i;
+const INSTITUTION_WORDS = /\b(university|universit[äé]t?|college|institute|school|academy|polytechnic|école)\b/i;
+const GPA_PATTERN = /\bGPA[:\s]*([\d.]+(?:\s*\/\s*[\d.]+)?)/i;
+
+const PROFICIENCY_KEYWORDS: Array<{ match: RegExp; proficiency: Language['proficiency'] }> = [
+  { match: /native|mother tongue|bilingual|\bc2\b/i, proficiency: 'native' },
+  { match: /fluent|\bc1\b/i, proficiency: 'fluent' },
+  { match: /professional|working|advanced|upper|\bb2\b/i, proficiency: 'professional' },
+  { match: /basic|elementary|beginner|intermediate|conversational|\ba1\b|\ba2\b|\bb1\b/i, proficiency: 'basic' },
+];
+
+/**
+ * Section kind for a line that looks like a heading, otherwise null
+ * Headings are short lines such as "EXPERIENCE", "Work History:" or "Skills & Tools"
+ */
+export function detectSectionKind(line: string): CVSectionKind | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 40 || BULLET_PATTERN.test(trimmed)) {
+    return null;
+  }
+
+  const normalized = trimmed
+    .replace(/&/g, 'and')
+    .replace(/[^A-Za-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+  return HEADING_LOOKUP.get(normalized) ?? null;
+}
+
+/**
+ * Normalize a date token to "YYYY-MM" or "YYYY"; returns '' when it is not a date
+ */
+export function normalizeDate(token: string): string {
+  const value = token.trim().toLowerCase();
+
+  const monthYear = value.match(/^([a-z]+)\.?\s+(\d{4})$/);
+  if (monthYear) {
+    const month = MONTHS.indexOf(monthYear[1].slice(0, 3)) + 1;
+    return month > 0 ? `${monthYear[2]}-${String(month).padStart(2, '0')}` : monthYear[2];
+  }
+
+  const numeric = value.match(/^(\d{1,2})[/.](\d{4})$/) ?? value.match(/^(\d{4})[-/.](\d{1,2})$/);
+  if (numeric) {
+    const [year, month] = numeric[1].length === 4 ? [numeric[1], numeric[2]] : [numeric[2], numeric[1]];
+    const monthNumber = Number(month);
+    return monthNumber >= 1 && monthNumber <= 12 ? `${year}-${String(monthNumber).padStart(2, '0')}` : year;
+  }
+
+  return /^\d{4}$/.test(value) ? value : '';
+}
+
+/**
+ * Find a date range such as "Jan 2020 - Present" or "2018 – 2020" in a line
+ * Returns the range and the line with the range removed
+ */
+export function extractDateRange(line: string): { range: DateRange; rest: string } | null {
+  const match = line.match(DATE_RANGE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const current = new RegExp(`^${OPEN_END}$`, 'i').test(match[2].trim());
+  return {
+    range: {
+      startDate: normalizeDate(match[1]),
+      endDate: current ? undefined : normalizeDate(match[2]) || undefined,
+      current,
+    },
+    rest: stripSeparators(line.replace(match[0], ' ')),
+  };
+}
+
+/**
+ * Remove dangling separators and brackets left behind after cutting a date out of a line
+ */
+function stripSeparators(text: string): string {
+  return text
+    .replace(/\(\s*\)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s|,;:()\-–—]+|[\s|,;:()\-–—]+$/g, '')
+    .trim();
+}
+
+function stripBullet(line: string): string {
+  return line.replace(BULLET_PATTERN, '').trim();
+}
+
+/**
+ * Split CV text into the header (before the first heading) and headed sections
+ */
+export function splitSections(text: string): { header: string[]; sections: CVSection[] } {
+  const header: string[] = [];
+  const sections: CVSection[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/\t/g, '  ').trimEnd();
+    const kind = detectSectionKind(line);
+
+    if (kind) {
+      sections.push({ kind, heading: line.trim().replace(/:$/, ''), lines: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line);
+    } else {
+      header.push(line);
+    }
+  }
+
+  return { header, sections };
+}
+
+/**
+ * Split a section into entries
+ * A new entry starts at a header line that follows bullets, a blank line, or a second date range
+ */
+function splitEntries(lines: string[]): SectionEntry[] {
+  const entries: SectionEntry[] = [];
+  let current: SectionEntry | null = null;
+  let sawBlank = false;
+
+  for (const line of lines) {
+    if (!line.trim()) {
+      sawBlank = true;
+      continue;
+    }
+
+    if (BULLET_PATTERN.test(line)) {
+      if (!current) {
+        current = { header: [], bullets: [] };
+        entries.push(current);
+      }
+      current.bullets.push(stripBullet(line));
+    } else {
+      const hasRange = DATE_RANGE_PATTERN.test(line);
+      const startsNew =
+        !current ||
+        current.bullets.length > 0 ||
+        (sawBlank && current.header.length > 0) ||
+        (hasRange && current.header.some((headerLine) => DATE_RANGE_PATTERN.test(headerLine)));
+
+      if (startsNew) {
+        current = { header: [], bullets: [] };
+        entries.push(current);
+      }
+      current!.header.push(line.trim());
+    }
+    sawBlank = false;
+  }
+
+  return entries;
+}
+
+/**
+ * Split a header line on the usual separators ("|", " - ", " at ", ",")
+ */
+function splitHeaderParts(line: string): string[] {
+  return line
+    .split(/\s+\|\s+|\s+[-–—]\s+|\s+at\s+|,\s+/i)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse one experience entry into an Experience and its field confidences
+ */
+function parseExperienceEntry(entry: SectionEntry, index: number): { experience: Experience; confidence: CVFieldConfidence } {
+  const path = `experience.${index}`;
+  const confidence: CVFieldConfidence = {};
+  let range: DateRange | null = null;
+  const headerLines: string[] = [];
+
+  for (const line of entry.header) {
+    const found: ReturnType<typeof extractDateRange> = range ? null : extractDateRange(line);
+    if (found) {
+      range = found.range;
+      if (found.rest) {
+        headerLines.push(found.rest);
+      }
+    } else {
+      headerLines.push(line);
+    }
+  }
+
+  let position = '';
+  let company = '';
+  const [first = '', second] = headerLines;
+  const atMatch = first.match(/^(.+?)\s+at\s+(.+)$/i);
+
+  if (atMatch) {
+    [position, company] = [atMatch[1], atMatch[2]];
+    confidence[`${path}.position`] = 0.8;
+    confidence[`${path}.company`] = 0.8;
+  } else {
+    const parts = second !== undefined ? [first, second] : splitHeaderParts(first);
+    [position = '', company = ''] = parts;
+    // "Acme Corp | Senior Engineer": the part with a job title word is the position
+    if (company && TITLE_WORDS.test(company) && !TITLE_WORDS.test(position)) {
+      [position, company] = [company, position];
+    }
+    const partConfidence = parts.length > 1 ? 0.65 : 0.5;
+    confidence[`${path}.position`] = position ? partConfidence : 0;
+    confidence[`${path}.company`] = company ? partConfidence : 0;
+  }
+
+  const extraLines = headerLines.slice(second !== undefined && !atMatch ? 2 : 1);
+  confidence[`${path}.startDate`] = range?.startDate ? 0.9 : 0;
+  if (range?.endDate || range?.current) {
+    confidence[`${path}.endDate`] = 0.9;
+  }
+
+  const description = [...extraLines, ...entry.bullets];
+  if (description.length > 0) {
+    confidence[`${path}.description`] = entry.bullets.length > 0 ? 0.85 : 0.6;
+  }
+
+  return {
+    experience: {
+      id: `exp-${index + 1}`,
+      company,
+      position,
+      startDate: range?.startDate ?? '',
+      endDate: range?.endDate,
+      current: range?.current ?? false,
+      description,
+    },
+    confidence,
+  };
+}
+
+/**
+ * Parse one education entry into an Education and its field confidences
+ */
+function parseEducationEntry(entry: SectionEntry, index: number): { education: Education; confidence: CVFieldConfidence } {
+  const path = `education.${index}`;
+  const confidence: CVFieldConfidence = {};
+  const lines = [...entry.header, ...entry.bullets];
+  let range: DateRange | null = null;
+  const parts: string[] = [];
+
+  for (const line of lines) {
+    const found: ReturnType<typeof extractDateRange> = range ? null : extractDateRange(line);
+    if (found) {
+      range = found.range;
+    }
+    parts.push(...splitHeaderParts(found ? found.rest : line));
+  }
+
+  if (!range) {
+    // A single year on an education entry is the graduation year
+    const single = lines.join(' ').match(SINGLE_DATE_PATTERN);
+    if (single) {
+      range = { startDate: '', endDate: normalizeDate(single[1]) || undefined, current: false };
+    }
+  }
+
+  const withoutDates = parts.map((part) => stripSeparators(part.replace(SINGLE_DATE_PATTERN, ' '))).filter(Boolean);
+  const institution = withoutDates.find((part) => INSTITUTION_WORDS.test(part));
+  const degreePart = withoutDates.find((part) => part !== institution && DEGREE_WORDS.test(part));
+  const fieldMatch = degreePart?.match(/\bin\s+(.+)$/i);
+  const gpa = lines.join(' ').match(GPA_PATTERN)?.[1];
+
+  const degree = (fieldMatch ? degreePart!.slice(0, fieldMatch.index).trim() : degreePart) ??
+    withoutDates.find((part) => part !== institution) ??
+    '';
+
+  confidence[`${path}.institution`] = institution ? 0.8 : 0;
+  confidence[`${path}.degree`] = degreePart ? 0.8 : degree ? 0.4 : 0;
+  if (fieldMatch) {
+    confidence[`${path}.field`] = 0.7;
+  }
+  if (range?.startDate) {
+    confidence[`${path}.startDate`] = 0.9;
+  }
+  if (range?.endDate) {
+    confidence[`${path}.endDate`] = range.startDate ? 0.9 : 0.75;
+  }
+  if (gpa) {
+    confidence[`${path}.gpa`] = 0.9;
+  }
+
+  return {
+    education: {
+      id: `edu-${index + 1}`,
+      institution: institution ?? '',
+      degree,
+      field: fieldMatch?.[1].trim(),
+      startDate: range?.startDate ?? '',
+      endDate: range?.endDate,
+      gpa,
+    },
+    confidence,
+  };
+}
+
+/**
+ * Items of a list section: bullets, commas, pipes and "Category: a, b" lines
+ */
+function splitListItems(lines: string[]): string[] {
+  return lines
+    .map(stripBullet)
+    .flatMap((line) => line.split(';'))
+    .map((group) => (group.includes(':') ? group.slice(group.indexOf(':') + 1) : group))
+    .flatMap((group) => group.split(/[,|•·]/))
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0 && item.length <= 40 && item.split(/\s+/).length <= 5);
+}
+
+/**
+ * Map a proficiency description ("Native", "C1", "working knowledge") to a Language proficiency
+ */
+export function parseProficiency(text: string): Language['proficiency'] | null {
+  return PROFICIENCY_KEYWORDS.find((keyword) => keyword.match.test(text))?.proficiency ?? null;
+}
+
+function parseLanguages(lines: string[]): { languages: Language[]; confidence: CVFieldConfidence } {
+  const languages: Language[] = [];
+  const confidence: CVFieldConfidence = {};
+
+  const items = lines
+    .map(stripBullet)
+    .flatMap((line) => line.split(/[,;|•·]/))
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+  for (const item of items) {
+    const match = item.match(/^([A-Za-zÀ-ÖØ-öø-ÿ ]+?)\s*(?:[(:\-–—]\s*([^)]*)\)?)?$/);
+    if (!match || match[1].split(/\s+/).length > 3) {
+      continue;
+    }
+
+    const proficiency = parseProficiency(match[2] ?? '');
+    const index = languages.length;
+    languages.push({ name: match[1].trim(), proficiency: proficiency ?? 'professional' });
+    confidence[`languages.${index}.name`] = 0.85;
+    confidence[`languages.${index}.proficiency`] = proficiency ? 0.85 : 0.4;
+  }
+
+  return { languages, confidence };
+}
+
+/**
+ * Contact details from embedded hyperlinks (PDF link annotations)
+ * CV templates often show "LinkedIn" or an icon while the real URL lives only in the link target
+ */
+function contactFromLinks(links: string[]): Pick<PersonalInfo, 'email' | 'phone' | 'linkedIn' | 'portfolio'> {
+  const targets = links.map((link) => link.trim()).filter(Boolean);
+  const mailto = targets.find((link) => /^mailto:/i.test(link));
+  const tel = targets.find((link) => /^tel:/i.test(link));
+  const web = targets.filter((link) => /^(?:https?:\/\/|www\.)/i.test(link));
+
+  return {
+    email: mailto ? decodeURIComponent(mailto.replace(/^mailto:/i, '').split('?')[0]).trim() : '',
+    phone: tel ? decodeURIComponent(tel.replace(/^tel:/i, '')).trim() : undefined,
+    linkedIn: web.find((link) => LINKEDIN_PATTERN.test(link)),
+    portfolio: web.find((link) => !/linkedin\.com/i.test(link)),
+  };
+}
+
+/**
+ * Contact details from the header lines, falling back to the whole text for email and phone
+ * Hyperlink targets win over text matches: they are exact and often absent from the visible text
+ */
+function parsePersonalInfo(
+  header: string[],
+  text: string,
+  links: string[]
+): { personalInfo: PersonalInfo; confidence: CVFieldConfidence } {
+  const confidence: CVFieldConfidence = {};
+  const segments = header
+    .flatMap((line) => line.split(/\s+[|•·]\s+|\s{2,}/))
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  const linked = contactFromLinks(links);
+
+  const email = linked.email || (text.match(EMAIL_PATTERN)?.[0] ?? '');
+  confidence['personalInfo.email'] = linked.email ? 0.98 : email ? 0.95 : 0;
+
+  const phone =
+    linked.phone ??
+    Array.from(text.matchAll(PHONE_PATTERN), (match) => match[0].trim()).find((candidate) => {
+      const digits = candidate.replace(/\D/g, '').length;
+      return digits >= 9 && digits <= 15 && !/^\d{4}\s*[-–]\s*\d{4}$/.test(candidate);
+    });
+  if (phone) {
+    confidence['personalInfo.phone'] = linked.phone ? 0.95 : 0.85;
+  }
+
+  const linkedIn = linked.linkedIn ?? text.match(LINKEDIN_PATTERN)?.[0];
+  if (linkedIn) {
+    confidence['personalInfo.linkedIn'] = linked.linkedIn ? 0.98 : 0.95;
+  }
+
+  const portfolio =
+    linked.portfolio ??
+    Array.from(text.matchAll(URL_PATTERN), (match) => match[0]).find((url) => !/linkedin\.com/i.test(url));
+  if (portfolio) {
+    confidence['personalInfo.portfolio'] = linked.portfolio ? 0.95 : 0.8;
+  }
+
+  const nameIndex = segments.findIndex((segment) => NAME_PATTERN.test(segment) && !detectSectionKind(segment));
+  const fullName = nameIndex >= 0 ? segments[nameIndex] : '';
+  // The very first line of a CV is almost always the name
+  confidence['personalInfo.fullName'] = nameIndex === 0 ? 0.75 : nameIndex > 0 ? 0.5 : 0;
+
+  const location = segments.find((segment) => LOCATION_PATTERN.test(segment) && segment !== fullName);
+  if (location) {
+    confidence['personalInfo.location'] = 0.6;
+  }
+
+  return {
+    personalInfo: { fullName, email, phone, location, linkedIn, portfolio },
+    confidence,
+  };
+}
+
+/**
+ * Parse CV text into CVData using headings, date patterns and contact patterns only
+ * links are hyperlink targets embedded in the source document (mailto:, tel:, web URLs)
+ */
+export function parseCVHeuristically(text: string, links: string[] = []): HeuristicCVParse {
+  const { header, sections } = splitSections(text);
+  const { personalInfo, confidence } = parsePersonalInfo(header, text, links);
+  const linesOf = (kind: CVSectionKind) =>
+    sections.filter((section) => section.kind === kind).flatMap((section) => section.lines);
+
+  const summaryLines = linesOf('summary').map((line) => line.trim()).filter(Boolean);
+  if (summaryLines.length > 0) {
+    personalInfo.summary = summaryLines.join(' ');
+    confidence['personalInfo.summary'] = 0.85;
+  }
+
+  const experience = splitEntries(linesOf('experience')).map((entry, index) => {
+    const parsed = parseExperienceEntry(entry, index);
+    Object.assign(confidence, parsed.confidence);
+    return parsed.experience;
+  });
+
+  const education = splitEntries(linesOf('education')).map((entry, index) => {
+    const parsed = parseEducationEntry(entry, index);
+    Object.assign(confidence, parsed.confidence);
+    return parsed.education;
+  });
+
+  const skills = uniqueStrings(splitListItems(linesOf('skills')));
+  const certifications = uniqueStrings(
+    linesOf('certifications').map(stripBullet).filter((line) => line.length > 0)
+  );
+  const { languages, confidence: languageConfidence } = parseLanguages(linesOf('languages'));
+  Object.assign(confidence, languageConfidence);
+
+  // Section-level entries let the UI flag a whole missing section
+  confidence.experience = experience.length > 0 ? 0.85 : 0;
+  confidence.education = education.length > 0 ? 0.85 : 0;
+  confidence.skills = skills.length > 0 ? 0.85 : 0;
+  if (certifications.length > 0) {
+    confidence.certifications = 0.8;
+  }
+
+  return {
+    cvData: {
+      id: `cv-${Date.now()}`,
+      personalInfo,
+      experience,
+      education,
+      skills,
+      certifications,
+      languages,
+      rawContent: text,
+      createdAt: new Date().toISOString(),
+    },
+    confidence,
+    sections: sections.map(({ kind, heading }) => ({ kind, heading })),
+  };
+}
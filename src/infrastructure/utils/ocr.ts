@@ -0,0 +1,108 @@
+/**
+ * OCR Utility
+ * Reads text from rendered page images with tesseract.js and bundled language data (no network access)
+ */
+
+import { OCR_CONFIG } from '@/src/shared/constants';
+import type { OCRPageResult } from '@/src/shared/types';
+import { normalizeBullet } from './pdfLayout';
+
+/**
+ * A rendered page (PNG bytes)
+ */
+export interface PageImage {
+  pageNumber: number;
+  data: Uint8Array;
+}
+
+/**
+ * Recognized text of a set of pages, with per-page confidence
+ */
+export interface OCROutput {
+  text: string;
+  pages: OCRPageResult[];
+}
+
+/**
+ * Location of the trained data shipped in @tesseract.js-data/<language>
+ * Loading it from node_modules keeps OCR working offline instead of fetching from a CDN
+ */
+async function loadLanguageData(language: string): Promise<{ langPath: string; gzip: boolean }> {
+  const languageModule = await import(`@tesseract.js-data/${language}`);
+  return languageModule.default ?? languageModule;
+}
+
+/**
+ * Trim recognized lines, drop blank ones and normalize bullet glyphs
+ * Tesseract separates most lines with blank ones, which would split CV entries apart
+ */
+export function tidyOCRText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => normalizeBullet(line.trim()))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Run OCR over page images, one tesseract worker for the whole document
+ * Aborting the signal terminates the worker mid-page and rejects with the signal's reason
+ */
+export async function recognizePages(
+  images: PageImage[],
+  language: string = OCR_CONFIG.LANGUAGE,
+  signal?: AbortSignal
+): Promise<OCROutput> {
+  signal?.throwIfAborted();
+  const { createWorker, OEM } = await import('tesseract.js');
+  const { langPath, gzip } = await loadLanguageData(language);
+  const worker = await createWorker(language, OEM.LSTM_ONLY, { langPath, gzip, cacheMethod: 'none' });
+
+  let terminated: Promise<unknown> | null = null;
+  const terminate = () => (terminated ??= worker.terminate());
+  signal?.addEventListener('abort', terminate, { once: true });
+
+  try {
+    const texts: string[] = [];
+    const pages: OCRPageResult[] = [];
+
+    for (const image of images) {
+      signal?.throwIfAborted();
+      const startTime = Date.now();
+      const { data } = await worker.recognize(Buffer.from(image.data));
+      const text = tidyOCRText(data.text);
+
+      texts.push(text);
+      pages.push({
+        pageNumber: image.pageNumber,
+        confidence: Math.round(data.confidence) / 100,
+        characters: text.length,
+      });
+      console.log(
+        `[OCR] Page ${image.pageNumber}: ${text.length} characters, ` +
+          `confidence ${Math.round(data.confidence)}% (${Date.now() - startTime}ms)`
+      );
+    }
+
+    return { text: texts.filter(Boolean).join('\n\n'), pages };
+  } catch (error) {
+    // A terminated worker rejects with its own error; report the cancellation instead
+    signal?.throwIfAborted();
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', terminate);
+    await terminate();
+  }
+}
+
+/**
+ * Document confidence: page confidences weighted by how much text each page produced
+ */
+export function overallConfidence(pages: OCRPageResult[]): number {
+  const characters = pages.reduce((sum, page) => sum + page.characters, 0);
+  if (characters === 0) {
+    return 0;
+  }
+  const weighted = pages.reduce((sum, page) => sum + page.confidence * page.characters, 0);
+  return Math.round((weighted / characters) * 100) / 100;
+}
@@ -0,0 +1,301 @@
+/**
+ * PDF Layout Analysis
+ * Rebuilds reading order from positioned text: columns, lines, paragraphs, headers/footers and bullets
+ */
+
+/**
+ * A text run with its position in top-down page coordinates (y is the baseline)
+ */
+export interface PDFTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Positioned text of one page
+ */
+export interface PDFPageContent {
+  width: number;
+  height: number;
+  items: PDFTextItem[];
+}
+
+/**
+ * Reading-order text and what the analysis found
+ */
+export interface PDFLayoutResult {
+  text: string;
+  // Number of text columns detected on each page
+  columns: number[];
+  // Header/footer lines (page numbers, repeated running titles) that were dropped
+  removedLines: number;
+}
+
+/**
+ * A row of items sharing a baseline
+ */
+interface TextLine {
+  y: number;
+  height: number;
+  items: PDFTextItem[];
+}
+
+/**
+ * Share of the page height at the top and bottom where headers and footers live
+ */
+const MARGIN_ZONE = 0.08;
+
+/**
+ * Items wider than this share of the page never belong to a single column
+ */
+const SPANNING_WIDTH = 0.5;
+
+/**
+ * Minimum gutter width between columns, as a share of the page width
+ */
+const MIN_GUTTER = 0.02;
+
+/**
+ * Each side of a gutter needs at least this share of the items to count as a column
+ */
+const MIN_COLUMN_SHARE = 0.2;
+
+const MAX_COLUMNS = 3;
+
+const PAGE_NUMBER_PATTERN = /^(?:page\s*)?\d+(?:\s*(?:of|\/)\s*\d+)?$/i;
+
+/**
+ * Bullet glyphs used by CV templates, including Symbol/Wingdings private-use code points
+ */
+const BULLET_GLYPHS = /^[•●▪■◦‣⁃➢➤✓✔▸►∙\uF0B7\uF0A7\uF076\uF0D8\uF0FC\uF0A8]\s*/;
+
+/**
+ * Group items into lines by baseline, each line sorted left to right
+ */
+function groupLines(items: PDFTextItem[]): TextLine[] {
+  const sorted = [...items].sort((a, b) => a.y - b.y || a.x - b.x);
+  const lines: TextLine[] = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(item.y - line.y) <= 0.4 * Math.max(1, Math.min(item.height, line.height))) {
+      line.items.push(item);
+      line.height = Math.max(line.height, item.height);
+    } else {
+      lines.push({ y: item.y, height: item.height, items: [item] });
+    }
+  }
+
+  for (const line of lines) {
+    line.items.sort((a, b) => a.x - b.x);
+  }
+  return lines;
+}
+
+/**
+ * Join a line's items, adding a space where the horizontal gap is wider than a narrow space
+ */
+function lineText(line: TextLine): string {
+  let text = '';
+  let lastEnd: number | null = null;
+
+  for (const item of line.items) {
+    const gap = lastEnd === null ? 0 : item.x - lastEnd;
+    if (lastEnd !== null && gap > 0.2 * item.height && !/\s$/.test(text) && !/^\s/.test(item.text)) {
+      text += ' ';
+    }
+    text += item.text;
+    lastEnd = item.x + item.width;
+  }
+
+  return normalizeBullet(text.replace(/\s+/g, ' ').trim());
+}
+
+/**
+ * Rewrite template bullet glyphs as "• " so the CV parser recognises them
+ */
+export function normalizeBullet(line: string): string {
+  return BULLET_GLYPHS.test(line) ? `• ${line.replace(BULLET_GLYPHS, '')}` : line;
+}
+
+/**
+ * Lines to text, with a blank line wherever the vertical gap suggests a new paragraph or entry
+ */
+function linesToText(lines: TextLine[]): string {
+  const output: string[] = [];
+  let previous: TextLine | null = null;
+
+  for (const line of lines) {
+    const text = lineText(line);
+    if (!text) {
+      continue;
+    }
+    if (previous && line.y - previous.y > 1.9 * Math.max(line.height, previous.height)) {
+      output.push('');
+    }
+    output.push(text);
+    previous = line;
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Header/footer key: running titles repeat with only the page number changing
+ */
+function marginKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Remove page numbers and lines repeated in the top or bottom margin of several pages
+ */
+function removeHeadersAndFooters(pages: PDFPageContent[]): { pages: PDFPageContent[]; removed: number } {
+  const inMargin = (page: PDFPageContent, line: TextLine) =>
+    line.y < page.height * MARGIN_ZONE || line.y > page.height * (1 - MARGIN_ZONE);
+
+  const pageLines = pages.map((page) => groupLines(page.items));
+  const keyCounts = new Map<string, number>();
+  pageLines.forEach((lines, index) => {
+    const keys = new Set(
+      lines.filter((line) => inMargin(pages[index], line)).map((line) => marginKey(lineText(line)))
+    );
+    for (const key of keys) {
+      keyCounts.set(key, (keyCounts.get(key) ?? 0) + 1);
+    }
+  });
+
+  let removed = 0;
+  const cleaned = pages.map((page, index) => {
+    const dropped = new Set<PDFTextItem>();
+    for (const line of pageLines[index]) {
+      if (!inMargin(page, line)) {
+        continue;
+      }
+      const text = lineText(line);
+      const repeated = pages.length > 1 && (keyCounts.get(marginKey(text)) ?? 0) >= Math.max(2, pages.length / 2);
+      if (repeated || PAGE_NUMBER_PATTERN.test(text)) {
+        line.items.forEach((item) => dropped.add(item));
+        removed++;
+      }
+    }
+    return { ...page, items: page.items.filter((item) => !dropped.has(item)) };
+  });
+
+  return { pages: cleaned, removed };
+}
+
+/**
+ * Find the widest vertical gap that splits the items into two real columns
+ * Returns the gutter's center x, or null for a single column
+ */
+function findGutter(items: PDFTextItem[], pageWidth: number): number | null {
+  const candidates = items.filter((item) => item.width < pageWidth * SPANNING_WIDTH);
+  if (candidates.length < 6) {
+    return null;
+  }
+
+  const left = Math.floor(Math.min(...candidates.map((item) => item.x)));
+  const right = Math.ceil(Math.max(...candidates.map((item) => item.x + item.width)));
+  const covered = new Uint8Array(Math.max(0, right - left + 1));
+  for (const item of candidates) {
+    covered.fill(1, Math.max(0, Math.floor(item.x) - left), Math.ceil(item.x + item.width) - left + 1);
+  }
+
+  let best: { center: number; width: number } | null = null;
+  let runStart = -1;
+  for (let i = 0; i <= covered.length; i++) {
+    if (i < covered.length && covered[i] === 0) {
+      runStart = runStart < 0 ? i : runStart;
+      continue;
+    }
+    if (runStart >= 0) {
+      const width = i - runStart;
+      const center = left + runStart + width / 2;
+      const leftCount = candidates.filter((item) => item.x + item.width <= center).length;
+      const share = Math.min(leftCount, candidates.length - leftCount) / candidates.length;
+      if (width >= pageWidth * MIN_GUTTER && share >= MIN_COLUMN_SHARE && (!best || width > best.width)) {
+        best = { center, width };
+      }
+      runStart = -1;
+    }
+  }
+
+  return best?.center ?? null;
+}
+
+/**
+ * Column boundaries (x positions of gutters) for a page, at most MAX_COLUMNS columns
+ */
+function findGutters(items: PDFTextItem[], pageWidth: number): number[] {
+  const gutter = findGutter(items, pageWidth);
+  if (gutter === null) {
+    return [];
+  }
+
+  const leftItems = items.filter((item) => item.x + item.width <= gutter);
+  const rightItems = items.filter((item) => item.x >= gutter);
+  const gutters = [gutter];
+  for (const side of [leftItems, rightItems]) {
+    const inner = gutters.length + 1 < MAX_COLUMNS ? findGutter(side, pageWidth) : null;
+    if (inner !== null) {
+      gutters.push(inner);
+    }
+  }
+  return gutters.sort((a, b) => a - b);
+}
+
+/**
+ * Reading-order text of one page
+ * Full-width lines (name banner, section rules) split the page into bands; each band is read column by column
+ */
+function pageText(page: PDFPageContent): { text: string; columns: number } {
+  const gutters = findGutters(page.items, page.width);
+  if (gutters.length === 0) {
+    return { text: linesToText(groupLines(page.items)), columns: 1 };
+  }
+
+  const crossesGutter = (item: PDFTextItem) =>
+    gutters.some((gutter) => item.x < gutter && item.x + item.width > gutter);
+  const spanning = groupLines(page.items.filter(crossesGutter));
+  const columnItems = page.items.filter((item) => !crossesGutter(item));
+  const columnOf = (item: PDFTextItem) => gutters.filter((gutter) => item.x >= gutter).length;
+
+  const blocks: string[] = [];
+  const emitBand = (from: number, to: number) => {
+    for (let column = 0; column <= gutters.length; column++) {
+      const band = columnItems.filter((item) => columnOf(item) === column && item.y >= from && item.y < to);
+      const text = linesToText(groupLines(band));
+      if (text) {
+        blocks.push(text);
+      }
+    }
+  };
+
+  let cursor = -Infinity;
+  for (const line of spanning) {
+    emitBand(cursor, line.y);
+    blocks.push(lineText(line));
+    cursor = line.y;
+  }
+  emitBand(cursor, Infinity);
+
+  return { text: blocks.filter(Boolean).join('\n\n'), columns: gutters.length + 1 };
+}
+
+/**
+ * Rebuild reading-order text for a whole document
+ */
+export function analyzePDFLayout(pages: PDFPageContent[]): PDFLayoutResult {
+  const { pages: cleaned, removed } = removeHeadersAndFooters(pages);
+  const results = cleaned.map(pageText);
+
+  return {
+    text: results.map((result) => result.text).filter(Boolean).join('\n\n'),
+    columns: results.map((result) => result.columns),
+    removedLines: removed,
+  };
+}
@@ -1,8 +1,15 @@
 /**
  * PDF Parser Utility
- * Wrapper for pdf-parse to handle ESM/CJS compatibility issues
+ * Wrapper for pdf-parse to handle ESM/CJS compatibility issues, plus layout-aware extraction with pdf.js
+ * and an OCR fallback for scanned documents
  */
 
+import { DocumentError } from '@/src/infrastructure/documents/documentErrors';
+import { OCR_CONFIG, UPLOAD_LIMITS } from '@/src/shared/constants';
+import type { OCRReport } from '@/src/shared/types';
+import { analyzePDFLayout, type PDFLayoutResult, type PDFPageContent } from './pdfLayout';
+import { overallConfidence, recognizePages } from './ocr';
+
 /**
  * Setup polyfills for browser APIs that pdf-parse needs in Node.js
  * These must be set up before pdf-parse is loaded
@@ -70,10 +77,43 @@ function setupPolyfills(): void {
 // This ensures they're available before pdf-parse is required
 setupPolyfills();
 
+/**
+ * Reject PDFs over the page limit
+ */
+function assertPageLimit(pageCount: number): void {
+  if (pageCount > UPLOAD_LIMITS.MAX_PDF_PAGES) {
+    throw new DocumentError(
+      'TOO_MANY_PAGES',
+      `The PDF has ${pageCount} pages; CVs of up to ${UPLOAD_LIMITS.MAX_PDF_PAGES} pages are supported.`
+    );
+  }
+}
+
+/**
+ * Plain text of a PDF with a pdf-parse PDFParse instance, after checking the page count
+ */
+async function readPlainText(PDFParseClass: any, buffer: Buffer): Promise<string> {
+  const parser = new PDFParseClass({ data: buffer });
+
+  try {
+    const info = await parser.getInfo();
+    assertPageLimit(info.total);
+
+    const result = await parser.getText();
+    if (!result || typeof result.text !== 'string') {
+      throw new Error('pdf-parse returned invalid data structure');
+    }
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
 /**
  * Parse PDF buffer to text
  * Uses dynamic import to avoid bundling issues with Next.js
  * pdf-parse v2+ uses PDFParse class pattern
+ * Throws DocumentError for PDFs over the page limit
  */
 export async function parsePDF(buffer: Buffer): Promise<string> {
   try {
@@ -92,18 +132,12 @@ export async function parsePDF(buffer: Buffer): Promise<string> {
       );
     }
     
-    // Create parser instance with buffer data
-    const parser = new PDFParseClass({ data: buffer });
-    
-    // Get text from PDF
-    const result = await parser.getText();
-    
-    if (!result || typeof result.text !== 'string') {
-      throw new Error('pdf-parse returned invalid data structure');
-    }
-    
-    return result.text;
+    return await readPlainText(PDFParseClass, buffer);
   } catch (error) {
+    if (error instanceof DocumentError) {
+      throw error;
+    }
+
     // If dynamic import fails, try require() as fallback (for Node.js runtime)
     try {
       // eslint-disable-next-line @typescript-eslint/no-require-imports, @typescript-eslint/no-var-requires
@@ -115,18 +149,12 @@ export async function parsePDF(buffer: Buffer): Promise<string> {
         throw new Error('pdf-parse PDFParse class not found in require() fallback');
       }
       
-      // Create parser instance with buffer data
-      const parser = new PDFParseClass({ data: buffer });
-      
-      // Get text from PDF
-      const result = await parser.getText();
-      
-      if (!result || typeof result.text !== 'string') {
-        throw new Error('pdf-parse returned invalid data structure');
-      }
-      
-      return result.text;
+      return await readPlainText(PDFParseClass, buffer);
     } catch (fallbackError) {
+      if (fallbackError instanceof DocumentError) {
+        throw fallbackError;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       const fallbackMessage = fallbackError instanceof Error ? fallbackError.message : 'Unknown';
       
@@ -138,3 +166,156 @@ export async function parsePDF(buffer: Buffer): Promise<string> {
     }
   }
 }
+
+/**
+ * Layout-aware text of a PDF plus the URLs of its link annotations (mailto:, LinkedIn, portfolio...)
+ */
+export interface PDFExtraction extends PDFLayoutResult {
+  links: string[];
+  // Set when the text was read from page images because the PDF has no usable text layer
+  ocr?: OCRReport;
+}
+
+/**
+ * Read positioned text items and link annotations of every page with pdf.js
+ * pdf-parse bundles the same pdf.js build; its getText() loses positions, so columns come out interleaved
+ * Stops before the next page once the signal is aborted
+ */
+async function readPDFPages(
+  buffer: Buffer,
+  signal?: AbortSignal
+): Promise<{ pages: PDFPageContent[]; links: string[] }> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    assertPageLimit(document.numPages);
+
+    const pages: PDFPageContent[] = [];
+    const links = new Set<string>();
+
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      signal?.throwIfAborted();
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      const items: PDFPageContent['items'] = [];
+      for (const item of content.items) {
+        if (!('str' in item) || item.str.trim().length === 0) {
+          continue;
+        }
+        // Text space -> top-down viewport space; transform[4..5] is the baseline origin
+        const [x, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+        const height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+        items.push({ text: item.str, x, y, width: item.width, height });
+      }
+      pages.push({ width: viewport.width, height: viewport.height, items });
+
+      for (const annotation of await page.getAnnotations()) {
+        const url = annotation.url ?? annotation.unsafeUrl;
+        if (annotation.subtype === 'Link' && typeof url === 'string' && url.trim()) {
+          links.add(url.trim());
+        }
+      }
+      page.cleanup();
+    }
+
+    return { pages, links: [...links] };
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Whether extracted text is substantial enough to skip OCR
+ * Scanned CVs often carry a stray text item or two (a page number, a scanner stamp) but nothing more
+ */
+function hasTextLayer(text: string, pageCount: number): boolean {
+  return text.replace(/\s+/g, '').length >= OCR_CONFIG.MIN_TEXT_CHARS_PER_PAGE * Math.max(1, pageCount);
+}
+
+/**
+ * Render the first pages with pdf-parse (pdf.js + @napi-rs/canvas) and read them with tesseract
+ */
+async function ocrPDF(buffer: Buffer, signal?: AbortSignal): Promise<Pick<PDFExtraction, 'text' | 'ocr'>> {
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+
+  try {
+    const screenshots = await parser.getScreenshot({
+      first: OCR_CONFIG.MAX_PAGES,
+      scale: OCR_CONFIG.RENDER_SCALE,
+      imageBuffer: true,
+      imageDataUrl: false,
+    });
+    signal?.throwIfAborted();
+    const { text, pages } = await recognizePages(
+      screenshots.pages.map(({ pageNumber, data }) => ({ pageNumber, data })),
+      OCR_CONFIG.LANGUAGE,
+      signal
+    );
+
+    return {
+      text,
+      ocr: {
+        engine: 'tesseract',
+        language: OCR_CONFIG.LANGUAGE,
+        confidence: overallConfidence(pages),
+        pages,
+        pagesSkipped: Math.max(0, screenshots.total - pages.length),
+      },
+    };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Extract reading-order text and embedded hyperlinks from a PDF
+ * Multi-column layouts are read column by column; running headers, footers and page numbers are dropped
+ * Falls back to pdf-parse's plain text (without links) if layout extraction fails,
+ * and to OCR when the document has no text layer (scanned or image-only CVs)
+ * Throws DocumentError for PDFs over the page limit and password-protected PDFs,
+ * and the signal's reason once it is aborted (between pages, and by terminating the OCR worker)
+ */
+export async function extractPDF(buffer: Buffer, signal?: AbortSignal): Promise<PDFExtraction> {
+  let extraction: PDFExtraction;
+  let pageCount = 0;
+
+  try {
+    const { pages, links } = await readPDFPages(buffer, signal);
+    pageCount = pages.length;
+    extraction = { ...analyzePDFLayout(pages), links };
+  } catch (error) {
+    signal?.throwIfAborted();
+    if (error instanceof DocumentError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new DocumentError('PASSWORD_PROTECTED', 'The PDF is password-protected. Please remove the password and upload it again.');
+    }
+    console.warn(
+      '⚠️ [PDF] Layout-aware extraction failed, falling back to plain text:',
+      error instanceof Error ? error.message : error
+    );
+    extraction = { text: await parsePDF(buffer), columns: [], removedLines: 0, links: [] };
+  }
+
+  if (hasTextLayer(extraction.text, pageCount)) {
+    return extraction;
+  }
+  signal?.throwIfAborted();
+
+  console.log(`🔍 [OCR] No usable text layer (${extraction.text.trim().length} characters), running OCR...`);
+  try {
+    return { ...extraction, ...(await ocrPDF(buffer, signal)) };
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.error('❌ [OCR] OCR failed:', error instanceof Error ? error.message : error);
+    return extraction;
+  }
+}
@@ -31,13 +31,204 @@ export const HUGGINGFACE_MODELS = {
   LAST_RESORT: 'microsoft/Phi-3-mini-4k-instruct',
 } as const;
 
+/**
+ * LLM provider configuration
+ * The provider is selected with the LLM_PROVIDER env variable
+ * ('huggingface', 'openai-compatible', 'mock', 'record' or 'replay')
+ */
+export const LLM_PROVIDER_CONFIG = {
+  DEFAULT_PROVIDER: 'huggingface',
+  // Ollama's OpenAI-compatible endpoint; override with LLM_BASE_URL for llama.cpp or vLLM
+  OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1',
+  // Record/replay fixture directory; override with LLM_FIXTURES_DIR
+  FIXTURES_DIR: 'fixtures/llm',
+} as const;
+
+/**
+ * Model fallback chain tried after the requested model, in order
+ * Override with a comma-separated LLM_FALLBACK_CHAIN env variable
+ */
+export const FALLBACK_CHAIN = [
+  HUGGINGFACE_MODELS.GLM_FLASH,
+  HUGGINGFACE_MODELS.FALLBACK,
+  HUGGINGFACE_MODELS.ALTERNATIVE_FALLBACK,
+  HUGGINGFACE_MODELS.LAST_RESORT,
+] as const;
+
+/**
+ * Retry and circuit breaker tuning for the fallback chain
+ */
+export const FALLBACK_POLICY = {
+  // Retries per model for rate limits (429) and server errors (5xx)
+  MAX_RETRIES: 2,
+  BACKOFF_BASE_MS: 500,
+  BACKOFF_MAX_MS: 8000,
+  // Consecutive failures before a model's circuit opens
+  FAILURE_THRESHOLD: 3,
+  // How long an open circuit skips the model before allowing a trial request
+  COOL_DOWN_MS: 2 * 60 * 1000,
+} as const;
+
+/**
+ * Context windows (tokens) as served by inference providers
+ * Often smaller than a model's native window; override all of them with LLM_CONTEXT_WINDOW
+ */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  [HUGGINGFACE_MODELS.CV_GENERATION]: 16384,
+  [HUGGINGFACE_MODELS.GLM_FLASH]: 131072,
+  [HUGGINGFACE_MODELS.FALLBACK]: 32768,
+  [HUGGINGFACE_MODELS.ALTERNATIVE_FALLBACK]: 8192,
+  [HUGGINGFACE_MODELS.LAST_RESORT]: 4096,
+};
+
+/**
+ * Token budgeting for prompts
+ */
+export const TOKEN_BUDGET = {
+  // Used for models missing from MODEL_CONTEXT_WINDOWS
+  DEFAULT_CONTEXT_WINDOW: 8192,
+  // Share of the window kept free because token counts are estimates
+  SAFETY_MARGIN: 0.1,
+  // Inputs are never cut below this many tokens
+  MIN_SECTION_TOKENS: 200,
+  // Upper bound on map-reduce calls for one long input; the rest is dropped
+  MAX_CHUNKS: 6,
+} as const;
+
+/**
+ * Approximate Hugging Face inference provider prices in USD per million tokens, used for cost estimates
+ * Models missing here and other LLM providers (local servers, mock) are counted as free
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  [HUGGINGFACE_MODELS.CV_GENERATION]: { input: 0.02, output: 0.05 },
+  [HUGGINGFACE_MODELS.GLM_FLASH]: { input: 0.07, output: 0.4 },
+  [HUGGINGFACE_MODELS.FALLBACK]: { input: 0.2, output: 0.2 },
+  [HUGGINGFACE_MODELS.ALTERNATIVE_FALLBACK]: { input: 0.2, output: 0.2 },
+  [HUGGINGFACE_MODELS.LAST_RESORT]: { input: 0.1, output: 0.1 },
+};
+
+/**
+ * Usage ledger configuration
+ */
+export const USAGE_LEDGER = {
+  // Individual entries kept in memory; aggregates cover every call since server start
+  MAX_ENTRIES: 1000,
+  // Entries returned by /api/usage unless ?recent= asks for another number
+  DEFAULT_RECENT: 20,
+} as const;
+
+/**
+ * LLM response cache configuration
+ * Disable with LLM_CACHE=off, move the disk store with LLM_CACHE_DIR
+ */
+export const CACHE_CONFIG = {
+  DIR: '.cache/llm',
+  MAX_MEMORY_ENTRIES: 200,
+  GENERATION_TTL_MS: 24 * 60 * 60 * 1000,
+  JOB_ANALYSIS_TTL_MS: 7 * 24 * 60 * 60 * 1000,
+  EMBEDDINGS_TTL_MS: 30 * 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Semantic requirement matching configuration
+ */
+export const SEMANTIC_MATCH_CONFIG = {
+  EMBEDDING_MODEL: 'sentence-transformers/all-MiniLM-L6-v2',
+  // Cosine similarity a CV line needs to count as evidence for a requirement
+  SIMILARITY_THRESHOLD: 0.55,
+  // Local word vectors score paraphrases lower than a sentence model does
+  LOCAL_SIMILARITY_THRESHOLD: 0.3,
+  LOCAL_DIMENSIONS: 512,
+  // CV lines shorter than this are headings or contact details, longer ones are split into sentences
+  MIN_LINE_LENGTH: 15,
+  MAX_LINE_LENGTH: 300,
+  MAX_CV_LINES: 200,
+  // Texts per embeddings request
+  BATCH_SIZE: 32,
+} as const;
+
+/**
+ * Deterministic CV match scoring
+ * Weights are shares of the total; a component the job gives nothing to score against hands its weight to the rest
+ */
+export const MATCH_SCORE_CONFIG = {
+  WEIGHTS: {
+    MUST_HAVE: 35,
+    NICE_TO_HAVE: 10,
+    SKILLS: 25,
+    SENIORITY: 15,
+    EDUCATION: 5,
+    KEYWORDS: 10,
+  },
+  // Most frequent job description terms checked for keyword coverage
+  KEYWORD_LIMIT: 40,
+  // Coverage that earns the full keyword score; nobody repeats every term of a posting
+  FULL_KEYWORD_COVERAGE: 0.7,
+} as const;
+
+/**
+ * Experience timeline built from CV roles
+ */
+export const EXPERIENCE_TIMELINE_CONFIG = {
+  // Breaks between roles at least this long are reported as gaps
+  MIN_GAP_MONTHS: 6,
+  // Years of experience at which a tenure reads as Mid, Senior and Lead
+  SENIORITY_YEARS: {
+    MID: 2,
+    SENIOR: 5,
+    LEAD: 8,
+  },
+} as const;
+
+/**
+ * ATS simulation of CV downloads
+ * Weights of each field check in the parse-fidelity score; checks with nothing to find hand their weight to the rest
+ */
+export const ATS_CHECK_CONFIG = {
+  WEIGHTS: {
+    CONTACT: 30,
+    HEADINGS: 25,
+    TITLES: 20,
+    DATES: 15,
+    TEXT: 10,
+  },
+  // Sample of lost words reported by the text check
+  MAX_MISSING_WORDS: 10,
+} as const;
+
+/**
+ * Provider health check configuration
+ */
+export const HEALTH_CHECK_CONFIG = {
+  HUB_API_URL: 'https://huggingface.co/api',
+  // Probes ask for a handful of tokens so checking every model stays cheap
+  PROBE_PROMPT: 'Reply with the single word OK.',
+  PROBE_MAX_TOKENS: 5,
+  PROBE_TIMEOUT_MS: 20 * 1000,
+  HUB_TIMEOUT_MS: 10 * 1000,
+} as const;
+
 /**
  * API route paths
  */
 export const API_ROUTES = {
   GENERATE_CV: '/api/cv/generate',
+  GENERATE_CV_STREAM: '/api/cv/generate/stream',
   GENERATE_COVER_LETTER: '/api/cover-letter/generate',
   ANALYZE_JOB: '/api/job/analyze',
+  IMPORT_CV: '/api/cv/import',
+  IMPORT_JOB: '/api/job/import',
+  ATS_CHECK: '/api/cv/ats-check',
+} as const;
+
+/**
+ * Progress milestones (0-100) for streamed CV generation
+ */
+export const GENERATION_PROGRESS = {
+  ANALYSIS_DONE: 20,
+  DRAFTING_MAX: 95,
+  // Typical length of a generated CV, used to turn streamed characters into progress
+  EXPECTED_CV_LENGTH: 4000,
 } as const;
 
 /**
@@ -53,11 +244,82 @@ export const QUESTION_TEMPLATES: Record<string, string> = {
   summary: "Give me a brief professional summary about yourself.",
 };
 
+/**
+ * Structured CV parsing
+ */
+export const CV_PARSING = {
+  // Fields below this confidence are flagged for the user to check
+  UNCERTAIN_THRESHOLD: 0.6,
+  // Confidence of a value only the LLM refinement pass found
+  LLM_CONFIDENCE: 0.7,
+  // Added when the heuristics and the LLM agree on a value
+  AGREEMENT_BONUS: 0.15,
+  // Confidence of a value the heuristics and the LLM disagree on
+  DISAGREEMENT_CONFIDENCE: 0.5,
+  // Heuristic values this sure (exact pattern matches) are kept even when the LLM disagrees
+  TRUSTED_HEURISTIC: 0.9,
+  REFINE_MAX_OUTPUT_TOKENS: 2500,
+} as const;
+
+/**
+ * OCR fallback for scanned and image-only PDFs
+ */
+export const OCR_CONFIG = {
+  // Tesseract language, bundled via @tesseract.js-data/<language>
+  LANGUAGE: 'eng',
+  // Documents with fewer extracted characters per page than this have no usable text layer
+  MIN_TEXT_CHARS_PER_PAGE: 20,
+  // Render scale for page images (1 = 72 dpi); tesseract reads best at roughly 200-300 dpi
+  RENDER_SCALE: 3,
+  // OCR is slow on small instances; later pages of a CV rarely hold contact details
+  MAX_PAGES: 4,
+  // Pages below this confidence (0-1) are reported as unreliable
+  LOW_CONFIDENCE: 0.6,
+} as const;
+
+/**
+ * Fetching job postings by URL for /api/job/import
+ */
+export const JOB_IMPORT_CONFIG = {
+  FETCH_TIMEOUT_MS: 15 * 1000,
+  // Job pages are rarely over 1MB; the limit keeps a hostile URL from streaming forever
+  MAX_PAGE_BYTES: 5 * 1024 * 1024,
+  MAX_REDIRECTS: 5,
+  // Some job boards refuse requests without a browser-like user agent
+  USER_AGENT: 'Mozilla/5.0 (compatible; CVOptimizer/1.0)',
+  // Requirement lists longer than this are cut; postings rarely list more
+  MAX_REQUIREMENTS: 25,
+} as const;
+
 /**
  * Maximum file size for CV upload (5MB)
  */
 export const MAX_FILE_SIZE = 5 * 1024 * 1024;
 
+/**
+ * Maximum size of a CV import (20MB); LinkedIn data exports include more than the profile
+ */
+export const MAX_IMPORT_FILE_SIZE = 20 * 1024 * 1024;
+
+/**
+ * Server-side limits on CV uploads and imports, beyond the file size
+ */
+export const UPLOAD_LIMITS = {
+  // Longer PDFs are rejected rather than truncated; a CV is rarely more than a few pages
+  MAX_PDF_PAGES: 20,
+  // DOCX, ODT and LinkedIn exports are ZIP archives; these bound what they may decompress to
+  MAX_ARCHIVE_ENTRIES: 2000,
+  MAX_UNCOMPRESSED_BYTES: 50 * 1024 * 1024,
+  // Office XML compresses 10-20x; an entry far beyond that is a zip bomb
+  MAX_COMPRESSION_RATIO: 100,
+  // Small entries (repetitive styles.xml) may compress better than the ratio without being a threat
+  RATIO_CHECK_MIN_BYTES: 1024 * 1024,
+  // Parsing, including OCR, is abandoned after this long (below the route's maxDuration)
+  PARSE_TIMEOUT_MS: 90 * 1000,
+  // Room for the other form fields and the multipart boundaries when the request size is checked up front
+  MULTIPART_OVERHEAD_BYTES: 64 * 1024,
+} as const;
+
 /**
  * Allowed file types for CV upload
  */
@@ -65,5 +327,27 @@ export const ALLOWED_FILE_TYPES = [
   'application/pdf',
   'application/msword',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.oasis.opendocument.text',
+  'application/rtf',
+  'text/rtf',
+  'text/html',
+  'text/markdown',
   'text/plain',
 ] as const;
+
+/**
+ * File extensions offered in the CV upload picker
+ * The server detects the real format from the file content
+ */
+export const ALLOWED_FILE_EXTENSIONS = [
+  '.pdf',
+  '.docx',
+  '.doc',
+  '.odt',
+  '.rtf',
+  '.html',
+  '.htm',
+  '.md',
+  '.markdown',
+  '.txt',
+] as const;
@@ -16,6 +16,114 @@ export interface JobDescription {
   createdAt: string; // ISO string format
 }
 
+/**
+ * Where an imported job posting's fields came from
+ */
+export type JobImportSource = 'json-ld' | 'page-text';
+
+/**
+ * Result of /api/job/import
+ */
+export interface JobImportResult {
+  jobDescription: JobDescription; // content is the posting text; title, company and requirements when found
+  source: JobImportSource; // json-ld: schema.org JobPosting markup; page-text: main text of the page
+  url?: string; // Final URL after redirects, for URL imports
+  warnings: string[];
+}
+
+/**
+ * Where the work happens
+ */
+export type WorkArrangement = 'remote' | 'hybrid' | 'on-site';
+
+/**
+ * Kind of employment contract offered
+ */
+export type ContractType =
+  | 'permanent'
+  | 'fixed-term'
+  | 'contract'
+  | 'freelance'
+  | 'temporary'
+  | 'internship'
+  | 'apprenticeship';
+
+/**
+ * Period a salary amount is paid per
+ */
+export type SalaryPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Salary range as stated in a posting, normalized to whole currency units
+ */
+export interface SalaryRange {
+  min: number;
+  max: number; // Equal to min for a single figure
+  currency: string; // ISO 4217 code
+  period: SalaryPeriod;
+  text: string; // The range as written, e.g. "$120k-150k"
+}
+
+/**
+ * Hard facts read from a job description by rules, not the model; unknown facts are left out
+ */
+export interface JobFacts {
+  salary?: SalaryRange;
+  workArrangement?: WorkArrangement;
+  locations: string[];
+  visaSponsorship?: boolean; // false when the posting says it cannot sponsor
+  contractType?: ContractType;
+  yearsOfExperience?: { min: number; max?: number };
+}
+
+/**
+ * How firmly a posting asks for a requirement
+ */
+export type RequirementPriority = 'required' | 'preferred' | 'bonus';
+
+/**
+ * What a requirement is about; location also covers legal conditions (right to work, clearance, licences)
+ */
+export type RequirementCategory = 'skill' | 'experience' | 'education' | 'certification' | 'language' | 'location';
+
+/**
+ * A key requirement with its priority and category, classified by rules
+ */
+export interface ClassifiedRequirement {
+  text: string;
+  priority: RequirementPriority;
+  category: RequirementCategory;
+}
+
+/**
+ * Business context and candidate profile read from a job description
+ */
+export interface JobAnalysis {
+  businessType: string;
+  industry: string;
+  candidateProfile: {
+    experienceLevel: string;
+    keySkills: string[];
+    personalityTraits: string[];
+    education: string;
+  };
+  values: string[];
+  keyRequirements: string[];
+  writingStyle: string;
+  domainStandards: string;
+  missingInfo: string[];
+  facts: JobFacts;
+  requirements: ClassifiedRequirement[]; // keyRequirements in the same order, classified
+}
+
+/**
+ * Result of /api/job/analyze
+ */
+export interface JobAnalysisResult {
+  jobDescription: JobDescription; // The description with title, company and requirements filled in where found
+  jobAnalysis: JobAnalysis;
+}
+
 /**
  * CV data structure
  * Dates are stored as ISO strings for Redux serialization compatibility
@@ -80,6 +188,106 @@ export interface Language {
   proficiency: 'native' | 'fluent' | 'professional' | 'basic';
 }
 
+/**
+ * CV section recognised by its heading
+ */
+export type CVSectionKind =
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'skills'
+  | 'languages'
+  | 'certifications'
+  | 'projects'
+  | 'other';
+
+/**
+ * Confidence (0-1) per CVData field path, e.g. 'personalInfo.email' or 'experience.0.startDate'
+ */
+export type CVFieldConfidence = Record<string, number>;
+
+/**
+ * CV text turned into CVData, with how sure the parser is about each field
+ */
+export interface CVParseResult {
+  cvData: CVData;
+  confidence: CVFieldConfidence;
+  uncertainFields: string[]; // Paths below the confidence threshold, for the UI to flag
+  sections: Array<{ kind: CVSectionKind; heading: string }>;
+  refined: boolean; // Whether the LLM refinement pass was applied
+}
+
+/**
+ * Result of /api/cv/parse-file
+ */
+export interface ParsedCVFile {
+  text: string;
+  cv: CVParseResult;
+  format: DocumentFormat;
+  warnings: string[]; // Parts of the document that could not be read faithfully
+  ocrUsed: boolean; // Text was read from page images because the document had no text layer
+  ocr?: OCRReport;
+}
+
+/**
+ * Structured CV sources imported without the LLM
+ */
+export type CVImportSource = 'json-resume' | 'linkedin-export';
+
+/**
+ * Result of /api/cv/import
+ */
+export interface CVImportResult {
+  cvData: CVData; // rawContent holds a plain-text rendering for the analysis prompts
+  source: CVImportSource;
+  warnings: string[]; // Missing files or entries that could not be mapped
+}
+
+/**
+ * Upload formats recognised by the document format detector
+ */
+export type DocumentFormat = 'pdf' | 'docx' | 'doc' | 'odt' | 'rtf' | 'html' | 'markdown' | 'txt';
+
+/**
+ * A heading and the text under it; the text before the first heading has an empty heading
+ */
+export interface DocumentSection {
+  heading: string;
+  content: string;
+}
+
+/**
+ * Text extracted from an uploaded document, whatever its format
+ */
+export interface ParsedDocument {
+  format: DocumentFormat;
+  text: string;
+  sections: DocumentSection[];
+  warnings: string[];
+  links: string[]; // Hyperlink targets (mailto:, tel:, web URLs)
+  ocr?: OCRReport;
+}
+
+/**
+ * OCR outcome for one rendered page
+ */
+export interface OCRPageResult {
+  pageNumber: number;
+  confidence: number; // 0-1, mean word confidence reported by the OCR engine
+  characters: number;
+}
+
+/**
+ * How an image-only document was read with OCR
+ */
+export interface OCRReport {
+  engine: 'tesseract';
+  language: string;
+  confidence: number; // 0-1, mean over pages weighted by recognized characters
+  pages: OCRPageResult[];
+  pagesSkipped: number; // Pages beyond OCR_CONFIG.MAX_PAGES that were not read
+}
+
 /**
  * Chat message in Q&A session
  * Dates are stored as ISO strings for Redux serialization compatibility
@@ -127,6 +335,21 @@ export type GenerationStatus =
   | 'completed'
   | 'error';
 
+/**
+ * Phases reported while a CV is streamed
+ */
+export type GenerationPhase = 'analyzing' | 'drafting' | 'finalizing';
+
+/**
+ * Events sent over Server-Sent Events by the streaming generation route
+ * The SSE event name equals `type`
+ */
+export type GenerationStreamEvent =
+  | { type: 'phase'; phase: GenerationPhase; section?: string; progress: number }
+  | { type: 'token'; text: string; progress: number }
+  | { type: 'done'; cv: string; metadata: ApiResponseMetadata }
+  | { type: 'error'; error: string; metadata: ApiResponseMetadata };
+
 /**
  * Generation result
  * Dates are stored as ISO strings for Redux serialization compatibility
@@ -137,6 +360,8 @@ export interface GenerationResult {
   cvId?: string;
   status: GenerationStatus;
   optimizedCV?: string;
+  generatedBy?: string; // Model that actually answered (may be a fallback)
+  promptVersion?: string; // Prompt template that produced the CV, e.g. 'cv-generation@1'
   coverLetter?: string;
   error?: string;
   progress?: number;
@@ -144,6 +369,58 @@ export interface GenerationResult {
   completedAt?: string; // ISO string format
 }
 
+/**
+ * Download formats the ATS check re-parses
+ */
+export type ATSExportFormat = 'pdf' | 'docx';
+
+/**
+ * Layout or content an applicant tracking system is likely to misread
+ */
+export type ATSIssueCode =
+  | 'table'
+  | 'image'
+  | 'header-footer'
+  | 'multi-column'
+  | 'non-standard-heading'
+  | 'markup-characters'
+  | 'merged-lines';
+
+export interface ATSIssue {
+  code: ATSIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * How much of one kind of CV field came back out of an export
+ */
+export interface ATSFieldCheck {
+  field: 'contact' | 'headings' | 'titles' | 'dates' | 'text';
+  expected: number;
+  recovered: number;
+  missing: string[]; // Values that did not come back (text: sample words)
+}
+
+/**
+ * Result of re-parsing one export format
+ */
+export interface ATSFormatReport {
+  format: ATSExportFormat;
+  score: number; // 0-100 parse fidelity
+  checks: ATSFieldCheck[];
+  issues: ATSIssue[];
+}
+
+/**
+ * ATS simulation of a generated CV's downloads
+ */
+export interface ATSReport {
+  formats: ATSFormatReport[];
+  // Problems in the CV text itself, whatever the format
+  contentIssues: ATSIssue[];
+}
+
 /**
  * Application state structure
  */
@@ -156,6 +433,140 @@ export interface AppState {
   error: string | null;
 }
 
+/**
+ * One attempt against a model while walking the fallback chain
+ */
+export interface InferenceAttempt {
+  model: string;
+  outcome: 'success' | 'failed' | 'skipped' | 'aborted'; // aborted: the caller cancelled mid-request
+  retries: number;
+  status?: number;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Record of a single generation call: which model actually answered
+ */
+export interface InferenceRecord {
+  requestedModel: string;
+  model: string | null; // null when every model in the chain failed
+  provider: string;
+  fallbackHops: number; // Models called after the first; models skipped without a request are not counted
+  attempts: InferenceAttempt[];
+  cached?: boolean; // Served from the response cache, no model was called
+  promptVersion?: string; // Registry prompt that produced the request, e.g. 'cv-generation@1'
+  budget?: TokenBudgetReport;
+  usage?: InferenceUsage;
+}
+
+/**
+ * Feature that issued an inference call, used to group usage
+ */
+export type InferenceFeature =
+  | 'job-analysis'
+  | 'cv-match'
+  | 'cv-extraction'
+  | 'cv-structuring'
+  | 'question-generation'
+  | 'cv-generation'
+  | 'requirement-matching' // Embedding calls of the semantic matcher
+  | 'health-check' // Probe requests of the provider health check
+  | 'other';
+
+/**
+ * Tokens, latency and cost of a single generation call
+ * Token counts are estimates based on the model's tokenizer family
+ */
+export interface InferenceUsage {
+  feature: InferenceFeature;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number; // Wall-clock time including retries, backoff and fallback hops
+  retries: number;
+  estimatedCostUsd: number; // 0 for cached replies, failures and unpriced models
+}
+
+/**
+ * Usage summed over a set of inference calls
+ */
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  retries: number;
+  fallbackHops: number;
+  estimatedCostUsd: number;
+}
+
+/**
+ * One usage ledger entry
+ */
+export interface UsageEntry extends InferenceUsage {
+  timestamp: string;
+  model: string | null;
+  provider: string;
+  fallbackHops: number;
+  cached: boolean;
+  success: boolean;
+}
+
+/**
+ * Aggregated usage since server start, as served by /api/usage
+ */
+export interface UsageReport {
+  since: string;
+  totals: UsageTotals;
+  byFeature: Partial<Record<InferenceFeature, UsageTotals>>;
+  byModel: Record<string, UsageTotals>;
+  recent: UsageEntry[];
+}
+
+/**
+ * Token budget applied to a prompt before it was sent
+ * Token counts are estimates based on the model's tokenizer family
+ */
+export interface TokenBudgetReport {
+  model: string;
+  contextWindow: number;
+  reservedForOutput: number;
+  availableForPrompt: number;
+  promptTokens: number;
+  truncatedSections: Array<{
+    section: string;
+    originalTokens: number;
+    keptTokens: number;
+  }>;
+  // Set when the input was analyzed in map-reduce chunks: this call's chunk and the total
+  chunk?: { index: number; total: number };
+}
+
+/**
+ * Request-level metadata attached to API responses
+ */
+export interface ApiResponseMetadata {
+  inference?: InferenceRecord[];
+  usage?: UsageTotals; // Summed over `inference`
+}
+
+/**
+ * Machine-readable reasons a CV upload or import was rejected; the UI maps them to friendly messages
+ */
+export type UploadErrorCode =
+  | 'NO_FILE'
+  | 'FILE_TOO_LARGE'
+  | 'UNSUPPORTED_FORMAT'
+  | 'TOO_MANY_PAGES'
+  | 'ARCHIVE_TOO_LARGE' // Decompresses to more than the limits allow (zip bomb)
+  | 'PASSWORD_PROTECTED'
+  | 'CORRUPT_FILE'
+  | 'EMPTY_DOCUMENT'
+  | 'PARSE_TIMEOUT'
+  | 'PARSE_FAILED';
+
 /**
  * API response wrapper
  */
@@ -163,7 +574,9 @@ export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: UploadErrorCode; // Set on failed uploads so the UI can explain what went wrong
   message?: string;
+  metadata?: ApiResponseMetadata;
 }
 
 /**
@@ -174,3 +587,68 @@ export interface FileUploadResult {
   content?: string;
   error?: string;
 }
+
+/**
+ * Hugging Face inference provider that serves one or more of our models
+ */
+export interface InferenceProviderInfo {
+  name: string;
+  enabled: boolean;
+  active: boolean;
+  status?: string;
+  models?: string[];
+}
+
+/**
+ * Result of checking the Hugging Face API token
+ */
+export interface TokenCheckResult {
+  found: boolean;
+  prefix: string;
+  formatValid: boolean;
+  valid?: boolean;
+  user?: string;
+  role?: string; // 'read', 'write' or 'fineGrained'
+  canCallInferenceProviders?: boolean;
+  status?: number;
+  latencyMs?: number;
+  error?: string;
+}
+
+/**
+ * Result of a cheap probe request against one model
+ */
+export interface ModelProbeResult {
+  model: string;
+  provider: string;
+  ok: boolean;
+  latencyMs: number;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * Full provider health report
+ */
+export interface ProviderHealthReport {
+  provider: string;
+  healthy: boolean;
+  token: TokenCheckResult | null; // null when the provider does not use a Hugging Face token
+  models: ModelProbeResult[];
+  inferenceProviders: InferenceProviderInfo[];
+  checkedAt: string; // ISO string format
+}
+
+/**
+ * Summary returned by /api/hf/verify
+ */
+export interface ConnectionVerification {
+  connected: boolean;
+  tokenFound: boolean;
+  tokenPrefix: string;
+  providers?: InferenceProviderInfo[];
+  models?: ModelProbeResult[];
+  latencyMs?: number;
+  error?: string;
+  timestamp: Date;
+}
@@ -0,0 +1,81 @@
+/**
+ * CV Text
+ * Plain-text rendering of CVData for prompts and analysis when there is no uploaded original
+ */
+
+import type { CVData, Education, Experience } from '@/src/shared/types';
+
+const PROFICIENCY_LABELS = {
+  native: 'Native',
+  fluent: 'Fluent',
+  professional: 'Professional',
+  basic: 'Basic',
+} as const;
+
+function dateRange(startDate: string, endDate: string | undefined, current: boolean): string {
+  const end = current ? 'Present' : endDate;
+  return [startDate, end].filter(Boolean).join(' - ');
+}
+
+function experienceLines(experience: Experience): string[] {
+  const dates = dateRange(experience.startDate, experience.endDate, experience.current);
+  return [
+    experience.position,
+    [experience.company, dates].filter(Boolean).join(' | '),
+    ...experience.description.map((line) => `• ${line}`),
+    ...(experience.achievements ?? []).map((line) => `• ${line}`),
+  ].filter((line) => line.trim().length > 0);
+}
+
+function educationLines(education: Education): string[] {
+  const degree = [education.degree, education.field].filter(Boolean).join(' in ');
+  const dates = dateRange(education.startDate, education.endDate, false);
+  return [
+    degree,
+    [education.institution, dates].filter(Boolean).join(' | '),
+    education.gpa ? `GPA: ${education.gpa}` : '',
+  ].filter((line) => line.trim().length > 0);
+}
+
+/**
+ * Render CVData as a conventional text CV: contact header, then one headed section per non-empty field
+ * Section headings and "Company | start - end" lines are the shapes the CV parser reads back
+ */
+export function cvDataToText(cv: CVData): string {
+  const { personalInfo } = cv;
+  const blocks: string[][] = [
+    [
+      personalInfo.fullName,
+      [personalInfo.email, personalInfo.phone, personalInfo.location].filter(Boolean).join(' | '),
+      [personalInfo.linkedIn, personalInfo.portfolio].filter(Boolean).join(' | '),
+    ].filter(Boolean),
+  ];
+
+  if (personalInfo.summary) {
+    blocks.push(['SUMMARY', personalInfo.summary]);
+  }
+  if (cv.experience.length > 0) {
+    // A blank line between entries keeps them apart when the text is parsed again
+    blocks.push(['EXPERIENCE', ...cv.experience.flatMap((entry) => ['', ...experienceLines(entry)]).slice(1)]);
+  }
+  if (cv.education.length > 0) {
+    blocks.push(['EDUCATION', ...cv.education.flatMap((entry) => ['', ...educationLines(entry)]).slice(1)]);
+  }
+  if (cv.skills.length > 0) {
+    blocks.push(['SKILLS', cv.skills.join(', ')]);
+  }
+  if (cv.languages && cv.languages.length > 0) {
+    blocks.push([
+      'LANGUAGES',
+      ...cv.languages.map((language) => `${language.name} - ${PROFICIENCY_LABELS[language.proficiency]}`),
+    ]);
+  }
+  if (cv.certifications && cv.certifications.length > 0) {
+    blocks.push(['CERTIFICATIONS', ...cv.certifications.map((certification) => `• ${certification}`)]);
+  }
+
+  return blocks
+    .map((lines) => lines.join('\n').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
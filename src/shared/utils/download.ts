@@ -22,9 +22,9 @@ export function downloadAsTXT(content: string, filename: string): void {
 }
 
 /**
- * Download text as PDF file
+ * Build the PDF export of a text (what downloadAsPDF saves)
  */
-export function downloadAsPDF(content: string, filename: string): void {
+export function createPDF(content: string): jsPDF {
   const pdf = new jsPDF();
   
   // Split content into lines that fit the page
@@ -42,7 +42,44 @@ export function downloadAsPDF(content: string, filename: string): void {
     y += lineHeight;
   }
 
-  pdf.save(`${filename}.pdf`);
+  return pdf;
+}
+
+/**
+ * Download text as PDF file
+ */
+export function downloadAsPDF(content: string, filename: string): void {
+  createPDF(content).save(`${filename}.pdf`);
+}
+
+/**
+ * Build the DOCX export of a text (what downloadAsDOCX saves)
+ */
+export function createDOCX(content: string): Document {
+  // Split content into paragraphs
+  const paragraphs = content.split('\n\n').filter((p) => p.trim().length > 0);
+
+  return new Document({
+    sections: [
+      {
+        properties: {},
+        children: paragraphs.map(
+          (para) =>
+            new Paragraph({
+              children: [
+                new TextRun({
+                  text: para.replace(/\n/g, ' '),
+                  size: 24, // 12pt
+                }),
+              ],
+              spacing: {
+                after: 200, // 10pt spacing
+              },
+            })
+        ),
+      },
+    ],
+  });
 }
 
 /**
@@ -50,32 +87,7 @@ export function downloadAsPDF(content: string, filename: string): void {
  */
 export async function downloadAsDOCX(content: string, filename: string): Promise<void> {
   try {
-    // Split content into paragraphs
-    const paragraphs = content.split('\n\n').filter((p) => p.trim().length > 0);
-    
-    const doc = new Document({
-      sections: [
-        {
-          properties: {},
-          children: paragraphs.map(
-            (para) =>
-              new Paragraph({
-                children: [
-                  new TextRun({
-                    text: para.replace(/\n/g, ' '),
-                    size: 24, // 12pt
-                  }),
-                ],
-                spacing: {
-                  after: 200, // 10pt spacing
-                },
-              })
-          ),
-        },
-      ],
-    });
-
-    const blob = await Packer.toBlob(doc);
+    const blob = await Packer.toBlob(createDOCX(content));
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -0,0 +1,17 @@
+/**
+ * Hash utilities
+ * Small, stable, non-cryptographic string hashes
+ */
+
+/**
+ * FNV-1a hash of a string as an unsigned 32-bit integer
+ * The same input gives the same hash on every run and platform; never use it for anything security-related
+ */
+export function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
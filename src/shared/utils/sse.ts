@@ -0,0 +1,79 @@
+/**
+ * Server-Sent Events utilities
+ * Encoding on the server and incremental parsing on the client (works in both runtimes)
+ */
+
+/**
+ * A parsed SSE message
+ */
+export interface SSEMessage {
+  event: string;
+  data: string;
+}
+
+/**
+ * Encode one SSE message
+ */
+export function encodeSSE(event: string, data: unknown): string {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  const dataLines = payload
+    .split('\n')
+    .map((line) => `data: ${line}`)
+    .join('\n');
+  return `event: ${event}\n${dataLines}\n\n`;
+}
+
+/**
+ * Parse a single SSE block (text between blank lines)
+ */
+function parseBlock(block: string): SSEMessage | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Read SSE messages from a fetch response body as they arrive
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const message = parseBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (message) {
+          yield message;
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const trailing = parseBlock(buffer.trim());
+    if (trailing) {
+      yield trailing;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Text utilities
+ * Small string helpers shared by services and routes
+ */
+
+/**
+ * Trimmed, non-empty strings with case-insensitive duplicates removed (first spelling wins)
+ */
+export function uniqueStrings(values: Iterable<string>): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const value of values) {
+    const trimmed = value.trim();
+    const key = trimmed.toLowerCase();
+    if (trimmed && !seen.has(key)) {
+      seen.add(key);
+      result.push(trimmed);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,70 @@
+/**
+ * Admin access tests
+ * Maintenance DELETE endpoints refuse requests without the admin token
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { NextRequest } from 'next/server';
+import { DELETE as deleteCache } from '@/app/api/cache/route';
+import { DELETE as deleteUsage } from '@/app/api/usage/route';
+import { checkAdminAccess } from '@/src/infrastructure/utils/adminAccess';
+
+const env = process.env as Record<string, string | undefined>;
+const originalEnv = { ADMIN_TOKEN: env.ADMIN_TOKEN, NODE_ENV: env.NODE_ENV };
+
+function headers(authorization?: string): Headers {
+  return new Headers(authorization ? { authorization } : {});
+}
+
+function deleteRequest(url: string, authorization?: string): NextRequest {
+  return new NextRequest(`http://localhost${url}`, { method: 'DELETE', headers: headers(authorization) });
+}
+
+describe('checkAdminAccess', () => {
+  afterEach(() => {
+    env.ADMIN_TOKEN = originalEnv.ADMIN_TOKEN;
+    env.NODE_ENV = originalEnv.NODE_ENV;
+  });
+
+  it('refuses everyone outside development when no token is configured', () => {
+    delete env.ADMIN_TOKEN;
+    env.NODE_ENV = 'production';
+    assert.equal(checkAdminAccess(headers('Bearer anything'))?.status, 403);
+  });
+
+  it('allows the development server when no token is configured', () => {
+    delete env.ADMIN_TOKEN;
+    env.NODE_ENV = 'development';
+    assert.equal(checkAdminAccess(headers()), null);
+  });
+
+  it('requires the configured token, even in development', () => {
+    env.ADMIN_TOKEN = 'secret-token';
+    env.NODE_ENV = 'development';
+    assert.equal(checkAdminAccess(headers())?.status, 401);
+    assert.equal(checkAdminAccess(headers('Bearer wrong-token'))?.status, 401);
+    assert.equal(checkAdminAccess(headers('secret-token'))?.status, 401);
+    assert.equal(checkAdminAccess(headers('Bearer secret-token')), null);
+  });
+});
+
+describe('admin DELETE routes', () => {
+  afterEach(() => {
+    env.ADMIN_TOKEN = originalEnv.ADMIN_TOKEN;
+    env.NODE_ENV = originalEnv.NODE_ENV;
+  });
+
+  it('refuses to clear the cache or reset usage without the token', async () => {
+    env.ADMIN_TOKEN = 'secret-token';
+    assert.equal((await deleteCache(deleteRequest('/api/cache'))).status, 401);
+    assert.equal((await deleteUsage(deleteRequest('/api/usage'))).status, 401);
+  });
+
+  it('resets usage with the token', async () => {
+    env.ADMIN_TOKEN = 'secret-token';
+    const response = await deleteUsage(deleteRequest('/api/usage', 'Bearer secret-token'));
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).success, true);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * End-to-end route tests, offline
+ * Runs against the scripted mock provider, and through record → replay to check replays match recordings
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, afterEach, describe, it } from 'node:test';
+import { NextRequest } from 'next/server';
+import { POST as analyzeCV, type AnalyzeResponse } from '@/app/api/cv/analyze/route';
+import { POST as generateCVRoute } from '@/app/api/cv/generate/route';
+import { POST as generateQuestions, type GenerateQuestionsResponse } from '@/app/api/qa/generate-questions/route';
+import { setLLMProvider } from '@/src/infrastructure/providers/llmProvider';
+import { createMockProvider } from '@/src/infrastructure/providers/mock.provider';
+import { createRecordingProvider, createReplayProvider } from '@/src/infrastructure/providers/recordReplay.provider';
+import { CANNED_CV } from '@/src/infrastructure/providers/scriptedResponses';
+import type { LLMProvider } from '@/src/infrastructure/providers/types';
+import type { ApiResponse } from '@/src/shared/types';
+
+const JOB_DESCRIPTION = `Senior Frontend Engineer at Example Corp
+
+Requirements:
+- 5+ years of experience building React applications
+- Strong TypeScript skills
+- Experience designing REST APIs with Node.js
+
+Nice to have:
+- Experience with GraphQL`;
+
+function post(url: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost${url}`, { method: 'POST', body: JSON.stringify(body) });
+}
+
+async function readJSON<T>(response: Response): Promise<ApiResponse<T>> {
+  return (await response.json()) as ApiResponse<T>;
+}
+
+describe('POST /api/cv/analyze', () => {
+  it('analyzes the job and scores the CV', async () => {
+    const response = await analyzeCV(post('/api/cv/analyze', { jobDescription: JOB_DESCRIPTION, cvContent: CANNED_CV }));
+    const result = await readJSON<AnalyzeResponse>(response);
+
+    assert.equal(response.status, 200);
+    assert.equal(result.success, true);
+    const { jobAnalysis, cvMatch } = result.data!;
+    assert.ok(jobAnalysis.keyRequirements.length > 0);
+    assert.equal(cvMatch.matchScore, cvMatch.scoreBreakdown.total);
+    assert.ok(cvMatch.matchScore > 0 && cvMatch.matchScore <= 100);
+    assert.ok(result.metadata!.inference!.length > 0);
+  });
+
+  it('scores the same CV and job the same way every time', async () => {
+    const body = { jobDescription: JOB_DESCRIPTION, cvContent: CANNED_CV };
+    const first = await readJSON<AnalyzeResponse>(await analyzeCV(post('/api/cv/analyze', body)));
+    const second = await readJSON<AnalyzeResponse>(await analyzeCV(post('/api/cv/analyze', body)));
+    assert.deepEqual(second.data!.cvMatch, first.data!.cvMatch);
+  });
+
+  it('scores as of the month given and records it', async () => {
+    const body = { jobDescription: JOB_DESCRIPTION, cvContent: CANNED_CV, asOf: '2025-06' };
+    const result = await readJSON<AnalyzeResponse>(await analyzeCV(post('/api/cv/analyze', body)));
+    assert.equal(result.data!.cvMatch.scoreBreakdown.asOf, '2025-06');
+  });
+
+  it('rejects a malformed as-of month', async () => {
+    const body = { jobDescription: JOB_DESCRIPTION, cvContent: CANNED_CV, asOf: '2025-13' };
+    assert.equal((await analyzeCV(post('/api/cv/analyze', body))).status, 400);
+  });
+
+  it('rejects a request without a CV', async () => {
+    const response = await analyzeCV(post('/api/cv/analyze', { jobDescription: JOB_DESCRIPTION }));
+    assert.equal(response.status, 400);
+    assert.equal((await readJSON(response)).success, false);
+  });
+});
+
+describe('POST /api/qa/generate-questions', () => {
+  it('asks questions for the gaps of an analysis', async () => {
+    const analysis = await readJSON<AnalyzeResponse>(
+      await analyzeCV(post('/api/cv/analyze', { jobDescription: JOB_DESCRIPTION, cvContent: CANNED_CV }))
+    );
+    const response = await generateQuestions(
+      post('/api/qa/generate-questions', { ...analysis.data, cvContent: CANNED_CV })
+    );
+    const result = await readJSON<GenerateQuestionsResponse>(response);
+
+    assert.equal(response.status, 200);
+    assert.ok(result.data!.totalQuestions > 0);
+    assert.equal(result.data!.questions.length, result.data!.totalQuestions);
+    assert.ok(result.data!.questions.every((question) => question.question.length > 0));
+  });
+
+  it('rejects a request without a job analysis', async () => {
+    const response = await generateQuestions(post('/api/qa/generate-questions', { cvContent: CANNED_CV }));
+    assert.equal(response.status, 400);
+  });
+});
+
+describe('POST /api/cv/generate', () => {
+  it('returns the generated CV', async () => {
+    const response = await generateCVRoute(
+      post('/api/cv/generate', { jobDescription: JOB_DESCRIPTION, cvData: 'Alex Morgan, software engineer' })
+    );
+    const result = await readJSON<string>(response);
+
+    assert.equal(response.status, 200);
+    assert.equal(result.data, CANNED_CV);
+    assert.equal(result.metadata!.inference![0].provider, 'mock');
+  });
+
+  it('rejects a request without CV data', async () => {
+    const response = await generateCVRoute(post('/api/cv/generate', { jobDescription: JOB_DESCRIPTION }));
+    assert.equal(response.status, 400);
+  });
+});
+
+describe('record and replay', () => {
+  const dirs: string[] = [];
+
+  afterEach(() => setLLMProvider(null));
+  after(async () => {
+    await Promise.all(dirs.map((dir) => rm(dir, { recursive: true, force: true })));
+  });
+
+  /**
+   * Mock with an embedding endpoint: vectors from character codes, so recorded and replayed runs can be compared
+   */
+  function embeddingMock(): LLMProvider & { embedCalls: number } {
+    const provider = {
+      ...createMockProvider(),
+      embedCalls: 0,
+      async embed({ texts }: { texts: string[] }): Promise<number[][]> {
+        provider.embedCalls++;
+        return texts.map((text) => [text.length % 7, (text.charCodeAt(0) || 0) % 11, text.split(' ').length % 5, 1]);
+      },
+    };
+    return provider;
+  }
+
+  it('replays a recorded analysis, embeddings included, without calling a provider', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'llm-fixtures-'));
+    dirs.push(dir);
+    const body = { jobDescription: JOB_DESCRIPTION, cvContent: CANNED_CV };
+
+    const inner = embeddingMock();
+    setLLMProvider(createRecordingProvider(inner, dir));
+    const recorded = await readJSON<AnalyzeResponse>(await analyzeCV(post('/api/cv/analyze', body)));
+    assert.ok(inner.embedCalls > 0);
+    const fixtures = await readdir(dir);
+    assert.ok(fixtures.length > 0);
+
+    setLLMProvider(createReplayProvider(dir));
+    const replayed = await readJSON<AnalyzeResponse>(await analyzeCV(post('/api/cv/analyze', body)));
+
+    assert.deepEqual(replayed.data!.cvMatch, recorded.data!.cvMatch);
+    assert.deepEqual(replayed.data!.jobAnalysis, recorded.data!.jobAnalysis);
+    // Nothing new was recorded: every reply came from a fixture
+    assert.deepEqual((await readdir(dir)).sort(), fixtures.sort());
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * ATS simulator tests
+ * The PDF and DOCX downloads of a CV parsed back, lost line breaks, and layout an ATS misreads
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { simulateATS } from '@/src/infrastructure/ats/atsSimulator';
+import { findContentIssues } from '@/src/infrastructure/ats/exportInspector';
+import type { ATSFormatReport } from '@/src/shared/types';
+
+const CV = `# Jane Doe
+Berlin, Germany | jane.doe@example.com | +49 30 1234 5678
+
+## Experience
+Senior Software Engineer | Northwind Labs
+Jan 2021 - Present
+- Led the migration of the billing platform to Go
+- Cut p99 latency by 40%
+
+## Education
+BSc in Computer Science, Technical University of Munich, 2013 - 2016
+
+## Skills
+Python, Go, TypeScript`;
+
+function check(report: ATSFormatReport, field: string) {
+  const found = report.checks.find((entry) => entry.field === field);
+  assert.ok(found, `no ${field} check`);
+  return [found.recovered, found.expected];
+}
+
+function issueCodes(report: ATSFormatReport): string[] {
+  return report.issues.map((issue) => issue.code);
+}
+
+describe('simulateATS', () => {
+  it('flags the DOCX for merging lines within a paragraph, and keeps the PDF line by line', async () => {
+    const { formats } = await simulateATS(CV);
+    const [pdf, docx] = formats;
+
+    assert.deepEqual(
+      formats.map((report) => report.format),
+      ['pdf', 'docx']
+    );
+    assert.ok(!issueCodes(pdf).includes('merged-lines'));
+    assert.deepEqual(check(pdf, 'headings'), [3, 3]);
+    assert.deepEqual(check(pdf, 'dates'), [2, 2]);
+
+    assert.ok(issueCodes(docx).includes('merged-lines'));
+    assert.deepEqual(check(docx, 'headings'), [0, 3]);
+    assert.deepEqual(check(docx, 'dates'), [0, 2]);
+    // Every word is still there; only the structure is lost
+    assert.deepEqual(check(docx, 'text'), check(pdf, 'text'));
+    assert.ok(docx.score < pdf.score);
+  });
+
+  it('does not flag a CV whose lines are separate paragraphs', async () => {
+    const { formats } = await simulateATS(CV.replace(/\n(?!\n)/g, '\n\n'), ['docx']);
+    const [docx] = formats;
+
+    assert.ok(!issueCodes(docx).includes('merged-lines'));
+    assert.deepEqual(check(docx, 'headings'), [3, 3]);
+    assert.deepEqual(check(docx, 'titles'), [1, 1]);
+  });
+
+  it('reports Markdown syntax printed literally in the export', async () => {
+    const { formats } = await simulateATS(CV, ['pdf']);
+    assert.ok(issueCodes(formats[0]).includes('markup-characters'));
+  });
+});
+
+describe('findContentIssues', () => {
+  it('finds tables, images, spaced columns and non-standard headings', () => {
+    const issues = findContentIssues(
+      [
+        '# Jane Doe',
+        '![Photo](photo.png)',
+        '## Things I Like',
+        '| Skill | Years |',
+        '| --- | --- |',
+        'Go        5 years',
+        'Rust      2 years',
+        'Python    8 years',
+      ].join('\n')
+    );
+
+    assert.deepEqual(
+      issues.map((issue) => [issue.code, issue.severity]),
+      [
+        ['table', 'error'],
+        ['image', 'error'],
+        ['multi-column', 'warning'],
+        ['non-standard-heading', 'warning'],
+      ]
+    );
+    assert.match(issues[3].message, /^"Things I Like"/);
+  });
+
+  it('accepts the standard headings and the name heading', () => {
+    assert.deepEqual(findContentIssues(CV), []);
+  });
+});
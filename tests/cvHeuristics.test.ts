@@ -0,0 +1,158 @@
+/**
+ * CV heuristics tests
+ * A sample CV (tests/fixtures/cvs) through the heading, date and contact heuristics, without any LLM
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import {
+  detectSectionKind,
+  extractDateRange,
+  normalizeDate,
+  parseCVHeuristically,
+  parseProficiency,
+} from '@/src/infrastructure/utils/cvHeuristics';
+
+const SAMPLE_CV = readFileSync(path.join(__dirname, 'fixtures', 'cvs', 'software-engineer.txt'), 'utf-8');
+
+describe('detectSectionKind', () => {
+  it('recognizes headings in any case, with colons and ampersands', () => {
+    assert.equal(detectSectionKind('WORK EXPERIENCE'), 'experience');
+    assert.equal(detectSectionKind('Employment History:'), 'experience');
+    assert.equal(detectSectionKind('Skills & Tools'), 'skills');
+    assert.equal(detectSectionKind('Licenses & Certifications'), 'certifications');
+  });
+
+  it('ignores bullets and sentences that contain a heading word', () => {
+    assert.equal(detectSectionKind('- Skills'), null);
+    assert.equal(detectSectionKind('Experience with distributed systems'), null);
+  });
+});
+
+describe('dates', () => {
+  it('normalizes month names and numeric months to YYYY-MM', () => {
+    assert.equal(normalizeDate('Sept. 2019'), '2019-09');
+    assert.equal(normalizeDate('03/2017'), '2017-03');
+    assert.equal(normalizeDate('2017-3'), '2017-03');
+    assert.equal(normalizeDate('2016'), '2016');
+    assert.equal(normalizeDate('13/2017'), '2017');
+    assert.equal(normalizeDate('soon'), '');
+  });
+
+  it('finds a range in a line and returns the line without it', () => {
+    assert.deepEqual(extractDateRange('Engineer, Acme (Jan 2020 – Present)'), {
+      range: { startDate: '2020-01', endDate: undefined, current: true },
+      rest: 'Engineer, Acme',
+    });
+    assert.deepEqual(extractDateRange('2018 to 2020 | Analyst')?.range, {
+      startDate: '2018',
+      endDate: '2020',
+      current: false,
+    });
+    assert.equal(extractDateRange('Founded in 2018'), null);
+  });
+});
+
+describe('parseCVHeuristically', () => {
+  const { cvData, confidence, sections } = parseCVHeuristically(SAMPLE_CV);
+
+  it('lists the sections it found under their headings', () => {
+    assert.deepEqual(
+      sections.map(({ kind }) => kind),
+      ['summary', 'experience', 'education', 'skills', 'languages', 'certifications']
+    );
+  });
+
+  it('reads contact details from the header', () => {
+    const { fullName, location, email, phone, linkedIn, portfolio, summary } = cvData.personalInfo;
+    assert.equal(fullName, 'Jane Doe');
+    assert.equal(location, 'Berlin, Germany');
+    assert.equal(email, 'jane.doe@example.com');
+    assert.equal(phone, '+49 30 1234 5678');
+    assert.equal(linkedIn, 'linkedin.com/in/janedoe');
+    assert.equal(portfolio, 'github.com/janedoe');
+    assert.equal(summary, 'Backend engineer with eight years of experience building payment systems.');
+    assert.equal(confidence['personalInfo.fullName'], 0.75);
+  });
+
+  it('splits experience into entries and puts the title word on the position', () => {
+    assert.deepEqual(
+      cvData.experience.map(({ position, company, startDate, endDate, current, description }) => ({
+        position,
+        company,
+        startDate,
+        endDate,
+        current,
+        description,
+      })),
+      [
+        {
+          position: 'Senior Software Engineer',
+          company: 'Northwind Labs',
+          startDate: '2021-01',
+          endDate: undefined,
+          current: true,
+          description: ['Led the migration of the billing platform to Go', 'Cut p99 latency by 40%'],
+        },
+        {
+          position: 'Software Engineer',
+          company: 'Acme Corp',
+          startDate: '2017-03',
+          endDate: '2020-12',
+          current: false,
+          description: ['Built REST APIs in Python and PostgreSQL'],
+        },
+      ]
+    );
+    assert.equal(confidence['experience.0.startDate'], 0.9);
+  });
+
+  it('reads degree, field, institution, dates and GPA from an education line', () => {
+    const [education] = cvData.education;
+    assert.equal(education.degree, 'BSc');
+    assert.equal(education.field, 'Computer Science');
+    assert.equal(education.institution, 'Technical University of Munich');
+    assert.equal(education.startDate, '2013');
+    assert.equal(education.endDate, '2016');
+    assert.equal(education.gpa, '3.8/4.0');
+  });
+
+  it('splits skill lists on commas and pipes, dropping category labels and duplicates', () => {
+    assert.deepEqual(cvData.skills, ['Python', 'Go', 'TypeScript', 'Docker', 'Kubernetes', 'PostgreSQL']);
+  });
+
+  it('reads languages with their proficiency in any of the usual notations', () => {
+    assert.deepEqual(cvData.languages, [
+      { name: 'German', proficiency: 'native' },
+      { name: 'English', proficiency: 'fluent' },
+      { name: 'Spanish', proficiency: 'basic' },
+    ]);
+    assert.equal(parseProficiency('working knowledge'), 'professional');
+    assert.equal(parseProficiency('some'), null);
+  });
+
+  it('reads certifications as one per line', () => {
+    assert.deepEqual(cvData.certifications, ['AWS Certified Solutions Architect']);
+  });
+
+  it('prefers hyperlink targets over the visible text', () => {
+    const linked = parseCVHeuristically('Jane Doe\nEmail | LinkedIn\n\nSkills\nGo', [
+      'mailto:jane%40example.org?subject=Hello',
+      'tel:+4930123456',
+      'https://www.linkedin.com/in/jane-doe/',
+    ]);
+    assert.equal(linked.cvData.personalInfo.email, 'jane@example.org');
+    assert.equal(linked.cvData.personalInfo.phone, '+4930123456');
+    assert.equal(linked.cvData.personalInfo.linkedIn, 'https://www.linkedin.com/in/jane-doe/');
+    assert.equal(linked.confidence['personalInfo.email'], 0.98);
+  });
+
+  it('flags sections it found nothing in', () => {
+    const { confidence: sparse } = parseCVHeuristically('Jane Doe\n\nSkills\nGo');
+    assert.equal(sparse.experience, 0);
+    assert.equal(sparse.education, 0);
+    assert.equal(sparse.skills, 0.85);
+  });
+});
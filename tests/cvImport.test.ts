@@ -0,0 +1,175 @@
+/**
+ * CV import tests
+ * JSON Resume files and LinkedIn data export archives mapped onto CVData without the LLM
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import JSZip from 'jszip';
+import { CVImportError, importCV } from '@/src/infrastructure/importers/cvImporter';
+
+const RESUME = {
+  basics: {
+    name: 'Jane Doe',
+    label: 'Backend Engineer',
+    email: 'jane@example.com',
+    website: 'https://jane.dev',
+    location: { city: 'Berlin', countryCode: 'DE' },
+    profiles: [{ network: 'LinkedIn', username: 'janedoe' }],
+  },
+  work: [
+    {
+      name: 'Northwind Labs',
+      position: 'Senior Engineer',
+      startDate: '2021-01-15',
+      summary: 'Payments platform',
+      highlights: ['Led the billing team', ' '],
+    },
+    { company: 'Acme Corp', position: 'Engineer', startDate: '2017-03', endDate: '2020-12-31' },
+  ],
+  volunteer: [{ organization: 'Code Club', startDate: '2019' }],
+  education: [{ institution: 'TU Munich', studyType: 'BSc', area: 'Computer Science', endDate: '2016', score: '3.8' }],
+  skills: [{ name: 'Backend', keywords: ['Go', 'Python'] }, { name: 'Go' }],
+  languages: [{ language: 'German', fluency: 'Native speaker' }, { language: 'English', fluency: 'C1' }],
+  certificates: [{ name: 'CKA', issuer: 'CNCF', date: '2022-05-01' }],
+  meta: { theme: 'elegant' },
+};
+
+/**
+ * A LinkedIn export with the given CSV files, in the folder layout of a real download
+ */
+async function linkedInExport(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(`Basic_LinkedInDataExport_01-15-2026/${name}`, content);
+  }
+  zip.file('Basic_LinkedInDataExport_01-15-2026/messages.csv', 'FROM,TO,CONTENT\n');
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+function assertImportError(error: unknown): boolean {
+  return error instanceof CVImportError && error.code === 'UNSUPPORTED_FORMAT';
+}
+
+describe('importCV from a JSON Resume', () => {
+  it('maps basics, work, volunteering, education, skills, languages and certificates', async () => {
+    const { cvData, source, warnings } = await importCV(Buffer.from(JSON.stringify(RESUME)), 'resume.json');
+
+    assert.equal(source, 'json-resume');
+    assert.deepEqual(warnings, []);
+    assert.deepEqual(cvData.personalInfo, {
+      fullName: 'Jane Doe',
+      email: 'jane@example.com',
+      phone: undefined,
+      location: 'Berlin, DE',
+      linkedIn: 'https://www.linkedin.com/in/janedoe',
+      portfolio: 'https://jane.dev',
+      summary: 'Backend Engineer',
+    });
+    assert.deepEqual(
+      cvData.experience.map(({ company, position, startDate, endDate, current }) => [
+        company,
+        position,
+        startDate,
+        endDate,
+        current,
+      ]),
+      [
+        ['Northwind Labs', 'Senior Engineer', '2021-01', undefined, true],
+        ['Acme Corp', 'Engineer', '2017-03', '2020-12', false],
+        ['Code Club', 'Volunteer', '2019', undefined, true],
+      ]
+    );
+    assert.deepEqual(cvData.experience[0].achievements, ['Led the billing team']);
+    assert.deepEqual(cvData.education[0], {
+      id: 'edu-1',
+      institution: 'TU Munich',
+      degree: 'BSc',
+      field: 'Computer Science',
+      startDate: '',
+      endDate: '2016',
+      gpa: '3.8',
+    });
+    assert.deepEqual(cvData.skills, ['Backend', 'Go', 'Python']);
+    assert.deepEqual(cvData.languages, [
+      { name: 'German', proficiency: 'native' },
+      { name: 'English', proficiency: 'fluent' },
+    ]);
+    assert.deepEqual(cvData.certifications, ['CKA - CNCF (2022)']);
+    assert.match(cvData.rawContent ?? '', /Jane Doe/);
+  });
+
+  it('tolerates junk values and reports what is missing', async () => {
+    const { cvData, warnings } = await importCV(
+      Buffer.from(JSON.stringify({ basics: { name: null, email: 42, profiles: 'none' }, work: 'n/a', education: [] })),
+      'resume.json'
+    );
+    assert.equal(cvData.personalInfo.fullName, '');
+    assert.equal(cvData.personalInfo.email, '');
+    assert.equal(warnings.length, 2);
+  });
+
+  it('rejects JSON that is not a resume, and files that are not JSON', async () => {
+    await assert.rejects(importCV(Buffer.from('{"name":"package"}'), 'package.json'), assertImportError);
+    await assert.rejects(importCV(Buffer.from('Jane Doe'), 'cv.txt'), assertImportError);
+  });
+});
+
+describe('importCV from a LinkedIn data export', () => {
+  it('maps the CSV files, including quoted fields and notes above the header', async () => {
+    const archive = await linkedInExport({
+      'Profile.csv':
+        'First Name,Last Name,Headline,Summary,Geo Location,Websites\n' +
+        'Jane,Doe,Backend Engineer,"Builds payment systems, mostly in Go",Berlin,' +
+        '"[PORTFOLIO:https://jane.dev,OTHER:https://www.linkedin.com/in/janedoe]"\n',
+      'Email Addresses.csv':
+        'Email Address,Confirmed,Primary\nold@example.com,Yes,No\njane@example.com,Yes,Yes\n',
+      'Positions.csv':
+        'Company Name,Title,Description,Location,Started On,Finished On\n' +
+        'Northwind Labs,Senior Engineer,"• Led the billing team\n• Cut latency by 40%",Berlin,Jan 2021,\n' +
+        'Acme Corp,Engineer,"Built ""REST"" APIs",Munich,Mar 2017,Dec 2020\n',
+      'Skills.csv': 'Name\nGo\nPython\nGo\n',
+      'Languages.csv': 'Name,Proficiency\nGerman,Native or bilingual proficiency\nEnglish,Full professional proficiency\n',
+      'Certifications.csv':
+        'Notes:\n"This file lists certifications"\n\nName,Url,Authority,Started On,Finished On\nCKA,,CNCF,May 2022,\n',
+    });
+
+    const { cvData, source, warnings } = await importCV(archive, 'export.zip');
+
+    assert.equal(source, 'linkedin-export');
+    assert.deepEqual(warnings, [
+      'PhoneNumbers.csv is not in the export, so that part of the CV is empty.',
+      'Education.csv is not in the export, so that part of the CV is empty.',
+    ]);
+    assert.equal(cvData.personalInfo.fullName, 'Jane Doe');
+    assert.equal(cvData.personalInfo.email, 'jane@example.com');
+    assert.equal(cvData.personalInfo.summary, 'Builds payment systems, mostly in Go');
+    assert.equal(cvData.personalInfo.linkedIn, 'https://www.linkedin.com/in/janedoe');
+    assert.equal(cvData.personalInfo.portfolio, 'https://jane.dev');
+    assert.deepEqual(
+      cvData.experience.map(({ company, startDate, endDate, current, description }) => [
+        company,
+        startDate,
+        endDate,
+        current,
+        description,
+      ]),
+      [
+        ['Northwind Labs', '2021-01', undefined, true, ['Led the billing team', 'Cut latency by 40%']],
+        ['Acme Corp', '2017-03', '2020-12', false, ['Built "REST" APIs']],
+      ]
+    );
+    assert.deepEqual(cvData.skills, ['Go', 'Python']);
+    assert.deepEqual(cvData.languages, [
+      { name: 'German', proficiency: 'native' },
+      { name: 'English', proficiency: 'fluent' },
+    ]);
+    assert.deepEqual(cvData.certifications, ['CKA - CNCF (2022)']);
+  });
+
+  it('rejects archives that are not LinkedIn exports', async () => {
+    const zip = new JSZip();
+    zip.file('photos/me.jpg', 'not a csv');
+    await assert.rejects(importCV(await zip.generateAsync({ type: 'nodebuffer' }), 'photos.zip'), assertImportError);
+  });
+});
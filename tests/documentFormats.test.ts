@@ -0,0 +1,199 @@
+/**
+ * Document format tests
+ * Formats identified by their leading bytes, and the text the RTF, ODT and Markdown parsers read
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import JSZip from 'jszip';
+import { DocumentError } from '@/src/infrastructure/documents/documentErrors';
+import { parseDocument } from '@/src/infrastructure/documents/documentParser';
+import {
+  decodeText,
+  detectDocumentFormat,
+  isEncryptedOfficeDocument,
+} from '@/src/infrastructure/documents/formatDetector';
+import { parseMarkdown } from '@/src/infrastructure/documents/markdownParser';
+import { parseODT } from '@/src/infrastructure/documents/odtParser';
+import { parseRTF } from '@/src/infrastructure/documents/rtfParser';
+
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+const ODT_CONTENT = `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0">
+<office:automatic-styles><style:style style:name="P1"/></office:automatic-styles>
+<office:body><office:text>
+<text:h text:outline-level="1">Jane Doe</text:h>
+<text:p>Senior<text:s text:c="2"/>Engineer<text:line-break/><text:a xlink:href="mailto:jane@example.com">jane@example.com</text:a></text:p>
+<text:h text:outline-level="2">Experience</text:h>
+<text:list><text:list-item><text:p>Led the billing team</text:p></text:list-item></text:list>
+<draw:frame><draw:image xlink:href="Pictures/photo.png"/></draw:frame>
+</office:text></office:body>
+</office:document-content>`;
+
+/**
+ * An OpenDocument package: mimetype stored first and uncompressed, as the format requires
+ */
+async function odtPackage(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/vnd.oasis.opendocument.text', { compression: 'STORE' });
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Leading bytes of a compound file that holds the named streams
+ */
+function compoundFile(...streams: string[]): Buffer {
+  return Buffer.concat([OLE_SIGNATURE, Buffer.alloc(504), ...streams.map((name) => Buffer.from(name, 'utf16le'))]);
+}
+
+describe('detectDocumentFormat', () => {
+  it('reads binary formats from their magic bytes, whatever the file is called', async () => {
+    const docx = new JSZip();
+    docx.file('[Content_Types].xml', '<Types/>');
+    docx.file('word/document.xml', '<w:document/>');
+
+    assert.equal(detectDocumentFormat(Buffer.from('%PDF-1.7\n'), 'cv.docx', ''), 'pdf');
+    assert.equal(detectDocumentFormat(Buffer.from('\r\n\r\n%PDF-1.4\n'), 'cv', ''), 'pdf');
+    assert.equal(detectDocumentFormat(await docx.generateAsync({ type: 'nodebuffer' }), 'cv.pdf', ''), 'docx');
+    assert.equal(detectDocumentFormat(await odtPackage({ 'content.xml': ODT_CONTENT }), 'cv.zip', ''), 'odt');
+    assert.equal(detectDocumentFormat(compoundFile('WordDocument'), 'cv.bin', ''), 'doc');
+  });
+
+  it('rejects archives and compound files that are not documents', async () => {
+    const archive = new JSZip();
+    archive.file('photo.txt', 'not a document');
+
+    assert.equal(detectDocumentFormat(await archive.generateAsync({ type: 'nodebuffer' }), 'cv.docx', ''), null);
+    assert.equal(detectDocumentFormat(compoundFile('Workbook'), 'cv.doc', ''), null);
+    assert.equal(detectDocumentFormat(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]), 'cv.pdf', ''), null);
+  });
+
+  it('recognizes password-protected Office files', () => {
+    assert.equal(isEncryptedOfficeDocument(compoundFile('EncryptionInfo', 'EncryptedPackage')), true);
+    assert.equal(isEncryptedOfficeDocument(compoundFile('WordDocument')), false);
+  });
+
+  it('tells text formats apart by content, then by name', () => {
+    assert.equal(detectDocumentFormat(Buffer.from('{\\rtf1\\ansi Jane}'), 'cv.txt', ''), 'rtf');
+    assert.equal(detectDocumentFormat(Buffer.from('<!DOCTYPE html><html></html>'), 'cv.txt', ''), 'html');
+    assert.equal(detectDocumentFormat(Buffer.from('# Jane Doe\n\n## Experience\n'), 'cv.txt', ''), 'markdown');
+    assert.equal(detectDocumentFormat(Buffer.from('Jane Doe\nEngineer'), 'cv.md', ''), 'markdown');
+    assert.equal(detectDocumentFormat(Buffer.from('Jane Doe\nEngineer'), 'cv', 'text/plain'), 'txt');
+  });
+});
+
+describe('decodeText', () => {
+  it('honours byte order marks and falls back to Windows-1252', () => {
+    assert.equal(decodeText(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('Zoë')])), 'Zoë');
+    assert.equal(decodeText(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Zoë', 'utf16le')])), 'Zoë');
+    assert.equal(decodeText(Buffer.from([0x5a, 0x6f, 0xeb, 0x20, 0x93, 0x80, 0x94])), 'Zoë “€”');
+  });
+});
+
+describe('parseRTF', () => {
+  it('reads paragraphs, escaped characters and table cells, skipping the font table', () => {
+    const { text } = parseRTF(
+      '{\\rtf1\\ansi\\ansicpg1252{\\fonttbl{\\f0 Arial;}}' +
+        '\\f0 Zo\\\'eb M\\u252?ller\\par ' +
+        'Senior Engineer \\endash  Berlin \\\'93remote\\\'94\\par ' +
+        '\\trowd Skills\\cell Go, Rust\\cell\\row}'
+    );
+    assert.equal(text, 'Zoë Müller\nSenior Engineer – Berlin “remote”\nSkills | Go, Rust');
+  });
+
+  it('collects hyperlink targets and warns about pictures', () => {
+    const { text, links, warnings } = parseRTF(
+      '{\\rtf1{\\field{\\*\\fldinst HYPERLINK "https://github.com/janedoe"}{\\fldrslt GitHub}}\\par' +
+        '{\\pict\\pngblip 89504e47}}'
+    );
+    assert.equal(text, 'GitHub');
+    assert.deepEqual(links, ['https://github.com/janedoe']);
+    assert.equal(warnings.length, 1);
+  });
+});
+
+describe('parseODT', () => {
+  it('reads headings, list items, spaces and links from content.xml', async () => {
+    const result = await parseODT(await odtPackage({ 'content.xml': ODT_CONTENT }));
+
+    assert.deepEqual(result.headings, ['Jane Doe', 'Experience']);
+    assert.deepEqual(result.links, ['mailto:jane@example.com']);
+    // <text:s/> stands for spaces between words; runs of spaces collapse like any other whitespace
+    assert.match(result.text, /Senior Engineer\njane@example\.com/);
+    assert.match(result.text, /Led the billing team/);
+    assert.doesNotMatch(result.text, /P1/);
+    assert.deepEqual(result.warnings, ['1 image(s) in the document were skipped; text inside images is not read.']);
+  });
+
+  it('rejects encrypted and incomplete packages', async () => {
+    const encrypted = await odtPackage({
+      'META-INF/manifest.xml': '<manifest:file-entry><manifest:encryption-data/></manifest:file-entry>',
+      'content.xml': ODT_CONTENT,
+    });
+    await assert.rejects(
+      parseODT(encrypted),
+      (error: unknown) => error instanceof DocumentError && error.code === 'PASSWORD_PROTECTED'
+    );
+    await assert.rejects(
+      parseODT(await odtPackage({})),
+      (error: unknown) => error instanceof DocumentError && error.code === 'CORRUPT_FILE'
+    );
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('strips syntax, keeping headings, bullets, table cells and link targets', () => {
+    const result = parseMarkdown(
+      [
+        '---',
+        'layout: resume',
+        '---',
+        '# Jane Doe',
+        '[GitHub](https://github.com/janedoe) · <mailto:jane@example.com>',
+        '',
+        'Experience',
+        '----------',
+        '- **Led** the _billing_ team',
+        '',
+        '| Skill | Years |',
+        '| --- | --- |',
+        '| Go | 5 |',
+      ].join('\n')
+    );
+
+    assert.deepEqual(result.headings, ['Jane Doe', 'Experience']);
+    assert.deepEqual(result.links, ['https://github.com/janedoe', 'mailto:jane@example.com']);
+    assert.equal(
+      result.text,
+      'Jane Doe\nGitHub · jane@example.com\n\nExperience\n• Led the billing team\n\nSkill | Years\nGo | 5'
+    );
+  });
+});
+
+describe('parseDocument', () => {
+  it('reads by content and warns when the file name says otherwise', async () => {
+    const parsed = await parseDocument(Buffer.from('{\\rtf1 Jane Doe\\par Skills\\par Go}'), 'cv.pdf', 'application/pdf');
+
+    assert.equal(parsed.format, 'rtf');
+    assert.equal(parsed.warnings.length, 1);
+    assert.match(parsed.warnings[0], /^cv\.pdf looks like /);
+    assert.deepEqual(
+      parsed.sections.map(({ heading, content }) => [heading, content]),
+      [
+        ['', 'Jane Doe'],
+        ['Skills', 'Go'],
+      ]
+    );
+  });
+
+  it('refuses password-protected Office files before parsing', async () => {
+    await assert.rejects(
+      parseDocument(compoundFile('EncryptedPackage'), 'cv.docx', ''),
+      (error: unknown) => error instanceof DocumentError && error.code === 'PASSWORD_PROTECTED'
+    );
+  });
+});
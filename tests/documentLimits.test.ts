@@ -0,0 +1,92 @@
+/**
+ * Upload limit tests
+ * Oversized requests, long PDFs and slow parsers are refused without reading or parsing to the end
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { NextRequest } from 'next/server';
+import { POST as parseFile } from '@/app/api/cv/parse-file/route';
+import { DocumentError, withParseTimeout } from '@/src/infrastructure/documents/documentErrors';
+import { extractPDF, parsePDF } from '@/src/infrastructure/utils/pdfParser';
+import { MAX_FILE_SIZE, UPLOAD_LIMITS } from '@/src/shared/constants';
+
+/**
+ * A minimal valid PDF with the given number of blank pages
+ */
+function blankPDF(pageCount: number): Buffer {
+  const pageIds = Array.from({ length: pageCount }, (_, i) => i + 3);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`,
+    ...pageIds.map(() => '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >>'),
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+function assertDocumentError(code: string) {
+  return (error: unknown) => error instanceof DocumentError && error.code === code;
+}
+
+describe('PDF page limit', () => {
+  const tooLong = blankPDF(UPLOAD_LIMITS.MAX_PDF_PAGES + 1);
+
+  it('rejects long PDFs in layout-aware extraction', async () => {
+    await assert.rejects(extractPDF(tooLong), assertDocumentError('TOO_MANY_PAGES'));
+  });
+
+  it('rejects long PDFs in the plain-text fallback too', async () => {
+    await assert.rejects(parsePDF(tooLong), assertDocumentError('TOO_MANY_PAGES'));
+  });
+
+  it('reads PDFs within the limit', async () => {
+    assert.equal(typeof (await parsePDF(blankPDF(2))), 'string');
+  });
+});
+
+describe('withParseTimeout', () => {
+  it('aborts the parser at the deadline', async () => {
+    let received: AbortSignal | undefined;
+    const work = (signal: AbortSignal) => {
+      received = signal;
+      return new Promise<string>(() => undefined);
+    };
+
+    await assert.rejects(withParseTimeout(work, 10), assertDocumentError('PARSE_TIMEOUT'));
+    assert.equal(received?.aborted, true);
+    assert.ok(received?.reason instanceof DocumentError);
+  });
+
+  it('stops a PDF parse between pages', async () => {
+    const controller = new AbortController();
+    controller.abort(new DocumentError('PARSE_TIMEOUT', 'too slow'));
+    await assert.rejects(extractPDF(blankPDF(2), controller.signal), assertDocumentError('PARSE_TIMEOUT'));
+  });
+});
+
+describe('POST /api/cv/parse-file', () => {
+  it('refuses an oversized request by its Content-Length before reading the body', async () => {
+    const declared = MAX_FILE_SIZE + UPLOAD_LIMITS.MULTIPART_OVERHEAD_BYTES + 1;
+    const request = new NextRequest('http://localhost/api/cv/parse-file', {
+      method: 'POST',
+      body: 'not multipart at all',
+      headers: { 'content-length': String(declared), 'content-type': 'multipart/form-data; boundary=x' },
+    });
+
+    const response = await parseFile(request);
+    assert.equal(response.status, 413);
+    assert.equal((await response.json()).code, 'FILE_TOO_LARGE');
+    assert.equal(request.bodyUsed, false);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Embeddings and semantic requirement matching
+ * Which vectors were used, how embedding calls are booked, and the shared FNV hash
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { embedTexts } from '@/src/infrastructure/inference/embeddings';
+import { runWithInferenceTrace } from '@/src/infrastructure/inference/inferenceTrace';
+import { getUsageReport, resetUsage } from '@/src/infrastructure/inference/usageLedger';
+import { setLLMProvider } from '@/src/infrastructure/providers/llmProvider';
+import { createMockProvider } from '@/src/infrastructure/providers/mock.provider';
+import { LLMProviderError, type LLMProvider } from '@/src/infrastructure/providers/types';
+import { matchRequirementsSemantically } from '@/src/infrastructure/services/semanticMatcher.service';
+import type { InferenceRecord } from '@/src/shared/types';
+import { fnv1a } from '@/src/shared/utils/hash';
+
+function embeddingProvider(embed: LLMProvider['embed']): LLMProvider {
+  return { ...createMockProvider(), embed };
+}
+
+describe('fnv1a', () => {
+  it('matches the reference FNV-1a 32-bit values', () => {
+    assert.equal(fnv1a(''), 0x811c9dc5);
+    assert.equal(fnv1a('a'), 0xe40c292c);
+    assert.equal(fnv1a('foobar'), 0xbf9cf968);
+  });
+});
+
+describe('embedTexts', () => {
+  beforeEach(() => resetUsage());
+  afterEach(() => setLLMProvider(null));
+
+  it('books a model call in the usage ledger and the request trace', async () => {
+    setLLMProvider(embeddingProvider(async ({ texts }) => texts.map((text) => [text.length, 1])));
+
+    const records: InferenceRecord[] = [];
+    const result = await runWithInferenceTrace(records, () => embedTexts(['React', 'TypeScript']));
+
+    assert.equal(result.method, 'model');
+    assert.equal(result.degraded, false);
+    assert.equal(records.length, 1);
+    assert.equal(records[0].usage?.feature, 'requirement-matching');
+    assert.equal(records[0].attempts[0].outcome, 'success');
+    assert.ok((records[0].usage?.inputTokens ?? 0) > 0);
+
+    const report = getUsageReport();
+    assert.equal(report.byFeature['requirement-matching']?.calls, 1);
+    assert.equal(report.byFeature['requirement-matching']?.failedCalls, 0);
+  });
+
+  it('falls back to local vectors and marks the result degraded when the model fails', async () => {
+    setLLMProvider(
+      embeddingProvider(async () => {
+        throw new LLMProviderError('model is loading', 'mock', 503);
+      })
+    );
+
+    const records: InferenceRecord[] = [];
+    const result = await runWithInferenceTrace(records, () => embedTexts(['React']));
+
+    assert.equal(result.method, 'local');
+    assert.equal(result.degraded, true);
+    assert.equal(records[0].model, null);
+    assert.deepEqual(
+      records[0].attempts.map((attempt) => [attempt.outcome, attempt.status]),
+      [['failed', 503]]
+    );
+    assert.equal(getUsageReport().byFeature['requirement-matching']?.failedCalls, 1);
+  });
+
+  it('uses local vectors without a ledger entry when the provider cannot embed', async () => {
+    const result = await embedTexts(['React']);
+
+    assert.equal(result.method, 'local');
+    assert.equal(result.degraded, false);
+    assert.equal(getUsageReport().totals.calls, 0);
+  });
+});
+
+describe('matchRequirementsSemantically', () => {
+  afterEach(() => setLLMProvider(null));
+
+  const cv = 'Built React applications in TypeScript for five years\nLed a team of four engineers';
+
+  it('reports the vectors the requirements were matched with', async () => {
+    const { evidence, matching } = await matchRequirementsSemantically(['Experience with React'], cv);
+
+    assert.equal(evidence.length, 1);
+    assert.deepEqual(matching, { method: 'local', model: 'local-hashed-words', degraded: false });
+  });
+
+  it('flags a run where local vectors stood in for a failing model', async () => {
+    setLLMProvider(
+      embeddingProvider(async () => {
+        throw new LLMProviderError('unavailable', 'mock', 500);
+      })
+    );
+
+    const { matching } = await matchRequirementsSemantically(['Experience with React'], cv);
+
+    assert.equal(matching.method, 'local');
+    assert.equal(matching.degraded, true);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Experience timeline tests
+ * Tenure from role dates as of a fixed month, and the years a job asks per skill
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { classifyRequirements } from '@/src/infrastructure/jobs/requirementClassifier';
+import {
+  assessExperienceFit,
+  buildExperienceTimeline,
+} from '@/src/infrastructure/services/experienceTimeline.service';
+import type { Experience, JobAnalysis } from '@/src/shared/types';
+
+const AS_OF = new Date(Date.UTC(2026, 0, 15));
+
+function role(position: string, startDate: string, endDate: string | null, description: string[] = []): Experience {
+  return {
+    id: `${position}-${startDate}`,
+    company: 'Example Ltd',
+    position,
+    startDate,
+    endDate: endDate ?? undefined,
+    current: endDate === null,
+    description,
+  };
+}
+
+function jobAnalysis(keyRequirements: string[], experienceLevel = 'Senior'): JobAnalysis {
+  return {
+    businessType: 'Software',
+    industry: 'Technology',
+    candidateProfile: { experienceLevel, keySkills: [], personalityTraits: [], education: '' },
+    values: [],
+    keyRequirements,
+    writingStyle: '',
+    domainStandards: '',
+    missingInfo: [],
+    facts: { locations: [], yearsOfExperience: { min: 5 } },
+    requirements: classifyRequirements(keyRequirements, keyRequirements.join('\n')),
+  };
+}
+
+const CV = `Jane Doe
+
+Experience
+Senior Engineer, Example Ltd
+Jan 2020 - Present
+- Built React front ends and Go services
+
+Engineer, Other Co
+Jan 2018 - Dec 2019
+- Maintained React applications`;
+
+describe('buildExperienceTimeline', () => {
+  it('counts overlapping roles once and reports gaps', () => {
+    const timeline = buildExperienceTimeline(
+      [
+        role('Engineer', '2015-01', '2017-12'),
+        role('Consultant', '2017-01', '2017-12'),
+        role('Senior Engineer', '2019-01', null),
+      ],
+      AS_OF
+    );
+
+    assert.equal(timeline.asOf, '2026-01');
+    assert.equal(timeline.totalYears, 10.1);
+    assert.equal(timeline.overlapYears, 1);
+    assert.deepEqual(timeline.gaps, [{ from: '2018-01', to: '2019-01', months: 12 }]);
+    assert.equal(timeline.seniority?.label, 'Lead');
+  });
+
+  it('gives the same figures for the same as-of month', () => {
+    const roles = [role('Engineer', '2024-03', null, ['TypeScript services'])];
+    const first = buildExperienceTimeline(roles, new Date(Date.UTC(2026, 0, 1)));
+    const second = buildExperienceTimeline(roles, new Date(Date.UTC(2026, 0, 31)));
+    const later = buildExperienceTimeline(roles, new Date(Date.UTC(2027, 0, 1)));
+
+    assert.deepEqual(first, second);
+    // The as-of month counts in full: March 2024 to January 2026 is 23 months
+    assert.equal(first.totalYears, 1.9);
+    assert.equal(later.totalYears, 2.9);
+  });
+
+  it('credits a skill with the years of the roles that mention it, parents included', () => {
+    const timeline = buildExperienceTimeline(
+      [role('Engineer', '2018-01', '2019-12', ['Next.js apps']), role('Engineer', '2020-01', null, ['Built Go APIs'])],
+      AS_OF
+    );
+    const years = new Map(timeline.skillYears.map(({ skill, years }) => [skill, years]));
+
+    assert.equal(years.get('Go'), 6.1);
+    assert.equal(years.get('Next.js'), 2);
+    assert.equal(years.get('React'), 2);
+    assert.equal(years.get('JavaScript'), 2);
+  });
+
+  it('leaves out roles without usable dates', () => {
+    const timeline = buildExperienceTimeline(
+      [role('Engineer', 'sometime', '2019-12'), role('Engineer', '2030-01', null)],
+      AS_OF
+    );
+    assert.equal(timeline.datedRoles, 0);
+    assert.equal(timeline.undatedRoles, 2);
+    assert.equal(timeline.seniority, undefined);
+  });
+});
+
+describe('assessExperienceFit', () => {
+  it('pairs each year count with its nearest skill', () => {
+    const fit = assessExperienceFit(CV, jobAnalysis(['5+ years React and 2+ years Go']), AS_OF);
+
+    assert.deepEqual(
+      fit.skillRequirements.map(({ skill, requiredYears, years }) => [skill, requiredYears, years]),
+      [
+        ['React', 5, 8.1],
+        ['Go', 2, 6.1],
+      ]
+    );
+  });
+
+  it('applies one year count to every skill it covers', () => {
+    const fit = assessExperienceFit(CV, jobAnalysis(['3+ years of experience with React and Go']), AS_OF);
+    assert.deepEqual(
+      fit.skillRequirements.map(({ skill, requiredYears }) => [skill, requiredYears]),
+      [
+        ['React', 3],
+        ['Go', 3],
+      ]
+    );
+  });
+
+  it('compares total years and level with what the job asks', () => {
+    const fit = assessExperienceFit(CV, jobAnalysis([], 'Lead'), AS_OF);
+    assert.equal(fit.years, 8.1);
+    assert.equal(fit.yearsShortfall, 0);
+    assert.equal(fit.seniority?.label, 'Lead');
+    assert.equal(fit.levelGap, 0);
+  });
+
+  it('falls back to stated years when no role is dated', () => {
+    const fit = assessExperienceFit('Engineer with 3 years of experience', jobAnalysis([]), AS_OF);
+    assert.equal(fit.years, 3);
+    assert.equal(fit.yearsShortfall, 2);
+    assert.equal(fit.seniority?.label, 'Mid');
+  });
+});
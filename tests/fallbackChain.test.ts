@@ -0,0 +1,122 @@
+/**
+ * Model fallback chain: hops, skips and circuit breakers
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { FALLBACK_POLICY } from '@/src/shared/constants';
+import { canAttempt, recordFailure, resetCircuits } from '@/src/infrastructure/inference/circuitBreaker';
+import { generateWithFallback, streamWithFallback } from '@/src/infrastructure/inference/fallbackChain';
+import { createMockProvider } from '@/src/infrastructure/providers/mock.provider';
+import { LLMProviderError } from '@/src/infrastructure/providers/types';
+import type { InferenceRecord } from '@/src/shared/types';
+
+const request = { prompt: 'Hello', model: 'model-a', maxTokens: 50 };
+
+/**
+ * Open the circuit of a mock model
+ */
+function openCircuit(model: string): void {
+  for (let i = 0; i < FALLBACK_POLICY.FAILURE_THRESHOLD; i++) {
+    recordFailure(`mock:${model}`, 'down');
+  }
+}
+
+describe('generateWithFallback', () => {
+  beforeEach(() => {
+    process.env.LLM_FALLBACK_CHAIN = 'model-b,model-c';
+    resetCircuits();
+  });
+  afterEach(() => {
+    delete process.env.LLM_FALLBACK_CHAIN;
+    resetCircuits();
+  });
+
+  it('answers with the requested model without hops', async () => {
+    const { inference } = await generateWithFallback(createMockProvider(() => 'ok'), request);
+    assert.equal(inference.model, 'model-a');
+    assert.equal(inference.fallbackHops, 0);
+  });
+
+  it('counts a failed model as a hop', async () => {
+    const provider = createMockProvider(({ model }) => {
+      if (model === 'model-a') {
+        throw new LLMProviderError('bad request', 'mock', 400);
+      }
+      return 'ok';
+    });
+    const { inference } = await generateWithFallback(provider, request);
+    assert.equal(inference.model, 'model-b');
+    assert.equal(inference.fallbackHops, 1);
+  });
+
+  it('does not count models skipped by an open circuit as hops', async () => {
+    openCircuit('model-a');
+    const called: string[] = [];
+    const provider = createMockProvider(({ model }) => {
+      called.push(model);
+      return 'ok';
+    });
+
+    const { inference } = await generateWithFallback(provider, request);
+    assert.deepEqual(called, ['model-b']);
+    assert.equal(inference.model, 'model-b');
+    assert.equal(inference.fallbackHops, 0);
+    assert.deepEqual(
+      inference.attempts.map((attempt) => attempt.outcome),
+      ['skipped', 'success']
+    );
+  });
+});
+
+describe('streamWithFallback', () => {
+  beforeEach(() => resetCircuits());
+  afterEach(() => resetCircuits());
+
+  it('settles the breaker and reports usage when the consumer stops early', async () => {
+    // Let the cool-down pass so the next call is the half-open trial
+    openCircuit('model-a');
+    const later = Date.now() + FALLBACK_POLICY.COOL_DOWN_MS;
+    const provider = createMockProvider(() => 'one two three four');
+    const records: InferenceRecord[] = [];
+
+    const originalNow = Date.now;
+    Date.now = () => later;
+    try {
+      for await (const chunk of streamWithFallback(provider, { ...request, model: 'model-a' }, (r) => records.push(r))) {
+        assert.equal(chunk, 'one ');
+        break;
+      }
+
+      assert.equal(records.length, 1);
+      assert.equal(records[0].model, 'model-a');
+      assert.equal(records[0].attempts[0].outcome, 'aborted');
+      // The trial was released: the next request may try the model again
+      assert.equal(canAttempt('mock:model-a'), true);
+    } finally {
+      Date.now = originalNow;
+    }
+  });
+
+  it('stops at the provider when the signal is aborted', async () => {
+    const abort = new AbortController();
+    const records: InferenceRecord[] = [];
+    const chunks: string[] = [];
+    const stream = streamWithFallback(
+      createMockProvider(() => 'one two three four'),
+      { ...request, signal: abort.signal },
+      (r) => records.push(r)
+    );
+
+    await assert.rejects(async () => {
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+        abort.abort();
+      }
+    });
+    assert.deepEqual(chunks, ['one ']);
+    assert.equal(records.length, 1);
+    assert.equal(records[0].attempts[0].outcome, 'aborted');
+    assert.equal(canAttempt('mock:model-a'), true);
+  });
+});
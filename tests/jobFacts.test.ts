@@ -0,0 +1,52 @@
+/**
+ * Job facts tests
+ * Salary figures are told apart from other money in the same line or sentence
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractJobFacts } from '@/src/infrastructure/jobs/jobFacts';
+
+function salaryOf(text: string) {
+  return extractJobFacts(text).salary;
+}
+
+describe('extractJobFacts salary', () => {
+  it('reads a labelled range', () => {
+    assert.deepEqual(salaryOf('Salary: $120,000 - $150,000 per year'), {
+      min: 120000,
+      max: 150000,
+      currency: 'USD',
+      period: 'year',
+      text: '$120,000 - $150,000',
+    });
+  });
+
+  it('skips funding in the same sentence as the salary', () => {
+    const salary = salaryOf('We raised $20M in Series B funding and offer a base salary of $130k-$160k.');
+    assert.equal(salary?.min, 130000);
+    assert.equal(salary?.max, 160000);
+  });
+
+  it('skips funding on a line that mentions pay elsewhere', () => {
+    const salary = salaryOf('Backed by $20M from top investors, we pay well: £70,000 to £85,000.');
+    assert.equal(salary?.currency, 'GBP');
+    assert.equal(salary?.min, 70000);
+  });
+
+  it('skips perks and bonuses next to the salary', () => {
+    const salary = salaryOf('Compensation: €60,000 plus a €2,000 learning budget');
+    assert.equal(salary?.min, 60000);
+    assert.equal(salary?.max, 60000);
+  });
+
+  it('finds no salary when the only money is funding', () => {
+    assert.equal(salaryOf('We raised $20M last year, led by top investors.'), undefined);
+  });
+
+  it('keeps ranges written with "and" together', () => {
+    const salary = salaryOf('The salary is between $90k and $110k depending on experience');
+    assert.equal(salary?.min, 90000);
+    assert.equal(salary?.max, 110000);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Job import tests
+ * Saved job board pages (tests/fixtures/jobs) are read the way /api/job/import reads them; URL imports never reach private hosts
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { importJobFromHTML, importJobFromURL, JobImportError } from '@/src/infrastructure/jobs/jobImporter';
+
+function importFixture(name: string) {
+  return importJobFromHTML(readFileSync(path.join(__dirname, 'fixtures', 'jobs', name), 'utf-8'));
+}
+
+describe('importJobFromHTML', () => {
+  it('reads Greenhouse postings from their JSON-LD', () => {
+    const result = importFixture('greenhouse.html');
+
+    assert.equal(result.source, 'json-ld');
+    assert.equal(result.jobDescription.title, 'Senior Backend Engineer');
+    assert.equal(result.jobDescription.company, 'Northwind Labs');
+    assert.deepEqual(result.jobDescription.requirements, [
+      '5+ years of backend development experience',
+      'Strong knowledge of Go or Java',
+      'Experience with PostgreSQL and Kafka',
+      'Fluent English; German is a plus',
+    ]);
+    assert.match(result.jobDescription.content, /Location: Berlin, DE/);
+    assert.match(result.jobDescription.content, /Salary: 75000-90000 EUR per year/);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it('reads Workday postings from a JSON-LD @graph, adding description requirements to the tagged ones', () => {
+    const result = importFixture('workday.html');
+
+    assert.equal(result.source, 'json-ld');
+    assert.equal(result.jobDescription.title, 'Site Reliability Engineer');
+    assert.equal(result.jobDescription.company, 'Adventure Works');
+    assert.deepEqual(result.jobDescription.requirements, [
+      '4+ years of experience in SRE or DevOps roles',
+      'Hands-on experience with AWS and Kubernetes',
+      'Proficiency in at least one of Python or Go',
+      'Familiarity with Prometheus and Grafana',
+    ]);
+    assert.match(result.jobDescription.content, /Location: Toronto, ON, Canada/);
+  });
+
+  it('reads Lever postings split into headed sections', () => {
+    const result = importFixture('lever.html');
+
+    assert.equal(result.source, 'page-text');
+    assert.equal(result.jobDescription.title, 'Product Designer');
+    assert.equal(result.jobDescription.company, 'Contoso');
+    assert.deepEqual(result.jobDescription.requirements, [
+      '3+ years of experience designing B2B software products',
+      'A portfolio that shows interaction design and research, not just visuals',
+      'Proficiency in Figma and prototyping tools',
+      'Experience with accessibility guidelines (WCAG 2.1)',
+    ]);
+    assert.match(result.jobDescription.content, /Contoso makes scheduling tools for clinics/);
+    assert.match(result.jobDescription.content, /Lead the design of new scheduling features/);
+    assert.doesNotMatch(result.jobDescription.content, /powered by Lever/);
+  });
+
+  it('reads LinkedIn postings without their navigation or similar jobs', () => {
+    const result = importFixture('linkedin.html');
+
+    assert.equal(result.source, 'page-text');
+    assert.equal(result.jobDescription.title, 'Data Engineer');
+    assert.equal(result.jobDescription.company, 'Fabrikam');
+    assert.deepEqual(result.jobDescription.requirements, [
+      '3+ years of experience as a data engineer',
+      'Strong SQL and Python skills',
+      'Experience with Apache Spark and Airflow',
+      'Degree in Computer Science or a related field',
+    ]);
+    assert.match(result.jobDescription.content, /build the pipelines behind our pricing models/);
+    assert.doesNotMatch(result.jobDescription.content, /Similar jobs|Tailspin|Sign in|User Agreement/);
+  });
+
+  it('reads a company careers page without its cookie banner, menu or sidebar', () => {
+    const result = importFixture('careers-page.html');
+
+    assert.equal(result.source, 'page-text');
+    assert.equal(result.jobDescription.title, 'Junior Accountant');
+    assert.equal(result.jobDescription.company, 'Litware Inc.');
+    assert.deepEqual(result.jobDescription.requirements, [
+      'AAT qualified, or studying towards ACCA or CIMA',
+      '1+ years of experience in an accounts role',
+      'Confident with Excel, including pivot tables and lookups',
+      'Knowledge of Sage or Xero is a plus',
+    ]);
+    assert.match(result.jobDescription.content, /£28,000 to £32,000/);
+    assert.doesNotMatch(result.jobDescription.content, /cookies|Open positions|Office Manager|All rights reserved/);
+  });
+
+  it('rejects pages without a posting', () => {
+    assert.throws(
+      () => importJobFromHTML('<html><body><p>Please sign in to continue.</p></body></html>'),
+      (error: unknown) => error instanceof JobImportError && error.status === 422
+    );
+  });
+});
+
+describe('importJobFromURL', () => {
+  let server: Server;
+  let port: number;
+  let requests = 0;
+
+  before(async () => {
+    server = createServer((_, response) => {
+      requests++;
+      response.end('<html><body><p>internal page</p></body></html>');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const isPrivateNetworkError = (error: unknown) =>
+    error instanceof JobImportError && /private network/.test(error.message);
+
+  it('refuses private addresses written into the link', async () => {
+    await assert.rejects(importJobFromURL(`http://127.0.0.1:${port}/job`), isPrivateNetworkError);
+    await assert.rejects(importJobFromURL(`http://[::1]:${port}/job`), isPrivateNetworkError);
+  });
+
+  it('refuses host names when the address they resolve to for the connection is private', async () => {
+    await assert.rejects(importJobFromURL(`http://localhost:${port}/job`), isPrivateNetworkError);
+    assert.equal(requests, 0);
+  });
+
+  it('refuses links that are not http(s)', async () => {
+    await assert.rejects(
+      importJobFromURL('file:///etc/passwd'),
+      (error: unknown) => error instanceof JobImportError && /Only http and https/.test(error.message)
+    );
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * LLM provider selection and mock determinism
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import {
+  createLLMProvider,
+  getConfiguredProviderName,
+  getLLMProvider,
+  setLLMProvider,
+} from '@/src/infrastructure/providers/llmProvider';
+import { createMockProvider, echoResponder } from '@/src/infrastructure/providers/mock.provider';
+import { CANNED_CV } from '@/src/infrastructure/providers/scriptedResponses';
+import type { LLMGenerateRequest } from '@/src/infrastructure/providers/types';
+
+const request: LLMGenerateRequest = { prompt: 'Say hello\nto the tests', model: 'test-model', maxTokens: 50 };
+
+describe('getConfiguredProviderName', () => {
+  it('maps aliases to provider names', () => {
+    assert.equal(getConfiguredProviderName('hf'), 'huggingface');
+    assert.equal(getConfiguredProviderName('Ollama'), 'openai-compatible');
+    assert.equal(getConfiguredProviderName('vllm'), 'openai-compatible');
+    assert.equal(getConfiguredProviderName('mock'), 'mock');
+    assert.equal(getConfiguredProviderName('replay'), 'replay');
+  });
+
+  it('falls back to huggingface for an unknown name', () => {
+    assert.equal(getConfiguredProviderName('gpt-in-a-box'), 'huggingface');
+  });
+});
+
+describe('getLLMProvider', () => {
+  afterEach(() => setLLMProvider(null));
+
+  it('uses LLM_PROVIDER from the environment', () => {
+    assert.equal(getLLMProvider().name, 'mock');
+  });
+
+  it('prefers an explicit override', () => {
+    const override = createMockProvider(() => 'override');
+    setLLMProvider(override);
+    assert.equal(getLLMProvider(), override);
+  });
+
+  it('creates each provider by name', () => {
+    assert.equal(createLLMProvider('mock').name, 'mock');
+    assert.equal(createLLMProvider('openai-compatible').name, 'openai-compatible');
+    assert.equal(createLLMProvider('huggingface').name, 'huggingface');
+  });
+});
+
+describe('mock provider', () => {
+  it('answers the same request the same way', async () => {
+    const provider = createMockProvider();
+    assert.equal(await provider.generate(request), await provider.generate({ ...request }));
+    assert.equal(await provider.generate(request), echoResponder(request));
+  });
+
+  it('gives different prompts different replies', async () => {
+    const provider = createMockProvider();
+    assert.notEqual(await provider.generate(request), await provider.generate({ ...request, prompt: 'Other' }));
+  });
+
+  it('streams chunks that join to the generated text', async () => {
+    const provider = createMockProvider();
+    const cvRequest = { ...request, prompt: 'You are a professional CV optimizer. Rewrite this CV.' };
+    let streamed = '';
+    for await (const chunk of provider.stream(cvRequest)) {
+      streamed += chunk;
+    }
+    assert.equal(streamed, await provider.generate(cvRequest));
+    assert.equal(streamed, CANNED_CV);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Match score tests
+ * Education is scored from degrees named in the CV, not from look-alike abbreviations
+ */
+
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { analyzeCVMatch } from '@/src/infrastructure/services/cvAnalyzer.service';
+import { analyzeJobDescription } from '@/src/infrastructure/services/jobAnalyzer.service';
+import type { JobAnalysis } from '@/src/shared/types';
+
+const JOB_DESCRIPTION = `Backend Engineer
+Office in Boston, MA
+
+Requirements:
+- Bachelor's degree in Computer Science or equivalent experience
+- 3+ years of experience with Python`;
+
+const AS_OF = new Date(Date.UTC(2026, 0, 1));
+
+async function educationEvidence(cvContent: string, jobAnalysis: JobAnalysis): Promise<string[]> {
+  const match = await analyzeCVMatch(cvContent, JOB_DESCRIPTION, jobAnalysis, AS_OF);
+  const education = match.scoreBreakdown.components.find((component) => component.id === 'education');
+  assert.ok(education?.applicable);
+  return education.evidence;
+}
+
+describe('education score', () => {
+  let jobAnalysis: JobAnalysis;
+
+  before(async () => {
+    jobAnalysis = await analyzeJobDescription(JOB_DESCRIPTION);
+  });
+
+  it('does not read "Boston, MA" in the CV as a Master\'s degree', async () => {
+    const evidence = await educationEvidence('Jane Doe\nBoston, MA 02110\nBSc Computer Science, 2018', jobAnalysis);
+    assert.equal(evidence[1], "CV shows Bachelor's");
+  });
+
+  it('reads MA and BA where they name a degree', async () => {
+    assert.equal((await educationEvidence('Jane Doe\nMA in Economics, 2019', jobAnalysis))[1], "CV shows Master's");
+    assert.equal((await educationEvidence('Jane Doe\nMA Economics, 2019', jobAnalysis))[1], "CV shows Master's");
+    assert.equal((await educationEvidence('Jane Doe\nBA (Hons) History, 2016', jobAnalysis))[1], "CV shows Bachelor's");
+  });
+
+  it('finds no degree when the only "MA" or "BA" is part of an address', async () => {
+    const evidence = await educationEvidence('Jane Doe\nSpringfield, MA\nCambridge MA\nSeattle, WA', jobAnalysis);
+    assert.equal(evidence[1], 'No degree found in the CV');
+  });
+});
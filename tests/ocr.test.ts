@@ -0,0 +1,45 @@
+/**
+ * OCR tests
+ * Clean-up of recognized text, document confidence, and cancellation before a worker starts
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { overallConfidence, recognizePages, tidyOCRText } from '@/src/infrastructure/utils/ocr';
+
+describe('tidyOCRText', () => {
+  it('drops the blank lines tesseract puts between lines and normalizes bullets', () => {
+    assert.equal(
+      tidyOCRText('Jane Doe\n\n  Senior Engineer  \n\n➤ Led the billing team\n\n\n'),
+      'Jane Doe\nSenior Engineer\n• Led the billing team'
+    );
+  });
+});
+
+describe('overallConfidence', () => {
+  it('weights page confidence by the amount of text on each page', () => {
+    assert.equal(
+      overallConfidence([
+        { pageNumber: 1, confidence: 0.9, characters: 3000 },
+        { pageNumber: 2, confidence: 0.3, characters: 1000 },
+      ]),
+      0.75
+    );
+  });
+
+  it('is zero when no page produced text', () => {
+    assert.equal(overallConfidence([{ pageNumber: 1, confidence: 0.95, characters: 0 }]), 0);
+    assert.equal(overallConfidence([]), 0);
+  });
+});
+
+describe('recognizePages', () => {
+  it('rejects with the abort reason without starting a worker', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('upload cancelled'));
+    await assert.rejects(
+      recognizePages([{ pageNumber: 1, data: new Uint8Array() }], 'eng', controller.signal),
+      /upload cancelled/
+    );
+  });
+});
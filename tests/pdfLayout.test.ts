@@ -0,0 +1,105 @@
+/**
+ * PDF layout tests
+ * Reading order from positioned text: columns, spanning banners, word spacing, bullets and page furniture;
+ * link annotations of a generated PDF
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { jsPDF } from 'jspdf';
+import { analyzePDFLayout, normalizeBullet, type PDFPageContent, type PDFTextItem } from '@/src/infrastructure/utils/pdfLayout';
+import { extractPDF } from '@/src/infrastructure/utils/pdfParser';
+
+const PAGE = { width: 600, height: 800 };
+
+function item(text: string, x: number, y: number, width = 150): PDFTextItem {
+  return { text, x, y, width, height: 10 };
+}
+
+function page(items: PDFTextItem[]): PDFPageContent {
+  return { ...PAGE, items };
+}
+
+describe('analyzePDFLayout', () => {
+  it('reads a two-column page column by column, below a full-width name banner', () => {
+    const result = analyzePDFLayout([
+      page([
+        item('Jane Doe', 140, 100, 320),
+        // Items arrive in drawing order, interleaved across the columns
+        item('Experience', 320, 150),
+        item('Skills', 50, 150, 100),
+        item('\uF0B7 Go', 50, 164, 100),
+        item('Engineer at Acme', 320, 164),
+        item('\uF0B7 Python', 50, 178, 100),
+        item('Built APIs', 320, 178),
+        item('Page 1 of 1', 280, 780, 40),
+      ]),
+    ]);
+
+    assert.deepEqual(result.columns, [2]);
+    assert.equal(result.removedLines, 1);
+    assert.equal(
+      result.text,
+      ['Jane Doe', 'Skills\n• Go\n• Python', 'Experience\nEngineer at Acme\nBuilt APIs'].join('\n\n')
+    );
+  });
+
+  it('keeps a single-column page in line order, spacing words and separating paragraphs', () => {
+    const result = analyzePDFLayout([
+      page([
+        item('Summary', 50, 100, 60),
+        item('Eng', 50, 114, 20),
+        item('ineer', 70, 114, 30),
+        item('building', 105, 114, 45),
+        item('Experience', 50, 160, 70),
+      ]),
+    ]);
+
+    assert.deepEqual(result.columns, [1]);
+    assert.equal(result.text, 'Summary\nEngineer building\n\nExperience');
+  });
+
+  it('drops running headers repeated across pages and page numbers', () => {
+    const body = (text: string) => item(text, 50, 300, 200);
+    const result = analyzePDFLayout([
+      page([item('Jane Doe - CV', 50, 20, 120), body('First page'), item('1', 290, 780, 10)]),
+      page([item('Jane Doe - CV', 50, 20, 120), body('Second page'), item('2', 290, 780, 10)]),
+    ]);
+
+    assert.equal(result.removedLines, 4);
+    assert.equal(result.text, 'First page\n\nSecond page');
+  });
+
+  it('keeps a margin line that appears on one page only', () => {
+    const result = analyzePDFLayout([
+      page([item('Jane Doe', 50, 20, 120), item('First page', 50, 300, 200)]),
+      page([item('Second page', 50, 300, 200)]),
+    ]);
+
+    assert.equal(result.removedLines, 0);
+    assert.match(result.text, /^Jane Doe\n/);
+  });
+});
+
+describe('normalizeBullet', () => {
+  it('rewrites template bullet glyphs as "• "', () => {
+    assert.equal(normalizeBullet('➤Led the team'), '• Led the team');
+    assert.equal(normalizeBullet('\uF0A7 Shipped v2'), '• Shipped v2');
+    assert.equal(normalizeBullet('Plain line'), 'Plain line');
+  });
+});
+
+describe('extractPDF', () => {
+  it('returns the text layer and the targets of link annotations', async () => {
+    const document = new jsPDF();
+    document.text('Jane Doe', 20, 20);
+    document.textWithLink('LinkedIn', 20, 30, { url: 'https://www.linkedin.com/in/janedoe' });
+    document.text('Senior Software Engineer building payment systems', 20, 40);
+
+    const extraction = await extractPDF(Buffer.from(document.output('arraybuffer')));
+
+    assert.equal(extraction.text, 'Jane Doe\nLinkedIn\nSenior Software Engineer building payment systems');
+    assert.deepEqual(extraction.links, ['https://www.linkedin.com/in/janedoe']);
+    assert.equal(extraction.ocr, undefined);
+  });
+});
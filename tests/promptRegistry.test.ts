@@ -0,0 +1,106 @@
+/**
+ * Prompt registry tests
+ * Active and pinned versions, rendering, and the errors for missing or undeclared variables
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import {
+  getActiveVersion,
+  listPrompts,
+  PromptRenderError,
+  registerPrompt,
+  renderPrompt,
+} from '@/src/infrastructure/prompts/promptRegistry';
+
+const CV_MATCH = {
+  jobDescription: 'Backend Engineer',
+  requirements: '- Python',
+  skills: 'Python',
+  cvContent: 'Jane Doe, Python developer',
+  scoreBreakdown: 'Skills: 100/100',
+};
+
+describe('renderPrompt', () => {
+  afterEach(() => {
+    delete process.env.PROMPT_VERSIONS;
+  });
+
+  it('renders the latest version and records its ref', () => {
+    const prompt = renderPrompt('cv-match', CV_MATCH);
+    assert.equal(prompt.version, 2);
+    assert.equal(prompt.ref, 'cv-match@2');
+    assert.match(prompt.text, /CV Content:\nJane Doe, Python developer/);
+    assert.doesNotMatch(prompt.text, /\{\{/);
+  });
+
+  it('renders a requested version', () => {
+    const prompt = renderPrompt('cv-match', CV_MATCH, 1);
+    assert.equal(prompt.ref, 'cv-match@1');
+    assert.doesNotMatch(prompt.text, /Skills: 100\/100/);
+  });
+
+  it('uses the version pinned in PROMPT_VERSIONS, and the latest when the pin does not exist', () => {
+    process.env.PROMPT_VERSIONS = 'cv-match=1, job-analysis=7';
+    assert.equal(getActiveVersion('cv-match'), 1);
+    assert.equal(renderPrompt('cv-match', CV_MATCH).ref, 'cv-match@1');
+    assert.equal(getActiveVersion('job-analysis'), 1);
+  });
+
+  it('names the missing variables, and allows empty strings', () => {
+    const { skills: _skills, ...withoutSkills } = CV_MATCH;
+    assert.throws(
+      () => renderPrompt('cv-match', withoutSkills as typeof CV_MATCH),
+      (error: unknown) =>
+        error instanceof PromptRenderError && error.promptId === 'cv-match' && error.missingVariables.join() === 'skills'
+    );
+    assert.doesNotThrow(() => renderPrompt('cv-match', { ...CV_MATCH, requirements: '' }));
+  });
+
+  it('rejects an unknown version', () => {
+    assert.throws(() => renderPrompt('cv-match', CV_MATCH, 9), /Unknown prompt version: cv-match@9/);
+  });
+});
+
+describe('registerPrompt', () => {
+  it('rejects placeholders that are not declared variables', () => {
+    assert.throws(
+      () =>
+        registerPrompt({
+          id: 'job-analysis',
+          version: 50,
+          description: 'Undeclared placeholder',
+          variables: ['jobDescription'],
+          template: '{{jobDescription}} {{companyName}}',
+        }),
+      (error: unknown) => error instanceof PromptRenderError && error.missingVariables.join() === 'companyName'
+    );
+  });
+
+  it('rejects a version that is already registered', () => {
+    assert.throws(
+      () =>
+        registerPrompt({
+          id: 'job-analysis',
+          version: 1,
+          description: 'Duplicate',
+          variables: ['jobDescription'],
+          template: '{{jobDescription}}',
+        }),
+      /job-analysis@1 is already registered/
+    );
+  });
+});
+
+describe('listPrompts', () => {
+  it('lists every version and marks one active per prompt', () => {
+    const cvMatch = listPrompts().filter((prompt) => prompt.id === 'cv-match');
+    assert.deepEqual(
+      cvMatch.map(({ version, active }) => [version, active]),
+      [
+        [1, false],
+        [2, true],
+      ]
+    );
+  });
+});
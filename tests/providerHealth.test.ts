@@ -0,0 +1,97 @@
+/**
+ * Provider health tests
+ * The open liveness check calls no model; probes need the admin token, configured models, and are booked
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { NextRequest } from 'next/server';
+import { GET as health } from '@/app/api/health/route';
+import { GET as verify } from '@/app/api/hf/verify/route';
+import { getUsageReport, resetUsage } from '@/src/infrastructure/inference/usageLedger';
+import { setLLMProvider } from '@/src/infrastructure/providers/llmProvider';
+import { createMockProvider } from '@/src/infrastructure/providers/mock.provider';
+import type { LLMProvider } from '@/src/infrastructure/providers/types';
+import { getConfiguredModels } from '@/src/infrastructure/services/providerHealth.service';
+
+const env = process.env as Record<string, string | undefined>;
+const originalToken = env.ADMIN_TOKEN;
+
+function get(url: string, authorization?: string): NextRequest {
+  return new NextRequest(`http://localhost${url}`, { headers: authorization ? { authorization } : {} });
+}
+
+describe('GET /api/health', () => {
+  let provider: LLMProvider & { calls: string[] };
+
+  beforeEach(() => {
+    resetUsage();
+    env.ADMIN_TOKEN = 'secret-token';
+    const mock = createMockProvider(() => 'OK');
+    provider = {
+      ...mock,
+      calls: [],
+      async generate(request) {
+        provider.calls.push(request.model);
+        return mock.generate(request);
+      },
+    };
+    setLLMProvider(provider);
+  });
+
+  afterEach(() => {
+    env.ADMIN_TOKEN = originalToken;
+    setLLMProvider(null);
+  });
+
+  it('answers a liveness check from configuration without calling a model', async () => {
+    const response = await health(get('/api/health'));
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.data.healthy, true);
+    assert.deepEqual(body.data.models, []);
+    assert.deepEqual(provider.calls, []);
+  });
+
+  it('requires the admin token to probe', async () => {
+    assert.equal((await health(get('/api/health?probe=true'))).status, 401);
+    assert.equal((await health(get('/api/health?probe=true', 'Bearer wrong'))).status, 401);
+    assert.deepEqual(provider.calls, []);
+  });
+
+  it('only probes configured models', async () => {
+    const response = await health(get('/api/health?probe=true&model=attacker/any-model', 'Bearer secret-token'));
+
+    assert.equal(response.status, 400);
+    assert.match((await response.json()).error, /attacker\/any-model/);
+    assert.deepEqual(provider.calls, []);
+  });
+
+  it('refuses model without probe', async () => {
+    const [model] = getConfiguredModels();
+    assert.equal((await health(get(`/api/health?model=${model}`))).status, 400);
+  });
+
+  it('probes each requested model once and books the probes in the usage ledger', async () => {
+    const [model] = getConfiguredModels();
+    const response = await health(
+      get(`/api/health?probe=true&model=${model}&model=${model}`, 'Bearer secret-token')
+    );
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(provider.calls, [model]);
+    assert.equal(getUsageReport().byFeature['health-check']?.calls, 1);
+  });
+});
+
+describe('GET /api/hf/verify', () => {
+  afterEach(() => {
+    env.ADMIN_TOKEN = originalToken;
+  });
+
+  it('requires the admin token', async () => {
+    env.ADMIN_TOKEN = 'secret-token';
+    assert.equal((await verify(get('/api/hf/verify'))).status, 401);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Requirement classifier tests
+ * Priority from wording or the heading above, category from wording
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  classifyRequirement,
+  classifyRequirements,
+  sortByPriority,
+} from '@/src/infrastructure/jobs/requirementClassifier';
+
+const POSTING = `Backend Engineer
+
+Requirements:
+- Good communication with product and design
+- 5+ years of experience with Python
+- Fluent English
+
+Nice to have:
+- Go
+- AWS Certified Solutions Architect
+
+Benefits:
+- Remote-first team`;
+
+describe('classifyRequirement', () => {
+  it('reads the category from the wording', () => {
+    assert.equal(classifyRequirement("Bachelor's degree and 3 years of experience").category, 'education');
+    assert.equal(classifyRequirement('5+ years of experience with Python').category, 'experience');
+    assert.equal(classifyRequirement('Fluent German').category, 'language');
+    assert.equal(classifyRequirement('Right to work in the UK').category, 'location');
+    assert.equal(classifyRequirement('CISSP or equivalent').category, 'certification');
+    assert.equal(classifyRequirement('Kubernetes').category, 'skill');
+  });
+
+  it('lets a marker in the wording beat the section', () => {
+    assert.equal(classifyRequirement('Kafka is a plus', 'required').priority, 'bonus');
+    assert.equal(classifyRequirement('Terraform preferred', 'required').priority, 'preferred');
+    assert.equal(classifyRequirement('Must have SQL', 'bonus').priority, 'required');
+    assert.equal(classifyRequirement('SQL', 'preferred').priority, 'preferred');
+  });
+});
+
+describe('classifyRequirements', () => {
+  it('takes the priority of the heading each requirement sits under', () => {
+    const classified = classifyRequirements(
+      ['5+ years of experience with Python', 'AWS Certified Solutions Architect'],
+      POSTING
+    );
+    assert.deepEqual(
+      classified.map(({ priority, category }) => [priority, category]),
+      [
+        ['required', 'experience'],
+        ['bonus', 'certification'],
+      ]
+    );
+  });
+
+  it('finds a short requirement on its own line', () => {
+    const [go] = classifyRequirements(['Go'], POSTING);
+    assert.equal(go.priority, 'bonus');
+  });
+
+  it('does not match a short requirement inside another word of an earlier line', () => {
+    const [go] = classifyRequirements(['Go'], 'Requirements:\n- Good communication\n\nBonus:\n- Go or Rust');
+    assert.equal(go.priority, 'bonus');
+  });
+
+  it('classifies a rephrased requirement from its own wording', () => {
+    const [rephrased] = classifyRequirements(['Strong Python background'], POSTING);
+    assert.equal(rephrased.priority, 'required');
+  });
+});
+
+describe('sortByPriority', () => {
+  it('puts required first and keeps the posting order within a priority', () => {
+    const sorted = sortByPriority([
+      classifyRequirement('A', 'bonus'),
+      classifyRequirement('B', 'required'),
+      classifyRequirement('C', 'preferred'),
+      classifyRequirement('D', 'required'),
+    ]);
+    assert.deepEqual(
+      sorted.map((requirement) => requirement.text),
+      ['B', 'D', 'C', 'A']
+    );
+  });
+});
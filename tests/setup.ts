@@ -0,0 +1,7 @@
+/**
+ * Test setup
+ * Runs before every test file: offline provider, no disk cache
+ */
+
+process.env.LLM_PROVIDER = 'mock';
+process.env.LLM_CACHE = 'off';
@@ -0,0 +1,80 @@
+/**
+ * Skill matcher tests
+ * Aliases, parents, and short case-sensitive names in the list layouts CVs use
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  canonicalSkillName,
+  containsTerm,
+  findSkills,
+  matchSkills,
+  normalizeSkill,
+  skillAncestors,
+} from '@/src/infrastructure/skills/skillMatcher';
+
+function namesIn(text: string): string[] {
+  return findSkills(text).map((skill) => skill.name);
+}
+
+describe('normalizeSkill', () => {
+  it('maps aliases and suffixed names to one skill', () => {
+    assert.equal(normalizeSkill('NodeJS')?.id, 'nodejs');
+    assert.equal(normalizeSkill('react.js')?.id, 'react');
+    assert.equal(normalizeSkill('Python development')?.id, 'python');
+    assert.equal(canonicalSkillName('golang'), 'Go');
+    assert.equal(canonicalSkillName('  Underwater basket weaving '), 'Underwater basket weaving');
+  });
+
+  it('lists broader skills nearest first', () => {
+    assert.deepEqual(
+      skillAncestors(normalizeSkill('Next.js')!).map((skill) => skill.id),
+      ['react', 'javascript']
+    );
+  });
+});
+
+describe('findSkills', () => {
+  it('matches on word boundaries only', () => {
+    assert.deepEqual(namesIn('Wrote JavaScript daily'), ['JavaScript']);
+    assert.equal(containsTerm('maintain the platform', 'ai'), false);
+    assert.deepEqual(namesIn('C++ and C# services'), ['C#', 'C++']);
+  });
+
+  it('reads pipe- and dot-separated skill lists', () => {
+    assert.deepEqual(namesIn('Skills: Python | Go | Rust'), ['Python', 'Go', 'Rust']);
+    assert.deepEqual(namesIn('Python · Go · Swift'), ['Python', 'Go', 'Swift']);
+  });
+
+  it('reads one skill per line', () => {
+    assert.deepEqual(namesIn('Go\nPython\nRust'), ['Python', 'Go', 'Rust']);
+  });
+
+  it('reads every line start under a skills heading', () => {
+    assert.deepEqual(namesIn('Technical Skills\nGo services and Rust tooling'), ['Go', 'Rust']);
+  });
+
+  it('does not read capitalized sentence openers as skills', () => {
+    assert.deepEqual(namesIn('Go to market strategy\nSwift delivery of projects'), []);
+    assert.deepEqual(namesIn('Express your ideas clearly'), []);
+    assert.deepEqual(namesIn('Led the R&D team; a go-to person for C-level reports'), []);
+  });
+});
+
+describe('matchSkills', () => {
+  it('counts a narrower skill as showing the broader one, not the reverse', () => {
+    assert.deepEqual(matchSkills(['JavaScript', 'React'], 'Built apps with Next.js'), {
+      matched: ['JavaScript', 'React'],
+      missing: [],
+    });
+    assert.deepEqual(matchSkills(['React'], 'Five years of JavaScript'), { matched: [], missing: ['React'] });
+  });
+
+  it('looks up skills outside the taxonomy as whole words', () => {
+    assert.deepEqual(matchSkills(['Figma', 'Salesforce'], 'Designed flows in Figma'), {
+      matched: ['Figma'],
+      missing: ['Salesforce'],
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Structured output: JSON extraction, repair loop and caching of validated results only
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { z } from 'zod';
+import { invalidateCache } from '@/src/infrastructure/inference/responseCache';
+import { extractJson, generateStructured, StructuredOutputError } from '@/src/infrastructure/inference/structuredOutput';
+import { setLLMProvider } from '@/src/infrastructure/providers/llmProvider';
+import { createMockProvider } from '@/src/infrastructure/providers/mock.provider';
+
+const schema = z.object({ answer: z.number() });
+
+/**
+ * Mock provider that replies from a list in order, repeating the last reply
+ */
+function scriptedProvider(replies: string[]) {
+  const calls: string[] = [];
+  const provider = createMockProvider((request) => {
+    calls.push(request.prompt);
+    return replies[Math.min(calls.length, replies.length) - 1];
+  });
+  return { provider, calls };
+}
+
+describe('extractJson', () => {
+  it('skips bracketed prose before the JSON', () => {
+    assert.deepEqual(extractJson('[Note] here is the JSON: {"answer": 1}'), { value: { answer: 1 } });
+    assert.deepEqual(extractJson('Fill in {name} below.\n[{"answer": 2}]'), { value: [{ answer: 2 }] });
+  });
+
+  it('reports invalid JSON when no candidate parses', () => {
+    const result = extractJson('[Note] {"answer": }');
+    assert.ok('failure' in result && result.failure === 'invalid_json');
+  });
+
+  it('drops trailing commas and smart-quote delimiters outside strings only', () => {
+    assert.deepEqual(extractJson('{"text": "a, ]", "list": [1, 2,],}'), { value: { text: 'a, ]', list: [1, 2] } });
+    assert.deepEqual(extractJson('{\u201ctext\u201d: \u201cshe said \u2018hi\u2019, }\u201d,}'), {
+      value: { text: 'she said \u2018hi\u2019, }' },
+    });
+    assert.deepEqual(extractJson('{"quote": "\u201cBest\u201d team",}'), { value: { quote: '\u201cBest\u201d team' } });
+  });
+});
+
+describe('generateStructured', () => {
+  let cacheDir: string;
+
+  // The cache is on here: these tests are about what it keeps
+  before(async () => {
+    cacheDir = await mkdtemp(path.join(tmpdir(), 'structured-cache-'));
+    process.env.LLM_CACHE = 'on';
+    process.env.LLM_CACHE_DIR = cacheDir;
+  });
+  afterEach(async () => {
+    setLLMProvider(null);
+    await invalidateCache();
+  });
+  after(async () => {
+    process.env.LLM_CACHE = 'off';
+    delete process.env.LLM_CACHE_DIR;
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('repairs a malformed reply with a re-prompt', async () => {
+    const { provider, calls } = scriptedProvider(['not json at all', '{"answer": 42}']);
+    setLLMProvider(provider);
+
+    const value = await generateStructured({ prompt: 'Question one', schema, label: 'test' });
+    assert.deepEqual(value, { answer: 42 });
+    assert.equal(calls.length, 2);
+    assert.match(calls[1], /could not be used/);
+  });
+
+  it('asks again after a malformed reply instead of serving it from the cache', async () => {
+    const first = scriptedProvider(['{"answer": "wrong"}']);
+    setLLMProvider(first.provider);
+    await assert.rejects(
+      generateStructured({ prompt: 'Question two', schema, label: 'test', maxRepairAttempts: 0 }),
+      StructuredOutputError
+    );
+
+    const second = scriptedProvider(['{"answer": 7}']);
+    setLLMProvider(second.provider);
+    const value = await generateStructured({ prompt: 'Question two', schema, label: 'test', maxRepairAttempts: 0 });
+    assert.deepEqual(value, { answer: 7 });
+    assert.equal(second.calls.length, 1);
+  });
+
+  it('serves a validated result from the cache', async () => {
+    const first = scriptedProvider(['{"answer": 1}']);
+    setLLMProvider(first.provider);
+    await generateStructured({ prompt: 'Question three', schema, label: 'test' });
+
+    const second = scriptedProvider(['{"answer": 2}']);
+    setLLMProvider(second.provider);
+    const value = await generateStructured({ prompt: 'Question three', schema, label: 'test' });
+    assert.deepEqual(value, { answer: 1 });
+    assert.equal(second.calls.length, 0);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Token budget tests
+ * Estimates per tokenizer family, the order sections are trimmed in, and chunking of long inputs
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  estimateTokens,
+  fitsContextWindow,
+  getPromptTokenLimit,
+  renderChunkedPrompts,
+  renderPromptWithinBudget,
+  splitIntoChunks,
+  truncateToTokens,
+} from '@/src/infrastructure/inference/tokenBudget';
+import { TOKEN_BUDGET } from '@/src/shared/constants';
+
+const MODEL = 'example/unknown-model';
+
+function paragraph(label: string, lines: number): string {
+  return Array.from({ length: lines }, (_, i) => `${label} line ${i + 1}: built and shipped services in TypeScript`).join('\n');
+}
+
+const VARIABLES = {
+  jobDescription: paragraph('Job', 40),
+  requirements: '- TypeScript',
+  skills: 'TypeScript',
+  cvContent: paragraph('CV', 120),
+  scoreBreakdown: 'Skills: 100/100',
+};
+
+describe('estimateTokens', () => {
+  it('uses the ratio of the tokenizer family, and the most conservative one for unknown models', () => {
+    const text = 'x'.repeat(400);
+    assert.equal(estimateTokens(text, 'meta-llama/Llama-3.1-8B-Instruct'), 100);
+    assert.equal(estimateTokens(text, 'mistralai/Mistral-7B-Instruct-v0.2'), 115);
+    assert.equal(estimateTokens(text, MODEL), 125);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('keeps the start of the text at a line boundary and marks the cut', () => {
+    const text = paragraph('CV', 50);
+    const kept = truncateToTokens(text, 100, MODEL);
+    assert.ok(estimateTokens(kept, MODEL) <= 100);
+    assert.ok(kept.startsWith('CV line 1:'));
+    assert.match(kept, /\n\[\.\.\. truncated to fit the model context window \.\.\.\]$/);
+    assert.equal(truncateToTokens('short', 100, MODEL), 'short');
+  });
+});
+
+describe('renderPromptWithinBudget', () => {
+  beforeEach(() => {
+    process.env.LLM_CONTEXT_WINDOW = '2000';
+  });
+  afterEach(() => {
+    delete process.env.LLM_CONTEXT_WINDOW;
+  });
+
+  it('leaves a prompt that fits untouched', () => {
+    const prompt = renderPromptWithinBudget('cv-match', { ...VARIABLES, cvContent: 'Short CV' }, {
+      model: MODEL,
+      maxOutputTokens: 500,
+      truncatable: ['cvContent', 'jobDescription'],
+    });
+    assert.deepEqual(prompt.budget.truncatedSections, []);
+  });
+
+  it('trims the lowest-priority section first and the next only when that is not enough', () => {
+    const first = renderPromptWithinBudget('cv-match', VARIABLES, {
+      model: MODEL,
+      maxOutputTokens: 200,
+      truncatable: ['cvContent', 'jobDescription'],
+    });
+    assert.deepEqual(
+      first.budget.truncatedSections.map((section) => section.section),
+      ['cvContent']
+    );
+    assert.ok(first.budget.promptTokens <= first.budget.availableForPrompt);
+
+    const both = renderPromptWithinBudget('cv-match', VARIABLES, {
+      model: MODEL,
+      maxOutputTokens: 1100,
+      truncatable: ['cvContent', 'jobDescription'],
+    });
+    const [cv, job] = both.budget.truncatedSections;
+    assert.equal(both.budget.truncatedSections.length, 2);
+    assert.deepEqual([cv.section, cv.keptTokens], ['cvContent', TOKEN_BUDGET.MIN_SECTION_TOKENS]);
+    assert.equal(job.section, 'jobDescription');
+    assert.ok(job.keptTokens < job.originalTokens);
+    assert.ok(both.budget.promptTokens <= both.budget.availableForPrompt);
+  });
+
+  it('never cuts a section below the minimum, even when the prompt still does not fit', () => {
+    const prompt = renderPromptWithinBudget('cv-match', VARIABLES, {
+      model: MODEL,
+      maxOutputTokens: 1700,
+      truncatable: ['cvContent'],
+    });
+    assert.equal(prompt.budget.truncatedSections[0].keptTokens, TOKEN_BUDGET.MIN_SECTION_TOKENS);
+    assert.equal(fitsContextWindow(prompt.text, 1700, MODEL), false);
+    assert.equal(prompt.budget.availableForPrompt, getPromptTokenLimit(MODEL, 1700));
+  });
+});
+
+describe('chunking', () => {
+  afterEach(() => {
+    delete process.env.LLM_CONTEXT_WINDOW;
+  });
+
+  it('splits at line boundaries within the chunk size', () => {
+    const text = paragraph('Job', 30);
+    const chunks = splitIntoChunks(text, 100, MODEL);
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every((chunk) => estimateTokens(chunk, MODEL) <= 100));
+    assert.equal(chunks.join('\n'), text);
+  });
+
+  it('renders one prompt per chunk, at most MAX_CHUNKS, and reports what was dropped', () => {
+    process.env.LLM_CONTEXT_WINDOW = '1200';
+    const prompts = renderChunkedPrompts('job-analysis', { jobDescription: paragraph('Job', 400) }, 'jobDescription', {
+      model: MODEL,
+      maxOutputTokens: 300,
+    });
+
+    assert.equal(prompts.length, TOKEN_BUDGET.MAX_CHUNKS);
+    assert.deepEqual(
+      prompts.map((prompt) => prompt.budget.chunk),
+      prompts.map((_, index) => ({ index: index + 1, total: TOKEN_BUDGET.MAX_CHUNKS }))
+    );
+    assert.equal(prompts[0].budget.truncatedSections[0].section, 'jobDescription');
+  });
+});